@@ -1,64 +1,147 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { NetworkStatusDashboard } from './components/NetworkStatusDashboard';
 import { AccountVerificationForm } from './components/AccountVerificationForm';
 import { Modal } from './components/Modal';
 import { Spinner } from './components/Spinner';
 import { BulkResultsDisplay } from './components/BulkResultsDisplay';
-import { BankStatus, AccountDetails, VerificationResultData } from './types';
-import { fetchBankStatuses, verifyAccountDetails } from './services/geminiService';
+import { BankResolutionReview, BankResolutionRow } from './components/BankResolutionReview';
+import { UnfinishedJobsBanner } from './components/UnfinishedJobsBanner';
+import { BatchApprovalQueue } from './components/BatchApprovalQueue';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { BulkPreviewGrid, BulkPreviewRow } from './components/BulkPreviewGrid';
+import { AuditLogViewer } from './components/AuditLogViewer';
+import { MaskedBvn } from './components/MaskedBvn';
+import { VaultUnlock } from './components/VaultUnlock';
+import { BankStatus, CircuitSnapshot, AccountDetails, ApproverSignIn, BatchApprovalAction, BatchApprovalEvent, BeneficiaryRecord, VerificationResultData, BulkProgress, BulkRowResult, BulkJobRecord, BulkJobSource, VerificationFailureCode, VerifiedBeneficiary, ExportFormat, PiiExportMode } from './types';
+import { APPROVAL_QUEUE_MAX_JOBS, RISK_HISTORY_MAX_JOBS } from './constants';
+import { fetchBankData, getBanks } from './services/bankRegistry';
+import { fetchBankStatuses } from './services/bankStatusService';
+import { verifyAccountDetails } from './services/verificationService';
+import { createDeferredFailure, getBankRoute } from './services/bankRouting';
+import { createBulkVerifyOptions } from './services/bulkVerifyOptions';
+import { getCircuitSnapshots } from './services/circuitBreaker';
+import { ProviderAttempts } from './components/ProviderAttempts';
+import { createFailure, failureFromError } from './services/verificationFailures';
+import { TabularData, readCsvFile } from './services/csvReader';
+import { XlsxWorkbook, isXlsxFile, openXlsxWorkbook } from './services/xlsx';
+import { downloadBulkResults } from './services/resultsExport';
+import { ColumnMapping, ColumnMappingPreset, applyColumnMappingPreset, guessColumnMapping, loadColumnMappingPresets } from './services/columnMapping';
+import { applyAccountEdit, applyBankName, readBulkRows } from './services/bulkUpload';
+import { BulkVerificationJob, createBulkVerificationJob } from './services/bulkVerificationEngine';
+import { AuditRecordInput, appendApprovalEntry, appendAuditEntry, appendRevealEntry, appendVaultResetEntry } from './services/auditLog';
+import { clearLocalData } from './services/database';
+import { isVaultCreated, isVaultUnlocked, resetVault } from './services/vault';
+import { loadOperatorName, saveOperatorName } from './services/operatorSession';
+import { checkApprovalAction, getBatchApprovalState, getExportLockReason, verifyApproverCredential } from './services/batchApproval';
+import { assessBatchRisk } from './services/riskSignals';
+import { describeMetadata } from './services/beneficiaryMetadata';
+import { describeBeneficiaryChanges, findBeneficiaryRecord, findBeneficiaryRecords, reuseBeneficiaryRecord, saveBeneficiaryRecord, withBeneficiaryChanges } from './services/beneficiaryRegistry';
+import { appendBulkJobApproval, createBulkJob, deleteBulkJob, describeFile, listFinishedBulkJobs, listUnfinishedBulkJobs, listVerifiedBeneficiaries, loadBulkJobResults, saveBulkJobResult, setBulkJobStatus, updateBulkJobAccounts } from './services/bulkJobStore';
+
+const withoutRow = (rows: Set<number>, rowIndex: number): Set<number> => {
+    if (!rows.has(rowIndex)) return rows;
+    const next = new Set(rows);
+    next.delete(rowIndex);
+    return next;
+};
 
 /**
- * Parses a single row of a CSV string, handling quoted fields.
- * @param row The CSV row string to parse.
- * @returns An array of strings representing the cells in the row.
+ * Picks the initial column mapping for an upload: the first saved preset that fits its headers, otherwise a guess from the header text.
+ * @param headers The header row of the upload.
+ * @param presets The saved presets.
+ * @returns The mapping and the name of the preset it came from, if any.
  */
-const robustParseCsvRow = (row: string): string[] => {
-    const values = [];
-    let currentVal = "";
-    let inQuotes = false;
-    
-    for (let i = 0; i < row.length; i++) {
-        const char = row[i];
-
-        if (char === '"') {
-            // Handle escaped quotes ("")
-            if (inQuotes && i + 1 < row.length && row[i+1] === '"') {
-                currentVal += '"';
-                i++; // Skip next char
-            } else {
-                inQuotes = !inQuotes;
-            }
-        } else if (char === ',' && !inQuotes) {
-            values.push(currentVal.trim());
-            currentVal = "";
-        } else {
-            currentVal += char;
-        }
+const initialColumnMapping = (headers: string[], presets: ColumnMappingPreset[]): { mapping: ColumnMapping; presetName?: string } => {
+    for (const preset of presets) {
+        const mapping = applyColumnMappingPreset(preset, headers);
+        if (mapping) return { mapping, presetName: preset.name };
     }
-    values.push(currentVal.trim());
+    return { mapping: guessColumnMapping(headers) };
+};
 
-    return values;
+/**
+ * Loads the rows verified in other batches, for the risk signals of the batch being viewed.
+ * @param jobId The batch being viewed, left out of its own history.
+ * @param before Only batches verified before this time count, when viewing an older batch.
+ * @returns The earlier rows; empty if they could not be read.
+ */
+const loadRiskHistory = (jobId: string | null, before?: string): Promise<VerifiedBeneficiary[]> =>
+    listVerifiedBeneficiaries(RISK_HISTORY_MAX_JOBS)
+        .then(history => history.filter(entry => entry.jobId !== jobId && (!before || entry.verifiedAt < before)))
+        .catch(err => {
+            console.error("Failed to load earlier batches:", err);
+            return [] as VerifiedBeneficiary[];
+        });
+
+/**
+ * Looks up the beneficiary registry for a batch. Verification goes ahead without it if it cannot be read.
+ * @param accounts The batch rows.
+ * @returns Each row's record, or null.
+ */
+const loadBeneficiaryRecords = (accounts: AccountDetails[]): Promise<(BeneficiaryRecord | null)[]> =>
+    findBeneficiaryRecords(accounts).catch(err => {
+        console.error("Failed to read the beneficiary registry:", err);
+        return accounts.map(() => null);
+    });
+
+const rememberBeneficiary = (account: AccountDetails, result: VerificationResultData) => {
+    saveBeneficiaryRecord(account, result).catch(err => console.error("Failed to update the beneficiary registry:", err));
 };
 
+interface ColumnMappingRequest {
+    table: TabularData;
+    source: BulkJobSource;
+    // Set for Excel uploads, so another sheet can be chosen.
+    workbook?: XlsxWorkbook;
+    sheetName?: string;
+    mapping: ColumnMapping;
+    presets: ColumnMappingPreset[];
+    presetName?: string;
+}
 
 const App: React.FC = () => {
     const [bankStatuses, setBankStatuses] = useState<BankStatus[]>([]);
+    const [circuits, setCircuits] = useState<CircuitSnapshot[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [isVerifying, setIsVerifying] = useState<boolean>(false);
     const [isBulkVerifying, setIsBulkVerifying] = useState<boolean>(false);
     const [verificationResult, setVerificationResult] = useState<VerificationResultData | null>(null);
-    const [bulkResults, setBulkResults] = useState<VerificationResultData[]>([]);
+    const [bulkResults, setBulkResults] = useState<BulkRowResult[]>([]);
+    // The batch shown in the results window, kept so rows can be corrected, re-verified and approved.
+    const [bulkBatch, setBulkBatch] = useState<{
+        accounts: AccountDetails[];
+        storedJobId: string | null;
+        approvalHistory: BatchApprovalEvent[];
+        riskHistory: VerifiedBeneficiary[];
+    } | null>(null);
+    const [reverifyingRows, setReverifyingRows] = useState<Set<number>>(new Set());
+    // Rows of the open batch held back because their bank is offline.
+    const [deferredRows, setDeferredRows] = useState<Set<number>>(new Set());
+    const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+    const bulkJobRef = useRef<BulkVerificationJob | null>(null);
     const [networkError, setNetworkError] = useState<string | null>(null); // For non-modal errors
     const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
     const [isBulkModalOpen, setIsBulkModalOpen] = useState<boolean>(false);
+    const [pendingBulkRows, setPendingBulkRows] = useState<BankResolutionRow[]>([]);
+    const [bankReviewRows, setBankReviewRows] = useState<BankResolutionRow[]>([]);
+    const [pendingBulkSource, setPendingBulkSource] = useState<BulkJobSource | null>(null);
+    const [unfinishedJobs, setUnfinishedJobs] = useState<BulkJobRecord[]>([]);
+    const [finishedJobs, setFinishedJobs] = useState<BulkJobRecord[]>([]);
+    const [columnMappingRequest, setColumnMappingRequest] = useState<ColumnMappingRequest | null>(null);
+    const [bulkPreview, setBulkPreview] = useState<{ rows: BulkPreviewRow[]; fileNotes: string[]; source: BulkJobSource; history: VerifiedBeneficiary[] } | null>(null);
+    const [operator, setOperator] = useState<string>(() => loadOperatorName());
+    const [isAuditLogOpen, setIsAuditLogOpen] = useState<boolean>(false);
+    const [isUnlocked, setIsUnlocked] = useState<boolean>(() => isVaultUnlocked());
+    const [isVaultNew, setIsVaultNew] = useState<boolean>(() => !isVaultCreated());
 
     const loadNetworkStatus = useCallback(async () => {
         setIsLoading(true);
         try {
             const statuses = await fetchBankStatuses();
             setBankStatuses(statuses);
+            setCircuits(getCircuitSnapshots());
             setNetworkError(null);
         } catch (err) {
             setNetworkError('Failed to fetch bank network statuses.');
@@ -73,196 +156,485 @@ const App: React.FC = () => {
         return () => clearInterval(interval);
     }, [loadNetworkStatus]);
 
+    const loadApprovalQueue = useCallback(() => {
+        listFinishedBulkJobs(APPROVAL_QUEUE_MAX_JOBS)
+            .then(setFinishedJobs)
+            .catch(err => console.error("Failed to load finished bulk jobs:", err));
+    }, []);
+
+    useEffect(() => {
+        // Saved jobs are encrypted and cannot be read until the operator unlocks them
+        if (!isUnlocked) return;
+        listUnfinishedBulkJobs()
+            .then(setUnfinishedJobs)
+            .catch(err => console.error("Failed to load unfinished bulk jobs:", err));
+        loadApprovalQueue();
+    }, [isUnlocked, loadApprovalQueue]);
+
+    const batchRisks = useMemo(
+        () => (bulkBatch ? assessBatchRisk(bulkBatch.accounts.map((account, index) => ({ rowNumber: index + 1, account })), bulkBatch.riskHistory) : []),
+        [bulkBatch?.accounts, bulkBatch?.riskHistory]
+    );
+    // Only saved batches can be approved, and only once every row has a result
+    const isBatchComplete = !!bulkBatch && !isBulkVerifying && bulkResults.length >= bulkBatch.accounts.length;
+    const approvalState = bulkBatch?.storedJobId ? getBatchApprovalState(bulkBatch.approvalHistory, isBatchComplete) : undefined;
+
+    const handleOperatorChange = (name: string) => {
+        setOperator(name);
+        saveOperatorName(name);
+    };
+
+    const handleUnlocked = (name: string) => {
+        handleOperatorChange(name);
+        setIsUnlocked(true);
+        setIsVaultNew(false);
+    };
+
+    const handleVaultReset = async (name: string) => {
+        // Logged before anything is erased, so the reset cannot happen without a trace
+        await appendVaultResetEntry(name);
+        await clearLocalData();
+        resetVault();
+        setIsVaultNew(true);
+    };
+
+    /**
+     * Every verification is logged against an operator, so none can start until one is entered.
+     * @returns Whether an operator is set; if not, the user is asked to enter one.
+     */
+    const ensureOperator = (): boolean => {
+        if (operator) return true;
+        setVerificationResult({ success: false, message: 'Enter your name as the operator at the top of the page before verifying accounts. It is recorded in the audit log.', data: null });
+        setIsModalOpen(true);
+        return false;
+    };
+
+    const recordAudit = (record: Omit<AuditRecordInput, 'operator'>) => {
+        appendAuditEntry({ ...record, operator }).catch(err => console.error("Failed to write audit log entry:", err));
+    };
+
+    const logBvnReveal = (account: AccountDetails, context: string) => {
+        appendRevealEntry(operator, account, context).catch(err => console.error("Failed to write audit log entry:", err));
+    };
+
+    const handleResultsDownload = (format: ExportFormat, piiMode: PiiExportMode, successfulOnly: boolean) => {
+        const lockReason = getExportLockReason(approvalState, successfulOnly, piiMode);
+        if (lockReason) {
+            setVerificationResult({ success: false, message: lockReason, data: null });
+            setIsModalOpen(true);
+            return;
+        }
+        downloadBulkResults(bulkResults, format, successfulOnly, piiMode, operator, bulkBatch?.storedJobId ?? null, approvalState).catch(err => {
+            console.error("Failed to export results:", err);
+            setVerificationResult({ success: false, message: 'The results could not be downloaded. Downloads with hashed or full IDs are recorded in the audit log first, and nothing is downloaded if that fails.', data: null });
+            setIsModalOpen(true);
+        });
+    };
+
     const handleVerification = async (details: AccountDetails) => {
+        if (!ensureOperator()) return;
+        const record = await findBeneficiaryRecord(details).catch(err => {
+            console.error("Failed to read the beneficiary registry:", err);
+            return null;
+        });
+        const reused = reuseBeneficiaryRecord(details, record);
+        if (reused) {
+            setVerificationResult(reused);
+            recordAudit({ action: 'single', account: details, result: reused });
+            setIsModalOpen(true);
+            return;
+        }
+        if (getBankRoute(details.bankName).defer) {
+            const deferred = createDeferredFailure(details);
+            setVerificationResult(deferred);
+            recordAudit({ action: 'single', account: details, result: deferred });
+            setIsModalOpen(true);
+            return;
+        }
         setIsVerifying(true);
         setVerificationResult(null);
         try {
-            const result = await verifyAccountDetails(details);
+            const result = withBeneficiaryChanges(details, await verifyAccountDetails(details), record);
             setVerificationResult(result);
+            recordAudit({ action: 'single', account: details, result });
+            rememberBeneficiary(details, result);
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during verification.';
-            setVerificationResult({ success: false, message: errorMessage, data: details });
+            const failure = withBeneficiaryChanges(details, failureFromError(err, details), record);
+            setVerificationResult(failure);
+            recordAudit({ action: 'single', account: details, result: failure });
         } finally {
             setIsVerifying(false);
             setIsModalOpen(true);
+            setCircuits(getCircuitSnapshots());
         }
     };
 
-    const handleBulkUpload = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            const text = e.target?.result as string;
-            if (!text) {
-                setVerificationResult({ success: false, message: "Could not read the file.", data: null });
-                setIsModalOpen(true);
-                return;
+    const runBulkVerification = async (accountsToVerify: AccountDetails[], source: BulkJobSource) => {
+        // Picking banks in the review step can turn two rows into the same account. The later row is
+        // kept as a failed result that can be corrected, rather than rejecting the whole upload.
+        const firstSeen = new Map<string, number>();
+        const duplicateResults = accountsToVerify.map((account, index): BulkRowResult | undefined => {
+            const key = `${account.accountNumber.trim()}|${account.bankName.trim().toLowerCase()}`;
+            const earlier = firstSeen.get(key);
+            if (earlier === undefined) {
+                firstSeen.set(key, index);
+                return undefined;
             }
+            const failure = createFailure(VerificationFailureCode.DUPLICATE, account, `Same account and bank as row ${earlier + 1}.`);
+            return { ...failure, provider: 'local', rowIndex: index, attempts: 1 };
+        });
 
-            const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-            if (lines.length <= 1) {
-                setVerificationResult({ success: false, message: "CSV file is empty or contains only a header.", data: null });
-                setIsModalOpen(true);
-                return;
-            }
-            
-            const header = robustParseCsvRow(lines[0]);
-            const requiredHeaders = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn'];
-            const missingHeaders = requiredHeaders.filter(rh => !header.includes(rh));
-
-            if (missingHeaders.length > 0) {
-                const errorMessage = `Invalid CSV header. Missing required columns: ${missingHeaders.join(', ')}.`;
-                setVerificationResult({ success: false, message: errorMessage, data: null });
-                setIsModalOpen(true);
-                return;
-            }
-            
-            const headerMap = header.reduce((acc, col, index) => {
-                acc[col.trim()] = index;
-                return acc;
-            }, {} as Record<string, number>);
-
-            const accountsToVerify: AccountDetails[] = [];
-            const parsingErrors: string[] = [];
+        let storedJobId: string | null = null;
+        try {
+            storedJobId = (await createBulkJob(source, accountsToVerify)).id;
+        } catch (err) {
+            // Verification still works without persistence; the job just cannot be resumed.
+            console.error("Failed to save bulk job:", err);
+        }
+        const initialResults = duplicateResults.some(Boolean) ? duplicateResults : undefined;
+        if (storedJobId && initialResults) {
+            const jobId = storedJobId;
+            await Promise.all(initialResults.filter((r): r is BulkRowResult => !!r).map(result => saveBulkJobResult(jobId, result)))
+                .catch(err => console.error("Failed to save bulk result:", err));
+        }
+        await startBulkJob(accountsToVerify, storedJobId, initialResults);
+    };
 
-            lines.slice(1).forEach((line, index) => {
-                const data = robustParseCsvRow(line);
+    /**
+     * Runs a bulk job over a new or resumed batch. Rows with a recent registry verification are reused
+     * instead of being sent, and every result is audited and saved to the stored job as it arrives.
+     * The stored job is marked completed or cancelled when the run ends.
+     * @param accountsToVerify The batch rows.
+     * @param storedJobId The saved job, or null if the batch could not be saved.
+     * @param savedResults Results from an earlier run, by row, which are not verified again.
+     */
+    const startBulkJob = async (accountsToVerify: AccountDetails[], storedJobId: string | null, savedResults?: (BulkRowResult | undefined)[]) => {
+        // Rows verified recently enough are taken from the registry and skipped by the job
+        const records = await loadBeneficiaryRecords(accountsToVerify);
+        const reusedResults = accountsToVerify.map((account, index): BulkRowResult | undefined => {
+            if (savedResults?.[index]) return undefined;
+            const reused = reuseBeneficiaryRecord(account, records[index]);
+            return reused ? { ...reused, rowIndex: index, attempts: 1 } : undefined;
+        });
+        reusedResults.forEach((result, index) => {
+            if (!result) return;
+            recordAudit({ action: 'bulk', account: accountsToVerify[index], result, jobId: storedJobId, rowIndex: index });
+            if (storedJobId) {
+                saveBulkJobResult(storedJobId, result).catch(err => console.error("Failed to save bulk result:", err));
+            }
+        });
+        const initialResults = reusedResults.some(Boolean)
+            ? reusedResults.map((result, index) => savedResults?.[index] ?? result)
+            : savedResults;
 
-                if (data.length !== header.length) {
-                    parsingErrors.push(`Row ${index + 2}: Mismatched column count. Expected ${header.length}, but found ${data.length}.`);
-                    return; // Skip this malformed row
-                }
-                
-                const account: AccountDetails = {
-                    beneficiaryName: data[headerMap['beneficiaryName']] ?? '',
-                    bankName: data[headerMap['bankName']] ?? '',
-                    accountNumber: data[headerMap['accountNumber']] ?? '',
-                    bvn: data[headerMap['bvn']] ?? '',
-                };
-                
-                // Only add if it's not a completely empty row
-                if (Object.values(account).some(val => val.trim() !== '')) {
-                     accountsToVerify.push(account);
+        const job = createBulkVerificationJob(accountsToVerify, {
+            ...createBulkVerifyOptions(await fetchBankData()),
+            initialResults,
+            onDeferred: index => {
+                if (bulkJobRef.current === job) setDeferredRows(prev => new Set(prev).add(index));
+            },
+            onResult: (index, verified) => {
+                const result = withBeneficiaryChanges(accountsToVerify[index], verified, records[index]);
+                const rowResult: BulkRowResult = { ...result, rowIndex: index, attempts: 1 };
+                rememberBeneficiary(accountsToVerify[index], result);
+                if (bulkJobRef.current === job) setDeferredRows(prev => withoutRow(prev, index));
+                recordAudit({ action: 'bulk', account: accountsToVerify[index], result, jobId: storedJobId, rowIndex: index });
+                if (storedJobId) {
+                    saveBulkJobResult(storedJobId, rowResult).catch(err => console.error("Failed to save bulk result:", err));
                 }
-            });
+                if (bulkJobRef.current === job) setBulkResults(prev => [...prev, rowResult]);
+            },
+            onProgress: progress => {
+                if (bulkJobRef.current === job) setBulkProgress(progress);
+                setCircuits(getCircuitSnapshots());
+            },
+        });
+        bulkJobRef.current = job;
 
-            if (parsingErrors.length > 0) {
-                 const errorMessage = `Could not parse the CSV file due to formatting issues:\n\n${parsingErrors.join('\n')}`;
-                 setVerificationResult({ success: false, message: errorMessage, data: null });
-                 setIsModalOpen(true);
-                 return;
+        setBulkBatch({ accounts: accountsToVerify, storedJobId, approvalHistory: [], riskHistory: await loadRiskHistory(storedJobId) });
+        setBulkResults((initialResults ?? []).filter((r): r is BulkRowResult => !!r));
+        setBulkProgress(job.getProgress());
+        setIsBulkVerifying(true);
+        setIsBulkModalOpen(true);
+        try {
+            await job.run();
+            if (storedJobId) {
+                const status = job.getProgress().state === 'cancelled' ? 'cancelled' : 'completed';
+                await setBulkJobStatus(storedJobId, status).catch(err => console.error("Failed to update bulk job:", err));
+                loadApprovalQueue();
             }
+        } finally {
+            bulkJobRef.current = null;
+            setIsBulkVerifying(false);
+        }
+    };
 
-            // Check for duplicates
-            const seen = new Map<string, number>();
-            accountsToVerify.forEach(account => {
-                const key = `${account.accountNumber.trim()}-${account.bankName.trim()}`.toLowerCase();
-                if(key !== '-') {
-                    seen.set(key, (seen.get(key) || 0) + 1);
-                }
-            });
+    const handleReverify = async (rowIndexes: number[], edits: Record<number, AccountDetails>) => {
+        const batch = bulkBatch;
+        if (!batch || rowIndexes.length === 0 || bulkJobRef.current || !ensureOperator()) return;
 
-            const duplicates = Array.from(seen.entries())
-                .filter(([, count]) => count > 1)
-                .map(([key]) => key);
-            
-            if (duplicates.length > 0) {
-                const duplicateMessages = duplicates.map(d => {
-                    const [acc, bank] = d.split('-');
-                    return `Account ${acc} at ${bank}`;
-                }).join('; ');
-                const errorMessage = `Duplicate entries found in the file. Please remove them and try again. Duplicates: ${duplicateMessages}.`;
-                setVerificationResult({ success: false, message: errorMessage, data: null });
+        // Changing rows withdraws a pending or granted approval, so the batch has to be approved again
+        let approvalHistory = batch.approvalHistory;
+        if (batch.storedJobId && (approvalState === 'submitted' || approvalState === 'approved')) {
+            const rowList = rowIndexes.map(rowIndex => rowIndex + 1).join(', ');
+            const event: BatchApprovalEvent = {
+                action: 'reopened',
+                operator,
+                at: new Date().toISOString(),
+                comment: `Re-verified ${rowIndexes.length === 1 ? 'row' : 'rows'} ${rowList}.`,
+            };
+            try {
+                await appendApprovalEntry(batch.storedJobId, event);
+                approvalHistory = await appendBulkJobApproval(batch.storedJobId, event);
+            } catch (err) {
+                console.error("Failed to reopen batch:", err);
+                setVerificationResult({ success: false, message: 'The batch could not be reopened for changes, so the rows were not re-verified.', data: null });
                 setIsModalOpen(true);
                 return;
             }
+            loadApprovalQueue();
+        }
 
+        const accounts = batch.accounts.map((account, index) => (edits[index] ? applyAccountEdit(account, edits[index]) : account));
+        setBulkBatch({ ...batch, accounts, approvalHistory });
+        if (batch.storedJobId && Object.keys(edits).length > 0) {
+            // Store the corrected rows as verified, so a reopened batch does not bring back the old bank's sort code
+            const corrected = Object.fromEntries(Object.keys(edits).map(rowIndex => [rowIndex, accounts[Number(rowIndex)]]));
+            updateBulkJobAccounts(batch.storedJobId, corrected).catch(err => console.error("Failed to save corrected rows:", err));
+        }
 
-            setIsBulkVerifying(true);
-            setBulkResults([]);
-            
-            const results: VerificationResultData[] = [];
-            for (const account of accountsToVerify) {
-                try {
-                    const result = await verifyAccountDetails(account);
-                    results.push(result);
-                } catch (err) {
-                     const message = err instanceof Error ? err.message : 'An unknown error occurred.';
-                     results.push({ success: false, message, data: account });
-                }
+        const attemptsByRow = new Map<number, number>(bulkResults.map(r => [r.rowIndex, r.attempts]));
+        const record = (rowIndex: number, result: VerificationResultData) => {
+            const rowResult: BulkRowResult = { ...result, rowIndex, attempts: (attemptsByRow.get(rowIndex) ?? 0) + 1 };
+            recordAudit({ action: 'reverify', account: accounts[rowIndex], result, jobId: batch.storedJobId, rowIndex });
+            if (batch.storedJobId) {
+                saveBulkJobResult(batch.storedJobId, rowResult).catch(err => console.error("Failed to save bulk result:", err));
             }
-            
-            setBulkResults(results);
-            setIsBulkVerifying(false);
-            setIsBulkModalOpen(true);
+            // Deferred or never-run rows have no earlier result to replace
+            setBulkResults(prev => (prev.some(r => r.rowIndex === rowIndex)
+                ? prev.map(r => (r.rowIndex === rowIndex ? rowResult : r))
+                : [...prev, rowResult]));
+            setReverifyingRows(prev => withoutRow(prev, rowIndex));
+            setDeferredRows(prev => withoutRow(prev, rowIndex));
         };
-        reader.onerror = () => {
-             setVerificationResult({ success: false, message: "Failed to read the file.", data: null });
-             setIsModalOpen(true);
+
+        // A correction can turn a row into a copy of another row in the batch
+        const accountKey = (account: AccountDetails) => `${account.accountNumber.trim()}|${account.bankName.trim().toLowerCase()}`;
+        const rowsToVerify: number[] = [];
+        rowIndexes.forEach(rowIndex => {
+            const key = accountKey(accounts[rowIndex]);
+            const other = accounts.findIndex((account, index) => index !== rowIndex && accountKey(account) === key);
+            if (other === -1) {
+                rowsToVerify.push(rowIndex);
+            } else {
+                record(rowIndex, { ...createFailure(VerificationFailureCode.DUPLICATE, accounts[rowIndex], `Same account and bank as row ${other + 1}.`), provider: 'local' });
+            }
+        });
+        if (rowsToVerify.length === 0) return;
+
+        // Re-verified rows always go to the provider; the registry only highlights changes and is kept up to date
+        const records = await loadBeneficiaryRecords(rowsToVerify.map(rowIndex => accounts[rowIndex]));
+        const job = createBulkVerificationJob(rowsToVerify.map(rowIndex => accounts[rowIndex]), {
+            ...createBulkVerifyOptions(await fetchBankData()),
+            onDeferred: index => {
+                if (bulkJobRef.current === job) setDeferredRows(prev => new Set(prev).add(rowsToVerify[index]));
+            },
+            onResult: (index, verified) => {
+                const rowIndex = rowsToVerify[index];
+                const result = withBeneficiaryChanges(accounts[rowIndex], verified, records[index]);
+                rememberBeneficiary(accounts[rowIndex], result);
+                record(rowIndex, result);
+            },
+            onProgress: progress => {
+                if (bulkJobRef.current === job) setBulkProgress(progress);
+                setCircuits(getCircuitSnapshots());
+            },
+        });
+        bulkJobRef.current = job;
+
+        setReverifyingRows(new Set(rowsToVerify));
+        setBulkProgress(job.getProgress());
+        setIsBulkVerifying(true);
+        try {
+            await job.run();
+        } finally {
+            bulkJobRef.current = null;
+            setReverifyingRows(new Set());
+            setIsBulkVerifying(false);
         }
-        reader.readAsText(file);
     };
-    
-    const handleDownloadResults = () => {
-        const successfulResults = bulkResults.filter(r => r.success && r.data);
-        if (successfulResults.length === 0) return;
-
-        const headers = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn'];
-        const rows = successfulResults.map(r => {
-            const data = r.data as AccountDetails;
-            return [data.beneficiaryName, data.bankName, data.accountNumber, data.bvn].join(',');
+
+    const handleBankReviewConfirm = async (selections: Record<number, string | null>) => {
+        const accounts = pendingBulkRows.flatMap(row => {
+            const bankName = row.rowNumber in selections ? selections[row.rowNumber] : row.resolution.bank?.name;
+            return bankName ? [applyBankName(row.account, bankName)] : [];
         });
+        const source = pendingBulkSource;
+        setBankReviewRows([]);
+        setPendingBulkRows([]);
+        setPendingBulkSource(null);
+        if (accounts.length > 0 && source) {
+            await runBulkVerification(accounts, source);
+        }
+    };
+
+    const handleBankReviewCancel = () => {
+        setBankReviewRows([]);
+        setPendingBulkRows([]);
+        setPendingBulkSource(null);
+    };
 
-        const csvContent = [headers.join(','), ...rows].join('\n');
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        if (link.href) {
-            URL.revokeObjectURL(link.href);
+    const handleResumeJob = async (job: BulkJobRecord) => {
+        if (!ensureOperator()) return;
+        setUnfinishedJobs(prev => prev.filter(j => j.id !== job.id));
+        try {
+            const results = await loadBulkJobResults(job.id);
+            await startBulkJob(job.accounts, job.id, results);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setVerificationResult({ success: false, message: `Could not resume the bulk job: ${message}`, data: null });
+            setIsModalOpen(true);
         }
-        const url = URL.createObjectURL(blob);
-        link.href = url;
-        link.setAttribute('download', 'successful_verifications.csv');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
     };
 
-    const handleDownloadAllResults = () => {
-        if (bulkResults.length === 0) return;
-
-        const headers = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn', 'status', 'message'];
-        
-        const rows = bulkResults.map(r => {
-            const data = r.data;
-            // Safely format for CSV, escaping quotes and wrapping in quotes if it contains a comma
-            const formatCsvField = (field: string) => {
-                const cleanField = field.replace(/"/g, '""');
-                return /[",\n]/.test(cleanField) ? `"${cleanField}"` : cleanField;
-            };
+    const handleDiscardJob = async (job: BulkJobRecord) => {
+        setUnfinishedJobs(prev => prev.filter(j => j.id !== job.id));
+        await deleteBulkJob(job.id).catch(err => console.error("Failed to delete bulk job:", err));
+    };
+
+    const handleOpenBatch = async (job: BulkJobRecord) => {
+        if (bulkJobRef.current) return;
+        try {
+            const [results, riskHistory] = await Promise.all([loadBulkJobResults(job.id), loadRiskHistory(job.id, job.createdAt)]);
+            setBulkBatch({ accounts: job.accounts, storedJobId: job.id, approvalHistory: job.approvalHistory ?? [], riskHistory });
+            setBulkResults(results.filter((r): r is BulkRowResult => !!r));
+            setBulkProgress(null);
+            setIsBulkModalOpen(true);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+            setVerificationResult({ success: false, message: `Could not open the batch: ${message}`, data: null });
+            setIsModalOpen(true);
+        }
+    };
+
+    /**
+     * Records an approval action on the open batch. The rules are checked again here, not only by the panel's buttons.
+     * Approvals and rejections are taken by the approver who signed in, not the operator named in the header,
+     * and every action is written to the audit log before it is saved on the batch.
+     * @param action The action to take.
+     * @param comment The operator's comment.
+     * @param signIn The approver's name and passphrase, for approvals and rejections.
+     */
+    const handleApprovalAction = async (action: BatchApprovalAction, comment: string, signIn?: ApproverSignIn) => {
+        const batch = bulkBatch;
+        if (!batch?.storedJobId || !approvalState) return;
+        let actor = operator;
+        if (action === 'approved' || action === 'rejected') {
+            const approver = signIn ? await verifyApproverCredential(signIn.approver, signIn.passphrase) : null;
+            if (!approver) throw new Error('The approver name or passphrase is incorrect.');
+            actor = approver;
+        }
+        const problem = checkApprovalAction(action, approvalState, batch.approvalHistory, actor, comment);
+        if (problem) throw new Error(problem);
+        const event: BatchApprovalEvent = { action, operator: actor, at: new Date().toISOString(), ...(comment ? { comment } : {}) };
+        await appendApprovalEntry(batch.storedJobId, event);
+        const approvalHistory = await appendBulkJobApproval(batch.storedJobId, event);
+        setBulkBatch(prev => (prev?.storedJobId === batch.storedJobId ? { ...prev, approvalHistory } : prev));
+        loadApprovalQueue();
+    };
+
+    const handleBulkUpload = async (file: File) => {
+        if (!ensureOperator()) return;
+        let table: TabularData;
+        let workbook: XlsxWorkbook | undefined;
+        let sheetName: string | undefined;
+        try {
+            if (isXlsxFile(file)) {
+                workbook = await openXlsxWorkbook(file);
+                sheetName = workbook.sheetNames[0];
+                table = sheetName !== undefined ? await workbook.readSheet(sheetName) : { header: null, rows: [], errors: [] };
+            } else {
+                table = await readCsvFile(file);
+            }
+        } catch (err) {
+            console.error("Failed to read bulk upload:", err);
+            setVerificationResult({ success: false, message: "Failed to read the file.", data: null });
+            setIsModalOpen(true);
+            return;
+        }
+
+        // A workbook whose first sheet is empty may still have data on another sheet
+        if ((!table.header || table.rows.length === 0) && !(workbook && workbook.sheetNames.length > 1)) {
+            setVerificationResult({ success: false, message: "The file is empty or contains only a header.", data: null });
+            setIsModalOpen(true);
+            return;
+        }
 
-            return [
-                data?.beneficiaryName || '',
-                data?.bankName || '',
-                data?.accountNumber || '',
-                data?.bvn || '',
-                r.success ? 'Success' : 'Failed',
-                formatCsvField(r.message)
-            ].join(',');
+        const presets = loadColumnMappingPresets();
+        setColumnMappingRequest({
+            table,
+            source: describeFile(file),
+            workbook,
+            sheetName,
+            presets,
+            ...initialColumnMapping(table.header?.values ?? [], presets),
         });
+    };
 
-        const csvContent = [headers.join(','), ...rows].join('\n');
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        if (link.href) {
-            URL.revokeObjectURL(link.href);
+    const handleSheetChange = async (sheetName: string) => {
+        const request = columnMappingRequest;
+        if (!request?.workbook) return;
+        try {
+            const table = await request.workbook.readSheet(sheetName);
+            const presets = loadColumnMappingPresets();
+            setColumnMappingRequest({
+                ...request,
+                table,
+                sheetName,
+                presets,
+                presetName: undefined,
+                ...initialColumnMapping(table.header?.values ?? [], presets),
+            });
+        } catch (err) {
+            console.error("Failed to read worksheet:", err);
         }
-        const url = URL.createObjectURL(blob);
-        link.href = url;
-        link.setAttribute('download', 'all_verification_results.csv');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
     };
 
+    const handleColumnMappingConfirm = async (mapping: ColumnMapping) => {
+        if (!columnMappingRequest) return;
+        const { table, source, workbook } = columnMappingRequest;
+        setColumnMappingRequest(null);
+
+        if (!table.header || table.rows.length === 0) {
+            setVerificationResult({ success: false, message: "The selected sheet is empty or contains only a header.", data: null });
+            setIsModalOpen(true);
+            return;
+        }
+
+        const { rows: previewRows, fileNotes } = readBulkRows(table, mapping, !!workbook);
+        // Earlier batches are only used for risk signals; the upload goes ahead without them
+        const history = await listVerifiedBeneficiaries(RISK_HISTORY_MAX_JOBS).catch(err => {
+            console.error("Failed to load earlier batches:", err);
+            return [] as VerifiedBeneficiary[];
+        });
+        setBulkPreview({ rows: previewRows, fileNotes, source, history });
+    };
+
+    const handleBulkPreviewConfirm = async (rows: BankResolutionRow[]) => {
+        const source = bulkPreview?.source;
+        setBulkPreview(null);
+        if (!source || rows.length === 0) return;
+
+        const unresolvedRows = rows.filter(row => row.resolution.status !== 'resolved');
+        if (unresolvedRows.length > 0) {
+            setPendingBulkRows(rows);
+            setPendingBulkSource(source);
+            setBankReviewRows(unresolvedRows);
+            return;
+        }
+
+        await runBulkVerification(rows.map(row => applyBankName(row.account, row.resolution.bank!.name)), source);
+    };
 
     const closeModal = () => {
         setIsModalOpen(false);
@@ -270,8 +642,13 @@ const App: React.FC = () => {
     };
     
     const closeBulkModal = () => {
+        bulkJobRef.current?.cancel();
         setIsBulkModalOpen(false);
         setBulkResults([]);
+        setBulkProgress(null);
+        setBulkBatch(null);
+        setReverifyingRows(new Set());
+        setDeferredRows(new Set());
     };
 
     const VerificationResultContent: React.FC = () => {
@@ -284,25 +661,38 @@ const App: React.FC = () => {
                         <svg className="mx-auto h-16 w-16 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <h3 className="mt-4 text-2xl font-bold text-gray-800">Verification Successful</h3>
+                        <h3 className="mt-4 text-2xl font-bold text-gray-800">{verificationResult.previouslyVerified ? 'Previously Verified' : 'Verification Successful'}</h3>
                         <p className="mt-2 text-gray-600">{verificationResult.message}</p>
                         <div className="mt-6 text-left bg-gray-50 p-4 rounded-lg border border-gray-200">
                            <h4 className="font-semibold text-gray-700 mb-3">Verified Details:</h4>
                            <ul className="space-y-2 text-sm text-gray-600">
                                <li><strong>Beneficiary:</strong> {verificationResult.data?.beneficiaryName}</li>
+                               {verificationResult.nameMatchGrade && (
+                                   <li><strong>Name Match:</strong> {verificationResult.nameMatchGrade} ({Math.round((verificationResult.nameMatchScore ?? 0) * 100)}%)</li>
+                               )}
                                <li><strong>Bank:</strong> {verificationResult.data?.bankName}</li>
                                <li><strong>Account Number:</strong> {verificationResult.data?.accountNumber}</li>
-                               <li><strong>BVN:</strong> {verificationResult.data?.bvn}</li>
+                               {verificationResult.data && describeMetadata(verificationResult.data) && (
+                                   <li><strong>Program and Location:</strong> {describeMetadata(verificationResult.data)}</li>
+                               )}
+                               {verificationResult.data && (
+                                   <li><strong>BVN:</strong> <MaskedBvn bvn={verificationResult.data.bvn} onReveal={() => logBvnReveal(verificationResult.data!, 'the verification result')} /></li>
+                               )}
                            </ul>
                         </div>
                     </div>
                 ) : (
                     <div>
-                         <svg className="mx-auto h-16 w-16 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                         <svg className={`mx-auto h-16 w-16 ${verificationResult.deferred ? 'text-yellow-500' : 'text-red-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <h3 className="mt-4 text-2xl font-bold text-gray-800">Verification Failed</h3>
-                        <p className="mt-2 text-gray-600 bg-red-50 p-3 rounded-md whitespace-pre-wrap">{verificationResult.message}</p>
+                        <h3 className="mt-4 text-2xl font-bold text-gray-800">{verificationResult.deferred ? 'Not Sent: Bank Offline' : 'Verification Failed'}</h3>
+                        {verificationResult.failureCode && (
+                            <p className="mt-1 text-sm font-mono text-red-700">
+                                {verificationResult.failureCode}{verificationResult.retryable ? ' · you can try again' : ''}
+                            </p>
+                        )}
+                        <p className={`mt-2 text-gray-600 ${verificationResult.deferred ? 'bg-yellow-50' : 'bg-red-50'} p-3 rounded-md whitespace-pre-wrap`}>{verificationResult.message}</p>
                         {verificationResult.data && (
                             <div className="mt-6 text-left bg-gray-50 p-4 rounded-lg border border-gray-200">
                                <h4 className="font-semibold text-gray-700 mb-3">Submitted Details:</h4>
@@ -310,24 +700,61 @@ const App: React.FC = () => {
                                    <li><strong>Beneficiary:</strong> {verificationResult.data.beneficiaryName}</li>
                                    <li><strong>Bank:</strong> {verificationResult.data.bankName}</li>
                                    <li><strong>Account Number:</strong> {verificationResult.data.accountNumber}</li>
-                                   <li><strong>BVN:</strong> {verificationResult.data.bvn}</li>
+                                   {describeMetadata(verificationResult.data) && (
+                                       <li><strong>Program and Location:</strong> {describeMetadata(verificationResult.data)}</li>
+                                   )}
+                                   <li><strong>BVN:</strong> <MaskedBvn bvn={verificationResult.data.bvn} onReveal={() => logBvnReveal(verificationResult.data!, 'the verification result')} /></li>
                                </ul>
                             </div>
                         )}
                     </div>
                 )}
+                {verificationResult.registryChanges && (
+                    <div className="mt-4 text-left bg-orange-50 border border-orange-200 rounded-md p-3 text-sm text-orange-800">
+                        <p className="font-semibold">Changed since the last verification</p>
+                        <ul className="list-disc list-inside mt-1">
+                            {describeBeneficiaryChanges(verificationResult.registryChanges).map(change => <li key={change}>{change}</li>)}
+                        </ul>
+                    </div>
+                )}
+                {verificationResult.providerAttempts && (verificationResult.providerAttempts.length > 1 || !verificationResult.success) && (
+                    <ProviderAttempts attempts={verificationResult.providerAttempts} />
+                )}
             </div>
         );
     };
 
+    if (!isUnlocked) {
+        return (
+            <div className="min-h-screen bg-light-bg text-dark-text font-sans">
+                <main className="container mx-auto p-4 md:p-8">
+                    <VaultUnlock
+                        key={isVaultNew ? 'new' : 'existing'}
+                        isNew={isVaultNew}
+                        initialOperator={operator}
+                        onUnlocked={handleUnlocked}
+                        onReset={handleVaultReset}
+                    />
+                </main>
+            </div>
+        );
+    }
+
     return (
         <div className="min-h-screen bg-light-bg text-dark-text font-sans">
-            <Header />
+            <Header operator={operator} onOperatorChange={handleOperatorChange} onOpenAuditLog={() => setIsAuditLogOpen(true)} />
             <main className="container mx-auto p-4 md:p-8">
                  {networkError && <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6" role="alert"><p>{networkError}</p></div>}
+                 <UnfinishedJobsBanner
+                    jobs={unfinishedJobs}
+                    disabled={isBulkVerifying}
+                    onResume={handleResumeJob}
+                    onDiscard={handleDiscardJob}
+                 />
+                 <BatchApprovalQueue jobs={finishedJobs} disabled={isBulkVerifying} onOpen={handleOpenBatch} />
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                     <div className="lg:col-span-1">
-                        <NetworkStatusDashboard statuses={bankStatuses} isLoading={isLoading} onRefresh={loadNetworkStatus} />
+                        <NetworkStatusDashboard statuses={bankStatuses} circuits={circuits} isLoading={isLoading} onRefresh={loadNetworkStatus} />
                     </div>
                     <div className="lg:col-span-2">
                        <AccountVerificationForm 
@@ -342,14 +769,71 @@ const App: React.FC = () => {
             <Modal isOpen={isModalOpen} onClose={closeModal}>
                 {isVerifying ? <Spinner /> : <VerificationResultContent />}
             </Modal>
+            <Modal isOpen={!!columnMappingRequest} onClose={() => setColumnMappingRequest(null)} maxWidth="max-w-4xl">
+                {columnMappingRequest && (
+                    <ColumnMappingWizard
+                        key={columnMappingRequest.sheetName}
+                        fileName={columnMappingRequest.source.fileName}
+                        sheetNames={columnMappingRequest.workbook?.sheetNames}
+                        sheetName={columnMappingRequest.sheetName}
+                        onSheetChange={handleSheetChange}
+                        headers={columnMappingRequest.table.header?.values ?? []}
+                        previewRows={columnMappingRequest.table.rows.slice(0, 5).map(row => row.values)}
+                        initialMapping={columnMappingRequest.mapping}
+                        initialPresets={columnMappingRequest.presets}
+                        initialPresetName={columnMappingRequest.presetName}
+                        onConfirm={handleColumnMappingConfirm}
+                        onCancel={() => setColumnMappingRequest(null)}
+                    />
+                )}
+            </Modal>
+            <Modal isOpen={!!bulkPreview} onClose={() => setBulkPreview(null)} maxWidth="max-w-5xl">
+                {bulkPreview && (
+                    <BulkPreviewGrid
+                        rows={bulkPreview.rows}
+                        banks={getBanks()}
+                        fileNotes={bulkPreview.fileNotes}
+                        history={bulkPreview.history}
+                        onConfirm={handleBulkPreviewConfirm}
+                        onCancel={() => setBulkPreview(null)}
+                    />
+                )}
+            </Modal>
+            <Modal isOpen={bankReviewRows.length > 0} onClose={handleBankReviewCancel} maxWidth="max-w-4xl">
+                <BankResolutionReview
+                    rows={bankReviewRows}
+                    banks={getBanks()}
+                    onConfirm={handleBankReviewConfirm}
+                    onCancel={handleBankReviewCancel}
+                />
+            </Modal>
             <Modal isOpen={isBulkModalOpen} onClose={closeBulkModal} maxWidth="max-w-4xl">
                 <BulkResultsDisplay 
                     results={bulkResults}
-                    onDownload={handleDownloadResults}
-                    onDownloadAll={handleDownloadAllResults}
+                    progress={bulkProgress}
+                    banks={getBanks()}
+                    pendingRows={reverifyingRows}
+                    accounts={bulkBatch?.accounts}
+                    risks={batchRisks}
+                    approvalState={approvalState}
+                    approvalHistory={bulkBatch?.approvalHistory}
+                    operator={operator}
+                    jobId={bulkBatch?.storedJobId ?? null}
+                    onApprovalAction={handleApprovalAction}
+                    deferredRows={bulkBatch ? Array.from(deferredRows).map(rowIndex => ({ rowIndex, account: bulkBatch.accounts[rowIndex] })).filter(row => row.account) : []}
+                    onReverify={handleReverify}
+                    onRevealBvn={(rowIndex, account) => logBvnReveal(account, `bulk results row ${rowIndex + 1}`)}
+                    onPause={() => bulkJobRef.current?.pause()}
+                    onResume={() => bulkJobRef.current?.resume()}
+                    onCancel={() => bulkJobRef.current?.cancel()}
+                    onDownload={(format, piiMode) => handleResultsDownload(format, piiMode, true)}
+                    onDownloadAll={(format, piiMode) => handleResultsDownload(format, piiMode, false)}
                     onClose={closeBulkModal}
                 />
             </Modal>
+            <Modal isOpen={isAuditLogOpen} onClose={() => setIsAuditLogOpen(false)} maxWidth="max-w-5xl">
+                {isAuditLogOpen && <AuditLogViewer operator={operator} onClose={() => setIsAuditLogOpen(false)} />}
+            </Modal>
         </div>
     );
 };
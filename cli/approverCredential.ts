@@ -0,0 +1,25 @@
+import { parseArgs } from 'node:util';
+import { text } from 'node:stream/consumers';
+import { createApproverCredential } from '../services/batchApproval';
+
+const USAGE = `Usage: approver-credential --name <approver name> < passphrase.txt
+
+Reads the approver's passphrase from standard input and prints their BATCH_APPROVERS entry.
+Join the entries of all approvers with commas.`;
+
+const run = async (): Promise<void> => {
+    const { values } = parseArgs({ options: { name: { type: 'string' }, help: { type: 'boolean' } } });
+    if (values.help || !values.name) {
+        process.stderr.write(`${USAGE}\n`);
+        process.exitCode = values.help ? 0 : 2;
+        return;
+    }
+    // Only the first line, so a trailing newline from echo or a file is not part of the passphrase
+    const passphrase = (await text(process.stdin)).split(/\r?\n/)[0];
+    process.stdout.write(`${await createApproverCredential(values.name, passphrase)}\n`);
+};
+
+run().catch(error => {
+    console.error("Could not create the approver credential:", error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+});
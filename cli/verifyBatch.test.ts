@@ -0,0 +1,169 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, BankData } from '../types';
+import { computeNubanCheckDigit } from '../services/nubanService';
+import { main } from './verifyBatch';
+
+// Banks in this set are routed as offline, so their rows wait until --max-wait runs out.
+const offlineBanks = vi.hoisted(() => new Set<string>());
+vi.mock('../services/bulkVerifyOptions', async importOriginal => {
+    const actual = await importOriginal<typeof import('../services/bulkVerifyOptions')>();
+    return {
+        createBulkVerifyOptions: (banks: BankData[]) => {
+            const options = actual.createBulkVerifyOptions(banks);
+            return {
+                ...options,
+                route: (account: AccountDetails) => (offlineBanks.has(account.bankName)
+                    ? { group: account.bankName, defer: true, maxConcurrent: null }
+                    : options.route(account)),
+            };
+        },
+    };
+});
+
+const HEADER = 'Staff Name,Bank,Account Number,BVN';
+// Valid check digits; the rules provider fails account numbers starting with 1 as not found
+const ADA = 'Ada Lovelace,Access Bank,0000000017,22123458901';
+const JOHN = 'John Doe,Zenith Bank,0000000028,22123458902';
+const NOT_FOUND = 'Sani Musa,Zenith Bank,1234567899,22123458903';
+const BAD_CHECK_DIGIT = 'Emeka Obi,Access Bank,0000000018,22123458904';
+
+describe('verify-batch', () => {
+    let dir: string;
+    let stderr: string;
+    let stdout: string;
+
+    const writeInput = async (...rows: string[]): Promise<string> => {
+        const file = path.join(dir, 'input.csv');
+        await writeFile(file, [HEADER, ...rows].join('\n'));
+        return file;
+    };
+
+    const readOutput = async (name: string = 'out.csv'): Promise<string[]> => (await readFile(path.join(dir, name), 'utf8')).trim().split('\n');
+
+    beforeEach(async () => {
+        dir = await mkdtemp(path.join(tmpdir(), 'verify-batch-'));
+        stderr = '';
+        stdout = '';
+        vi.spyOn(process.stderr, 'write').mockImplementation(chunk => {
+            stderr += String(chunk);
+            return true;
+        });
+        vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+            stdout += String(chunk);
+            return true;
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        offlineBanks.clear();
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    describe('arguments', () => {
+        it('prints the usage for --help', async () => {
+            expect(await main(['--help'])).toBe(0);
+            expect(stdout).toContain('Usage: verify-batch');
+        });
+
+        it.each([
+            [[], '--input is required.'],
+            [['-i', 'in.csv'], '--output is required unless --dry-run is given.'],
+            [['-i', 'in.csv', '-o', 'out.txt', '--format', 'pdf'], '--format must be one of csv, json, xlsx.'],
+            [['-i', 'in.csv', '-o', 'out.csv', '--concurrency', '0'], '--concurrency must be a positive whole number.'],
+            [['-i', 'in.csv', '-o', 'out.csv', '--max-wait', 'soon'], '--max-wait must be a number of seconds.'],
+            [['-i', 'in.csv', '-o', 'out.csv', '--provider', 'carrier-pigeon'], '--provider must be one of gemini, rules, http, api.'],
+            [['-i', 'in.csv', '-o', 'out.csv', '--colour'], "Unknown option '--colour'"],
+            [['-i', 'in.csv', '-o', 'out.csv', '--successful-only', '--pii', 'full'], '--successful-only cannot be combined with --pii full.'],
+        ])('exits with 2 for %j', async (args, message) => {
+            expect(await main(args)).toBe(2);
+            expect(stderr).toContain(message);
+            expect(stderr).toContain('Run with --help for usage.');
+        });
+
+        it('exits with 2 for a file that cannot be read or has no usable columns', async () => {
+            expect(await main(['-i', path.join(dir, 'missing.csv'), '--dry-run'])).toBe(2);
+            await writeFile(path.join(dir, 'input.csv'), 'Name,Bank\nAda,Access Bank');
+            expect(await main(['-i', path.join(dir, 'input.csv'), '--dry-run'])).toBe(2);
+            expect(stderr).toContain('Could not find columns for: Account Number, BVN.');
+        });
+    });
+
+    describe('--dry-run', () => {
+        it('exits with 0 when every row passes the local checks, without writing anything', async () => {
+            expect(await main(['-i', await writeInput(ADA, JOHN), '--dry-run', '--provider', 'rules'])).toBe(0);
+            expect(stderr).toContain('2 ready, 0 rejected by local checks.');
+            expect(await readdir(dir)).toEqual(['input.csv']);
+        });
+
+        it('writes only the rejected rows and exits with 1', async () => {
+            const input = await writeInput(ADA, BAD_CHECK_DIGIT, ADA, `${JOHN},extra`);
+            expect(await main(['-i', input, '-o', path.join(dir, 'out.csv'), '--dry-run', '--provider', 'rules'])).toBe(1);
+
+            const [header, ...rows] = await readOutput();
+            expect(header).toContain('failureCode');
+            expect(rows).toHaveLength(3);
+            expect(rows[0]).toMatch(/^Emeka Obi,.*INVALID_NUBAN/);
+            expect(rows[1]).toMatch(/^Ada Lovelace,.*DUPLICATE/);
+            expect(rows[2]).toMatch(/^John Doe,.*UNREADABLE_ROW,false,.*Mismatched column count/);
+        });
+    });
+
+    describe('verification', () => {
+        it('exits with 0 and writes every row when all are verified', async () => {
+            expect(await main(['-i', await writeInput(ADA, JOHN), '-o', path.join(dir, 'out.json'), '--provider', 'rules', '--pii', 'full'])).toBe(0);
+
+            const rows = JSON.parse((await readOutput('out.json')).join('\n'));
+            expect(rows).toHaveLength(2);
+            expect(rows[0]).toMatchObject({ beneficiaryName: 'Ada Lovelace', accountNumber: '0000000017', status: 'Success' });
+        });
+
+        it('exits with 1 when a row fails verification and masks IDs by default', async () => {
+            expect(await main(['-i', await writeInput(ADA, NOT_FOUND), '-o', path.join(dir, 'out.csv'), '--provider', 'rules'])).toBe(1);
+
+            const rows = (await readOutput()).slice(1);
+            expect(rows[0]).toContain('******0017');
+            expect(rows[1]).toMatch(/^Sani Musa,.*ACCOUNT_NOT_FOUND/);
+            expect(stderr).toContain('1 verified, 1 failed.');
+        });
+
+        it('gives up on rows for offline banks after --max-wait and exits with 3', async () => {
+            offlineBanks.add('Zenith Bank');
+            expect(await main(['-i', await writeInput(ADA, JOHN), '-o', path.join(dir, 'out.csv'), '--provider', 'rules', '--max-wait', '0'])).toBe(3);
+
+            const rows = (await readOutput()).slice(1);
+            expect(rows[1]).toMatch(/^John Doe,.*BANK_OFFLINE/);
+            expect(stderr).toContain('Gave up on 1 row still waiting for an offline bank after 0s.');
+        });
+
+        it('fails rows left unverified by an interrupt as not verified and exits with 3', async () => {
+            offlineBanks.add('Zenith Bank');
+            setTimeout(() => process.emit('SIGINT'), 100);
+            expect(await main(['-i', await writeInput(ADA, JOHN), '-o', path.join(dir, 'out.csv'), '--provider', 'rules'])).toBe(3);
+
+            const rows = (await readOutput()).slice(1);
+            expect(rows[1]).toMatch(/^John Doe,.*NOT_VERIFIED,true,.*The run was interrupted before this row was verified\./);
+        });
+
+        it('still verifies the rows for other banks after giving up on an offline one', async () => {
+            offlineBanks.add('Zenith Bank');
+            // Enough Access Bank rows that most are still queued when --max-wait runs out
+            const names = ['Amina Yusuf', 'Bola Ade', 'Chidi Eze', 'Dayo Ola', 'Efe Oghene', 'Femi Bello', 'Gift Okon', 'Halima Sule'];
+            const healthy = names.map((name, i) => {
+                const serial = String(i + 2).padStart(9, '0');
+                return `${name},Access Bank,${serial}${computeNubanCheckDigit('044', serial)},221234589${String(i + 10)}`;
+            });
+            expect(await main(['-i', await writeInput(JOHN, ...healthy), '-o', path.join(dir, 'out.csv'), '--provider', 'rules', '--max-wait', '0'])).toBe(3);
+
+            const rows = (await readOutput()).slice(1);
+            expect(rows[0]).toMatch(/^John Doe,.*BANK_OFFLINE/);
+            expect(rows.slice(1)).toHaveLength(8);
+            rows.slice(1).forEach(row => expect(row).toContain('Success'));
+            expect(stderr).toContain('8 verified, 1 failed.');
+        });
+    });
+});
@@ -0,0 +1,346 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { AccountDetails, AccountField, BulkProgress, BulkRowResult, ExportFormat, PiiExportMode, VerificationFailureCode, VerificationResultData } from '../types';
+import { BulkRowValidation, validateBulkRows } from '../services/accountValidation';
+import { pickMetadata } from '../services/beneficiaryMetadata';
+import { getBanks } from '../services/bankRegistry';
+import { applyBankName, BulkUploadRow, readBulkRows } from '../services/bulkUpload';
+import { createBulkVerificationJob } from '../services/bulkVerificationEngine';
+import { createBulkVerifyOptions } from '../services/bulkVerifyOptions';
+import { getMissingRequiredColumns, guessColumnMapping } from '../services/columnMapping';
+import { readCsvFile, TabularData } from '../services/csvReader';
+import { setPiiHashKey } from '../services/pii';
+import { createBulkResultsFile } from '../services/resultsExport';
+import { createFailure } from '../services/verificationFailures';
+import { getConfiguredProviderId, getVerificationProvider } from '../services/verificationService';
+import { isXlsxFile, openXlsxWorkbook } from '../services/xlsx';
+
+// Exit codes, so scripts can tell a clean batch from one that needs attention.
+const EXIT_ALL_VERIFIED = 0;
+const EXIT_SOME_FAILED = 1;
+const EXIT_USAGE_ERROR = 2;
+const EXIT_INCOMPLETE = 3;
+
+const DEFAULT_MAX_WAIT_SECONDS = 600;
+const PROGRESS_INTERVAL_MS = 1000;
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+const PROVIDERS = ['gemini', 'rules', 'http', 'api'];
+const PII_MODES: PiiExportMode[] = ['masked', 'hashed', 'full'];
+
+const FIELD_FAILURE_CODES: Record<AccountField, VerificationFailureCode> = {
+    beneficiaryName: VerificationFailureCode.INVALID_NAME,
+    bankName: VerificationFailureCode.UNKNOWN_BANK,
+    accountNumber: VerificationFailureCode.INVALID_NUBAN,
+    bvn: VerificationFailureCode.INVALID_BVN,
+};
+
+const USAGE = `Usage: verify-batch --input <file> --output <file> [options]
+
+Verifies every row of a CSV or Excel file with the configured provider and writes the results.
+
+Options:
+  -i, --input <file>       CSV or .xlsx file with beneficiaryName, bankName, accountNumber and bvn columns
+  -o, --output <file>      Where to write the results; optional with --dry-run
+  -f, --format <format>    csv, json or xlsx; defaults to the output file's extension, then csv
+  -c, --concurrency <n>    Rows verified at the same time; defaults to BULK_CONCURRENCY
+  -p, --provider <id>      gemini, rules, http or api; defaults to VERIFICATION_PROVIDER
+      --sheet <name>       Sheet to read from an Excel file; defaults to the first
+      --pii <mode>         masked, hashed or full BVNs and account numbers in the output; defaults to masked.
+                           hashed needs PII_HASH_KEY
+      --successful-only    Write only the verified rows, without result columns; not with --pii full
+      --max-wait <s>       How long to wait for offline banks before giving up; defaults to ${DEFAULT_MAX_WAIT_SECONDS}
+      --dry-run            Only run the local checks; nothing is sent to a provider
+  -h, --help               Show this help
+
+Exit codes:
+  ${EXIT_ALL_VERIFIED}  every row was verified
+  ${EXIT_SOME_FAILED}  some rows failed verification or the local checks
+  ${EXIT_USAGE_ERROR}  the arguments or the input file could not be used
+  ${EXIT_INCOMPLETE}  the run was interrupted or rows were left waiting for an offline bank
+`;
+
+// Thrown for problems with the arguments or the input file, which end the run before any row is sent.
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+interface BatchOptions {
+    input: string;
+    output?: string;
+    format: ExportFormat;
+    concurrency?: number;
+    sheet?: string;
+    piiMode: PiiExportMode;
+    successfulOnly: boolean;
+    maxWaitMs: number;
+    dryRun: boolean;
+}
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const readOptions = (args: string[]): BatchOptions | null => {
+    const { values } = parseArgs({
+        args,
+        options: {
+            input: { type: 'string', short: 'i' },
+            output: { type: 'string', short: 'o' },
+            format: { type: 'string', short: 'f' },
+            concurrency: { type: 'string', short: 'c' },
+            provider: { type: 'string', short: 'p' },
+            sheet: { type: 'string' },
+            pii: { type: 'string' },
+            'successful-only': { type: 'boolean' },
+            'max-wait': { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    if (values.help) return null;
+
+    if (!values.input) throw new UsageError('--input is required.');
+    if (!values.output && !values['dry-run']) throw new UsageError('--output is required unless --dry-run is given.');
+
+    const extension = values.output ? path.extname(values.output).slice(1).toLowerCase() : '';
+    const format = (values.format?.toLowerCase() ?? (FORMATS.includes(extension as ExportFormat) ? extension : 'csv')) as ExportFormat;
+    if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}.`);
+
+    const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+        throw new UsageError('--concurrency must be a positive whole number.');
+    }
+
+    const piiMode = (values.pii?.toLowerCase() ?? 'masked') as PiiExportMode;
+    if (!PII_MODES.includes(piiMode)) throw new UsageError(`--pii must be one of ${PII_MODES.join(', ')}.`);
+    // A list of verified rows with full IDs is ready to pay from, which the app only allows once a checker approves the batch
+    if (piiMode === 'full' && values['successful-only']) {
+        throw new UsageError('--successful-only cannot be combined with --pii full. Verified rows with full IDs need an approved batch; approve it in the app and export from there.');
+    }
+    if (piiMode === 'hashed' && !((process.env.PII_HASH_KEY?.length ?? 0) >= 16)) {
+        throw new UsageError('--pii hashed needs PII_HASH_KEY, a secret of at least 16 characters to key the hashes with.');
+    }
+
+    const maxWaitSeconds = values['max-wait'] !== undefined ? Number(values['max-wait']) : DEFAULT_MAX_WAIT_SECONDS;
+    if (!(maxWaitSeconds >= 0)) throw new UsageError('--max-wait must be a number of seconds.');
+
+    if (values.provider !== undefined) {
+        const provider = values.provider.toLowerCase();
+        if (!PROVIDERS.includes(provider)) throw new UsageError(`--provider must be one of ${PROVIDERS.join(', ')}.`);
+        // The provider is chosen lazily from the environment on the first verification
+        process.env.VERIFICATION_PROVIDER = provider;
+    }
+    if (getConfiguredProviderId() === 'api' && (!process.env.VERIFICATION_SERVER_URL || !process.env.VERIFICATION_SERVER_API_KEY)) {
+        throw new UsageError('The api provider needs VERIFICATION_SERVER_URL and VERIFICATION_SERVER_API_KEY.');
+    }
+
+    return {
+        input: values.input,
+        output: values.output,
+        format,
+        concurrency,
+        sheet: values.sheet,
+        piiMode,
+        successfulOnly: !!values['successful-only'],
+        maxWaitMs: maxWaitSeconds * 1000,
+        dryRun: !!values['dry-run'],
+    };
+};
+
+const readInputTable = async (input: string, sheet: string | undefined): Promise<{ table: TabularData; isWorkbook: boolean }> => {
+    let file: File;
+    try {
+        file = new File([await readFile(input)], path.basename(input));
+    } catch (error) {
+        throw new UsageError(`Cannot read ${input}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!isXlsxFile(file)) {
+        return { table: await readCsvFile(file), isWorkbook: false };
+    }
+    const workbook = await openXlsxWorkbook(file);
+    const sheetName = sheet ?? workbook.sheetNames[0];
+    if (sheetName === undefined || !workbook.sheetNames.includes(sheetName)) {
+        throw new UsageError(`The workbook has no sheet named "${sheetName}". Sheets: ${workbook.sheetNames.join(', ')}.`);
+    }
+    return { table: await workbook.readSheet(sheetName), isWorkbook: true };
+};
+
+/**
+ * Applies the checks a user would otherwise settle in the upload preview: read issues,
+ * field rules, bank resolution and repeated accounts. The CLI cannot ask, so such rows are rejected.
+ * @param row The parsed row.
+ * @param validation The row's validation.
+ * @param rows All parsed rows, to name the row a duplicate repeats.
+ * @returns The row's failure, or null if it can be sent.
+ */
+const rejectRow = (row: BulkUploadRow, validation: BulkRowValidation, rows: BulkUploadRow[]): VerificationResultData | null => {
+    const { errors, resolution, duplicateOf } = validation;
+    if (row.issues.length > 0) {
+        return createFailure(VerificationFailureCode.UNREADABLE_ROW, row.account, row.issues.join(' '));
+    }
+    const fieldErrors = Object.entries(errors) as [AccountField, string][];
+    if (fieldErrors.length > 0) {
+        return createFailure(FIELD_FAILURE_CODES[fieldErrors[0][0]], row.account, fieldErrors.map(([, message]) => message).join(' '));
+    }
+    if (resolution.status !== 'resolved') {
+        const candidates = resolution.candidates.map(bank => bank.name).slice(0, 3);
+        const hint = candidates.length > 0 ? ` Did you mean ${candidates.join(', ')}?` : '';
+        return createFailure(VerificationFailureCode.UNKNOWN_BANK, row.account, `"${row.account.bankName}" could not be matched to a bank.${hint}`);
+    }
+    if (duplicateOf !== null) {
+        return createFailure(VerificationFailureCode.DUPLICATE, row.account, `Same account as line ${rows[duplicateOf].rowNumber}.`);
+    }
+    return null;
+};
+
+const trimAccount = (account: AccountDetails): AccountDetails => ({
+    beneficiaryName: account.beneficiaryName.trim(),
+    bankName: account.bankName.trim(),
+    accountNumber: account.accountNumber.trim(),
+    bvn: account.bvn.trim(),
+    // Program, location and staff details are written back out with the results
+    ...pickMetadata(account),
+});
+
+const describeProgress = (progress: BulkProgress): string => {
+    const eta = progress.etaMs !== null && progress.remaining > 0 ? `, about ${Math.ceil(progress.etaMs / 1000)}s left` : '';
+    const waiting = progress.deferred > 0 ? `, ${progress.deferred} waiting for offline banks` : '';
+    return `${progress.done}/${progress.total} verified (${progress.succeeded} ok, ${progress.failed} failed${waiting}${eta})`;
+};
+
+/**
+ * Verifies the accepted rows with the configured provider, reporting progress on stderr.
+ * Rows that wait for an offline bank longer than maxWaitMs fail as deferred; rows unfinished when interrupted have no result.
+ * @param accounts The rows to send.
+ * @param options The run options.
+ * @returns The result of each row, in order.
+ */
+const verifyAccounts = async (accounts: AccountDetails[], options: BatchOptions): Promise<(VerificationResultData | undefined)[]> => {
+    const isTty = !!process.stderr.isTTY;
+    let lastReportAt = 0;
+    let lastReport = '';
+
+    const job = createBulkVerificationJob(accounts, {
+        ...createBulkVerifyOptions(getBanks()),
+        concurrency: options.concurrency,
+        maxDeferredWaitMs: options.maxWaitMs,
+        onProgress: progress => {
+            const now = Date.now();
+            const report = describeProgress(progress);
+            if (report === lastReport || (now - lastReportAt < PROGRESS_INTERVAL_MS && progress.remaining > 0)) return;
+            lastReportAt = now;
+            lastReport = report;
+            process.stderr.write(isTty ? `\r\x1b[K${report}` : `${report}\n`);
+        },
+    });
+
+    const interrupt = () => {
+        log('\nInterrupted; stopping after the rows in flight.');
+        job.cancel();
+    };
+    process.once('SIGINT', interrupt);
+    try {
+        return await job.run();
+    } finally {
+        process.off('SIGINT', interrupt);
+        if (isTty) log('');
+    }
+};
+
+const run = async (args: string[]): Promise<number> => {
+    const options = readOptions(args);
+    if (!options) {
+        process.stdout.write(USAGE);
+        return EXIT_ALL_VERIFIED;
+    }
+    if (options.piiMode === 'hashed') {
+        await setPiiHashKey(new TextEncoder().encode(process.env.PII_HASH_KEY));
+    }
+
+    const { table, isWorkbook } = await readInputTable(options.input, options.sheet);
+    if (!table.header || table.rows.length === 0) {
+        throw new UsageError('The file is empty or contains only a header.');
+    }
+    const mapping = guessColumnMapping(table.header.values);
+    const missing = getMissingRequiredColumns(mapping);
+    if (missing.length > 0) {
+        throw new UsageError(`Could not find columns for: ${missing.join(', ')}.`);
+    }
+
+    const { rows, fileNotes } = readBulkRows(table, mapping, isWorkbook);
+    fileNotes.forEach(note => log(`Warning: ${note}`));
+    const banks = getBanks();
+    const validations = validateBulkRows(
+        rows.map(row => ({ account: row.account, bankCode: row.bankCode, sortCode: row.sortCode, excluded: row.issues.length > 0 })),
+        banks,
+    );
+
+    const results: (VerificationResultData | null)[] = rows.map((row, index) => rejectRow(row, validations[index], rows));
+    const accepted = rows
+        .map((row, index) => ({ index, account: applyBankName(trimAccount(row.account), validations[index].resolution.bank?.name ?? '') }))
+        .filter(({ index }) => !results[index]);
+    const rejectedCount = rows.length - accepted.length;
+    log(`Read ${rows.length} rows from ${path.basename(options.input)}: ${accepted.length} ready, ${rejectedCount} rejected by local checks.`);
+
+    let incomplete = false;
+    if (options.dryRun) {
+        results.forEach((result, index) => {
+            if (result) log(`  Line ${rows[index].rowNumber}: ${result.message}`);
+        });
+    } else if (accepted.length > 0) {
+        log(`Verifying with ${getVerificationProvider().displayName}...`);
+        const verified = await verifyAccounts(accepted.map(row => row.account), options);
+        accepted.forEach(({ index, account }, i) => {
+            const result = verified[i];
+            if (!result || result.deferred) incomplete = true;
+            // Rows without a result were not reached before the run was interrupted
+            results[index] = result ?? createFailure(VerificationFailureCode.NOT_VERIFIED, account, 'The run was interrupted before this row was verified.');
+        });
+        const gaveUp = verified.filter(result => result?.deferred).length;
+        if (gaveUp > 0) {
+            log(`Gave up on ${gaveUp} ${gaveUp === 1 ? 'row' : 'rows'} still waiting for an offline bank after ${options.maxWaitMs / 1000}s.`);
+        }
+    }
+
+    // A dry run writes only the rejected rows, since nothing else has a result
+    const outputResults: BulkRowResult[] = results
+        .map((result, rowIndex) => (result ? { ...result, rowIndex, attempts: 1 } : null))
+        .filter((result): result is BulkRowResult => !!result);
+    if (options.output) {
+        const { blob } = await createBulkResultsFile(outputResults, options.format, options.successfulOnly, options.piiMode);
+        await writeFile(options.output, Buffer.from(await blob.arrayBuffer()));
+        log(`Wrote ${options.output}.`);
+    }
+
+    const succeeded = outputResults.filter(result => result.success).length;
+    if (!options.dryRun) {
+        log(`${succeeded} verified, ${outputResults.length - succeeded} failed.`);
+    }
+    if (incomplete) return EXIT_INCOMPLETE;
+    return outputResults.length === succeeded ? EXIT_ALL_VERIFIED : EXIT_SOME_FAILED;
+};
+
+/**
+ * Runs the batch verifier.
+ * @param args The command-line arguments, without the node and script paths.
+ * @returns The exit code.
+ */
+export const main = (args: string[]): Promise<number> => run(args).catch(error => {
+    if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+        log(`${error.message}\nRun with --help for usage.`);
+    } else {
+        console.error("Batch verification failed:", error);
+    }
+    return EXIT_USAGE_ERROR;
+});
+
+// Run only when executed, not when imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AccountDetails, BankData } from '../types';
-import { fetchBankData } from '../services/geminiService';
+import { AccountDetails, AccountField, AccountFieldErrors, BankData } from '../types';
+import { fetchBankData, getBankRegistry, importBankRegistry } from '../services/bankRegistry';
+import { validateAccountDetails } from '../services/accountValidation';
+import { BENEFICIARY_METADATA_FIELDS, pickMetadata } from '../services/beneficiaryMetadata';
 import { Spinner } from './Spinner';
 
 interface AccountVerificationFormProps {
@@ -20,8 +22,10 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
         accountNumber: '',
         bvn: '',
     });
-    const [errors, setErrors] = useState<Partial<AccountDetails>>({});
+    const [errors, setErrors] = useState<AccountFieldErrors>({});
+    const [registryError, setRegistryError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const registryInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         const loadBanks = async () => {
@@ -42,24 +46,7 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
     }, []);
 
     const validate = (): boolean => {
-        const newErrors: Partial<AccountDetails> = {};
-        if (!formData.beneficiaryName.trim()) {
-            newErrors.beneficiaryName = 'Beneficiary name is required.';
-        }
-        if (!formData.bankName.trim()) {
-            newErrors.bankName = 'Bank name is required.';
-        }
-        if (!formData.accountNumber.trim()) {
-            newErrors.accountNumber = 'Account number is required.';
-        } else if (!/^\d{10}$/.test(formData.accountNumber)) {
-            newErrors.accountNumber = 'Account number must be 10 digits.';
-        }
-        if (!formData.bvn.trim()) {
-            newErrors.bvn = 'BVN is required.';
-        } else if (!/^\d{11}$/.test(formData.bvn)) {
-            newErrors.bvn = 'BVN must be 11 digits.';
-        }
-        
+        const newErrors = validateAccountDetails(formData, bankData);
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
@@ -67,17 +54,20 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (validate()) {
-            onSubmit(formData);
+            // Metadata left blank is not sent
+            const details = { ...formData };
+            BENEFICIARY_METADATA_FIELDS.forEach(({ field }) => delete details[field]);
+            onSubmit({ ...details, ...pickMetadata(formData) });
         }
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
         setFormData(prev => ({ ...prev, [name]: value }));
-        if (errors[name as keyof AccountDetails]) {
+        if (errors[name as AccountField]) {
            setErrors(prev => {
                const newErrors = { ...prev };
-               delete newErrors[name as keyof AccountDetails];
+               delete newErrors[name as AccountField];
                return newErrors;
            });
         }
@@ -98,12 +88,14 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
 
     const handleDownloadTemplate = (e: React.MouseEvent<HTMLAnchorElement>) => {
         e.preventDefault();
-        const headers = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn'].join(',');
-        const exampleRow = 'Ada Lovelace,Zenith Bank,0123456789,12345678901';
+        const headers = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn', ...BENEFICIARY_METADATA_FIELDS.map(({ field }) => field)].join(',');
+        // A valid Zenith Bank check digit and a BVN the rules engine accepts, so the template uploads as it is
+        const exampleRow = 'Ada Lovelace,Zenith Bank,0123456788,22123456789,BHCPF,Kano,Nassarawa,KN/NAS/014,MPHC-00123';
 
         const bankListHeader = [
             '', // blank line
             '# Please use one of the following bank names for the \'bankName\' column:',
+            `# (bank registry version ${getBankRegistry().version})`,
             '#',
             '# Bank Name - Sort Code'
         ].join('\n');
@@ -125,6 +117,25 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
         URL.revokeObjectURL(url);
     };
 
+    const handleImportRegistryClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        e.preventDefault();
+        registryInputRef.current?.click();
+    };
+
+    const handleRegistryFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const registry = importBankRegistry(JSON.parse(await file.text()));
+            setBankData(registry.banks);
+            setFormData(prev => ({ ...prev, bankName: registry.banks[0].name }));
+            setRegistryError(null);
+        } catch (error) {
+            setRegistryError(error instanceof Error ? error.message : 'The bank list could not be imported.');
+        }
+    };
+
 
     return (
         <div className="bg-white p-6 md:p-8 rounded-lg shadow-lg">
@@ -194,6 +205,25 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
                     </div>
                 </div>
 
+                <details className="border border-gray-200 rounded-md px-4 py-3">
+                    <summary className="text-sm font-medium text-gray-600 cursor-pointer">Program and location (optional)</summary>
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {BENEFICIARY_METADATA_FIELDS.map(({ field, label }) => (
+                            <div key={field}>
+                                <label htmlFor={field} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
+                                <input
+                                    type="text"
+                                    id={field}
+                                    name={field}
+                                    value={formData[field] ?? ''}
+                                    onChange={handleChange}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary transition-colors"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </details>
+
                 <div className="pt-4 space-y-4">
                     <div className="flex items-center space-x-4">
                         <button
@@ -216,15 +246,28 @@ export const AccountVerificationForm: React.FC<AccountVerificationFormProps> = (
                             ref={fileInputRef}
                             onChange={handleFileChange}
                             className="hidden"
-                            accept=".csv, text/csv"
+                            accept=".csv, text/csv, .xlsx, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                         />
                     </div>
                      <p className="text-center text-xs text-gray-500">
-                        For bulk uploads, use a CSV file with headers.
+                        For bulk uploads, use a CSV or Excel (.xlsx) file with headers.
                         <a href="#" onClick={handleDownloadTemplate} className="font-semibold text-accent hover:underline ml-1">
                             Download Template
                         </a>
+                        <span className="mx-1">·</span>
+                        <a href="#" onClick={handleImportRegistryClick} className="font-semibold text-accent hover:underline">
+                            Import Bank List
+                        </a>
+                        <input
+                            type="file"
+                            ref={registryInputRef}
+                            onChange={handleRegistryFileChange}
+                            className="hidden"
+                            accept=".json, application/json"
+                        />
                     </p>
+                    <p className="text-center text-xs text-gray-400">Bank registry version {getBankRegistry().version}</p>
+                    {registryError && <p className="text-red-500 text-xs whitespace-pre-wrap">{registryError}</p>}
                 </div>
             </form>
         </div>
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AuditChainStatus, AuditLogEntry, PiiExportMode } from '../types';
+import { AuditEntryLink, AuditLogFilter, exportAuditLogCsv, exportAuditLogJson, filterAuditLog, loadAuditLog, verifyAuditChain } from '../services/auditLog';
+
+interface AuditLogViewerProps {
+    // Recorded against each export of the log.
+    operator: string;
+    onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+    single: 'Single',
+    bulk: 'Bulk',
+    reverify: 'Re-verify',
+    reveal: 'BVN revealed',
+    'vault-reset': 'Passphrase reset',
+    export: 'Exported',
+    approval: 'Batch approval',
+};
+
+// Entries about the log or a whole batch rather than one account; the message says what happened.
+const NO_ACCOUNT_ACTIONS: AuditLogEntry['action'][] = ['vault-reset', 'export', 'approval'];
+
+export const AuditLogViewer: React.FC<AuditLogViewerProps> = ({ operator, onClose }) => {
+    const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+    const [unreadable, setUnreadable] = useState<AuditEntryLink[]>([]);
+    const [chainStatus, setChainStatus] = useState<AuditChainStatus | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [filter, setFilter] = useState<AuditLogFilter>({});
+    const [page, setPage] = useState(0);
+    const [piiMode, setPiiMode] = useState<PiiExportMode>('masked');
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const log = await loadAuditLog();
+                setEntries(log.entries);
+                setUnreadable(log.unreadable);
+                setChainStatus(await verifyAuditChain(log.entries, log.unreadable));
+            } catch (error) {
+                console.error("Failed to load audit log:", error);
+                setLoadError('The audit log could not be loaded.');
+            }
+        };
+        load();
+    }, []);
+
+    const operators: string[] = useMemo(
+        () => Array.from(new Set((entries ?? []).map(entry => entry.operator))).sort() as string[],
+        [entries]
+    );
+    // Newest first for reading; exports keep chain order.
+    const filtered: AuditLogEntry[] = useMemo(() => filterAuditLog(entries ?? [], filter).reverse(), [entries, filter]);
+    const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageEntries = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+    const updateFilter = (update: Partial<AuditLogFilter>) => {
+        setFilter(prev => ({ ...prev, ...update }));
+        setPage(0);
+    };
+
+    const handleExport = (exportLog: () => Promise<void>) => {
+        setExportError(null);
+        exportLog().catch(error => {
+            console.error("Failed to export audit log:", error);
+            setExportError('The audit log could not be exported. Each export is recorded in the log first, and nothing is downloaded if that fails.');
+        });
+    };
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-4">Audit Log</h2>
+
+            {loadError && <p className="text-red-500 text-sm mb-4">{loadError}</p>}
+            {!entries && !loadError && <p className="py-8 text-center text-sm text-gray-500">Loading audit log...</p>}
+
+            {entries && chainStatus && (
+                chainStatus.valid ? (
+                    <div className="mb-4 bg-green-50 border-l-4 border-green-500 text-green-800 p-3 text-sm">
+                        Chain verified: all {chainStatus.checked} entries are intact.
+                        {chainStatus.unreadable && (
+                            <span className="block">
+                                {chainStatus.unreadable} of them were sealed with a passphrase that has since been reset. They cannot be read, so only their links were checked.
+                            </span>
+                        )}
+                    </div>
+                ) : (
+                    <div className="mb-4 bg-red-100 border-l-4 border-red-500 text-red-700 p-3 text-sm" role="alert">
+                        <strong>Tampering detected.</strong> {chainStatus.reason} Entries from #{chainStatus.brokenAt} onwards cannot be trusted.
+                    </div>
+                )
+            )}
+
+            {entries && (
+                <>
+                    <div className="mb-3 flex flex-wrap items-end gap-3 text-sm">
+                        <div>
+                            <label htmlFor="auditFrom" className="block text-xs font-medium text-gray-600 mb-1">From</label>
+                            <input id="auditFrom" type="date" value={filter.from ?? ''} onChange={e => updateFilter({ from: e.target.value || undefined })}
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary" />
+                        </div>
+                        <div>
+                            <label htmlFor="auditTo" className="block text-xs font-medium text-gray-600 mb-1">To</label>
+                            <input id="auditTo" type="date" value={filter.to ?? ''} onChange={e => updateFilter({ to: e.target.value || undefined })}
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary" />
+                        </div>
+                        <div>
+                            <label htmlFor="auditOperator" className="block text-xs font-medium text-gray-600 mb-1">Operator</label>
+                            <select id="auditOperator" value={filter.operator ?? ''} onChange={e => updateFilter({ operator: e.target.value || undefined })}
+                                className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary">
+                                <option value="">All operators</option>
+                                {operators.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="auditOutcome" className="block text-xs font-medium text-gray-600 mb-1">Outcome</label>
+                            <select id="auditOutcome" value={filter.outcome ?? ''} onChange={e => updateFilter({ outcome: (e.target.value || undefined) as AuditLogFilter['outcome'] })}
+                                className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary">
+                                <option value="">All outcomes</option>
+                                <option value="success">Success</option>
+                                <option value="failure">Failure</option>
+                            </select>
+                        </div>
+                        <span className="ml-auto text-gray-500">{filtered.length} of {entries.length} entries</span>
+                    </div>
+
+                    <div className="max-h-[50vh] overflow-auto border rounded-lg">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50 sticky top-0">
+                                <tr>
+                                    {['#', 'Time', 'Operator', 'Action', 'Account', 'Outcome', 'Hash'].map(title => (
+                                        <th key={title} scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="bg-white divide-y divide-gray-200">
+                                {pageEntries.map(entry => {
+                                    const isBroken = chainStatus && !chainStatus.valid && entry.sequence >= (chainStatus.brokenAt ?? Infinity);
+                                    return (
+                                        <tr key={entry.sequence} className={isBroken ? 'bg-red-50' : ''}>
+                                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{entry.sequence}</td>
+                                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.timestamp).toLocaleString()}</td>
+                                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.operator}</td>
+                                            <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                                                {ACTION_LABELS[entry.action]}
+                                                {entry.rowIndex !== undefined && <span className="block text-xs text-gray-500">Row {entry.rowIndex + 1}</span>}
+                                                <span className="block text-xs text-gray-400">{entry.provider}</span>
+                                            </td>
+                                            <td className="px-4 py-2 text-sm text-gray-700">
+                                                {!NO_ACCOUNT_ACTIONS.includes(entry.action) && (
+                                                    <>
+                                                        {entry.input.beneficiaryName}
+                                                        <span className="block text-xs text-gray-500">{entry.input.bankName} · {entry.input.accountNumber}</span>
+                                                    </>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-2 text-sm">
+                                                {entry.action === 'reveal' || NO_ACCOUNT_ACTIONS.includes(entry.action) ? (
+                                                    <span className="text-xs text-gray-500">{entry.message}</span>
+                                                ) : (
+                                                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${entry.outcome === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                                        {entry.outcome === 'success' ? 'Success' : 'Failed'}
+                                                    </span>
+                                                )}
+                                                {entry.failureCode && <span className="block text-xs font-mono text-red-700">{entry.failureCode}</span>}
+                                            </td>
+                                            <td className="px-4 py-2 whitespace-nowrap text-xs font-mono text-gray-400" title={entry.hash}>{entry.hash.slice(0, 12)}…</td>
+                                        </tr>
+                                    );
+                                })}
+                                {pageEntries.length === 0 && (
+                                    <tr>
+                                        <td colSpan={7} className="px-4 py-6 text-center text-sm text-gray-500">No entries match the filters.</td>
+                                    </tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {pageCount > 1 && (
+                        <div className="mt-2 flex justify-end items-center space-x-2 text-sm text-gray-600">
+                            <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="px-2 py-1 border rounded-md disabled:opacity-50">Previous</button>
+                            <span>Page {currentPage + 1} of {pageCount}</span>
+                            <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="px-2 py-1 border rounded-md disabled:opacity-50">Next</button>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {exportError && <p className="mt-4 text-red-500 text-sm text-right" role="alert">{exportError}</p>}
+
+            <div className="mt-6 flex justify-end space-x-4">
+                <select
+                    value={piiMode}
+                    onChange={e => setPiiMode(e.target.value as PiiExportMode)}
+                    aria-label="Account numbers in the export"
+                    title="How account numbers are written to the export. Only full exports can be rehashed to check the chain."
+                    className="py-2 px-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:ring-secondary focus:border-secondary"
+                >
+                    <option value="masked">Masked account numbers</option>
+                    <option value="hashed">Hashed account numbers (keyed HMAC)</option>
+                    <option value="full">Full account numbers</option>
+                </select>
+                <button
+                    onClick={onClose}
+                    className="bg-gray-200 text-gray-700 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    Close
+                </button>
+                <button
+                    onClick={() => handleExport(() => exportAuditLogCsv(filterAuditLog(entries ?? [], filter), piiMode, operator))}
+                    disabled={filtered.length === 0}
+                    className="bg-white text-primary border border-primary font-bold py-2 px-4 rounded-md hover:bg-blue-50 disabled:bg-gray-200 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+                >
+                    Export Filtered (CSV)
+                </button>
+                <button
+                    onClick={() => entries && chainStatus && handleExport(() => exportAuditLogJson(entries, chainStatus, unreadable, piiMode, operator))}
+                    disabled={!entries || !chainStatus || entries.length === 0}
+                    className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                    title="The complete log with hashes, so the chain can be checked independently"
+                >
+                    Export for Auditors (JSON)
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AccountDetails, BankData, BankResolution } from '../types';
+
+export interface BankResolutionRow {
+    rowNumber: number;
+    account: AccountDetails;
+    resolution: BankResolution;
+}
+
+interface BankResolutionReviewProps {
+    rows: BankResolutionRow[];
+    banks: BankData[];
+    onConfirm: (selections: Record<number, string | null>) => void;
+    onCancel: () => void;
+}
+
+// Select value used for rows the operator chooses to leave out of the batch.
+const SKIP_ROW = '__skip__';
+
+export const BankResolutionReview: React.FC<BankResolutionReviewProps> = ({ rows, banks, onConfirm, onCancel }) => {
+    const [selections, setSelections] = useState<Record<number, string>>(() =>
+        rows.reduce((acc, row) => {
+            acc[row.rowNumber] = row.resolution.candidates[0]?.name ?? '';
+            return acc;
+        }, {} as Record<number, string>)
+    );
+
+    const allDecided = rows.every(row => selections[row.rowNumber]);
+
+    const handleConfirm = () => {
+        const result = rows.reduce((acc, row) => {
+            const value = selections[row.rowNumber];
+            acc[row.rowNumber] = value === SKIP_ROW ? null : value;
+            return acc;
+        }, {} as Record<number, string | null>);
+        onConfirm(result);
+    };
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Confirm Bank Names</h2>
+            <p className="text-sm text-gray-600 mb-4">
+                {rows.length} row{rows.length === 1 ? '' : 's'} could not be matched to a bank with confidence.
+                Pick the correct bank for each row, or skip it, before verification starts.
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Beneficiary</th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bank in File</th>
+                            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolved Bank</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {rows.map(row => {
+                            const candidateNames = new Set(row.resolution.candidates.map(c => c.name));
+                            const otherBanks = banks.filter(bank => !candidateNames.has(bank.name));
+                            return (
+                                <tr key={row.rowNumber} className={row.resolution.status === 'ambiguous' ? 'bg-yellow-50' : 'bg-red-50'}>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{row.rowNumber}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{row.account.beneficiaryName || 'N/A'}</td>
+                                    <td className="px-4 py-3 text-sm text-gray-700">
+                                        {row.account.bankName || <span className="italic text-gray-400">blank</span>}
+                                        <span className="block text-xs text-gray-500">
+                                            {row.resolution.status === 'ambiguous'
+                                                ? `Ambiguous (${Math.round(row.resolution.confidence * 100)}% match)`
+                                                : 'No match found'}
+                                        </span>
+                                    </td>
+                                    <td className="px-4 py-3 text-sm">
+                                        <select
+                                            value={selections[row.rowNumber]}
+                                            onChange={e => setSelections(prev => ({ ...prev, [row.rowNumber]: e.target.value }))}
+                                            className="w-full px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary"
+                                            aria-label={`Bank for row ${row.rowNumber}`}
+                                        >
+                                            <option value="">Select a bank...</option>
+                                            {row.resolution.candidates.length > 0 && (
+                                                <optgroup label="Closest matches">
+                                                    {row.resolution.candidates.map(bank => <option key={bank.name} value={bank.name}>{bank.name}</option>)}
+                                                </optgroup>
+                                            )}
+                                            <optgroup label="All banks">
+                                                {otherBanks.map(bank => <option key={bank.name} value={bank.name}>{bank.name}</option>)}
+                                            </optgroup>
+                                            <option value={SKIP_ROW}>Skip this row</option>
+                                        </select>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onCancel}
+                    className="bg-gray-200 text-gray-700 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    Cancel Upload
+                </button>
+                <button
+                    onClick={handleConfirm}
+                    disabled={!allDecided}
+                    className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    Continue Verification
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ApproverSignIn, BatchApprovalAction, BatchApprovalEvent, BatchApprovalState } from '../types';
+import { APPROVAL_STATE_LABELS, checkApprovalAction, getConfiguredApprovers } from '../services/batchApproval';
+
+interface BatchApprovalPanelProps {
+    state: BatchApprovalState;
+    history: BatchApprovalEvent[];
+    operator: string;
+    // Rejects with an error the panel shows if the action could not be saved or the approver's passphrase is wrong.
+    onAction: (action: BatchApprovalAction, comment: string, signIn?: ApproverSignIn) => Promise<void>;
+}
+
+export const APPROVAL_STATE_STYLES: Record<BatchApprovalState, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    verified: 'bg-blue-100 text-blue-800',
+    submitted: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+};
+
+const ACTION_LABELS: Record<BatchApprovalAction, string> = {
+    submitted: 'Submitted for approval',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    reopened: 'Reopened',
+};
+
+export const BatchApprovalPanel: React.FC<BatchApprovalPanelProps> = ({ state, history, operator, onAction }) => {
+    const [comment, setComment] = useState<string>('');
+    const [approver, setApprover] = useState<string>('');
+    const [passphrase, setPassphrase] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    const approvers = getConfiguredApprovers();
+    const canDecide = state === 'submitted';
+    const submitBlocked = checkApprovalAction('submitted', state, history, operator, comment);
+    // Decisions are taken by the approver who signs in below, whoever is named in the header
+    const checkDecision = (action: BatchApprovalAction): string | null => {
+        if (!approver) return 'Choose the approver.';
+        return checkApprovalAction(action, state, history, approver, comment) ?? (passphrase ? null : 'Enter the approver\'s passphrase.');
+    };
+    const approveBlocked = checkDecision('approved');
+    const rejectBlocked = checkDecision('rejected');
+    // Shown once, rather than as a tooltip on each button, so the approver knows why they are disabled
+    const decisionHint = canDecide && approveBlocked ? approveBlocked : null;
+
+    const takeAction = async (action: BatchApprovalAction) => {
+        setIsSaving(true);
+        try {
+            await onAction(action, comment.trim(), canDecide ? { approver, passphrase } : undefined);
+            setComment('');
+            setError(null);
+        } catch (err) {
+            console.error("Failed to save approval:", err);
+            setError(err instanceof Error ? err.message : 'The approval could not be saved.');
+        } finally {
+            setPassphrase('');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="mb-6 border rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="font-semibold text-gray-700">
+                    Approval{' '}
+                    <span className={`ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${APPROVAL_STATE_STYLES[state]}`}>
+                        {APPROVAL_STATE_LABELS[state]}
+                    </span>
+                </h4>
+                {approvers.length === 0 && (
+                    <span className="text-xs text-red-600">No approvers are configured, so batches cannot be approved.</span>
+                )}
+            </div>
+            {state === 'draft' && (
+                <p className="mt-2 text-sm text-gray-600">The batch can be submitted for approval once every row has a result.</p>
+            )}
+
+            {history.length > 0 && (
+                <ol className="mt-3 space-y-1 text-sm text-gray-600">
+                    {history.map((event, index) => (
+                        <li key={index}>
+                            <span className="font-semibold text-gray-700">{ACTION_LABELS[event.action]}</span> by {event.operator}
+                            <span className="text-gray-400"> · {new Date(event.at).toLocaleString()}</span>
+                            {event.comment && <span className="block pl-4 italic">"{event.comment}"</span>}
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            {(canDecide || !submitBlocked) && (
+                <div className="mt-3 space-y-2">
+                    <textarea
+                        value={comment}
+                        onChange={e => setComment(e.target.value)}
+                        rows={2}
+                        placeholder={canDecide ? 'Comment (required to reject)' : 'Comment for the approver (optional)'}
+                        aria-label="Approval comment"
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                    />
+                    {canDecide && approvers.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            <select
+                                value={approver}
+                                onChange={e => setApprover(e.target.value)}
+                                aria-label="Approver"
+                                className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                            >
+                                <option value="">Approver…</option>
+                                {approvers.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                            <input
+                                type="password"
+                                value={passphrase}
+                                onChange={e => setPassphrase(e.target.value)}
+                                placeholder="Approver passphrase"
+                                aria-label="Approver passphrase"
+                                autoComplete="off"
+                                className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                            />
+                        </div>
+                    )}
+                    <div className="flex justify-end items-center space-x-2">
+                        {decisionHint && <span className="mr-auto text-xs text-gray-500">{decisionHint}</span>}
+                        {canDecide ? (
+                            <>
+                                <button
+                                    onClick={() => takeAction('rejected')}
+                                    disabled={isSaving || !!rejectBlocked}
+                                    title={rejectBlocked ?? undefined}
+                                    className="text-sm bg-white text-red-600 border border-red-300 font-semibold py-1 px-3 rounded-md hover:bg-red-50 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    Reject
+                                </button>
+                                <button
+                                    onClick={() => takeAction('approved')}
+                                    disabled={isSaving || !!approveBlocked}
+                                    className="text-sm bg-green-600 text-white font-semibold py-1 px-3 rounded-md hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    Approve
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => takeAction('submitted')}
+                                disabled={isSaving}
+                                className="text-sm bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Submit for Approval
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
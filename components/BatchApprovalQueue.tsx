@@ -0,0 +1,50 @@
+import React from 'react';
+import { BulkJobRecord } from '../types';
+import { APPROVAL_STATE_LABELS, getBatchApprovalState } from '../services/batchApproval';
+import { APPROVAL_STATE_STYLES } from './BatchApprovalPanel';
+
+interface BatchApprovalQueueProps {
+    // Finished jobs, most recent first.
+    jobs: BulkJobRecord[];
+    disabled: boolean;
+    onOpen: (job: BulkJobRecord) => void;
+}
+
+export const BatchApprovalQueue: React.FC<BatchApprovalQueueProps> = ({ jobs, disabled, onOpen }) => {
+    // Batches with rows still missing a result cannot be submitted, so they are left out
+    const entries = jobs
+        .map(job => ({ job, state: getBatchApprovalState(job.approvalHistory, job.completedCount >= job.accounts.length) }))
+        .filter(entry => entry.state !== 'draft');
+    if (entries.length === 0) return null;
+    const awaitingCount = entries.filter(entry => entry.state === 'submitted').length;
+
+    return (
+        <div className="bg-white border rounded-lg p-4 mb-6 space-y-3">
+            <p className="font-semibold text-gray-700">
+                Batch approvals
+                {awaitingCount > 0 && <span className="ml-2 text-sm font-normal text-yellow-700">{awaitingCount} awaiting approval</span>}
+            </p>
+            {entries.map(({ job, state }) => {
+                const last = job.approvalHistory?.[job.approvalHistory.length - 1];
+                return (
+                    <div key={job.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span>
+                            <strong>{job.source.fileName}</strong>: {job.accounts.length} rows
+                            <span className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${APPROVAL_STATE_STYLES[state]}`}>
+                                {APPROVAL_STATE_LABELS[state]}
+                            </span>
+                            {last && <span className="text-gray-500"> by {last.operator}, {new Date(last.at).toLocaleString()}</span>}
+                        </span>
+                        <button
+                            onClick={() => onOpen(job)}
+                            disabled={disabled}
+                            className="bg-white text-primary border border-primary font-semibold py-1 px-3 rounded-md hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Open
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
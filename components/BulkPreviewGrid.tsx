@@ -0,0 +1,295 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AccountDetails, AccountField, BankData, BankResolution, RiskLevel, VerifiedBeneficiary } from '../types';
+import { BulkRowInput, validateBulkRows } from '../services/accountValidation';
+import { BankResolutionInput, resolveBank } from '../services/bankResolver';
+import { BulkUploadRow } from '../services/bulkUpload';
+import { assessBatchRisk, needsRiskReview, RISK_RULE_INFO } from '../services/riskSignals';
+import { BankResolutionRow } from './BankResolutionReview';
+
+// Rows with read issues start excluded.
+export type BulkPreviewRow = BulkUploadRow;
+
+interface BulkPreviewGridProps {
+    rows: BulkPreviewRow[];
+    banks: BankData[];
+    // Problems in the file that could not be tied to a row.
+    fileNotes: string[];
+    // Rows verified in earlier batches, for repeat-beneficiary signals.
+    history?: VerifiedBeneficiary[];
+    onConfirm: (rows: BankResolutionRow[]) => void;
+    onCancel: () => void;
+}
+
+interface PreviewEntry extends BulkPreviewRow, BulkRowInput {
+    excluded: boolean;
+    // Set when an operator has looked at the row's risk signals and kept it.
+    riskReviewed: boolean;
+}
+
+type RowFilter = 'all' | 'problems' | 'review' | 'excluded';
+
+const RISK_LEVEL_STYLES: Record<RiskLevel, string> = {
+    none: '',
+    low: 'bg-gray-100 text-gray-700',
+    medium: 'bg-yellow-100 text-yellow-800',
+    high: 'bg-red-100 text-red-800',
+};
+
+const PAGE_SIZE = 50;
+
+const FIELDS: { field: AccountField; label: string; className: string }[] = [
+    { field: 'beneficiaryName', label: 'Beneficiary Name', className: 'min-w-[12rem]' },
+    { field: 'bankName', label: 'Bank', className: 'min-w-[10rem]' },
+    { field: 'accountNumber', label: 'Account Number', className: 'w-32' },
+    { field: 'bvn', label: 'BVN', className: 'w-32' },
+];
+
+export const BulkPreviewGrid: React.FC<BulkPreviewGridProps> = ({ rows, banks, fileNotes, history = [], onConfirm, onCancel }) => {
+    const [entries, setEntries] = useState<PreviewEntry[]>(() =>
+        rows.map(row => ({ ...row, excluded: row.issues.length > 0, riskReviewed: false }))
+    );
+    const resolutionCache = useRef(new Map<string, BankResolution>());
+
+    const validations = useMemo(() => {
+        const cachedResolve = (input: BankResolutionInput): BankResolution => {
+            const key = `${input.bankName}|${input.bankCode ?? ''}|${input.sortCode ?? ''}`;
+            let resolution = resolutionCache.current.get(key);
+            if (!resolution) {
+                resolution = resolveBank(input, banks);
+                resolutionCache.current.set(key, resolution);
+            }
+            return resolution;
+        };
+        return validateBulkRows(entries, banks, cachedResolve);
+    }, [entries, banks]);
+
+    // Risk is judged on the resolved bank so different spellings of one bank count as the same account
+    const risks = useMemo(() => assessBatchRisk(
+        entries.map((entry, index) => ({
+            rowNumber: entry.rowNumber,
+            account: { ...entry.account, bankName: validations[index].resolution.bank?.name ?? entry.account.bankName },
+            excluded: entry.excluded,
+        })),
+        history,
+    ), [entries, validations, history]);
+
+    const isValid = (index: number) => Object.keys(validations[index].errors).length === 0 && validations[index].duplicateOf === null;
+    const readyCount = entries.filter((entry, index) => !entry.excluded && isValid(index)).length;
+    const invalidCount = entries.filter((entry, index) => !entry.excluded && !isValid(index)).length;
+    const excludedCount = entries.filter(entry => entry.excluded).length;
+    const isFlagged = (index: number) => !entries[index].excluded && !entries[index].riskReviewed && needsRiskReview(risks[index]);
+    const flaggedCount = entries.filter((entry, index) => isFlagged(index)).length;
+
+    const [filter, setFilter] = useState<RowFilter>(() => (invalidCount > 0 ? 'problems' : flaggedCount > 0 ? 'review' : 'all'));
+    const [page, setPage] = useState(0);
+
+    const visibleIndexes = entries
+        .map((entry, index) => index)
+        .filter(index => {
+            if (filter === 'excluded') return entries[index].excluded;
+            if (filter === 'problems') return !entries[index].excluded && !isValid(index);
+            if (filter === 'review') return isFlagged(index);
+            return true;
+        });
+    const pageCount = Math.max(1, Math.ceil(visibleIndexes.length / PAGE_SIZE));
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageIndexes = visibleIndexes.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+    const updateEntry = (index: number, update: Partial<PreviewEntry>) => {
+        setEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, ...update } : entry)));
+    };
+
+    const handleFieldChange = (index: number, field: AccountField, value: string) => {
+        const entry = entries[index];
+        // A typed bank name replaces any bank or sort code from the file
+        const codes = field === 'bankName' ? { bankCode: undefined, sortCode: undefined } : {};
+        // A changed row needs a fresh look at its risk signals
+        updateEntry(index, { account: { ...entry.account, [field]: value }, ...codes, riskReviewed: false });
+    };
+
+    const handleExcludeInvalid = () => {
+        setEntries(prev => prev.map((entry, index) => (!entry.excluded && !isValid(index) ? { ...entry, excluded: true } : entry)));
+    };
+
+    const handleConfirm = () => {
+        const clean = entries.flatMap((entry, index) => {
+            if (entry.excluded || !isValid(index)) return [];
+            const account: AccountDetails = {
+                ...entry.account,
+                beneficiaryName: entry.account.beneficiaryName.trim(),
+                bankName: entry.account.bankName.trim(),
+                accountNumber: entry.account.accountNumber.trim(),
+                bvn: entry.account.bvn.trim(),
+            };
+            return [{ rowNumber: entry.rowNumber, account, resolution: validations[index].resolution }];
+        });
+        onConfirm(clean);
+    };
+
+    const filterButton = (value: RowFilter, label: string) => (
+        <button
+            onClick={() => { setFilter(value); setPage(0); }}
+            className={`px-3 py-1 rounded-full border ${filter === value ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-1">Review Rows</h2>
+            <p className="text-sm text-gray-600 mb-3">
+                Fix highlighted cells or exclude rows. Only rows without errors are sent for verification.
+                Rows flagged for risk are sent too unless you exclude them; check them under "Flagged for review".
+            </p>
+
+            {fileNotes.length > 0 && (
+                <div className="mb-3 bg-yellow-50 border-l-4 border-yellow-400 p-3 text-xs text-yellow-800 whitespace-pre-wrap">
+                    {fileNotes.join('\n')}
+                </div>
+            )}
+
+            <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+                {filterButton('all', `All (${entries.length})`)}
+                {filterButton('problems', `With errors (${invalidCount})`)}
+                {filterButton('review', `Flagged for review (${flaggedCount})`)}
+                {filterButton('excluded', `Excluded (${excludedCount})`)}
+                {invalidCount > 0 && (
+                    <button onClick={handleExcludeInvalid} className="ml-auto text-sm text-red-600 hover:underline">
+                        Exclude all rows with errors
+                    </button>
+                )}
+            </div>
+
+            <datalist id="bulkPreviewBanks">
+                {banks.map(bank => <option key={bank.name} value={bank.name} />)}
+            </datalist>
+
+            <div className="max-h-[50vh] overflow-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0 z-10">
+                        <tr>
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Include</th>
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                            {FIELDS.map(({ field, label }) => (
+                                <th key={field} scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                            ))}
+                            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Risk</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {pageIndexes.map(index => {
+                            const entry = entries[index];
+                            const { errors, resolution, duplicateOf } = validations[index];
+                            const risk = risks[index];
+                            return (
+                                <tr key={entry.rowNumber} className={entry.excluded ? 'bg-gray-50 text-gray-400' : isValid(index) ? '' : 'bg-red-50'}>
+                                    <td className="px-3 py-2 align-top">
+                                        <input
+                                            type="checkbox"
+                                            checked={!entry.excluded}
+                                            onChange={e => updateEntry(index, { excluded: !e.target.checked })}
+                                            aria-label={`Include row ${entry.rowNumber}`}
+                                            className="h-4 w-4 text-primary border-gray-300 rounded"
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2 align-top text-sm text-gray-500 whitespace-nowrap">
+                                        {entry.rowNumber}
+                                        {entry.issues.map(issue => <span key={issue} className="block text-xs text-yellow-700 max-w-[12rem] whitespace-normal">{issue}</span>)}
+                                        {duplicateOf !== null && (
+                                            <span className="block text-xs text-red-600 whitespace-normal">Duplicate of row {entries[duplicateOf].rowNumber}</span>
+                                        )}
+                                    </td>
+                                    {FIELDS.map(({ field, label, className }) => {
+                                        const error = entry.excluded ? undefined : errors[field];
+                                        const bankHint = field === 'bankName' && !error && !entry.excluded && resolution.status !== 'resolved'
+                                            ? 'Bank will be confirmed in the next step.'
+                                            : field === 'bankName' && resolution.bank && resolution.bank.name !== entry.account.bankName.trim()
+                                                ? `→ ${resolution.bank.name}`
+                                                : undefined;
+                                        return (
+                                            <td key={field} className="px-3 py-2 align-top">
+                                                <input
+                                                    type="text"
+                                                    value={entry.account[field]}
+                                                    onChange={e => handleFieldChange(index, field, e.target.value)}
+                                                    list={field === 'bankName' ? 'bulkPreviewBanks' : undefined}
+                                                    aria-label={`${label}, row ${entry.rowNumber}`}
+                                                    aria-invalid={!!error}
+                                                    title={error}
+                                                    className={`${className} w-full px-2 py-1 text-sm border ${error ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-secondary focus:border-secondary disabled:bg-transparent`}
+                                                    disabled={entry.excluded}
+                                                />
+                                                {error && <span className="block text-xs text-red-600 mt-1 max-w-[16rem]">{error}</span>}
+                                                {bankHint && <span className="block text-xs text-gray-500 mt-1">{bankHint}</span>}
+                                            </td>
+                                        );
+                                    })}
+                                    <td className="px-3 py-2 align-top text-xs min-w-[14rem]">
+                                        {risk.level !== 'none' && (
+                                            <>
+                                                <span className={`inline-block px-2 py-0.5 rounded-full font-semibold ${RISK_LEVEL_STYLES[risk.level]}`}>
+                                                    {risk.score} · {risk.level}
+                                                </span>
+                                                <ul className="mt-1 space-y-1 text-gray-600">
+                                                    {risk.signals.map(signal => (
+                                                        <li key={signal.rule} title={RISK_RULE_INFO[signal.rule].label}>{signal.message}</li>
+                                                    ))}
+                                                </ul>
+                                                {needsRiskReview(risk) && !entry.excluded && (
+                                                    <button
+                                                        onClick={() => updateEntry(index, { riskReviewed: !entry.riskReviewed })}
+                                                        className="mt-1 text-primary hover:underline"
+                                                    >
+                                                        {entry.riskReviewed ? 'Undo review' : 'Mark reviewed'}
+                                                    </button>
+                                                )}
+                                            </>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {pageIndexes.length === 0 && (
+                            <tr>
+                                <td colSpan={FIELDS.length + 3} className="px-3 py-6 text-center text-sm text-gray-500">No rows to show.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {pageCount > 1 && (
+                <div className="mt-2 flex justify-end items-center space-x-2 text-sm text-gray-600">
+                    <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="px-2 py-1 border rounded-md disabled:opacity-50">Previous</button>
+                    <span>Page {currentPage + 1} of {pageCount}</span>
+                    <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="px-2 py-1 border rounded-md disabled:opacity-50">Next</button>
+                </div>
+            )}
+
+            <div className="mt-6 flex justify-between items-center">
+                <p className="text-sm text-gray-600">
+                    <span className="font-semibold text-green-700">{readyCount} ready</span>
+                    {invalidCount > 0 && <span className="text-red-600"> · {invalidCount} with errors will be skipped</span>}
+                    {flaggedCount > 0 && <span className="text-yellow-700"> · {flaggedCount} flagged for review</span>}
+                    {excludedCount > 0 && <span> · {excludedCount} excluded</span>}
+                </p>
+                <div className="flex space-x-4">
+                    <button
+                        onClick={onCancel}
+                        className="bg-gray-200 text-gray-700 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
+                    >
+                        Cancel Upload
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={readyCount === 0}
+                        className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Verify {readyCount} Row{readyCount === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,199 @@
 import React, { useState, useMemo } from 'react';
-import { VerificationResultData } from '../types';
+import { AccountDetails, AccountFieldErrors, ApproverSignIn, BankData, BatchApprovalAction, BeneficiaryMetadataField, BatchApprovalEvent, BatchApprovalState, BulkProgress, BulkRowResult, ExportFormat, NameMatchGrade, PiiExportMode, RiskAssessment, RiskLevel, VerificationFailureCode } from '../types';
+import { FAILURE_CODE_INFO } from '../services/verificationFailures';
+import { validateAccountDetails } from '../services/accountValidation';
+import { maskBvn } from '../services/pii';
+import { MaskedBvn } from './MaskedBvn';
+import { describeAttempts } from './ProviderAttempts';
+import { PaymentFilePanel } from './PaymentFilePanel';
+import { BatchApprovalPanel } from './BatchApprovalPanel';
+import { getExportLockReason, isPaymentExportAllowed } from '../services/batchApproval';
+import { needsRiskReview } from '../services/riskSignals';
+import { describeBeneficiaryChanges } from '../services/beneficiaryRegistry';
+import { BENEFICIARY_METADATA_FIELDS, describeMetadata, getMetadataFieldsInUse } from '../services/beneficiaryMetadata';
 
 interface BulkResultsDisplayProps {
-    results: VerificationResultData[];
-    onDownload: () => void;
-    onDownloadAll: () => void;
+    results: BulkRowResult[];
+    progress?: BulkProgress | null;
+    banks: BankData[];
+    // Rows currently being re-verified.
+    pendingRows?: Set<number>;
+    // Rows held back because their bank is offline; they are sent once it is back.
+    deferredRows?: { rowIndex: number; account: AccountDetails }[];
+    // The batch rows, for building payment files.
+    accounts?: AccountDetails[];
+    // Risk assessment of each batch row, by row position.
+    risks?: RiskAssessment[];
+    // Set for saved batches; payment exports stay locked until the batch is approved.
+    approvalState?: BatchApprovalState;
+    approvalHistory?: BatchApprovalEvent[];
+    operator?: string;
+    // The saved bulk job, recorded in the audit log when a payment file is downloaded.
+    jobId?: string | null;
+    onApprovalAction?: (action: BatchApprovalAction, comment: string, signIn?: ApproverSignIn) => Promise<void>;
+    onReverify?: (rowIndexes: number[], edits: Record<number, AccountDetails>) => void;
+    // Called when the operator unmasks a row's BVN.
+    onRevealBvn: (rowIndex: number, account: AccountDetails) => void;
+    onPause?: () => void;
+    onResume?: () => void;
+    onCancel?: () => void;
+    onDownload: (format: ExportFormat, piiMode: PiiExportMode) => void;
+    onDownloadAll: (format: ExportFormat, piiMode: PiiExportMode) => void;
     onClose: () => void;
 }
 
-type SortKey = 'beneficiaryName' | 'accountNumber' | 'success' | 'message';
+const formatEta = (ms: number | null): string => {
+    if (ms === null) return 'Estimating...';
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s remaining` : `${seconds}s remaining`;
+};
+
+const BulkProgressBar: React.FC<{
+    progress: BulkProgress;
+    onPause?: () => void;
+    onResume?: () => void;
+    onCancel?: () => void;
+}> = ({ progress, onPause, onResume, onCancel }) => {
+    const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+    const isActive = progress.state === 'running' || progress.state === 'paused';
+
+    return (
+        <div className="mb-6 border rounded-lg p-4">
+            <div className="flex justify-between items-center text-sm text-gray-600 mb-2">
+                <span>
+                    {progress.done} of {progress.total} verified
+                    {progress.deferred > 0 && <span className="ml-2 font-semibold text-yellow-700">{progress.deferred} waiting for bank</span>}
+                    {progress.state === 'paused' && <span className="ml-2 font-semibold text-yellow-700">Paused</span>}
+                    {progress.state === 'cancelled' && <span className="ml-2 font-semibold text-red-700">Cancelled ({progress.remaining} not verified)</span>}
+                </span>
+                {isActive && <span>{formatEta(progress.etaMs)}</span>}
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+                <div className="bg-primary h-2 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+            </div>
+            {isActive && (
+                <div className="mt-3 flex justify-end space-x-2">
+                    {progress.state === 'running' ? (
+                        <button onClick={onPause} className="text-sm bg-gray-200 text-gray-700 font-semibold py-1 px-3 rounded-md hover:bg-gray-300 transition-colors">Pause</button>
+                    ) : (
+                        <button onClick={onResume} className="text-sm bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary transition-colors">Resume</button>
+                    )}
+                    <button onClick={onCancel} className="text-sm bg-white text-red-600 border border-red-300 font-semibold py-1 px-3 rounded-md hover:bg-red-50 transition-colors">Cancel</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const RowEditor: React.FC<{
+    account: AccountDetails;
+    banks: BankData[];
+    onRevealBvn: () => void;
+    onSave: (account: AccountDetails) => void;
+    onCancel: () => void;
+}> = ({ account, banks, onRevealBvn, onSave, onCancel }) => {
+    const [draft, setDraft] = useState<AccountDetails>(account);
+    const [errors, setErrors] = useState<AccountFieldErrors>({});
+    // The stored BVN stays masked unless the operator reveals it or types a replacement.
+    const [isBvnEditable, setIsBvnEditable] = useState<boolean>(!account.bvn);
+
+    const revealBvn = () => {
+        onRevealBvn();
+        setIsBvnEditable(true);
+    };
+
+    const replaceBvn = () => {
+        setDraft(prev => ({ ...prev, bvn: '' }));
+        setIsBvnEditable(true);
+    };
+
+    const handleSave = () => {
+        const trimmed: AccountDetails = {
+            ...draft,
+            beneficiaryName: draft.beneficiaryName.trim(),
+            accountNumber: draft.accountNumber.trim(),
+            bvn: draft.bvn.trim(),
+        };
+        const newErrors = validateAccountDetails(trimmed, banks);
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length === 0) onSave(trimmed);
+    };
+
+    const input = (field: 'beneficiaryName' | 'accountNumber' | 'bvn', label: string) => (
+        <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+            <input
+                type="text"
+                value={draft[field]}
+                onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                className={`w-full px-2 py-1 text-sm border ${errors[field] ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-secondary focus:border-secondary`}
+            />
+            {errors[field] && <p className="text-red-500 text-xs mt-1">{errors[field]}</p>}
+        </div>
+    );
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-start">
+            {input('beneficiaryName', 'Beneficiary Name')}
+            <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Bank</label>
+                <select
+                    value={draft.bankName}
+                    onChange={e => setDraft(prev => ({ ...prev, bankName: e.target.value }))}
+                    className={`w-full px-2 py-1 text-sm border ${errors.bankName ? 'border-red-500' : 'border-gray-300'} rounded-md bg-white focus:ring-secondary focus:border-secondary`}
+                >
+                    {!banks.some(bank => bank.name === draft.bankName) && <option value={draft.bankName}>{draft.bankName || 'Select a bank...'}</option>}
+                    {banks.map(bank => <option key={bank.name} value={bank.name}>{bank.name}</option>)}
+                </select>
+                {errors.bankName && <p className="text-red-500 text-xs mt-1">{errors.bankName}</p>}
+            </div>
+            {input('accountNumber', 'Account Number')}
+            {isBvnEditable ? input('bvn', 'BVN') : (
+                <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">BVN</label>
+                    <p className="px-2 py-1 text-sm font-mono text-gray-700">{maskBvn(draft.bvn)}</p>
+                    <div className="space-x-3">
+                        <button type="button" onClick={revealBvn} className="text-xs font-semibold text-secondary hover:underline">Show and edit</button>
+                        <button type="button" onClick={replaceBvn} className="text-xs font-semibold text-secondary hover:underline">Replace</button>
+                    </div>
+                </div>
+            )}
+            <div className="md:col-span-4 flex justify-end space-x-2">
+                <button onClick={onCancel} className="text-sm bg-gray-200 text-gray-700 font-semibold py-1 px-3 rounded-md hover:bg-gray-300 transition-colors">Cancel</button>
+                <button onClick={handleSave} className="text-sm bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary transition-colors">Save Changes</button>
+            </div>
+        </div>
+    );
+};
+
+type SortKey = 'beneficiaryName' | 'bankName' | 'accountNumber' | 'nameMatch' | 'success' | 'message';
+
+const NAME_MATCH_STYLES: Record<NameMatchGrade, string> = {
+    [NameMatchGrade.EXACT]: 'bg-green-100 text-green-800',
+    [NameMatchGrade.STRONG]: 'bg-blue-100 text-blue-800',
+    [NameMatchGrade.PARTIAL]: 'bg-yellow-100 text-yellow-800',
+    [NameMatchGrade.MISMATCH]: 'bg-red-100 text-red-800',
+};
+
+const RISK_STYLES: Record<Exclude<RiskLevel, 'none'>, string> = {
+    low: 'bg-gray-100 text-gray-700',
+    medium: 'bg-yellow-100 text-yellow-800',
+    high: 'bg-red-100 text-red-800',
+};
+
+// Filter value for rows the provider returned no registered name for.
+const NOT_GRADED = 'none';
+
+interface MetadataGroup {
+    // Empty for rows without a value.
+    value: string;
+    total: number;
+    succeeded: number;
+}
+
+const metadataValue = (result: BulkRowResult, field: BeneficiaryMetadataField): string => result.data?.[field]?.trim() || '';
 
 interface SortConfig {
     key: SortKey;
@@ -49,10 +234,64 @@ const SortableHeader: React.FC<{
 };
 
 
-export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results, onDownload, onDownloadAll, onClose }) => {
+export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results, progress, banks, pendingRows, deferredRows = [], accounts, risks = [], approvalState, approvalHistory = [], operator = '', jobId = null, onApprovalAction, onReverify, onRevealBvn, onPause, onResume, onCancel, onDownload, onDownloadAll, onClose }) => {
     const successfulCount = results.filter(r => r.success).length;
     const failedCount = results.length - successfulCount;
     const [sortConfig, setSortConfig] = useState<SortConfig | null>({ key: 'beneficiaryName', direction: 'ascending' });
+    const [nameMatchFilter, setNameMatchFilter] = useState<string>('all');
+    const [failureFilter, setFailureFilter] = useState<string>('all');
+    const [groupField, setGroupField] = useState<BeneficiaryMetadataField | ''>('');
+    const [metadataFilter, setMetadataFilter] = useState<{ field: BeneficiaryMetadataField; value: string } | null>(null);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+    const [piiMode, setPiiMode] = useState<PiiExportMode>('masked');
+    const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+    const [edits, setEdits] = useState<Record<number, AccountDetails>>({});
+    const [editingRow, setEditingRow] = useState<number | null>(null);
+    // Rows can only be re-verified, and paid, once the batch has stopped running.
+    const isStopped = !progress || progress.state === 'completed' || progress.state === 'cancelled';
+    const canReverify = !!onReverify && isStopped;
+    const isPaymentLocked = !approvalState || !isPaymentExportAllowed(approvalState);
+    const paymentLockReason = isPaymentLocked
+        ? (approvalState ? 'Payment exports are unlocked once the batch is approved.' : 'This batch was not saved, so it cannot be approved for payment.')
+        : undefined;
+    // Full IDs are held back with the verified rows until the batch is approved
+    const allResultsLockReason = getExportLockReason(approvalState, false, piiMode) ?? undefined;
+    const flaggedCount = risks.filter(needsRiskReview).length;
+    const reusedCount = results.filter(r => r.previouslyVerified).length;
+    const changedCount = results.filter(r => r.registryChanges).length;
+
+    const failureCounts = useMemo(() => {
+        const counts = new Map<VerificationFailureCode, number>();
+        results.forEach(result => {
+            if (!result.success && result.failureCode) {
+                counts.set(result.failureCode, (counts.get(result.failureCode) || 0) + 1);
+            }
+        });
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    }, [results]);
+    const retryableCount = results.filter(r => !r.success && r.retryable).length;
+    const deferredByBank = useMemo(() => {
+        const counts = new Map<string, number>();
+        deferredRows.forEach(({ account }) => counts.set(account.bankName, (counts.get(account.bankName) || 0) + 1));
+        return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+    }, [deferredRows]);
+
+    const groupableFields = useMemo(
+        () => getMetadataFieldsInUse(results.map(r => r.data)).filter(({ groupable }) => groupable),
+        [results]
+    );
+    const groups = useMemo((): MetadataGroup[] => {
+        if (!groupField) return [];
+        const byValue = new Map<string, MetadataGroup>();
+        results.forEach(result => {
+            const value = metadataValue(result, groupField);
+            const group = byValue.get(value) ?? { value, total: 0, succeeded: 0 };
+            byValue.set(value, { ...group, total: group.total + 1, succeeded: group.succeeded + (result.success ? 1 : 0) });
+        });
+        // Rows without a value go last
+        return Array.from(byValue.values()).sort((a, b) => (!a.value ? 1 : !b.value ? -1 : a.value.localeCompare(b.value)));
+    }, [results, groupField]);
+    const metadataFilterLabel = metadataFilter && BENEFICIARY_METADATA_FIELDS.find(({ field }) => field === metadataFilter.field)?.label;
 
     const requestSort = (key: SortKey) => {
         let direction: 'ascending' | 'descending' = 'ascending';
@@ -63,13 +302,22 @@ export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results,
     };
 
     const sortedResults = useMemo(() => {
-        let sortableItems = [...results];
+        let sortableItems = results.filter(result => {
+            if (failureFilter !== 'all' && result.failureCode !== failureFilter) return false;
+            if (metadataFilter && metadataValue(result, metadataFilter.field) !== metadataFilter.value) return false;
+            if (nameMatchFilter === 'all') return true;
+            if (nameMatchFilter === NOT_GRADED) return !result.nameMatchGrade;
+            return result.nameMatchGrade === nameMatchFilter;
+        });
         if (sortConfig !== null) {
             sortableItems.sort((a, b) => {
-                const getSortValue = (item: VerificationResultData, key: SortKey) => {
-                    if (key === 'beneficiaryName' || key === 'accountNumber') {
+                const getSortValue = (item: BulkRowResult, key: SortKey) => {
+                    if (key === 'beneficiaryName' || key === 'bankName' || key === 'accountNumber') {
                         return item.data?.[key]?.toLowerCase() || '';
                     }
+                    if (key === 'nameMatch') {
+                        return item.nameMatchScore ?? -1;
+                    }
                     if (key === 'success' || key === 'message') {
                         const val = item[key];
                          if (typeof val === 'boolean') return val ? 1 : 0;
@@ -92,12 +340,50 @@ export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results,
             });
         }
         return sortableItems;
-    }, [results, sortConfig]);
+    }, [results, sortConfig, nameMatchFilter, failureFilter, metadataFilter]);
+
+    const toggleRow = (rowIndex: number) => {
+        setSelectedRows(prev => {
+            const next = new Set(prev);
+            if (next.has(rowIndex)) next.delete(rowIndex);
+            else next.add(rowIndex);
+            return next;
+        });
+    };
+
+    // Selects the failed rows that pass the current filters
+    const handleSelectFailed = () => {
+        setSelectedRows(new Set(sortedResults.filter(r => !r.success).map(r => r.rowIndex)));
+    };
+
+    const handleSaveEdit = (rowIndex: number, account: AccountDetails) => {
+        setEdits(prev => ({ ...prev, [rowIndex]: account }));
+        setSelectedRows(prev => new Set(prev).add(rowIndex));
+        setEditingRow(null);
+    };
+
+    const handleReverify = () => {
+        const rowIndexes: number[] = Array.from(selectedRows);
+        const rowEdits = rowIndexes.reduce((acc, rowIndex) => {
+            if (edits[rowIndex]) acc[rowIndex] = edits[rowIndex];
+            return acc;
+        }, {} as Record<number, AccountDetails>);
+        onReverify?.(rowIndexes, rowEdits);
+        setSelectedRows(new Set());
+        setEdits(prev => {
+            const next = { ...prev };
+            rowIndexes.forEach(rowIndex => delete next[rowIndex]);
+            return next;
+        });
+    };
 
 
     return (
         <div>
             <h2 className="text-2xl font-bold text-gray-800 mb-4">Bulk Verification Results</h2>
+            {progress && progress.state !== 'completed' && (
+                <BulkProgressBar progress={progress} onPause={onPause} onResume={onResume} onCancel={onCancel} />
+            )}
             <div className="mb-6 bg-gray-50 p-4 rounded-lg flex justify-around text-center">
                 <div>
                     <p className="text-3xl font-bold text-green-600">{successfulCount}</p>
@@ -107,44 +393,319 @@ export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results,
                     <p className="text-3xl font-bold text-red-600">{failedCount}</p>
                     <p className="text-sm text-gray-600">Failed</p>
                 </div>
+                {deferredRows.length > 0 && (
+                    <div>
+                        <p className="text-3xl font-bold text-yellow-600">{deferredRows.length}</p>
+                        <p className="text-sm text-gray-600">Deferred</p>
+                    </div>
+                )}
+                {flaggedCount > 0 && (
+                    <div>
+                        <p className="text-3xl font-bold text-orange-600">{flaggedCount}</p>
+                        <p className="text-sm text-gray-600">Risk flagged</p>
+                    </div>
+                )}
                  <div>
-                    <p className="text-3xl font-bold text-gray-800">{results.length}</p>
+                    <p className="text-3xl font-bold text-gray-800">{Math.max(progress?.total ?? 0, results.length)}</p>
                     <p className="text-sm text-gray-600">Total</p>
                 </div>
             </div>
 
+            {approvalState && onApprovalAction && (
+                <BatchApprovalPanel state={approvalState} history={approvalHistory} operator={operator} onAction={onApprovalAction} />
+            )}
+
+            {deferredByBank.length > 0 && (
+                <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                    <p className="font-semibold mb-1">Waiting for offline banks</p>
+                    <p className="mb-2">
+                        These rows have not been sent because their bank is offline. They are not failures: each is verified automatically once its bank responds again.
+                    </p>
+                    <ul className="list-disc list-inside">
+                        {deferredByBank.map(([bankName, count]) => (
+                            <li key={bankName}>{bankName}: {count} {count === 1 ? 'row' : 'rows'}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {(reusedCount > 0 || changedCount > 0) && (
+                <p className="mb-4 text-sm text-gray-600">
+                    {reusedCount > 0 && <>{reusedCount} {reusedCount === 1 ? 'row was' : 'rows were'} previously verified and not sent to the provider again. </>}
+                    {changedCount > 0 && <span className="font-semibold text-orange-700">{changedCount} {changedCount === 1 ? 'row has' : 'rows have'} a name or bank that changed since the last verification.</span>}
+                </p>
+            )}
+
+            {failureCounts.length > 0 && (
+                <div className="mb-4 text-sm">
+                    <p className="text-gray-600 mb-2">
+                        Failure reasons{retryableCount > 0 && <span className="text-gray-500"> ({retryableCount} can be retried)</span>}:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {failureCounts.map(([code, count]) => (
+                            <button
+                                key={code}
+                                onClick={() => setFailureFilter(failureFilter === code ? 'all' : code)}
+                                className={`px-2 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                                    failureFilter === code ? 'bg-red-600 text-white border-red-600' : 'bg-red-50 text-red-800 border-red-200 hover:bg-red-100'
+                                }`}
+                                title={FAILURE_CODE_INFO[code].retryable ? 'Retryable' : 'Not retryable'}
+                            >
+                                {FAILURE_CODE_INFO[code].label}: {count}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="mb-3 flex justify-end items-center space-x-2 text-sm">
+                {onReverify && failedCount > 0 && (
+                    <div className="mr-auto flex items-center space-x-3">
+                        <button onClick={handleSelectFailed} disabled={!canReverify} className="text-accent font-semibold hover:underline disabled:text-gray-400 disabled:no-underline">
+                            Select failed rows
+                        </button>
+                        {selectedRows.size > 0 && (
+                            <button onClick={() => setSelectedRows(new Set())} className="text-gray-600 hover:underline">Clear selection</button>
+                        )}
+                        <button
+                            onClick={handleReverify}
+                            disabled={!canReverify || selectedRows.size === 0}
+                            className="bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Re-verify Selected ({selectedRows.size})
+                        </button>
+                    </div>
+                )}
+                <label htmlFor="nameMatchFilter" className="text-gray-600">Name match:</label>
+                <select
+                    id="nameMatchFilter"
+                    value={nameMatchFilter}
+                    onChange={e => setNameMatchFilter(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary"
+                >
+                    <option value="all">All grades</option>
+                    {Object.values(NameMatchGrade).map(grade => <option key={grade} value={grade}>{grade}</option>)}
+                    <option value={NOT_GRADED}>Not graded</option>
+                </select>
+                {groupableFields.length > 0 && (
+                    <>
+                        <label htmlFor="groupBy" className="text-gray-600">Group by:</label>
+                        <select
+                            id="groupBy"
+                            value={groupField}
+                            onChange={e => setGroupField(e.target.value as BeneficiaryMetadataField | '')}
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary"
+                        >
+                            <option value="">No grouping</option>
+                            {groupableFields.map(({ field, label }) => <option key={field} value={field}>{label}</option>)}
+                        </select>
+                    </>
+                )}
+            </div>
+
+            {groupField && groups.length > 0 && (
+                <div className="mb-3 border rounded-lg overflow-hidden text-sm">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                {[groupableFields.find(({ field }) => field === groupField)?.label ?? '', 'Rows', 'Successful', 'Failed'].map(title => (
+                                    <th key={title} scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {groups.map(group => {
+                                const isActive = metadataFilter?.field === groupField && metadataFilter.value === group.value;
+                                return (
+                                    <tr
+                                        key={group.value}
+                                        onClick={() => setMetadataFilter(isActive ? null : { field: groupField, value: group.value })}
+                                        className={`cursor-pointer ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                                        title={isActive ? 'Show all rows' : 'Show only these rows'}
+                                    >
+                                        <td className="px-4 py-2 font-medium text-gray-800">{group.value || <span className="text-gray-400">(none)</span>}</td>
+                                        <td className="px-4 py-2 text-gray-600">{group.total}</td>
+                                        <td className="px-4 py-2 text-green-700">{group.succeeded}</td>
+                                        <td className="px-4 py-2 text-red-700">{group.total - group.succeeded}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {metadataFilter && (
+                <p className="mb-3 text-sm text-gray-600">
+                    Showing {metadataFilterLabel}: <strong>{metadataFilter.value || '(none)'}</strong>
+                    <button onClick={() => setMetadataFilter(null)} className="ml-2 text-secondary hover:underline">Show all</button>
+                </p>
+            )}
+
             <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50 sticky top-0">
                         <tr>
+                            {onReverify && <th scope="col" className="px-3 py-3"><span className="sr-only">Select</span></th>}
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
                             <SortableHeader sortKey="beneficiaryName" title="Beneficiary" sortConfig={sortConfig} requestSort={requestSort} />
+                            <SortableHeader sortKey="bankName" title="Bank" sortConfig={sortConfig} requestSort={requestSort} />
                             <SortableHeader sortKey="accountNumber" title="Account No." sortConfig={sortConfig} requestSort={requestSort} />
+                            <SortableHeader sortKey="nameMatch" title="Name Match" sortConfig={sortConfig} requestSort={requestSort} />
                             <SortableHeader sortKey="success" title="Status" sortConfig={sortConfig} requestSort={requestSort} />
                             <SortableHeader sortKey="message" title="Details" sortConfig={sortConfig} requestSort={requestSort} />
                         </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                        {sortedResults.map((result, index) => (
-                            <tr key={index} className={result.success ? 'bg-green-50' : 'bg-red-50'}>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{index + 1}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{result.data?.beneficiaryName || 'N/A'}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{result.data?.accountNumber || 'N/A'}</td>
-                                <td className="px-6 py-4 whitespace-nowrap text-sm">
-                                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                                        result.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                                    }`}>
-                                        {result.success ? 'Success' : 'Failed'}
-                                    </span>
-                                </td>
-                                <td className="px-6 py-4 whitespace-normal text-sm text-gray-500">{result.message}</td>
-                            </tr>
-                        ))}
+                        {sortedResults.map(result => {
+                            const isPending = pendingRows?.has(result.rowIndex) ?? false;
+                            const edit = edits[result.rowIndex];
+                            const details = edit ?? result.data;
+                            const columnCount = onReverify ? 8 : 7;
+                            const risk = risks[result.rowIndex];
+                            return (
+                                <React.Fragment key={result.rowIndex}>
+                                    <tr className={isPending ? 'bg-gray-50' : result.success ? 'bg-green-50' : 'bg-red-50'}>
+                                        {onReverify && (
+                                            <td className="px-3 py-4">
+                                                {!result.success && (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedRows.has(result.rowIndex)}
+                                                        onChange={() => toggleRow(result.rowIndex)}
+                                                        disabled={!canReverify || isPending}
+                                                        aria-label={`Select row ${result.rowIndex + 1}`}
+                                                        className="h-4 w-4 text-primary border-gray-300 rounded"
+                                                    />
+                                                )}
+                                            </td>
+                                        )}
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{result.rowIndex + 1}</td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                            {details?.beneficiaryName || 'N/A'}
+                                            {details && describeMetadata(details) && (
+                                                <span className="block text-xs font-normal text-gray-500">{describeMetadata(details)}</span>
+                                            )}
+                                            {edit && <span className="block text-xs font-normal text-accent">Edited, not yet re-verified</span>}
+                                            {risk && risk.level !== 'none' && (
+                                                <span
+                                                    className={`ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${RISK_STYLES[risk.level]}`}
+                                                    title={risk.signals.map(signal => signal.message).join('\n')}
+                                                >
+                                                    {risk.level} risk ({risk.score})
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-gray-500">
+                                            {details?.bankName || 'N/A'}
+                                            {!edit && result.data?.originalBankName && (
+                                                <span className="block text-xs text-gray-400" title="Bank name as written in the uploaded file">
+                                                    from "{result.data.originalBankName}"
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                            {details?.accountNumber || 'N/A'}
+                                            {details?.bvn && (
+                                                <span className="block text-xs text-gray-400">
+                                                    BVN <MaskedBvn key={details.bvn} bvn={details.bvn} onReveal={() => onRevealBvn(result.rowIndex, details)} />
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm" title={result.registeredName ? `Registered as ${result.registeredName}` : undefined}>
+                                            {result.nameMatchGrade ? (
+                                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${NAME_MATCH_STYLES[result.nameMatchGrade]}`}>
+                                                    {result.nameMatchGrade} ({Math.round((result.nameMatchScore ?? 0) * 100)}%)
+                                                </span>
+                                            ) : (
+                                                <span className="text-gray-400">—</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                            {isPending ? (
+                                                <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-200 text-gray-700">Re-verifying...</span>
+                                            ) : (
+                                                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                                    result.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                                                }`}>
+                                                    {result.success ? 'Success' : 'Failed'}
+                                                </span>
+                                            )}
+                                            {result.previouslyVerified && (
+                                                <span className="block text-xs text-blue-700 mt-1" title={`Verified on ${new Date(result.previouslyVerified.verifiedAt).toLocaleString()} (${result.previouslyVerified.provider})`}>
+                                                    Previously verified
+                                                </span>
+                                            )}
+                                            {result.attempts > 1 && <span className="block text-xs text-gray-500 mt-1">Attempt {result.attempts}</span>}
+                                            {result.providerAttempts && result.providerAttempts.length > 1 && (
+                                                <span className="block text-xs text-gray-500 mt-1" title={describeAttempts(result.providerAttempts)}>
+                                                    {result.providerAttempts.length} provider calls
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 whitespace-normal text-sm text-gray-500">
+                                            {result.failureCode && (
+                                                <span className="block text-xs font-mono text-red-700">{result.failureCode}{result.retryable ? ' · retryable' : ''}</span>
+                                            )}
+                                            {result.message}
+                                            {result.registryChanges && describeBeneficiaryChanges(result.registryChanges).map(change => (
+                                                <span key={change} className="block mt-1 text-xs font-semibold text-orange-700">{change}</span>
+                                            ))}
+                                            {onReverify && !result.success && !isPending && editingRow !== result.rowIndex && (
+                                                <button
+                                                    onClick={() => setEditingRow(result.rowIndex)}
+                                                    disabled={!canReverify}
+                                                    className="block mt-1 text-xs font-semibold text-accent hover:underline disabled:text-gray-400 disabled:no-underline"
+                                                >
+                                                    Edit details
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                    {editingRow === result.rowIndex && details && (
+                                        <tr className="bg-blue-50">
+                                            <td colSpan={columnCount} className="px-6 py-4">
+                                                <RowEditor
+                                                    account={details}
+                                                    banks={banks}
+                                                    onRevealBvn={() => onRevealBvn(result.rowIndex, details)}
+                                                    onSave={account => handleSaveEdit(result.rowIndex, account)}
+                                                    onCancel={() => setEditingRow(null)}
+                                                />
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
                     </tbody>
                 </table>
             </div>
+
+            {accounts && <PaymentFilePanel accounts={accounts} results={results} banks={banks} disabled={!isStopped} lockedReason={paymentLockReason} approvalState={approvalState} operator={operator} jobId={jobId} />}
             
-            <div className="mt-6 flex justify-end space-x-4">
+            <div className="mt-6 flex justify-end items-center space-x-4">
+                <select
+                    value={exportFormat}
+                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                    aria-label="Download format"
+                    className="py-2 px-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:ring-secondary focus:border-secondary"
+                >
+                    <option value="xlsx">Excel (.xlsx)</option>
+                    <option value="csv">CSV</option>
+                    <option value="json">JSON</option>
+                </select>
+                <select
+                    value={piiMode}
+                    onChange={e => setPiiMode(e.target.value as PiiExportMode)}
+                    aria-label="BVN and account numbers in the download"
+                    title="How BVNs and account numbers are written to the download"
+                    className="py-2 px-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:ring-secondary focus:border-secondary"
+                >
+                    <option value="masked">Masked IDs</option>
+                    <option value="hashed">Hashed IDs (keyed HMAC)</option>
+                    <option value="full">Full IDs</option>
+                </select>
                  <button 
                     onClick={onClose}
                     className="bg-gray-200 text-gray-700 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
@@ -152,15 +713,17 @@ export const BulkResultsDisplay: React.FC<BulkResultsDisplayProps> = ({ results,
                     Close
                 </button>
                 <button
-                    onClick={onDownloadAll}
-                    disabled={results.length === 0}
+                    onClick={() => onDownloadAll(exportFormat, piiMode)}
+                    disabled={results.length === 0 || !!allResultsLockReason}
+                    title={allResultsLockReason}
                     className="bg-white text-primary border border-primary font-bold py-2 px-4 rounded-md hover:bg-blue-50 disabled:bg-gray-200 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
                 >
                     Download All Results
                 </button>
                 <button 
-                    onClick={onDownload}
-                    disabled={successfulCount === 0}
+                    onClick={() => onDownload(exportFormat, piiMode)}
+                    disabled={successfulCount === 0 || isPaymentLocked}
+                    title={paymentLockReason}
                     className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                 >
                     Download Successful Results
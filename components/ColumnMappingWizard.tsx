@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import {
+    BULK_COLUMNS,
+    BulkColumnField,
+    ColumnMapping,
+    ColumnMappingPreset,
+    applyColumnMappingPreset,
+    deleteColumnMappingPreset,
+    getMappedValue,
+    getMissingRequiredColumns,
+    saveColumnMappingPreset,
+} from '../services/columnMapping';
+
+interface ColumnMappingWizardProps {
+    fileName: string;
+    // Worksheets of an Excel upload; omitted for CSV files.
+    sheetNames?: string[];
+    sheetName?: string;
+    onSheetChange?: (sheetName: string) => void;
+    headers: string[];
+    previewRows: string[][];
+    initialMapping: ColumnMapping;
+    initialPresets: ColumnMappingPreset[];
+    initialPresetName?: string;
+    onConfirm: (mapping: ColumnMapping) => void;
+    onCancel: () => void;
+}
+
+const IGNORE = '';
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+    fileName,
+    sheetNames,
+    sheetName,
+    onSheetChange,
+    headers,
+    previewRows,
+    initialMapping,
+    initialPresets,
+    initialPresetName,
+    onConfirm,
+    onCancel,
+}) => {
+    const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+    const [presets, setPresets] = useState<ColumnMappingPreset[]>(initialPresets);
+    const [selectedPreset, setSelectedPreset] = useState<string>(initialPresetName ?? '');
+    const [presetName, setPresetName] = useState<string>(initialPresetName ?? '');
+    const [presetError, setPresetError] = useState<string | null>(null);
+
+    const missing = getMissingRequiredColumns(mapping);
+    const mappedIndexes = new Set(Object.values(mapping));
+    const ignoredHeaders = headers.filter((_, index) => !mappedIndexes.has(index));
+
+    const handleFieldChange = (field: BulkColumnField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === IGNORE) {
+                delete next[field];
+                return next;
+            }
+            const index = Number(value);
+            // A column feeds at most one field
+            (Object.keys(next) as BulkColumnField[]).forEach(other => {
+                if (next[other] === index) delete next[other];
+            });
+            next[field] = index;
+            return next;
+        });
+    };
+
+    const handlePresetSelect = (name: string) => {
+        setSelectedPreset(name);
+        setPresetError(null);
+        const preset = presets.find(p => p.name === name);
+        if (!preset) return;
+        const presetMapping = applyColumnMappingPreset(preset, headers);
+        if (presetMapping) {
+            setMapping(presetMapping);
+            setPresetName(name);
+        } else {
+            setPresetError(`This file does not have all the columns used by "${name}".`);
+        }
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) {
+            setPresetError('Enter a name for the preset, e.g. the payroll system the file comes from.');
+            return;
+        }
+        setPresets(saveColumnMappingPreset(name, headers, mapping));
+        setSelectedPreset(name);
+        setPresetError(null);
+    };
+
+    const handleDeletePreset = () => {
+        if (!selectedPreset) return;
+        setPresets(deleteColumnMappingPreset(selectedPreset));
+        setSelectedPreset('');
+    };
+
+    return (
+        <div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-1">Map Columns</h2>
+            <p className="text-sm text-gray-600 mb-4">
+                Match the columns in <strong>{fileName}</strong> to the fields used for verification. Unassigned columns are ignored.
+            </p>
+
+            <div className="mb-4 flex flex-wrap items-end gap-2 text-sm">
+                {sheetNames && sheetNames.length > 1 && (
+                    <div className="mr-4">
+                        <label htmlFor="worksheet" className="block text-xs font-medium text-gray-600 mb-1">Sheet</label>
+                        <select
+                            id="worksheet"
+                            value={sheetName}
+                            onChange={e => onSheetChange?.(e.target.value)}
+                            className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary"
+                        >
+                            {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="mappingPreset" className="block text-xs font-medium text-gray-600 mb-1">Preset</label>
+                    <select
+                        id="mappingPreset"
+                        value={selectedPreset}
+                        onChange={e => handlePresetSelect(e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-secondary focus:border-secondary"
+                    >
+                        <option value="">{presets.length > 0 ? 'Choose a preset...' : 'No saved presets'}</option>
+                        {presets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+                    </select>
+                </div>
+                <button
+                    onClick={handleDeletePreset}
+                    disabled={!selectedPreset}
+                    className="py-1 px-3 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    Delete
+                </button>
+                <div className="ml-auto">
+                    <label htmlFor="presetName" className="block text-xs font-medium text-gray-600 mb-1">Save mapping as</label>
+                    <input
+                        id="presetName"
+                        type="text"
+                        value={presetName}
+                        onChange={e => setPresetName(e.target.value)}
+                        placeholder="e.g. IPPIS export"
+                        className="px-2 py-1 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                    />
+                </div>
+                <button
+                    onClick={handleSavePreset}
+                    className="py-1 px-3 rounded-md bg-white text-primary border border-primary font-semibold hover:bg-blue-50 transition-colors"
+                >
+                    Save Preset
+                </button>
+            </div>
+            {presetError && <p className="text-red-500 text-xs mb-3">{presetError}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                {BULK_COLUMNS.map(column => {
+                    const index = mapping[column.field];
+                    return (
+                        <div key={column.field}>
+                            <label htmlFor={`map-${column.field}`} className="block text-sm font-medium text-gray-600 mb-1">
+                                {column.label}{column.required ? ' *' : ' (optional)'}
+                            </label>
+                            <select
+                                id={`map-${column.field}`}
+                                value={index === undefined ? IGNORE : String(index)}
+                                onChange={e => handleFieldChange(column.field, e.target.value)}
+                                className={`w-full px-2 py-1 border ${column.required && index === undefined ? 'border-red-500' : 'border-gray-300'} rounded-md bg-white focus:ring-secondary focus:border-secondary`}
+                            >
+                                <option value={IGNORE}>— Not in this file —</option>
+                                {headers.map((header, i) => <option key={i} value={i}>{header || `Column ${i + 1}`}</option>)}
+                            </select>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {ignoredHeaders.length > 0 && (
+                <p className="text-xs text-gray-500 mb-2">Ignored columns: {ignoredHeaders.map(h => h || '(blank)').join(', ')}</p>
+            )}
+
+            <div className="max-h-[30vh] overflow-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                            {BULK_COLUMNS.filter(column => mapping[column.field] !== undefined).map(column => (
+                                <th key={column.field} scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{column.label}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                        {previewRows.map((values, rowIndex) => (
+                            <tr key={rowIndex}>
+                                {BULK_COLUMNS.filter(column => mapping[column.field] !== undefined).map(column => (
+                                    <td key={column.field} className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{getMappedValue(values, mapping, column.field)}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Showing the first {previewRows.length} row{previewRows.length === 1 ? '' : 's'}.</p>
+
+            {missing.length > 0 && <p className="text-red-500 text-sm mt-3">Assign a column to: {missing.join(', ')}.</p>}
+
+            <div className="mt-6 flex justify-end space-x-4">
+                <button
+                    onClick={onCancel}
+                    className="bg-gray-200 text-gray-700 font-bold py-2 px-4 rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    Cancel Upload
+                </button>
+                <button
+                    onClick={() => onConfirm(mapping)}
+                    disabled={missing.length > 0}
+                    className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    Continue
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,7 +1,28 @@
+import React, { useState } from 'react';
 
-import React from 'react';
+interface HeaderProps {
+    operator: string;
+    onOperatorChange: (operator: string) => void;
+    onOpenAuditLog: () => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ operator, onOperatorChange, onOpenAuditLog }) => {
+    const [isEditing, setIsEditing] = useState<boolean>(false);
+    const [draft, setDraft] = useState<string>('');
+
+    const startEditing = () => {
+        setDraft(operator);
+        setIsEditing(true);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = draft.trim();
+        if (!name) return;
+        onOperatorChange(name);
+        setIsEditing(false);
+    };
 
-export const Header: React.FC = () => {
     return (
         <header className="bg-white shadow-md">
             <div className="container mx-auto px-4 md:px-8 py-4 flex items-center justify-between">
@@ -16,6 +37,38 @@ export const Header: React.FC = () => {
                         <p className="text-sm text-gray-500">Ministry of Primary Health Care</p>
                     </div>
                 </div>
+                <div className="flex items-center space-x-4 text-sm">
+                    {operator && !isEditing ? (
+                        <span className="text-gray-600">
+                            Operator: <strong className="text-gray-800">{operator}</strong>
+                            <button onClick={startEditing} className="ml-2 text-secondary hover:underline">Change</button>
+                        </span>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+                            <label htmlFor="operatorName" className="text-gray-600">Operator</label>
+                            <input
+                                id="operatorName"
+                                type="text"
+                                value={draft}
+                                onChange={e => setDraft(e.target.value)}
+                                placeholder="Your full name"
+                                className="px-2 py-1 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                            />
+                            <button type="submit" disabled={!draft.trim()} className="bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary disabled:bg-gray-400 transition-colors">
+                                Save
+                            </button>
+                            {operator && (
+                                <button type="button" onClick={() => setIsEditing(false)} className="text-gray-500 hover:underline">Cancel</button>
+                            )}
+                        </form>
+                    )}
+                    <button
+                        onClick={onOpenAuditLog}
+                        className="bg-white text-primary border border-primary font-semibold py-1 px-3 rounded-md hover:bg-blue-50 transition-colors"
+                    >
+                        Audit Log
+                    </button>
+                </div>
             </div>
         </header>
     );
@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { maskBvn } from '../services/pii';
+
+interface MaskedBvnProps {
+    bvn: string;
+    // Called each time the full BVN is shown, so the reveal can be logged.
+    onReveal: () => void;
+}
+
+export const MaskedBvn: React.FC<MaskedBvnProps> = ({ bvn, onReveal }) => {
+    const [isRevealed, setIsRevealed] = useState<boolean>(false);
+
+    const toggle = () => {
+        if (!isRevealed) onReveal();
+        setIsRevealed(!isRevealed);
+    };
+
+    return (
+        <span className="inline-flex items-center space-x-2">
+            <span className="font-mono">{isRevealed ? bvn : maskBvn(bvn)}</span>
+            {bvn && (
+                <button type="button" onClick={toggle} className="text-xs font-semibold text-secondary hover:underline">
+                    {isRevealed ? 'Hide' : 'Show'}
+                </button>
+            )}
+        </span>
+    );
+};
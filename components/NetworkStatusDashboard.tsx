@@ -1,16 +1,107 @@
 import React, { useState } from 'react';
-import { BankStatus } from '../types';
-import { StatusIndicator } from './StatusIndicator';
+import { BankNetworkStatus, BankStatus, CircuitSnapshot } from '../types';
+import { StatusIndicator, describeCircuit, formatUptime, getStatusColor } from './StatusIndicator';
 import { Spinner } from './Spinner';
 
 interface NetworkStatusDashboardProps {
     statuses: BankStatus[];
+    // Circuit breakers for providers, banks and status sources.
+    circuits: CircuitSnapshot[];
     isLoading: boolean;
     onRefresh: () => void;
 }
 
-export const NetworkStatusDashboard: React.FC<NetworkStatusDashboardProps> = ({ statuses, isLoading, onRefresh }) => {
+const MAX_INCIDENTS = 5;
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number): string => {
+    const minutes = Math.max(1, Math.round(ms / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} min`;
+};
+
+const CIRCUIT_SCOPE_LABELS: Record<CircuitSnapshot['scope'], string> = {
+    'provider': 'Verification service',
+    'bank': 'Bank',
+    'status-source': 'Status feed',
+};
+
+const CircuitNotice: React.FC<{ circuit: CircuitSnapshot }> = ({ circuit }) => (
+    <p className="text-xs text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2 mb-2">
+        <span className="font-semibold">{CIRCUIT_SCOPE_LABELS[circuit.scope]} {circuit.name}:</span> {describeCircuit(circuit)}
+        {circuit.state === 'open' && ` after ${circuit.consecutiveFailures} failed calls in a row`}.
+    </p>
+);
+
+const BankHealthDetails: React.FC<{ bank: BankStatus; circuit?: CircuitSnapshot }> = ({ bank, circuit }) => {
+    const circuitNotice = circuit && circuit.state !== 'closed' ? <CircuitNotice circuit={circuit} /> : null;
+    if (bank.sampleCount === 0) {
+        return (
+            <>
+                {circuitNotice}
+                <p className="text-sm text-gray-500">
+                    No checks in the last 24 hours. Health is measured from verification calls and the status endpoint, when one is configured.
+                </p>
+            </>
+        );
+    }
+
+    return (
+        <div className="text-sm">
+            {circuitNotice}
+            <div className="grid grid-cols-3 gap-2 text-center mb-3">
+                <div>
+                    <p className="text-lg font-bold text-gray-800">{formatUptime(bank.uptime)}</p>
+                    <p className="text-xs text-gray-500">Uptime (24h)</p>
+                </div>
+                <div>
+                    <p className="text-lg font-bold text-gray-800">{bank.averageLatencyMs !== null ? `${bank.averageLatencyMs} ms` : '—'}</p>
+                    <p className="text-xs text-gray-500">Avg. latency</p>
+                </div>
+                <div>
+                    <p className="text-lg font-bold text-gray-800">{bank.sampleCount}</p>
+                    <p className="text-xs text-gray-500">Checks</p>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-1">Recent checks</p>
+            <div className="flex items-end h-6 space-x-px mb-3" aria-label="Recent checks, oldest first">
+                {bank.recentSamples.map(sample => (
+                    <div
+                        key={`${sample.timestamp}-${sample.source}`}
+                        className={`flex-1 h-full rounded-sm ${getStatusColor(sample.ok ? BankNetworkStatus.OPERATIONAL : BankNetworkStatus.OFFLINE)}`}
+                        title={`${new Date(sample.timestamp).toLocaleString()} · ${sample.source}${sample.latencyMs !== null ? ` · ${sample.latencyMs} ms` : ''}${sample.ok ? '' : ' · failed'}`}
+                    ></div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-1">Recent incidents</p>
+            {bank.incidents.length === 0 ? (
+                <p className="text-xs text-gray-500">None in the last 24 hours.</p>
+            ) : (
+                <ul className="space-y-1">
+                    {bank.incidents.slice(0, MAX_INCIDENTS).map(incident => (
+                        <li key={incident.startedAt} className="flex items-center space-x-2 text-xs text-gray-700">
+                            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${getStatusColor(incident.status)}`}></span>
+                            <span className="font-semibold">{incident.status}</span>
+                            <span>
+                                {formatTime(incident.startedAt)}
+                                {incident.endedAt === null
+                                    ? ' – ongoing'
+                                    : ` – ${formatTime(incident.endedAt)} (${formatDuration(incident.endedAt - incident.startedAt)})`}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export const NetworkStatusDashboard: React.FC<NetworkStatusDashboardProps> = ({ statuses, circuits, isLoading, onRefresh }) => {
     const [searchTerm, setSearchTerm] = useState('');
+    const [selectedBankName, setSelectedBankName] = useState<string | null>(null);
+    const selectedBank = statuses.find(bank => bank.name === selectedBankName);
+    const bankCircuits = new Map(circuits.filter(c => c.scope === 'bank').map(c => [c.name, c]));
+    const serviceCircuits = circuits.filter(c => c.scope !== 'bank' && c.state !== 'closed');
 
     const filteredStatuses = statuses.filter(bank =>
         bank.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -27,6 +118,8 @@ export const NetworkStatusDashboard: React.FC<NetworkStatusDashboardProps> = ({
                 </button>
             </div>
             
+            {serviceCircuits.map(circuit => <CircuitNotice key={circuit.key} circuit={circuit} />)}
+
             <div className="relative mb-4">
                 <span className="absolute inset-y-0 left-0 flex items-center pl-3">
                     <svg className="h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
@@ -51,7 +144,13 @@ export const NetworkStatusDashboard: React.FC<NetworkStatusDashboardProps> = ({
                 <div className="flex-grow grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 gap-4 max-h-[55vh] overflow-y-auto pr-2">
                     {filteredStatuses.length > 0 ? (
                         filteredStatuses.map(bank => (
-                            <StatusIndicator key={bank.name} name={bank.name} status={bank.status} />
+                            <StatusIndicator
+                                key={bank.name}
+                                bank={bank}
+                                circuit={bankCircuits.get(bank.name)}
+                                isSelected={bank.name === selectedBankName}
+                                onSelect={() => setSelectedBankName(bank.name === selectedBankName ? null : bank.name)}
+                            />
                         ))
                     ) : (
                         <div className="col-span-full text-center text-gray-500 py-8">
@@ -60,6 +159,16 @@ export const NetworkStatusDashboard: React.FC<NetworkStatusDashboardProps> = ({
                     )}
                 </div>
             )}
+
+            {selectedBank && (
+                <div className="mt-4 border-t pt-4">
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="font-semibold text-gray-700">{selectedBank.name}</h3>
+                        <button onClick={() => setSelectedBankName(null)} className="text-xs text-gray-500 hover:underline">Close</button>
+                    </div>
+                    <BankHealthDetails bank={selectedBank} circuit={bankCircuits.get(selectedBank.name)} />
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,166 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AccountDetails, BankData, BatchApprovalState, BulkRowResult, PaymentFileControl, PaymentTemplate } from '../types';
+import { deletePaymentTemplate, downloadPaymentFile, formatKobo, importPaymentTemplate, loadPaymentTemplates, PaymentFileLayout, preparePaymentRecords } from '../services/paymentFiles';
+
+interface PaymentFilePanelProps {
+    // The batch rows, in order, with the amount, narration and sort code columns from the upload.
+    accounts: AccountDetails[];
+    results: BulkRowResult[];
+    banks: BankData[];
+    // Files can only be generated once the batch has stopped running.
+    disabled: boolean;
+    // Set while the batch is not approved for payment.
+    lockedReason?: string;
+    // Checked again when the file is generated; undefined for a batch that was not saved.
+    approvalState?: BatchApprovalState;
+    // Recorded in the audit log with each download.
+    operator: string;
+    jobId: string | null;
+}
+
+const MAX_PROBLEMS_SHOWN = 5;
+
+const defaultReference = () => `PAY-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`;
+
+const toLayout = (value: string, templates: PaymentTemplate[]): PaymentFileLayout | null => {
+    if (value === 'nibss-neft') return { kind: 'nibss', channel: 'NEFT' };
+    if (value === 'nibss-nip') return { kind: 'nibss', channel: 'NIP' };
+    const template = templates.find(t => `template:${t.name}` === value);
+    return template ? { kind: 'template', template } : null;
+};
+
+export const PaymentFilePanel: React.FC<PaymentFilePanelProps> = ({ accounts, results, banks, disabled, lockedReason, approvalState, operator, jobId }) => {
+    const [templates, setTemplates] = useState<PaymentTemplate[]>(() => loadPaymentTemplates());
+    const [layoutValue, setLayoutValue] = useState<string>('nibss-nip');
+    const [reference, setReference] = useState<string>(defaultReference);
+    const [defaultNarration, setDefaultNarration] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const [lastControl, setLastControl] = useState<{ fileName: string; control: PaymentFileControl } | null>(null);
+    const templateInputRef = useRef<HTMLInputElement>(null);
+
+    const hasPaymentColumns = accounts.some(account => account.amount !== undefined);
+    const layout = toLayout(layoutValue, templates);
+    const { records, problems } = useMemo(
+        () => preparePaymentRecords(accounts, results, banks, defaultNarration, layout?.channel),
+        [accounts, results, banks, defaultNarration, layout?.channel]
+    );
+    const totalKobo = records.reduce((sum, record) => sum + record.amountKobo, 0);
+
+    const handleGenerate = async () => {
+        if (!layout) return;
+        try {
+            const file = await downloadPaymentFile(accounts, results, banks, layout, { reference, defaultNarration }, operator, jobId, approvalState);
+            setLastControl({ fileName: file.fileName, control: file.control });
+            setError(null);
+        } catch (err) {
+            console.error("Failed to generate payment file:", err);
+            setError(err instanceof Error ? err.message : 'The payment file could not be generated.');
+        }
+    };
+
+    const handleTemplateFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const template = JSON.parse(await file.text());
+            setTemplates(importPaymentTemplate(template));
+            setLayoutValue(`template:${template.name}`);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The template could not be imported.');
+        }
+    };
+
+    const handleDeleteTemplate = () => {
+        if (layout?.kind !== 'template') return;
+        setTemplates(deletePaymentTemplate(layout.template.name));
+        setLayoutValue('nibss-nip');
+    };
+
+    if (!hasPaymentColumns) {
+        return (
+            <div className="mt-6 border rounded-lg p-4 text-sm text-gray-500">
+                To generate a bulk payment file, map an Amount column (and optionally a Narration column) when uploading the batch.
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-6 border rounded-lg p-4">
+            <h4 className="font-semibold text-gray-700 mb-3">Bulk Payment File</h4>
+            <div className="flex flex-wrap items-end gap-3 text-sm">
+                <label className="flex flex-col text-gray-600">
+                    Layout
+                    <select
+                        value={layoutValue}
+                        onChange={e => setLayoutValue(e.target.value)}
+                        className="mt-1 py-2 px-2 border border-gray-300 rounded-md bg-white text-gray-700 focus:ring-secondary focus:border-secondary"
+                    >
+                        <option value="nibss-nip">NIBSS NIP schedule</option>
+                        <option value="nibss-neft">NIBSS NEFT schedule</option>
+                        {templates.map(template => (
+                            <option key={template.name} value={`template:${template.name}`}>{template.name} ({template.kind})</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col text-gray-600">
+                    Batch reference
+                    <input
+                        type="text"
+                        value={reference}
+                        onChange={e => setReference(e.target.value)}
+                        maxLength={30}
+                        className="mt-1 py-2 px-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                    />
+                </label>
+                <label className="flex flex-col text-gray-600">
+                    Default narration
+                    <input
+                        type="text"
+                        value={defaultNarration}
+                        onChange={e => setDefaultNarration(e.target.value)}
+                        placeholder="For rows without one"
+                        className="mt-1 py-2 px-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary"
+                    />
+                </label>
+                <button
+                    onClick={handleGenerate}
+                    disabled={disabled || !!lockedReason || !layout || problems.length > 0 || records.length === 0}
+                    className="bg-primary text-white font-bold py-2 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    Generate Payment File
+                </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+                <a href="#" onClick={e => { e.preventDefault(); templateInputRef.current?.click(); }} className="text-primary hover:underline">Import a bank template</a>
+                {layout?.kind === 'template' && (
+                    <>
+                        {' · '}
+                        <a href="#" onClick={e => { e.preventDefault(); handleDeleteTemplate(); }} className="text-red-600 hover:underline">Delete this template</a>
+                    </>
+                )}
+                <input type="file" ref={templateInputRef} onChange={handleTemplateFileChange} className="hidden" accept=".json, application/json" />
+            </p>
+
+            {lockedReason && <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3">{lockedReason}</p>}
+            {problems.length > 0 ? (
+                <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-800">
+                    <p className="font-semibold">Generation is blocked until every row is verified and has payment details:</p>
+                    <ul className="list-disc list-inside mt-1">
+                        {problems.slice(0, MAX_PROBLEMS_SHOWN).map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                    {problems.length > MAX_PROBLEMS_SHOWN && <p className="mt-1">…and {problems.length - MAX_PROBLEMS_SHOWN} more.</p>}
+                </div>
+            ) : (
+                <p className="mt-3 text-sm text-gray-600">{records.length} payments, total ₦{formatKobo(totalKobo)}</p>
+            )}
+            {error && <p className="mt-3 text-sm text-red-600 whitespace-pre-line">{error}</p>}
+            {lastControl && (
+                <p className="mt-3 text-xs text-gray-500 break-all">
+                    {lastControl.fileName}: {lastControl.control.recordCount} records, ₦{formatKobo(lastControl.control.totalAmountKobo)}, SHA-256 {lastControl.control.checksum}
+                </p>
+            )}
+        </div>
+    );
+};
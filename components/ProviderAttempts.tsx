@@ -0,0 +1,46 @@
+import React from 'react';
+import { ProviderAttempt, ProviderAttemptOutcome } from '../types';
+
+interface ProviderAttemptsProps {
+    attempts: ProviderAttempt[];
+}
+
+const OUTCOME_LABELS: Record<ProviderAttemptOutcome, string> = {
+    'success': 'Answered',
+    'error': 'Error',
+    'timeout': 'Timed out',
+    'short-circuited': 'Not sent (circuit open)',
+};
+
+/**
+ * Formats a call duration for display.
+ * @param ms The duration in milliseconds.
+ */
+export const formatAttemptDuration = (ms: number): string => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+/**
+ * One-line summary of the provider calls behind a result, e.g. for a tooltip.
+ * @param attempts The provider attempts.
+ */
+export const describeAttempts = (attempts: ProviderAttempt[]): string =>
+    attempts.map(a => `${a.attempt}. ${OUTCOME_LABELS[a.outcome]}${a.outcome === 'short-circuited' ? '' : ` after ${formatAttemptDuration(a.durationMs)}`}`).join('\n');
+
+export const ProviderAttempts: React.FC<ProviderAttemptsProps> = ({ attempts }) => (
+    <div className="mt-4 text-left text-sm">
+        <h4 className="font-semibold text-gray-700 mb-2">Provider Calls</h4>
+        <ol className="space-y-1 text-gray-600">
+            {attempts.map(attempt => (
+                <li key={attempt.attempt} className="flex justify-between space-x-4">
+                    <span>
+                        {attempt.attempt}. {OUTCOME_LABELS[attempt.outcome]}
+                        {attempt.message && <span className="text-gray-500"> · {attempt.message}</span>}
+                    </span>
+                    <span className="text-gray-500 flex-shrink-0">
+                        {new Date(attempt.startedAt).toLocaleTimeString()}
+                        {attempt.outcome !== 'short-circuited' && ` · ${formatAttemptDuration(attempt.durationMs)}`}
+                    </span>
+                </li>
+            ))}
+        </ol>
+    </div>
+);
@@ -1,33 +1,71 @@
-
 import React from 'react';
-import { BankNetworkStatus } from '../types';
+import { BankNetworkStatus, BankStatus, CircuitSnapshot } from '../types';
 
 interface StatusIndicatorProps {
-    name: string;
-    status: BankNetworkStatus;
+    bank: BankStatus;
+    // The bank's circuit breaker, once calls to it have been made.
+    circuit?: CircuitSnapshot;
+    isSelected: boolean;
+    onSelect: () => void;
 }
 
-export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ name, status }) => {
-    const getStatusColor = () => {
-        switch (status) {
-            case BankNetworkStatus.OPERATIONAL:
-                return 'bg-green-500';
-            case BankNetworkStatus.DEGRADED:
-                return 'bg-yellow-500';
-            case BankNetworkStatus.OFFLINE:
-                return 'bg-red-500';
-            default:
-                return 'bg-gray-400';
-        }
-    };
+/**
+ * Tailwind background class for a status dot or timeline bar.
+ * @param status The bank status.
+ */
+export const getStatusColor = (status: BankNetworkStatus): string => {
+    switch (status) {
+        case BankNetworkStatus.OPERATIONAL:
+            return 'bg-green-500';
+        case BankNetworkStatus.DEGRADED:
+            return 'bg-yellow-500';
+        case BankNetworkStatus.OFFLINE:
+            return 'bg-red-500';
+        default:
+            return 'bg-gray-400';
+    }
+};
+
+/**
+ * Formats an uptime share as a percentage.
+ * @param uptime The share of successful probes, or null without probes.
+ */
+export const formatUptime = (uptime: number | null): string => (uptime === null ? '—' : `${(uptime * 100).toFixed(uptime === 1 ? 0 : 1)}%`);
+
+/**
+ * Describes a circuit that is not closed, or returns null for a closed one.
+ * @param circuit The circuit breaker's state.
+ */
+export const describeCircuit = (circuit: CircuitSnapshot | undefined): string | null => {
+    if (!circuit || circuit.state === 'closed') return null;
+    if (circuit.state === 'half-open') return 'Testing recovery';
+    const until = circuit.retryAt !== null ? ` until ${new Date(circuit.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}` : '';
+    return `Calls paused${until}`;
+};
+
+export const StatusIndicator: React.FC<StatusIndicatorProps> = ({ bank, circuit, isSelected, onSelect }) => {
+    const circuitText = describeCircuit(circuit);
+
+    const { name, status } = bank;
 
     return (
-        <div className="bg-gray-50 border border-gray-200 p-3 rounded-md flex items-center space-x-3 hover:shadow-md transition-shadow">
-            <div className={`w-3 h-3 rounded-full flex-shrink-0 ${getStatusColor()}`}></div>
-            <div className="flex-grow">
+        <button
+            type="button"
+            onClick={onSelect}
+            aria-pressed={isSelected}
+            className={`text-left bg-gray-50 border p-3 rounded-md flex items-center space-x-3 hover:shadow-md transition-shadow ${isSelected ? 'border-secondary ring-1 ring-secondary' : 'border-gray-200'}`}
+        >
+            <div className={`w-3 h-3 rounded-full flex-shrink-0 ${getStatusColor(status)}`}></div>
+            <div className="flex-grow min-w-0">
                 <p className="text-sm font-medium text-gray-800 truncate">{name}</p>
-                <p className={`text-xs ${status === BankNetworkStatus.OPERATIONAL ? 'text-gray-500' : 'font-semibold text-gray-700'}`}>{status}</p>
+                <p className={`text-xs ${status === BankNetworkStatus.OPERATIONAL || status === BankNetworkStatus.UNKNOWN ? 'text-gray-500' : 'font-semibold text-gray-700'}`}>{status}</p>
+                {bank.sampleCount > 0 && (
+                    <p className="text-xs text-gray-400">
+                        {formatUptime(bank.uptime)} up{bank.averageLatencyMs !== null && ` · ${bank.averageLatencyMs} ms`}
+                    </p>
+                )}
+                {circuitText && <p className="text-xs font-semibold text-red-700">{circuitText}</p>}
             </div>
-        </div>
+        </button>
     );
 };
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BulkJobRecord } from '../types';
+
+interface UnfinishedJobsBannerProps {
+    jobs: BulkJobRecord[];
+    disabled: boolean;
+    onResume: (job: BulkJobRecord) => void;
+    onDiscard: (job: BulkJobRecord) => void;
+}
+
+export const UnfinishedJobsBanner: React.FC<UnfinishedJobsBannerProps> = ({ jobs, disabled, onResume, onDiscard }) => {
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="bg-yellow-50 border-l-4 border-yellow-500 text-yellow-800 p-4 mb-6 space-y-3" role="status">
+            <p className="font-semibold">
+                {jobs.length === 1 ? 'A bulk verification was interrupted.' : `${jobs.length} bulk verifications were interrupted.`}
+                {' '}Rows that already have results will be skipped when resuming.
+            </p>
+            {jobs.map(job => (
+                <div key={job.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span>
+                        <strong>{job.source.fileName}</strong>: {job.completedCount} of {job.accounts.length} rows verified
+                        <span className="text-yellow-700"> (last updated {new Date(job.updatedAt).toLocaleString()})</span>
+                    </span>
+                    <span className="space-x-2">
+                        <button
+                            onClick={() => onResume(job)}
+                            disabled={disabled}
+                            className="bg-primary text-white font-semibold py-1 px-3 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Resume
+                        </button>
+                        <button
+                            onClick={() => onDiscard(job)}
+                            disabled={disabled}
+                            className="bg-white text-gray-700 border border-gray-300 font-semibold py-1 px-3 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Discard
+                        </button>
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { unlockVault } from '../services/vault';
+import { Spinner } from './Spinner';
+
+interface VaultUnlockProps {
+    // True when no passphrase has been set in this browser yet.
+    isNew: boolean;
+    initialOperator: string;
+    onUnlocked: (operator: string) => void;
+    // The operator is recorded in the audit log, which is kept.
+    onReset: (operator: string) => Promise<void>;
+}
+
+export const VaultUnlock: React.FC<VaultUnlockProps> = ({ isNew, initialOperator, onUnlocked, onReset }) => {
+    const [operator, setOperator] = useState<string>(initialOperator);
+    const [passphrase, setPassphrase] = useState<string>('');
+    const [confirmation, setConfirmation] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+    const [isConfirmingReset, setIsConfirmingReset] = useState<boolean>(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = operator.trim();
+        if (!name) {
+            setError('Enter your name as the operator.');
+            return;
+        }
+        if (isNew && passphrase !== confirmation) {
+            setError('The passphrases do not match.');
+            return;
+        }
+        setError(null);
+        setIsUnlocking(true);
+        try {
+            await unlockVault(passphrase);
+            onUnlocked(name);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not unlock local data.');
+        } finally {
+            setIsUnlocking(false);
+        }
+    };
+
+    const handleReset = async () => {
+        const name = operator.trim();
+        if (!name) {
+            setError('Enter your name as the operator.');
+            return;
+        }
+        try {
+            await onReset(name);
+            setIsConfirmingReset(false);
+            setPassphrase('');
+            setConfirmation('');
+            setError(null);
+        } catch (err) {
+            console.error("Failed to erase local data:", err);
+            setError('Local data could not be erased.');
+        }
+    };
+
+    return (
+        <div className="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md">
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">{isNew ? 'Protect Local Data' : 'Unlock Local Data'}</h2>
+            <p className="text-sm text-gray-600 mb-6">
+                {isNew
+                    ? 'Choose a passphrase. Saved bulk jobs, results and the audit log are encrypted with it in this browser. It cannot be recovered if forgotten.'
+                    : 'Enter the passphrase for this browser to decrypt saved bulk jobs, results and the audit log.'}
+            </p>
+            <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+                <div>
+                    <label htmlFor="unlockOperator" className="block text-sm font-medium text-gray-600 mb-1">Operator Name</label>
+                    <input
+                        id="unlockOperator"
+                        type="text"
+                        value={operator}
+                        onChange={e => setOperator(e.target.value)}
+                        placeholder="Your full name"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary transition-colors"
+                    />
+                </div>
+                <div>
+                    <label htmlFor="unlockPassphrase" className="block text-sm font-medium text-gray-600 mb-1">Passphrase</label>
+                    <input
+                        id="unlockPassphrase"
+                        type="password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        autoComplete={isNew ? 'new-password' : 'current-password'}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary transition-colors"
+                    />
+                </div>
+                {isNew && (
+                    <div>
+                        <label htmlFor="unlockConfirmation" className="block text-sm font-medium text-gray-600 mb-1">Confirm Passphrase</label>
+                        <input
+                            id="unlockConfirmation"
+                            type="password"
+                            value={confirmation}
+                            onChange={e => setConfirmation(e.target.value)}
+                            autoComplete="new-password"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-secondary focus:border-secondary transition-colors"
+                        />
+                    </div>
+                )}
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={isUnlocking || !passphrase}
+                    className="w-full flex justify-center bg-primary text-white font-bold py-3 px-4 rounded-md hover:bg-secondary disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                    {isUnlocking ? <><Spinner /> Unlocking...</> : isNew ? 'Set Passphrase' : 'Unlock'}
+                </button>
+            </form>
+            {!isNew && (
+                <div className="mt-6 text-sm text-center">
+                    {isConfirmingReset ? (
+                        <div className="bg-red-50 border border-red-200 rounded-md p-3 text-red-700">
+                            <p className="mb-2">This permanently deletes saved bulk jobs, results and the beneficiary registry from this browser. The audit log is kept and the reset is recorded in it, but entries written under the old passphrase can no longer be read.</p>
+                            <div className="space-x-3">
+                                <button onClick={() => setIsConfirmingReset(false)} className="text-gray-600 hover:underline">Keep data</button>
+                                <button onClick={handleReset} className="font-semibold text-red-700 hover:underline">Erase everything</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => setIsConfirmingReset(true)} className="text-gray-500 hover:underline">
+                            Forgot the passphrase? Erase local data
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,89 @@
+import { BankRegistry, BankType } from './types';
+
+/**
+ * Bundled bank registry. Bump the version whenever entries change so imported lists can be compared against it.
+ */
+export const BUNDLED_BANK_REGISTRY: BankRegistry = {
+    version: '2025.09.1',
+    publishedAt: '2025-09-01',
+    banks: [
+        { name: 'Access Bank', shortName: 'Access', cbnCode: '044', nipCode: '000014', sortCode: '044150149', aliases: ['Access', 'Access Bank Plc', 'Diamond Bank'], type: BankType.COMMERCIAL },
+        { name: 'Citibank Nigeria', shortName: 'Citibank', cbnCode: '023', nipCode: '000009', sortCode: '023150005', aliases: ['Citi', 'Citibank'], type: BankType.COMMERCIAL },
+        { name: 'Ecobank Nigeria', shortName: 'Ecobank', cbnCode: '050', nipCode: '000010', sortCode: '050150311', aliases: ['Eco', 'Ecobank'], type: BankType.COMMERCIAL },
+        { name: 'Fidelity Bank', shortName: 'Fidelity', cbnCode: '070', nipCode: '000007', sortCode: '070150003', aliases: ['Fidelity', 'Fidelity Bank Plc'], type: BankType.COMMERCIAL },
+        { name: 'First Bank of Nigeria', shortName: 'FirstBank', cbnCode: '011', nipCode: '000016', sortCode: '011151003', aliases: ['First Bank', 'FBN', 'FirstBank'], type: BankType.COMMERCIAL },
+        { name: 'First City Monument Bank', shortName: 'FCMB', cbnCode: '214', nipCode: '000003', sortCode: '214150018', aliases: ['FCMB', 'First City Monument'], type: BankType.COMMERCIAL },
+        { name: 'Globus Bank', shortName: 'Globus', cbnCode: '103', nipCode: '000027', sortCode: '103015001', aliases: ['Globus'], type: BankType.COMMERCIAL },
+        { name: 'Guaranty Trust Bank', shortName: 'GTBank', cbnCode: '058', nipCode: '000013', sortCode: '058152052', aliases: ['GTB', 'GTBank', 'GT Bank', 'Guaranty Trust', 'GTCO', 'Guaranty Trust Holding Company'], type: BankType.COMMERCIAL },
+        { name: 'Jaiz Bank', shortName: 'Jaiz', cbnCode: '301', nipCode: '000006', sortCode: '301080020', aliases: ['Jaiz'], type: BankType.COMMERCIAL },
+        { name: 'Keystone Bank', shortName: 'Keystone', cbnCode: '082', nipCode: '000002', sortCode: '082150017', aliases: ['Keystone'], type: BankType.COMMERCIAL },
+        { name: 'Polaris Bank', shortName: 'Polaris', cbnCode: '076', nipCode: '000008', sortCode: '076151006', aliases: ['Polaris', 'Skye Bank'], type: BankType.COMMERCIAL },
+        { name: 'Providus Bank', shortName: 'Providus', cbnCode: '101', nipCode: '000023', sortCode: '101150013', aliases: ['Providus'], type: BankType.COMMERCIAL },
+        { name: 'Stanbic IBTC Bank', shortName: 'Stanbic', cbnCode: '221', nipCode: '000012', sortCode: '221150018', aliases: ['Stanbic', 'Stanbic IBTC', 'IBTC'], type: BankType.COMMERCIAL },
+        { name: 'Standard Chartered Bank', shortName: 'StanChart', cbnCode: '068', nipCode: '000021', sortCode: '068150015', aliases: ['Standard Chartered', 'SCB', 'StanChart'], type: BankType.COMMERCIAL },
+        { name: 'Sterling Bank', shortName: 'Sterling', cbnCode: '232', nipCode: '000001', sortCode: '232150016', aliases: ['Sterling'], type: BankType.COMMERCIAL },
+        { name: 'SunTrust Bank', shortName: 'SunTrust', cbnCode: '100', nipCode: '000022', sortCode: '100150017', aliases: ['SunTrust', 'Sun Trust'], type: BankType.COMMERCIAL },
+        { name: 'TAJBank', shortName: 'TAJ', cbnCode: '302', nipCode: '000026', sortCode: '302080015', aliases: ['TAJ', 'TAJ Bank'], type: BankType.COMMERCIAL },
+        { name: 'Titan Trust Bank', shortName: 'Titan', cbnCode: '102', nipCode: '000025', sortCode: '102150012', aliases: ['Titan', 'Titan Trust'], type: BankType.COMMERCIAL },
+        { name: 'Union Bank of Nigeria', shortName: 'Union', cbnCode: '032', nipCode: '000018', sortCode: '032150002', aliases: ['Union Bank', 'UBN'], type: BankType.COMMERCIAL },
+        { name: 'United Bank for Africa', shortName: 'UBA', cbnCode: '033', nipCode: '000004', sortCode: '033153592', aliases: ['UBA', 'United Bank'], type: BankType.COMMERCIAL },
+        { name: 'Unity Bank', shortName: 'Unity', cbnCode: '215', nipCode: '000011', sortCode: '215150015', aliases: ['Unity'], type: BankType.COMMERCIAL },
+        { name: 'Wema Bank', shortName: 'Wema', cbnCode: '035', nipCode: '000017', sortCode: '035150103', aliases: ['Wema', 'ALAT', 'ALAT by Wema'], type: BankType.COMMERCIAL },
+        { name: 'Zenith Bank', shortName: 'Zenith', cbnCode: '057', nipCode: '000015', sortCode: '057150013', aliases: ['Zenith', 'Zenith Bank Plc'], type: BankType.COMMERCIAL },
+        { name: 'Kuda Microfinance Bank', shortName: 'Kuda', cbnCode: '50211', nipCode: '090267', sortCode: '502110004', aliases: ['Kuda', 'Kuda Bank', 'Kuda MFB'], type: BankType.MICROFINANCE },
+        { name: 'Moniepoint Microfinance Bank', shortName: 'Moniepoint', cbnCode: '50515', nipCode: '090405', sortCode: '505150004', aliases: ['Moniepoint', 'Moniepoint MFB', 'TeamApt'], type: BankType.MICROFINANCE },
+        { name: 'OPay Digital Services', shortName: 'OPay', cbnCode: '99992', nipCode: '100004', sortCode: '999992', aliases: ['Opay', 'OPay', 'Paycom'], type: BankType.MOBILE_MONEY },
+        { name: 'PalmPay', shortName: 'PalmPay', cbnCode: '99991', nipCode: '100033', sortCode: '999991', aliases: ['Palmpay', 'Palm Pay'], type: BankType.MOBILE_MONEY },
+    ],
+};
+
+export const DEFAULT_BULK_CONCURRENCY = 4;
+export const DEFAULT_BULK_REQUESTS_PER_SECOND = 5;
+
+// Bank health monitoring
+export const BANK_HEALTH_HISTORY_MS = 24 * 60 * 60 * 1000;
+export const BANK_HEALTH_MAX_SAMPLES = 500;
+// Status is derived from the latest probes within this window.
+export const BANK_HEALTH_STATUS_WINDOW_MS = 15 * 60 * 1000;
+export const BANK_HEALTH_STATUS_SAMPLES = 20;
+export const BANK_HEALTH_DEGRADED_ERROR_RATE = 0.2;
+export const BANK_HEALTH_OFFLINE_ERROR_RATE = 0.5;
+export const BANK_HEALTH_DEGRADED_LATENCY_MS = 4000;
+
+// Status-aware routing
+export const DEFAULT_VERIFY_TIMEOUT_MS = 20000;
+export const DEGRADED_VERIFY_TIMEOUT_MS = 45000;
+// Calls in flight at once to a bank with degraded performance, across all bulk workers.
+export const DEGRADED_BANK_CONCURRENCY = 1;
+// How often rows held back for an offline bank are checked again.
+export const DEFERRED_RECHECK_MS = 30000;
+
+// Provider call resilience
+export const PROVIDER_MAX_ATTEMPTS = 3;
+export const PROVIDER_RETRY_BASE_DELAY_MS = 500;
+export const PROVIDER_RETRY_MAX_DELAY_MS = 8000;
+// Extra time allowed for a provider that retries its own calls, such as the verification server, to answer.
+export const RETRYING_PROVIDER_MARGIN_MS = 5000;
+export const STATUS_SOURCE_TIMEOUT_MS = 10000;
+// Consecutive failures that open a circuit, and how long it stays open before a trial call.
+export const CIRCUIT_FAILURE_THRESHOLD = 5;
+export const CIRCUIT_COOLDOWN_MS = 30000;
+
+// Batch approval
+// PBKDF2 iterations for approver passphrase hashes, as for the vault passphrase.
+export const APPROVER_PBKDF2_ITERATIONS = 310000;
+// Longer than the vault minimum: the hashes ship in the app bundle, so anyone with it can guess offline.
+export const MIN_APPROVER_PASSPHRASE_LENGTH = 12;
+// Recent finished batches listed in the approval queue.
+export const APPROVAL_QUEUE_MAX_JOBS = 20;
+
+// Risk signals
+// Scores at or above these levels are medium or high risk; medium and high rows go to the review queue.
+export const RISK_MEDIUM_SCORE = 30;
+export const RISK_HIGH_SCORE = 60;
+// Earlier bulk jobs compared against a new upload, most recent first.
+export const RISK_HISTORY_MAX_JOBS = 50;
+
+// Beneficiary registry
+// Days a successful verification is reused for the same BVN and account before it is verified again.
+export const DEFAULT_BENEFICIARY_VALIDITY_DAYS = 90;
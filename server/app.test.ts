@@ -0,0 +1,96 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, VerificationFailureCode } from '../types';
+import { createApiHandler } from './app';
+
+// Stands in for the configured provider, so the tests can tell whether it was called.
+const providerVerify = vi.hoisted(() => vi.fn());
+vi.mock('../services/providers/rulesProvider', () => ({
+    createRulesProvider: () => ({ id: 'rules', displayName: 'Offline rules engine', verify: providerVerify }),
+}));
+
+const API_KEY = 'test-key-0123456789';
+const APP_ORIGIN = 'http://localhost:5173';
+
+// 1234567895 carries the right check digit for Access Bank; 1234567890 does not.
+const account: AccountDetails = { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' };
+
+describe('verification server', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        process.env.VERIFICATION_PROVIDER = 'rules';
+        server = createServer(createApiHandler({
+            bulkJobs: { create: () => { throw new Error('Not used.'); }, get: () => undefined, cancel: () => undefined },
+            apiKey: API_KEY,
+            corsOrigin: APP_ORIGIN,
+            maxBodyBytes: 1024,
+            maxBulkRows: 10,
+        }));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => {
+        providerVerify.mockReset();
+    });
+
+    const postVerify = (details: AccountDetails) => fetch(`${baseUrl}/verify`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(details),
+    });
+
+    it('rejects requests without the API key', async () => {
+        const response = await fetch(`${baseUrl}/banks`);
+        expect(response.status).toBe(401);
+        expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    });
+
+    it('rejects a wrong API key', async () => {
+        const response = await fetch(`${baseUrl}/banks`, { headers: { Authorization: 'Bearer wrong-key' } });
+        expect(response.status).toBe(401);
+    });
+
+    it('answers requests with the API key', async () => {
+        const response = await fetch(`${baseUrl}/banks`, { headers: { Authorization: `Bearer ${API_KEY}` } });
+        expect(response.status).toBe(200);
+        expect(Array.isArray(await response.json())).toBe(true);
+    });
+
+    it('rejects a wrong NUBAN check digit without calling the provider', async () => {
+        const response = await postVerify({ ...account, accountNumber: '1234567890' });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ success: false, failureCode: VerificationFailureCode.INVALID_NUBAN });
+        expect(providerVerify).not.toHaveBeenCalled();
+    });
+
+    it('sends a valid account number to the provider', async () => {
+        providerVerify.mockResolvedValue({ success: true, message: 'Verified.', data: account, registeredName: 'John Doe' });
+        const response = await postVerify(account);
+        expect(await response.json()).toMatchObject({ success: true });
+        expect(providerVerify).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers a cancel for an unknown bulk job with 404', async () => {
+        const response = await fetch(`${baseUrl}/bulk-jobs/unknown`, { method: 'DELETE', headers: { Authorization: `Bearer ${API_KEY}` } });
+        expect(response.status).toBe(404);
+    });
+
+    it('serves the OpenAPI document without the key', async () => {
+        const response = await fetch(`${baseUrl}/openapi.json`);
+        expect(response.status).toBe(200);
+    });
+
+    it('allows only the configured origin', async () => {
+        const response = await fetch(`${baseUrl}/verify`, { method: 'OPTIONS' });
+        expect(response.status).toBe(204);
+        expect(response.headers.get('access-control-allow-origin')).toBe(APP_ORIGIN);
+        expect(response.headers.get('access-control-allow-headers')).toContain('Authorization');
+        expect(response.headers.get('access-control-allow-methods')).toContain('DELETE');
+    });
+});
@@ -0,0 +1,196 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AccountDetails, ApiErrorResponse, CreateBulkJobRequest } from '../types';
+import { getBanks } from '../services/bankRegistry';
+import { createDeferredFailure, getBankRoute } from '../services/bankRouting';
+import { fetchBankStatuses } from '../services/bankStatusService';
+import { BENEFICIARY_METADATA_FIELDS, pickMetadata } from '../services/beneficiaryMetadata';
+import { failureFromError } from '../services/verificationFailures';
+import { getConfiguredProviderId, verifyAccountDetails } from '../services/verificationService';
+import { BulkJobRegistry } from './bulkJobs';
+import { openApiDocument } from './openapi';
+
+export interface ApiHandlerOptions {
+    bulkJobs: BulkJobRegistry;
+    // Callers must send it as a bearer token; only the OpenAPI document is served without it.
+    apiKey: string;
+    // Value of Access-Control-Allow-Origin, so the browser app can call the server from another origin.
+    corsOrigin: string;
+    maxBodyBytes: number;
+    maxBulkRows: number;
+}
+
+// Thrown while handling a request to answer with a 4xx status.
+class HttpError extends Error {
+    status: number;
+    details?: string[];
+
+    constructor(status: number, message: string, details?: string[]) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+const ACCOUNT_FIELDS: (keyof AccountDetails)[] = ['beneficiaryName', 'bankName', 'accountNumber', 'bvn'];
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBytes) {
+            throw new HttpError(413, `Request body is larger than ${maxBytes} bytes.`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body is not valid JSON.');
+    }
+};
+
+/**
+ * Checks that a request value has the shape of AccountDetails.
+ * Field rules such as the NUBAN check digit are checked by verifyAccountDetails, which reports them as failures
+ * without calling the provider.
+ * @param value The parsed value.
+ * @param label Where the value came from, used in messages.
+ * @returns A list of problems; empty if the value is usable.
+ */
+const checkAccountShape = (value: unknown, label: string): string[] => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${label} must be an object.`];
+    }
+    const record = value as Record<string, unknown>;
+    const problems = ACCOUNT_FIELDS
+        .filter(field => typeof record[field] !== 'string')
+        .map(field => `${label}.${field} must be a string.`);
+    ['originalBankName', ...BENEFICIARY_METADATA_FIELDS.map(({ field }) => field)].forEach(field => {
+        if (record[field] !== undefined && typeof record[field] !== 'string') {
+            problems.push(`${label}.${field} must be a string.`);
+        }
+    });
+    return problems;
+};
+
+// Keeps only the known fields, so nothing unexpected reaches a provider.
+const toAccountDetails = (value: unknown): AccountDetails => {
+    const record = value as Record<string, string>;
+    return {
+        beneficiaryName: record.beneficiaryName,
+        bankName: record.bankName,
+        accountNumber: record.accountNumber,
+        bvn: record.bvn,
+        ...(record.originalBankName ? { originalBankName: record.originalBankName } : {}),
+        ...pickMetadata(record as unknown as AccountDetails),
+    };
+};
+
+// Compares digests, which have the same length, so the time taken does not reveal how much of the key matched.
+const isAuthorized = (req: IncomingMessage, apiKey: string): boolean => {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (!match) return false;
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1]), digest(apiKey));
+};
+
+/**
+ * Creates the request handler for the verification server.
+ * Provider credentials are read from the server's environment and never sent to callers.
+ * @param options The bulk job registry, API key, allowed origin and request limits.
+ * @returns A handler for node:http's createServer.
+ */
+export const createApiHandler = (options: ApiHandlerOptions) => {
+    const handleVerify = async (req: IncomingMessage, res: ServerResponse) => {
+        const body = await readJsonBody(req, options.maxBodyBytes);
+        const problems = checkAccountShape(body, 'body');
+        if (problems.length > 0) {
+            throw new HttpError(400, 'The account details are incomplete.', problems);
+        }
+        const details = toAccountDetails(body);
+        if (getBankRoute(details.bankName).defer) {
+            sendJson(res, 200, createDeferredFailure(details));
+            return;
+        }
+        try {
+            sendJson(res, 200, await verifyAccountDetails(details));
+        } catch (error) {
+            // Provider failures are verification outcomes, not server errors
+            sendJson(res, 200, { ...failureFromError(error, details), provider: getConfiguredProviderId() });
+        }
+    };
+
+    const handleCreateBulkJob = async (req: IncomingMessage, res: ServerResponse) => {
+        const body = await readJsonBody(req, options.maxBodyBytes) as Partial<CreateBulkJobRequest> | null;
+        const accounts: unknown[] | undefined = Array.isArray(body?.accounts) ? body!.accounts : undefined;
+        if (!accounts || accounts.length === 0) {
+            throw new HttpError(400, 'accounts must be a non-empty list.');
+        }
+        if (accounts.length > options.maxBulkRows) {
+            throw new HttpError(413, `A bulk job can have at most ${options.maxBulkRows} accounts.`);
+        }
+        const problems = accounts.flatMap((account, index) => checkAccountShape(account, `accounts[${index}]`));
+        if (problems.length > 0) {
+            throw new HttpError(400, 'Some accounts are incomplete.', problems.slice(0, 20));
+        }
+        const job = options.bulkJobs.create(accounts.map(toAccountDetails));
+        sendJson(res, 202, job, { 'Location': `/bulk-jobs/${job.id}` });
+    };
+
+    const route = async (req: IncomingMessage, res: ServerResponse) => {
+        const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+        const method = req.method ?? 'GET';
+
+        if (pathname === '/openapi.json' && method === 'GET') return sendJson(res, 200, openApiDocument);
+        if (!isAuthorized(req, options.apiKey)) {
+            throw new HttpError(401, 'Send the server\'s API key as Authorization: Bearer <key>.');
+        }
+
+        if (pathname === '/verify' && method === 'POST') return handleVerify(req, res);
+        if (pathname === '/bulk-jobs' && method === 'POST') return handleCreateBulkJob(req, res);
+        const jobMatch = /^\/bulk-jobs\/([^/]+)$/.exec(pathname);
+        if (jobMatch && (method === 'GET' || method === 'DELETE')) {
+            const id = decodeURIComponent(jobMatch[1]);
+            const job = method === 'GET' ? options.bulkJobs.get(id) : options.bulkJobs.cancel(id);
+            if (!job) throw new HttpError(404, 'Bulk job not found. Finished jobs are kept for a limited time.');
+            return sendJson(res, 200, job);
+        }
+        if (pathname === '/banks' && method === 'GET') return sendJson(res, 200, getBanks());
+        if (pathname === '/bank-status' && method === 'GET') return sendJson(res, 200, await fetchBankStatuses());
+
+        const knownPath = ['/verify', '/bulk-jobs', '/banks', '/bank-status', '/openapi.json'].includes(pathname) || !!jobMatch;
+        throw knownPath ? new HttpError(405, `${method} is not supported on ${pathname}.`) : new HttpError(404, 'Not found.');
+    };
+
+    return (req: IncomingMessage, res: ServerResponse) => {
+        res.setHeader('Access-Control-Allow-Origin', options.corsOrigin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization');
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        route(req, res).catch(error => {
+            if (error instanceof HttpError) {
+                const body: ApiErrorResponse = { error: error.message, ...(error.details ? { details: error.details } : {}) };
+                sendJson(res, error.status, body, error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {});
+                return;
+            }
+            console.error(`Error handling ${req.method} ${req.url}:`, error);
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: 'Internal server error.' } as ApiErrorResponse);
+            } else {
+                res.end();
+            }
+        });
+    };
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, VerificationFailureCode, VerificationResultData } from '../types';
+import { createFailure } from '../services/verificationFailures';
+import { computeNubanCheckDigit } from '../services/nubanService';
+import { createBulkJobRegistry } from './bulkJobs';
+
+// Access Bank is reported offline and every other bank operational; the provider's answer is up to each test.
+const verify = vi.hoisted(() => vi.fn<(account: AccountDetails) => Promise<VerificationResultData>>());
+vi.mock('../services/bulkVerifyOptions', () => ({
+    createBulkVerifyOptions: () => ({
+        route: (account: AccountDetails) => ({ group: account.bankName, defer: account.bankName === 'Access Bank', maxConcurrent: null }),
+        verify,
+    }),
+}));
+
+const MINUTE_MS = 60 * 1000;
+const options = { retentionMs: 60 * MINUTE_MS, maxDeferredWaitMs: 10 * MINUTE_MS, maxRunMs: 180 * MINUTE_MS };
+
+const accounts: AccountDetails[] = [
+    { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' },
+    { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458902' },
+];
+
+describe('createBulkJobRegistry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        verify.mockReset();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('fails rows still waiting for an offline bank and discards the job later', async () => {
+        verify.mockImplementation(async account => createFailure(VerificationFailureCode.BANK_OFFLINE, account));
+        const registry = createBulkJobRegistry(options);
+        const { id } = registry.create(accounts);
+
+        await vi.advanceTimersByTimeAsync(options.maxDeferredWaitMs - MINUTE_MS);
+        expect(registry.get(id)?.progress).toMatchObject({ state: 'running', deferred: 2 });
+
+        await vi.advanceTimersByTimeAsync(2 * MINUTE_MS);
+        const job = registry.get(id);
+        expect(job?.progress).toMatchObject({ state: 'completed', done: 2, failed: 2, deferred: 0 });
+        expect(job?.results.map(result => result?.failureCode)).toEqual([VerificationFailureCode.BANK_OFFLINE, VerificationFailureCode.BANK_OFFLINE]);
+        expect(job?.results.every(result => result?.deferred)).toBe(true);
+
+        await vi.advanceTimersByTimeAsync(options.retentionMs);
+        expect(registry.get(id)).toBeUndefined();
+    });
+
+    it('verifies the rows for other banks while rows for an offline bank wait', async () => {
+        verify.mockImplementation(async account => (account.bankName === 'Access Bank'
+            ? createFailure(VerificationFailureCode.BANK_OFFLINE, account)
+            : { success: true, message: 'Verified.', data: account }));
+        const healthy: AccountDetails[] = Array.from({ length: 20 }, (_, i) => {
+            const serial = String(i + 1).padStart(9, '0');
+            return { beneficiaryName: 'Sani Musa', bankName: 'Zenith Bank', accountNumber: `${serial}${computeNubanCheckDigit('057', serial)}`, bvn: '22123458903' };
+        });
+        const registry = createBulkJobRegistry({ ...options, maxDeferredWaitMs: 2000 });
+        // The second Access Bank row is only reached, and deferred, once the healthy rows have gone out
+        const { id } = registry.create([accounts[0], ...healthy, accounts[1]]);
+
+        await vi.advanceTimersByTimeAsync(3000);
+        let job = registry.get(id);
+        expect(job?.results[0]?.failureCode).toBe(VerificationFailureCode.BANK_OFFLINE);
+        expect(job?.results[21]).toBeNull();
+
+        await vi.advanceTimersByTimeAsync(MINUTE_MS);
+        job = registry.get(id);
+        expect(job?.progress).toMatchObject({ state: 'completed', succeeded: 20, failed: 2 });
+        expect(job?.results[21]).toMatchObject({ failureCode: VerificationFailureCode.BANK_OFFLINE, deferred: true });
+        expect(job?.results.slice(1, 21).every(result => result?.success)).toBe(true);
+    });
+
+    it('cancels a job on request', async () => {
+        verify.mockImplementation(async account => createFailure(VerificationFailureCode.BANK_OFFLINE, account));
+        const registry = createBulkJobRegistry(options);
+        const { id } = registry.create(accounts);
+        await vi.advanceTimersByTimeAsync(MINUTE_MS);
+
+        expect(registry.cancel(id)?.progress.state).toBe('cancelled');
+        expect(registry.cancel('no-such-job')).toBeUndefined();
+    });
+
+    it('discards a job that never finishes', async () => {
+        verify.mockReturnValue(new Promise(() => undefined));
+        const registry = createBulkJobRegistry(options);
+        const { id } = registry.create(accounts);
+
+        await vi.advanceTimersByTimeAsync(options.maxRunMs);
+        expect(registry.get(id)?.progress.state).toBe('cancelled');
+
+        await vi.advanceTimersByTimeAsync(options.retentionMs);
+        expect(registry.get(id)).toBeUndefined();
+    });
+});
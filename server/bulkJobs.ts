@@ -0,0 +1,86 @@
+import { AccountDetails, BulkJobStatusResponse, VerificationResultData } from '../types';
+import { createBulkVerificationJob, BulkVerificationJob } from '../services/bulkVerificationEngine';
+import { createBulkVerifyOptions } from '../services/bulkVerifyOptions';
+import { getBanks } from '../services/bankRegistry';
+
+interface ServerBulkJob {
+    id: string;
+    createdAt: string;
+    job: BulkVerificationJob;
+    results: (VerificationResultData | null)[];
+}
+
+export interface BulkJobRegistry {
+    create: (accounts: AccountDetails[]) => BulkJobStatusResponse;
+    get: (id: string) => BulkJobStatusResponse | undefined;
+    // Stops the job after the rows in flight; rows not yet verified keep no result.
+    cancel: (id: string) => BulkJobStatusResponse | undefined;
+}
+
+export interface BulkJobRegistryOptions {
+    // How long a finished job's results can still be fetched.
+    retentionMs: number;
+    // How long rows may wait for an offline bank before they fail as bank offline, as the CLI's --max-wait.
+    maxDeferredWaitMs: number;
+    // Jobs still running after this long are cancelled, and discarded once the retention time has also passed.
+    maxRunMs: number;
+}
+
+const toResponse = (entry: ServerBulkJob): BulkJobStatusResponse => ({
+    id: entry.id,
+    createdAt: entry.createdAt,
+    progress: entry.job.getProgress(),
+    results: entry.results,
+});
+
+/**
+ * Creates an in-memory registry of bulk jobs that run on the server and are polled for progress.
+ * Jobs are lost when the server restarts. Every job is discarded eventually, even if it never finishes,
+ * so a bank that stays offline cannot keep jobs in memory.
+ * @param options How long finished jobs are kept and how long jobs may run.
+ * @returns The job registry.
+ */
+export const createBulkJobRegistry = (options: BulkJobRegistryOptions): BulkJobRegistry => {
+    const jobs = new Map<string, ServerBulkJob>();
+
+    const create = (accounts: AccountDetails[]): BulkJobStatusResponse => {
+        const results: (VerificationResultData | null)[] = accounts.map(() => null);
+        const job = createBulkVerificationJob(accounts, {
+            ...createBulkVerifyOptions(getBanks()),
+            maxDeferredWaitMs: options.maxDeferredWaitMs,
+            onResult: (index, result) => {
+                results[index] = result;
+            },
+        });
+        const entry: ServerBulkJob = { id: crypto.randomUUID(), createdAt: new Date().toISOString(), job, results };
+        jobs.set(entry.id, entry);
+
+        const runTimer = setTimeout(() => job.cancel(), options.maxRunMs);
+        // In case the job does not stop once cancelled, e.g. a provider call that never returns
+        const evictTimer = setTimeout(() => jobs.delete(entry.id), options.maxRunMs + options.retentionMs);
+        runTimer.unref();
+        evictTimer.unref();
+
+        entry.job.run()
+            .catch(error => console.error(`Bulk job ${entry.id} failed:`, error))
+            .finally(() => {
+                clearTimeout(runTimer);
+                clearTimeout(evictTimer);
+                setTimeout(() => jobs.delete(entry.id), options.retentionMs).unref();
+            });
+        return toResponse(entry);
+    };
+
+    const get = (id: string): BulkJobStatusResponse | undefined => {
+        const entry = jobs.get(id);
+        return entry ? toResponse(entry) : undefined;
+    };
+
+    const cancel = (id: string): BulkJobStatusResponse | undefined => {
+        const entry = jobs.get(id);
+        entry?.job.cancel();
+        return entry ? toResponse(entry) : undefined;
+    };
+
+    return { create, get, cancel };
+};
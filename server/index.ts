@@ -0,0 +1,47 @@
+import { createServer } from 'node:http';
+import { getConfiguredProviderId, getVerificationProvider } from '../services/verificationService';
+import { createApiHandler } from './app';
+import { createBulkJobRegistry } from './bulkJobs';
+
+const DEFAULT_PORT = 8787;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_BULK_ROWS = 10000;
+const BULK_JOB_RETENTION_MS = 60 * 60 * 1000;
+// Rows still waiting for an offline bank after this long fail as bank offline, as with the CLI's default --max-wait.
+const BULK_JOB_MAX_DEFERRED_WAIT_MS = 10 * 60 * 1000;
+// Well beyond the largest job at the default rate limit (10000 rows at 5 per second is about 35 minutes).
+const BULK_JOB_MAX_RUN_MS = 3 * 60 * 60 * 1000;
+// Where `npm run dev` serves the app; set CORS_ORIGIN to the app's origin when it is served elsewhere.
+const DEFAULT_CORS_ORIGIN = 'http://localhost:5173';
+const MIN_API_KEY_LENGTH = 16;
+
+// .env.local is shared with the browser build, where this URL points at this server; it must not forward to itself.
+delete process.env.VERIFICATION_SERVER_URL;
+
+if (getConfiguredProviderId() === 'api') {
+    console.error("The verification server cannot use the 'api' provider. Set VERIFICATION_PROVIDER to gemini, http or rules.");
+    process.exit(1);
+}
+
+const apiKey = process.env.VERIFICATION_SERVER_API_KEY?.trim() ?? '';
+if (apiKey.length < MIN_API_KEY_LENGTH) {
+    console.error(`Set VERIFICATION_SERVER_API_KEY to a secret of at least ${MIN_API_KEY_LENGTH} characters. Callers must send it to use the server.`);
+    process.exit(1);
+}
+
+const port = Number(process.env.PORT) || DEFAULT_PORT;
+const handler = createApiHandler({
+    bulkJobs: createBulkJobRegistry({
+        retentionMs: BULK_JOB_RETENTION_MS,
+        maxDeferredWaitMs: BULK_JOB_MAX_DEFERRED_WAIT_MS,
+        maxRunMs: BULK_JOB_MAX_RUN_MS,
+    }),
+    apiKey,
+    corsOrigin: process.env.CORS_ORIGIN || DEFAULT_CORS_ORIGIN,
+    maxBodyBytes: MAX_BODY_BYTES,
+    maxBulkRows: MAX_BULK_ROWS,
+});
+
+createServer(handler).listen(port, () => {
+    console.log(`Verification server listening on http://localhost:${port} with ${getVerificationProvider().displayName}`);
+});
@@ -0,0 +1,246 @@
+import { BankNetworkStatus, BankType, NameMatchGrade, VerificationFailureCode } from '../types';
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: ref('Error') } },
+});
+
+const unauthorizedResponse = errorResponse('The Authorization header is missing or does not carry the server\'s API key.');
+
+/**
+ * OpenAPI 3.0 description of the verification server, served at GET /openapi.json.
+ * Keep it in step with the routes in server/app.ts and the types in types.ts.
+ */
+export const openApiDocument = {
+    openapi: '3.0.3',
+    info: {
+        title: 'Account Verification API',
+        version: '1.0.0',
+        description: 'Verifies Nigerian bank account details with the provider configured on the server. Provider credentials never leave the server.',
+    },
+    // Every route except this document needs the key set in VERIFICATION_SERVER_API_KEY.
+    security: [{ apiKey: [] }],
+    paths: {
+        '/verify': {
+            post: {
+                summary: 'Verify one account',
+                description: 'Verification failures, including provider errors and offline banks, are returned as a result with success false, not as an HTTP error.',
+                requestBody: { required: true, content: { 'application/json': { schema: ref('AccountDetails') } } },
+                responses: {
+                    '200': { description: 'The verification result.', content: { 'application/json': { schema: ref('VerificationResult') } } },
+                    '400': errorResponse('The body is not valid JSON or is missing fields.'),
+                    '401': unauthorizedResponse,
+                    '413': errorResponse('The body is too large.'),
+                },
+            },
+        },
+        '/bulk-jobs': {
+            post: {
+                summary: 'Start a bulk verification job',
+                description: 'Rows are verified in the background under the server\'s rate limit. Poll the Location URL for progress and results.',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['accounts'],
+                                properties: { accounts: { type: 'array', minItems: 1, items: ref('AccountDetails') } },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    '202': {
+                        description: 'The job was started.',
+                        headers: { Location: { description: 'URL of the job status.', schema: { type: 'string' } } },
+                        content: { 'application/json': { schema: ref('BulkJobStatus') } },
+                    },
+                    '400': errorResponse('The body is not valid JSON, or some accounts are missing fields.'),
+                    '401': unauthorizedResponse,
+                    '413': errorResponse('The body or the number of accounts is too large.'),
+                },
+            },
+        },
+        '/bulk-jobs/{id}': {
+            get: {
+                summary: 'Get a bulk job\'s progress and results',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    '200': { description: 'The job status.', content: { 'application/json': { schema: ref('BulkJobStatus') } } },
+                    '401': unauthorizedResponse,
+                    '404': errorResponse('No such job, or it finished too long ago and was discarded.'),
+                },
+            },
+            delete: {
+                summary: 'Cancel a bulk job',
+                description: 'The job stops after the rows in flight. Rows not yet verified keep a null result.',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    '200': { description: 'The job status after cancelling.', content: { 'application/json': { schema: ref('BulkJobStatus') } } },
+                    '401': unauthorizedResponse,
+                    '404': errorResponse('No such job, or it finished too long ago and was discarded.'),
+                },
+            },
+        },
+        '/banks': {
+            get: {
+                summary: 'List the banks in the server\'s registry',
+                responses: {
+                    '200': { description: 'The banks, sorted by name.', content: { 'application/json': { schema: { type: 'array', items: ref('Bank') } } } },
+                    '401': unauthorizedResponse,
+                },
+            },
+        },
+        '/bank-status': {
+            get: {
+                summary: 'Get the measured health of every bank',
+                responses: {
+                    '200': { description: 'The status of each bank.', content: { 'application/json': { schema: { type: 'array', items: ref('BankStatus') } } } },
+                    '401': unauthorizedResponse,
+                },
+            },
+        },
+    },
+    components: {
+        securitySchemes: {
+            apiKey: { type: 'http', scheme: 'bearer', description: 'The server\'s API key, sent as Authorization: Bearer <key>.' },
+        },
+        schemas: {
+            AccountDetails: {
+                type: 'object',
+                required: ['beneficiaryName', 'bankName', 'accountNumber', 'bvn'],
+                properties: {
+                    beneficiaryName: { type: 'string' },
+                    bankName: { type: 'string', description: 'The bank\'s name as listed by GET /banks.' },
+                    accountNumber: { type: 'string', example: '0123456789' },
+                    bvn: { type: 'string', example: '22123456789' },
+                    originalBankName: { type: 'string', description: 'The bank name as written in the source file, when it differs.' },
+                    program: { type: 'string', example: 'BHCPF' },
+                    state: { type: 'string', example: 'Kano' },
+                    lga: { type: 'string', example: 'Nassarawa' },
+                    facilityCode: { type: 'string', example: 'KN/NAS/014' },
+                    staffId: { type: 'string', example: 'MPHC-00123' },
+                },
+            },
+            ProviderAttempt: {
+                type: 'object',
+                required: ['attempt', 'startedAt', 'durationMs', 'outcome'],
+                properties: {
+                    attempt: { type: 'integer', minimum: 1 },
+                    startedAt: { type: 'integer', description: 'Milliseconds since the Unix epoch.' },
+                    durationMs: { type: 'integer' },
+                    outcome: { type: 'string', enum: ['success', 'error', 'timeout', 'short-circuited'] },
+                    message: { type: 'string' },
+                },
+            },
+            VerificationResult: {
+                type: 'object',
+                required: ['success', 'message', 'data'],
+                properties: {
+                    success: { type: 'boolean' },
+                    message: { type: 'string' },
+                    data: { ...ref('AccountDetails'), nullable: true },
+                    failureCode: { type: 'string', enum: Object.values(VerificationFailureCode) },
+                    retryable: { type: 'boolean' },
+                    deferred: { type: 'boolean', description: 'True when the details were not sent because the bank is offline.' },
+                    registeredName: { type: 'string' },
+                    nameMatchGrade: { type: 'string', enum: Object.values(NameMatchGrade) },
+                    nameMatchScore: { type: 'number', minimum: 0, maximum: 1 },
+                    providerAttempts: { type: 'array', items: ref('ProviderAttempt') },
+                    provider: {
+                        type: 'string',
+                        enum: ['gemini', 'rules', 'http', 'api', 'local', 'registry'],
+                        description: 'The provider that answered, or local when the details were settled without a provider call.',
+                    },
+                },
+            },
+            BulkProgress: {
+                type: 'object',
+                required: ['state', 'total', 'done', 'succeeded', 'failed', 'remaining', 'deferred', 'etaMs'],
+                properties: {
+                    state: { type: 'string', enum: ['idle', 'running', 'paused', 'cancelled', 'completed'] },
+                    total: { type: 'integer' },
+                    done: { type: 'integer' },
+                    succeeded: { type: 'integer' },
+                    failed: { type: 'integer' },
+                    remaining: { type: 'integer' },
+                    deferred: { type: 'integer', description: 'Rows waiting for their bank to come back online.' },
+                    etaMs: { type: 'integer', nullable: true },
+                },
+            },
+            BulkJobStatus: {
+                type: 'object',
+                required: ['id', 'createdAt', 'progress', 'results'],
+                properties: {
+                    id: { type: 'string' },
+                    createdAt: { type: 'string', format: 'date-time' },
+                    progress: ref('BulkProgress'),
+                    results: {
+                        type: 'array',
+                        description: 'One entry per submitted account, in order; null until the row has a result.',
+                        items: { ...ref('VerificationResult'), nullable: true },
+                    },
+                },
+            },
+            Bank: {
+                type: 'object',
+                required: ['name', 'shortName', 'cbnCode', 'nipCode', 'sortCode', 'aliases', 'type'],
+                properties: {
+                    name: { type: 'string' },
+                    shortName: { type: 'string' },
+                    cbnCode: { type: 'string' },
+                    nipCode: { type: 'string' },
+                    sortCode: { type: 'string' },
+                    aliases: { type: 'array', items: { type: 'string' } },
+                    type: { type: 'string', enum: Object.values(BankType) },
+                },
+            },
+            BankStatus: {
+                type: 'object',
+                required: ['name', 'status', 'uptime', 'averageLatencyMs', 'sampleCount', 'lastCheckedAt', 'incidents', 'recentSamples'],
+                properties: {
+                    name: { type: 'string' },
+                    status: { type: 'string', enum: Object.values(BankNetworkStatus) },
+                    uptime: { type: 'number', nullable: true, description: 'Share of successful checks in the last 24 hours.' },
+                    averageLatencyMs: { type: 'integer', nullable: true },
+                    sampleCount: { type: 'integer' },
+                    lastCheckedAt: { type: 'integer', nullable: true },
+                    incidents: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                status: { type: 'string', enum: [BankNetworkStatus.DEGRADED, BankNetworkStatus.OFFLINE] },
+                                startedAt: { type: 'integer' },
+                                endedAt: { type: 'integer', nullable: true },
+                            },
+                        },
+                    },
+                    recentSamples: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                timestamp: { type: 'integer' },
+                                ok: { type: 'boolean' },
+                                latencyMs: { type: 'integer', nullable: true },
+                                source: { type: 'string', enum: ['verification', 'endpoint'] },
+                            },
+                        },
+                    },
+                },
+            },
+            Error: {
+                type: 'object',
+                required: ['error'],
+                properties: {
+                    error: { type: 'string' },
+                    details: { type: 'array', items: { type: 'string' } },
+                },
+            },
+        },
+    },
+};
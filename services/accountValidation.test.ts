@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AccountDetails, BankData, BankResolution, BankType } from '../types';
+import { validateAccountDetails, validateBulkRows } from './accountValidation';
+
+const BANKS: BankData[] = [
+    { name: 'Access Bank', shortName: 'Access', cbnCode: '044', nipCode: '000014', sortCode: '044150149', aliases: ['Access Diamond'], type: BankType.COMMERCIAL },
+    { name: 'Zenith Bank', shortName: 'Zenith', cbnCode: '057', nipCode: '000015', sortCode: '057150013', aliases: [], type: BankType.COMMERCIAL },
+];
+
+const account: AccountDetails = { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' };
+
+describe('validateAccountDetails', () => {
+    it('accepts valid details', () => {
+        expect(validateAccountDetails(account, BANKS)).toEqual({});
+    });
+
+    it('reports every missing field', () => {
+        expect(validateAccountDetails({ beneficiaryName: ' ', bankName: '', accountNumber: '', bvn: '' }, BANKS)).toEqual({
+            beneficiaryName: 'Beneficiary name is required.',
+            bankName: 'Bank name is required.',
+            accountNumber: 'Account number is required.',
+            bvn: 'BVN is required.',
+        });
+    });
+
+    it('checks lengths and the NUBAN check digit', () => {
+        expect(validateAccountDetails({ ...account, accountNumber: '12345', bvn: '221234' }, BANKS)).toEqual({
+            accountNumber: 'Account number must be 10 digits.',
+            bvn: 'BVN must be 11 digits.',
+        });
+        expect(validateAccountDetails({ ...account, accountNumber: '1234567890' }, BANKS).accountNumber).toBeTruthy();
+        // The same number has a different check digit at another bank
+        expect(validateAccountDetails({ ...account, bankName: 'Zenith Bank', accountNumber: '1234567899' }, BANKS)).toEqual({});
+    });
+});
+
+describe('validateBulkRows', () => {
+    it('checks the check digit against the resolved bank', () => {
+        const [row] = validateBulkRows([{ account: { ...account, bankName: 'access diamond' } }], BANKS);
+        expect(row.resolution.bank?.name).toBe('Access Bank');
+        expect(row.errors).toEqual({});
+    });
+
+    it('resolves banks from the code columns', () => {
+        const [row] = validateBulkRows([{ account: { ...account, bankName: 'ZB' }, sortCode: '057081022' }], BANKS);
+        expect(row.resolution.bank?.name).toBe('Zenith Bank');
+        expect(row.errors.accountNumber).toBeTruthy();
+    });
+
+    it('marks repeats of an earlier account at the same bank, ignoring excluded rows', () => {
+        const rows = [
+            { account, excluded: true },
+            { account },
+            { account: { ...account, bankName: 'Access Diamond' } },
+            { account: { ...account, bankName: 'Zenith Bank' } },
+        ];
+        expect(validateBulkRows(rows, BANKS).map(row => row.duplicateOf)).toEqual([null, null, 1, null]);
+    });
+
+    it('uses the resolver it is given', () => {
+        const resolve = vi.fn((): BankResolution => ({ bank: BANKS[1], confidence: 1, status: 'resolved', candidates: [] }));
+        const [row] = validateBulkRows([{ account: { ...account, accountNumber: '1234567899' }, bankCode: '057' }], BANKS, resolve);
+        expect(resolve).toHaveBeenCalledWith({ bankName: 'Access Bank', bankCode: '057', sortCode: undefined });
+        expect(row.errors).toEqual({});
+    });
+});
@@ -0,0 +1,89 @@
+import { AccountDetails, AccountFieldErrors, BankData, BankResolution } from '../types';
+import { validateNuban } from './nubanService';
+import { BankResolutionInput, resolveBank } from './bankResolver';
+
+export interface BulkRowInput {
+    account: AccountDetails;
+    bankCode?: string;
+    sortCode?: string;
+    // Excluded rows are still validated but do not make later rows duplicates.
+    excluded?: boolean;
+}
+
+export interface BulkRowValidation {
+    errors: AccountFieldErrors;
+    resolution: BankResolution;
+    // Index of the earlier row with the same account and bank, if any.
+    duplicateOf: number | null;
+}
+
+/**
+ * Applies the field rules shared by the single-account form and bulk uploads.
+ * @param details The account details to check.
+ * @param banks The bank list used for the NUBAN check digit.
+ * @returns A message for each invalid field.
+ */
+export const validateAccountDetails = (details: AccountDetails, banks: BankData[]): AccountFieldErrors => {
+    const errors: AccountFieldErrors = {};
+    const accountNumber = details.accountNumber.trim();
+    const bvn = details.bvn.trim();
+
+    if (!details.beneficiaryName.trim()) {
+        errors.beneficiaryName = 'Beneficiary name is required.';
+    }
+    if (!details.bankName.trim()) {
+        errors.bankName = 'Bank name is required.';
+    }
+    if (!accountNumber) {
+        errors.accountNumber = 'Account number is required.';
+    } else if (!/^\d{10}$/.test(accountNumber)) {
+        errors.accountNumber = 'Account number must be 10 digits.';
+    } else if (details.bankName.trim()) {
+        const nubanResult = validateNuban(accountNumber, details.bankName, banks);
+        if (!nubanResult.isValid) {
+            errors.accountNumber = nubanResult.message;
+        }
+    }
+    if (!bvn) {
+        errors.bvn = 'BVN is required.';
+    } else if (!/^\d{11}$/.test(bvn)) {
+        errors.bvn = 'BVN must be 11 digits.';
+    }
+    return errors;
+};
+
+/**
+ * Validates every row of a bulk upload: field rules, bank resolution, and repeated accounts.
+ * The check digit is tested against the resolved bank, so free-text bank names are checked too;
+ * banks that do not resolve are left for the bank review step rather than reported as errors.
+ * @param rows The parsed rows.
+ * @param banks The bank list.
+ * @param resolve Resolves a bank; pass a cached resolver when validating repeatedly.
+ * @returns The validation of each row, in the same order.
+ */
+export const validateBulkRows = (
+    rows: BulkRowInput[],
+    banks: BankData[],
+    resolve: (input: BankResolutionInput) => BankResolution = input => resolveBank(input, banks),
+): BulkRowValidation[] => {
+    const firstSeen = new Map<string, number>();
+
+    return rows.map((row, index) => {
+        const resolution = resolve({ bankName: row.account.bankName, bankCode: row.bankCode, sortCode: row.sortCode });
+        const bankName = resolution.bank?.name ?? row.account.bankName;
+        const errors = validateAccountDetails({ ...row.account, bankName }, banks);
+
+        let duplicateOf: number | null = null;
+        const accountNumber = row.account.accountNumber.trim();
+        if (accountNumber && !row.excluded) {
+            const key = `${accountNumber}|${resolution.bank?.name ?? bankName.trim().toLowerCase()}`;
+            const earlier = firstSeen.get(key);
+            if (earlier === undefined) {
+                firstSeen.set(key, index);
+            } else {
+                duplicateOf = earlier;
+            }
+        }
+        return { errors, resolution, duplicateOf };
+    });
+};
@@ -0,0 +1,51 @@
+import { AccountDetails, ApiErrorResponse, VerificationFailureCode, VerificationResultData } from '../types';
+import { isTransientHttpStatus } from './resilience';
+import { VerificationError } from './verificationFailures';
+
+export interface VerificationApiClient {
+    verify: (details: AccountDetails, signal?: AbortSignal) => Promise<VerificationResultData>;
+}
+
+/**
+ * Creates a typed client for the verification server (see server/openapi.ts).
+ * Failed requests throw a VerificationError that is transient for network errors, HTTP 429 and 5xx.
+ * @param baseUrl The server's base URL, e.g. http://localhost:8787.
+ * @param apiKey The server's API key. Left out in the browser, whose same-origin proxy adds it.
+ * @returns The API client.
+ */
+export const createVerificationApiClient = (baseUrl: string, apiKey?: string): VerificationApiClient => {
+    const root = baseUrl.replace(/\/$/, '');
+
+    const request = async <T>(path: string, init?: { method: 'POST'; body: unknown }, signal?: AbortSignal): Promise<T> => {
+        let response: Response;
+        try {
+            response = await fetch(`${root}${path}`, {
+                method: init?.method ?? 'GET',
+                headers: {
+                    'Accept': 'application/json',
+                    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+                    ...(init ? { 'Content-Type': 'application/json' } : {}),
+                },
+                body: init ? JSON.stringify(init.body) : undefined,
+                signal,
+            });
+        } catch (error) {
+            console.error(`Error calling verification server ${path}:`, error);
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, 'The verification server could not be reached.', true);
+        }
+        if (!response.ok) {
+            const body = await response.json().catch(() => null) as ApiErrorResponse | null;
+            const details = body?.details?.length ? ` ${body.details.join(' ')}` : '';
+            throw new VerificationError(
+                VerificationFailureCode.PROVIDER_ERROR,
+                `${body?.error || `The verification server responded with HTTP ${response.status}.`}${details}`,
+                isTransientHttpStatus(response.status)
+            );
+        }
+        return await response.json() as T;
+    };
+
+    return {
+        verify: (details, signal) => request<VerificationResultData>('/verify', { method: 'POST', body: details }, signal),
+    };
+};
@@ -0,0 +1,159 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, AuditLogEntry, VerificationResultData } from '../types';
+import { GENESIS_HASH, appendAuditEntry, exportAuditLogCsv, exportAuditLogJson, verifyAuditChain } from './auditLog';
+import { downloadBlob } from './download';
+import { setPiiHashKey } from './pii';
+
+// The export tests append to the chain, so storage is replaced with an in-memory store.
+const storedEntries = vi.hoisted(() => [] as unknown[]);
+const addEntry = vi.hoisted(() => vi.fn());
+vi.mock('./database', () => ({
+    AUDIT_STORE: 'auditLog',
+    openDb: async () => ({ transaction: () => ({ objectStore: () => ({ add: addEntry, openCursor: () => null }) }) }),
+    requestToPromise: async () => null,
+    transactionDone: async () => undefined,
+}));
+vi.mock('./vault', () => ({
+    sealValue: async (value: unknown) => value,
+    isSealedValue: () => false,
+    openSealedValue: async (value: unknown) => value,
+}));
+vi.mock('./download', () => ({ downloadBlob: vi.fn() }));
+
+// Recomputes hashes the way an auditor would, from the documented field order.
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const signEntry = async (entry: Omit<AuditLogEntry, 'hash'>): Promise<AuditLogEntry> => ({
+    ...entry,
+    hash: await sha256(JSON.stringify([
+        entry.sequence, entry.timestamp, entry.operator, entry.action, entry.provider, entry.jobId ?? null, entry.rowIndex ?? null,
+        entry.input.beneficiaryName, entry.input.bankName, entry.input.accountNumber, entry.input.bvnHash,
+        entry.outcome, entry.failureCode ?? null, entry.message, entry.previousHash,
+    ])),
+});
+
+const buildChain = async (count: number): Promise<AuditLogEntry[]> => {
+    const entries: AuditLogEntry[] = [];
+    for (let sequence = 1; sequence <= count; sequence++) {
+        entries.push(await signEntry({
+            sequence,
+            timestamp: `2026-01-0${sequence}T09:00:00.000Z`,
+            operator: 'Ada',
+            action: 'single',
+            provider: 'rules',
+            input: { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvnHash: 'abc' },
+            outcome: 'success',
+            message: 'Verified.',
+            previousHash: entries.length > 0 ? entries[entries.length - 1].hash : GENESIS_HASH,
+        }));
+    }
+    return entries;
+};
+
+describe('verifyAuditChain', () => {
+    it('accepts an intact chain', async () => {
+        expect(await verifyAuditChain(await buildChain(3))).toEqual({ valid: true, checked: 3 });
+    });
+
+    it('reports the first modified entry', async () => {
+        const entries = await buildChain(3);
+        entries[1] = { ...entries[1], operator: 'Someone else' };
+        expect(await verifyAuditChain(entries)).toMatchObject({ valid: false, brokenAt: 2, reason: 'Entry #2 has been modified.' });
+    });
+
+    it('reports a removed entry', async () => {
+        const entries = await buildChain(3);
+        expect(await verifyAuditChain([entries[0], entries[2]])).toMatchObject({ valid: false, brokenAt: 2, reason: 'Entry #2 is missing.' });
+    });
+
+    it('follows the stored hashes of entries sealed before a passphrase reset', async () => {
+        const entries = await buildChain(3);
+        const unreadable = entries.slice(0, 2).map(({ sequence, hash }) => ({ sequence, hash }));
+        expect(await verifyAuditChain(entries.slice(2), unreadable)).toEqual({ valid: true, checked: 3, unreadable: 2 });
+    });
+
+    it('still detects a broken link after unreadable entries', async () => {
+        const entries = await buildChain(3);
+        const unreadable = [{ sequence: 1, hash: entries[0].hash }, { sequence: 2, hash: 'f'.repeat(64) }];
+        expect(await verifyAuditChain(entries.slice(2), unreadable)).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+});
+
+describe('audit log exports', () => {
+    beforeAll(async () => {
+        await setPiiHashKey(new Uint8Array(32).fill(7));
+    });
+
+    beforeEach(() => {
+        storedEntries.length = 0;
+        // Entries are sealed before they are stored; the mocked vault seals them as they are
+        addEntry.mockReset().mockImplementation(record => storedEntries.push(record.sealed));
+        vi.mocked(downloadBlob).mockReset();
+    });
+
+    const downloadedText = (): Promise<string> => (vi.mocked(downloadBlob).mock.calls[0][0] as Blob).text();
+
+    it('masks account numbers in the CSV and records the export first', async () => {
+        const entries = await buildChain(2);
+        await exportAuditLogCsv(entries, 'masked', 'Ada');
+
+        const csv = await downloadedText();
+        expect(csv).toContain('******7895');
+        expect(csv).not.toContain('1234567895');
+        expect(storedEntries).toHaveLength(1);
+        expect(storedEntries[0]).toMatchObject({ operator: 'Ada', action: 'export' });
+        expect((storedEntries[0] as { message: string }).message).toMatch(/with 2 rows and masked account numbers/);
+        expect(addEntry.mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(downloadBlob).mock.invocationCallOrder[0]);
+    });
+
+    it('hashes account numbers in the JSON and keeps the entry hashes', async () => {
+        const entries = await buildChain(1);
+        await exportAuditLogJson(entries, { valid: true, checked: 1 }, [], 'hashed', 'Ada');
+
+        const file = JSON.parse(await downloadedText());
+        expect(file.accountNumbers).toBe('hashed');
+        expect(file.entries[0].input.accountNumber).toMatch(/^[0-9a-f]{64}$/);
+        expect(file.entries[0].hash).toBe(entries[0].hash);
+    });
+
+    it('writes full account numbers only when asked to', async () => {
+        await exportAuditLogCsv(await buildChain(1), 'full', 'Ada');
+        expect(await downloadedText()).toContain('1234567895');
+    });
+
+    it('downloads nothing if the export cannot be recorded', async () => {
+        addEntry.mockImplementation(() => {
+            throw new Error('Storage is full.');
+        });
+        await expect(exportAuditLogCsv(await buildChain(1), 'masked', 'Ada')).rejects.toThrow('Storage is full.');
+        expect(downloadBlob).not.toHaveBeenCalled();
+    });
+});
+
+describe('appendAuditEntry', () => {
+    const account: AccountDetails = { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' };
+    const verified: VerificationResultData = { success: true, message: 'Verified.', data: account };
+
+    beforeAll(async () => {
+        await setPiiHashKey(new Uint8Array(32).fill(7));
+    });
+
+    beforeEach(() => {
+        storedEntries.length = 0;
+        addEntry.mockReset().mockImplementation(record => storedEntries.push(record.sealed));
+    });
+
+    it('records what produced the result, falling back to the configured provider', async () => {
+        vi.stubEnv('VERIFICATION_PROVIDER', 'rules');
+        await appendAuditEntry({ operator: 'Ada', action: 'single', account, result: { ...verified, provider: 'gemini' } });
+        await appendAuditEntry({ operator: 'Ada', action: 'single', account, result: { ...verified, provider: 'registry' } });
+        await appendAuditEntry({ operator: 'Ada', action: 'single', account, result: { ...verified, success: false, provider: 'local' } });
+        await appendAuditEntry({ operator: 'Ada', action: 'single', account, result: verified });
+        vi.unstubAllEnvs();
+
+        expect(storedEntries.map(entry => (entry as AuditLogEntry).provider)).toEqual(['gemini', 'registry', 'local', 'rules']);
+    });
+});
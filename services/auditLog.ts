@@ -0,0 +1,372 @@
+import { AccountDetails, AuditAction, BatchApprovalAction, BatchApprovalEvent, AuditChainStatus, AuditLogEntry, PiiExportMode, VerificationResultData } from '../types';
+import { AUDIT_STORE, openDb, requestToPromise, transactionDone } from './database';
+import { getConfiguredProviderId } from './verificationService';
+import { downloadBlob } from './download';
+import { hashAccountNumber, hashBvn, maskAccountNumber } from './pii';
+import { SealedValue, isSealedValue, openSealedValue, sealValue } from './vault';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditRecordInput {
+    operator: string;
+    action: AuditAction;
+    // Null for actions on a whole batch or on the log itself.
+    account: AccountDetails | null;
+    result: VerificationResultData;
+    jobId?: string | null;
+    rowIndex?: number;
+}
+
+export interface ExportRecordInput {
+    operator: string;
+    fileName: string;
+    rowCount: number;
+    // Masked result downloads are not logged; audit log exports always are.
+    piiMode: PiiExportMode;
+    // What piiMode was applied to; BVNs and account numbers unless given.
+    identifiers?: string;
+    jobId?: string | null;
+}
+
+export type AuditEntryLink = Pick<AuditLogEntry, 'sequence' | 'hash'>;
+
+export interface AuditLogContents {
+    entries: AuditLogEntry[];
+    // Entries sealed with a passphrase that has since been reset.
+    unreadable: AuditEntryLink[];
+}
+
+export interface AuditLogFilter {
+    // Inclusive ISO date bounds (yyyy-mm-dd), compared against the entry's local date.
+    from?: string;
+    to?: string;
+    operator?: string;
+    outcome?: AuditLogEntry['outcome'];
+}
+
+// The sequence and hash stay readable so the chain head can be found without the vault key;
+// the rest of the entry is encrypted. Entries written before encryption was added are plain.
+type StoredAuditEntry = AuditEntryLink & { sealed: SealedValue };
+
+const NO_ACCOUNT_INPUT: AuditLogEntry['input'] = { beneficiaryName: '', bankName: '', accountNumber: '', bvnHash: '' };
+
+const APPROVAL_MESSAGES: Record<BatchApprovalAction, string> = {
+    submitted: 'Batch submitted for approval.',
+    approved: 'Batch approved.',
+    rejected: 'Batch rejected.',
+    reopened: 'Batch reopened for changes.',
+};
+
+// Entries are appended one at a time so each one links to the hash of the entry before it.
+let appendQueue: Promise<unknown> = Promise.resolve();
+let chainHead: { sequence: number; hash: string } | null = null;
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Fixed field order, so the hash does not depend on how the entry was serialized or stored.
+const hashEntry = (entry: Omit<AuditLogEntry, 'hash'>): Promise<string> => sha256(JSON.stringify([
+    entry.sequence,
+    entry.timestamp,
+    entry.operator,
+    entry.action,
+    entry.provider,
+    entry.jobId ?? null,
+    entry.rowIndex ?? null,
+    entry.input.beneficiaryName,
+    entry.input.bankName,
+    entry.input.accountNumber,
+    entry.input.bvnHash,
+    entry.outcome,
+    entry.failureCode ?? null,
+    entry.message,
+    entry.previousHash,
+]));
+
+const readChainHead = async (): Promise<{ sequence: number; hash: string }> => {
+    const db = await openDb();
+    const transaction = db.transaction(AUDIT_STORE, 'readonly');
+    const cursor = await requestToPromise(transaction.objectStore(AUDIT_STORE).openCursor(null, 'prev'));
+    const last = cursor?.value as StoredAuditEntry | AuditLogEntry | undefined;
+    return last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: GENESIS_HASH };
+};
+
+type UnsignedFields = Omit<AuditLogEntry, 'sequence' | 'timestamp' | 'previousHash' | 'hash'>;
+
+// Links the entry built from the chain head to it and stores it; sealed unless the vault key is unavailable.
+const appendToChain = (build: (head: AuditEntryLink) => UnsignedFields, seal: boolean): Promise<AuditLogEntry> => {
+    const append = async (): Promise<AuditLogEntry> => {
+        const head = chainHead ?? await readChainHead();
+        const unsigned: Omit<AuditLogEntry, 'hash'> = {
+            sequence: head.sequence + 1,
+            timestamp: new Date().toISOString(),
+            ...build(head),
+            previousHash: head.hash,
+        };
+        const entry: AuditLogEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+        const stored: StoredAuditEntry | AuditLogEntry = seal
+            ? { sequence: entry.sequence, hash: entry.hash, sealed: await sealValue(entry) }
+            : entry;
+
+        const db = await openDb();
+        const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+        // add() rather than put(): an existing sequence number is never overwritten.
+        transaction.objectStore(AUDIT_STORE).add(stored);
+        await transactionDone(transaction);
+        chainHead = { sequence: entry.sequence, hash: entry.hash };
+        return entry;
+    };
+
+    const appended = appendQueue.then(append, append);
+    appendQueue = appended.catch(() => {
+        // Re-read the head next time in case the failed write left it unknown.
+        chainHead = null;
+    });
+    return appended;
+};
+
+/**
+ * Appends a verification to the audit log. Entries cannot be edited or removed through the app;
+ * each one carries the hash of the previous entry, so any later change breaks the chain.
+ * @param record What was verified, by whom, and the outcome.
+ * @returns The stored entry.
+ */
+export const appendAuditEntry = async (record: AuditRecordInput): Promise<AuditLogEntry> => {
+    const { account, result } = record;
+    const input = account
+        ? {
+            beneficiaryName: account.beneficiaryName,
+            bankName: account.bankName,
+            accountNumber: account.accountNumber,
+            bvnHash: await hashBvn(account.bvn),
+        }
+        : NO_ACCOUNT_INPUT;
+    return appendToChain(() => ({
+        operator: record.operator,
+        action: record.action,
+        provider: result.provider ?? getConfiguredProviderId(),
+        ...(record.jobId ? { jobId: record.jobId } : {}),
+        ...(record.rowIndex !== undefined ? { rowIndex: record.rowIndex } : {}),
+        input,
+        outcome: result.success ? 'success' : 'failure',
+        ...(result.failureCode ? { failureCode: result.failureCode } : {}),
+        message: result.message,
+    }), true);
+};
+
+/**
+ * Records that the local data was erased and the passphrase reset. Written before the vault is reset,
+ * and stored unencrypted because it holds no account details, so the chain continues from the entries
+ * sealed with the old passphrase instead of starting again.
+ * @param operator The operator who reset the vault.
+ * @returns The stored entry.
+ */
+export const appendVaultResetEntry = (operator: string): Promise<AuditLogEntry> => appendToChain(head => ({
+    operator,
+    action: 'vault-reset',
+    provider: getConfiguredProviderId(),
+    input: NO_ACCOUNT_INPUT,
+    outcome: 'success',
+    message: head.sequence > 0
+        ? `Local data erased and passphrase reset. Entries up to #${head.sequence} (hash ${head.hash}) were sealed with the previous passphrase.`
+        : 'Local data erased and passphrase reset.',
+}), false);
+
+/**
+ * Records a download of results or of the audit log itself.
+ * @param details Who downloaded which file, how many rows it holds and how IDs were written.
+ * @returns The stored entry.
+ */
+export const appendExportEntry = (details: ExportRecordInput): Promise<AuditLogEntry> => appendAuditEntry({
+    operator: details.operator,
+    action: 'export',
+    account: null,
+    jobId: details.jobId,
+    result: {
+        success: true,
+        message: `Downloaded ${details.fileName} with ${details.rowCount} rows and ${details.piiMode} ${details.identifiers ?? 'BVNs and account numbers'}.`,
+        data: null,
+    },
+});
+
+/**
+ * Records a step in a batch's approval workflow.
+ * @param jobId The batch's stored job ID.
+ * @param event The approval event, with the operator or authenticated approver who took it.
+ * @returns The stored entry.
+ */
+export const appendApprovalEntry = (jobId: string, event: BatchApprovalEvent): Promise<AuditLogEntry> => appendAuditEntry({
+    operator: event.operator,
+    action: 'approval',
+    account: null,
+    jobId,
+    result: {
+        success: true,
+        message: event.comment ? `${APPROVAL_MESSAGES[event.action]} Comment: ${event.comment}` : APPROVAL_MESSAGES[event.action],
+        data: null,
+    },
+});
+
+/**
+ * Records that an operator revealed a masked BVN.
+ * @param operator The operator who revealed it.
+ * @param account The account whose BVN was shown.
+ * @param context Where it was shown, e.g. "the verification result".
+ * @returns The stored entry.
+ */
+export const appendRevealEntry = (operator: string, account: AccountDetails, context: string): Promise<AuditLogEntry> => appendAuditEntry({
+    operator,
+    action: 'reveal',
+    account,
+    result: { success: true, message: `BVN revealed in ${context}.`, data: null },
+});
+
+/**
+ * Loads the whole audit log in chain order. Entries sealed with a passphrase that was later reset
+ * cannot be opened; only their sequence and hash are returned, so the chain can still be followed.
+ * @returns The readable entries and the links of the unreadable ones, oldest first.
+ */
+export const loadAuditLog = async (): Promise<AuditLogContents> => {
+    await appendQueue;
+    const db = await openDb();
+    const transaction = db.transaction(AUDIT_STORE, 'readonly');
+    const stored = await requestToPromise(transaction.objectStore(AUDIT_STORE).getAll()) as (StoredAuditEntry | AuditLogEntry)[];
+    const opened = await Promise.all(stored.map(record => (
+        'sealed' in record && isSealedValue(record.sealed)
+            ? openSealedValue<AuditLogEntry>(record.sealed).catch(() => null)
+            : record as AuditLogEntry
+    )));
+    return {
+        entries: opened.filter((entry): entry is AuditLogEntry => entry !== null),
+        unreadable: stored.filter((_, i) => opened[i] === null).map(record => ({ sequence: record.sequence, hash: record.hash })),
+    };
+};
+
+/**
+ * Recomputes every hash and link in the chain. Unreadable entries cannot be rehashed; their stored
+ * hash is taken as is, so the entries around them must still link up.
+ * @param entries The readable entries, oldest first.
+ * @param unreadable The links of entries sealed with an earlier passphrase.
+ * @returns Whether the chain is intact and, if not, the first entry that fails.
+ */
+export const verifyAuditChain = async (entries: AuditLogEntry[], unreadable: AuditEntryLink[] = []): Promise<AuditChainStatus> => {
+    const chain: (AuditLogEntry | AuditEntryLink)[] = [...entries, ...unreadable].sort((a, b) => a.sequence - b.sequence);
+    let previousHash = GENESIS_HASH;
+    for (let i = 0; i < chain.length; i++) {
+        const link = chain[i];
+        if (link.sequence !== i + 1) {
+            return { valid: false, checked: i, brokenAt: i + 1, reason: `Entry #${i + 1} is missing.` };
+        }
+        if ('previousHash' in link) {
+            const { hash, ...unsigned } = link;
+            if (unsigned.previousHash !== previousHash) {
+                return { valid: false, checked: i, brokenAt: unsigned.sequence, reason: `Entry #${unsigned.sequence} does not link to the entry before it.` };
+            }
+            if (await hashEntry(unsigned) !== hash) {
+                return { valid: false, checked: i, brokenAt: unsigned.sequence, reason: `Entry #${unsigned.sequence} has been modified.` };
+            }
+        }
+        previousHash = link.hash;
+    }
+    return { valid: true, checked: chain.length, ...(unreadable.length > 0 ? { unreadable: unreadable.length } : {}) };
+};
+
+const localDate = (timestamp: string): string => {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Filters log entries for the viewer.
+ * @param entries The entries to filter.
+ * @param filter Date range, operator and outcome; unset criteria match everything.
+ * @returns The matching entries, in the original order.
+ */
+export const filterAuditLog = (entries: AuditLogEntry[], filter: AuditLogFilter): AuditLogEntry[] => {
+    return entries.filter(entry => {
+        const date = localDate(entry.timestamp);
+        if (filter.from && date < filter.from) return false;
+        if (filter.to && date > filter.to) return false;
+        if (filter.operator && entry.operator !== filter.operator) return false;
+        if (filter.outcome && entry.outcome !== filter.outcome) return false;
+        return true;
+    });
+};
+
+// Entries without an account, such as exports and approvals, have no number to protect.
+const protectEntryPii = async (entry: AuditLogEntry, piiMode: PiiExportMode): Promise<AuditLogEntry> => {
+    const { accountNumber } = entry.input;
+    if (piiMode === 'full' || !accountNumber) return entry;
+    const protectedNumber = piiMode === 'masked' ? maskAccountNumber(accountNumber) : await hashAccountNumber(accountNumber);
+    return { ...entry, input: { ...entry.input, accountNumber: protectedNumber } };
+};
+
+// Logs the export before the file is handed over, so nothing is downloaded if the entry cannot be written.
+const downloadAuditExport = async (blob: Blob, fileName: string, rowCount: number, piiMode: PiiExportMode, operator: string) => {
+    await appendExportEntry({ operator, fileName, rowCount, piiMode, identifiers: 'account numbers' });
+    downloadBlob(blob, fileName);
+};
+
+/**
+ * Downloads the complete log with its hashes, so auditors can recompute the chain independently.
+ * Entry hashes cover the full account numbers, so only a full export can be recomputed end to end.
+ * @param entries The readable entries, oldest first.
+ * @param status The result of verifying the chain at export time.
+ * @param unreadable The links of entries sealed with an earlier passphrase.
+ * @param piiMode Whether account numbers are masked, hashed or written in full.
+ * @param operator The operator downloading the log.
+ */
+export const exportAuditLogJson = async (entries: AuditLogEntry[], status: AuditChainStatus, unreadable: AuditEntryLink[], piiMode: PiiExportMode, operator: string) => {
+    const exportFile = {
+        exportedAt: new Date().toISOString(),
+        hashAlgorithm: 'SHA-256',
+        // BVN hashes are keyed, so they can only be matched against other hashes from this browser.
+        bvnHashAlgorithm: 'HMAC-SHA-256',
+        accountNumbers: piiMode,
+        genesisHash: GENESIS_HASH,
+        chainStatus: status,
+        entries: await Promise.all(entries.map(entry => protectEntryPii(entry, piiMode))),
+        ...(unreadable.length > 0 ? { unreadableEntries: unreadable } : {}),
+    };
+    const blob = new Blob([JSON.stringify(exportFile, null, 2)], { type: 'application/json' });
+    await downloadAuditExport(blob, `audit_log_${localDate(exportFile.exportedAt)}.json`, entries.length, piiMode, operator);
+};
+
+/**
+ * Downloads log entries as CSV for review in a spreadsheet.
+ * @param entries The entries to export, e.g. the current filtered view.
+ * @param piiMode Whether account numbers are masked, hashed or written in full.
+ * @param operator The operator downloading the log.
+ */
+export const exportAuditLogCsv = async (entries: AuditLogEntry[], piiMode: PiiExportMode, operator: string) => {
+    const escape = (value: string | number | undefined) => {
+        const text = String(value ?? '').replace(/"/g, '""');
+        return /[",\n\r]/.test(text) ? `"${text}"` : text;
+    };
+    const headers = ['sequence', 'timestamp', 'operator', 'action', 'provider', 'jobId', 'rowIndex', 'beneficiaryName', 'bankName', 'accountNumber', 'bvnHash', 'outcome', 'failureCode', 'message', 'previousHash', 'hash'];
+    const protectedEntries = await Promise.all(entries.map(entry => protectEntryPii(entry, piiMode)));
+    const rows = protectedEntries.map(entry => [
+        entry.sequence,
+        entry.timestamp,
+        entry.operator,
+        entry.action,
+        entry.provider,
+        entry.jobId,
+        entry.rowIndex,
+        entry.input.beneficiaryName,
+        entry.input.bankName,
+        entry.input.accountNumber,
+        entry.input.bvnHash,
+        entry.outcome,
+        entry.failureCode,
+        entry.message,
+        entry.previousHash,
+        entry.hash,
+    ].map(escape).join(','));
+    const csvContent = [headers.join(','), ...rows].join('\n');
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    await downloadAuditExport(blob, `audit_log_${localDate(new Date().toISOString())}.csv`, entries.length, piiMode, operator);
+};
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BankData, BankRegistry, BankType } from '../types';
+import { BUNDLED_BANK_REGISTRY } from '../constants';
+
+const access: BankData = { name: 'Access Bank', shortName: 'Access', cbnCode: '044', nipCode: '000014', sortCode: '044150149', aliases: ['Access'], type: BankType.COMMERCIAL };
+const zenith: BankData = { name: 'Zenith Bank', shortName: 'Zenith', cbnCode: '057', nipCode: '000015', sortCode: '057150013', aliases: [], type: BankType.COMMERCIAL };
+
+const registryOf = (...banks: unknown[]): BankRegistry => ({ version: '2026.01.1', publishedAt: '2026-01-01', banks: banks as BankData[] });
+
+describe('bankRegistry', () => {
+    // The registry is loaded from localStorage when the module is imported, so each test imports it afresh
+    let storage: Map<string, string>;
+
+    const loadModule = async () => {
+        vi.resetModules();
+        return import('./bankRegistry');
+    };
+
+    beforeEach(() => {
+        storage = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+            removeItem: (key: string) => storage.delete(key),
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    describe('validateBankRegistry', () => {
+        it('accepts the bundled registry', async () => {
+            const { validateBankRegistry } = await loadModule();
+            expect(validateBankRegistry(BUNDLED_BANK_REGISTRY)).toEqual([]);
+        });
+
+        it('reports duplicate names and codes', async () => {
+            const { validateBankRegistry } = await loadModule();
+            const copy = { ...zenith, name: 'ACCESS BANK', cbnCode: '044', sortCode: '044150013', nipCode: '000014' };
+            expect(validateBankRegistry(registryOf(access, copy))).toEqual([
+                'Duplicate name "ACCESS BANK".',
+                'Duplicate nipCode "000014".',
+                'Duplicate cbnCode "044".',
+            ]);
+        });
+
+        it('requires a commercial bank sort code to start with its CBN code', async () => {
+            const { validateBankRegistry } = await loadModule();
+            expect(validateBankRegistry(registryOf({ ...access, sortCode: '057150149' }))).toEqual([
+                'Entry 1 (Access Bank): sortCode must start with the cbnCode.',
+            ]);
+            const wallet: BankData = { name: 'OPay', shortName: 'OPay', cbnCode: '10004', nipCode: '100004', sortCode: '100004', aliases: [], type: BankType.MOBILE_MONEY };
+            expect(validateBankRegistry(registryOf(wallet))).toEqual([]);
+        });
+
+        it('reports entries that are not objects instead of throwing', async () => {
+            const { validateBankRegistry } = await loadModule();
+            expect(validateBankRegistry(registryOf(null, access))).toEqual(['Entry 1: not an object.']);
+        });
+    });
+
+    describe('importBankRegistry', () => {
+        it('activates and saves a valid list, and refuses an invalid one', async () => {
+            const { getBanks, importBankRegistry } = await loadModule();
+            expect(importBankRegistry(registryOf(zenith, access)).banks.map(bank => bank.name)).toEqual(['Access Bank', 'Zenith Bank']);
+            expect(JSON.parse(storage.get('bankRegistry')!).version).toBe('2026.01.1');
+
+            expect(() => importBankRegistry(registryOf(access, access))).toThrow('Duplicate name "Access Bank".');
+            expect(getBanks()).toHaveLength(2);
+        });
+
+        it('falls back to the bundled registry when the saved list is invalid', async () => {
+            storage.set('bankRegistry', JSON.stringify(registryOf(access, { ...access, shortName: '' })));
+            const { getBankRegistry } = await loadModule();
+            expect(getBankRegistry().version).toBe(BUNDLED_BANK_REGISTRY.version);
+            expect(console.error).toHaveBeenCalledWith('Ignoring invalid imported bank registry:', expect.any(Array));
+        });
+
+        it('loads a valid saved list', async () => {
+            storage.set('bankRegistry', JSON.stringify(registryOf(zenith)));
+            const { getBanks } = await loadModule();
+            expect(getBanks()).toEqual([zenith]);
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import { BankData, BankRegistry, BankType } from '../types';
+import { BUNDLED_BANK_REGISTRY } from '../constants';
+
+const STORAGE_KEY = 'bankRegistry';
+
+/**
+ * Validates a single registry entry.
+ * @param entry The entry to check.
+ * @param index The entry's position in the list, used in error messages.
+ * @returns A list of problems; empty if the entry is valid.
+ */
+const validateEntry = (entry: Partial<BankData>, index: number): string[] => {
+    const label = `Entry ${index + 1}${entry?.name ? ` (${entry.name})` : ''}`;
+    const problems: string[] = [];
+
+    if (!entry || typeof entry !== 'object') {
+        return [`${label}: not an object.`];
+    }
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+        problems.push(`${label}: name is required.`);
+    }
+    if (typeof entry.shortName !== 'string' || !entry.shortName.trim()) {
+        problems.push(`${label}: shortName is required.`);
+    }
+    if (!Object.values(BankType).includes(entry.type as BankType)) {
+        problems.push(`${label}: type must be one of ${Object.values(BankType).join(', ')}.`);
+    }
+    if (typeof entry.cbnCode !== 'string' || !/^\d{3}(\d{2})?$/.test(entry.cbnCode)) {
+        problems.push(`${label}: cbnCode must be 3 or 5 digits.`);
+    } else if (entry.type === BankType.COMMERCIAL && entry.cbnCode.length !== 3) {
+        problems.push(`${label}: commercial banks must have a 3-digit cbnCode.`);
+    }
+    if (typeof entry.nipCode !== 'string' || !/^\d{6}$/.test(entry.nipCode)) {
+        problems.push(`${label}: nipCode must be 6 digits.`);
+    }
+    if (typeof entry.sortCode !== 'string' || !/^\d{6,9}$/.test(entry.sortCode)) {
+        problems.push(`${label}: sortCode must be 6 to 9 digits.`);
+    } else if (entry.type === BankType.COMMERCIAL && typeof entry.cbnCode === 'string' && !entry.sortCode.startsWith(entry.cbnCode)) {
+        problems.push(`${label}: sortCode must start with the cbnCode.`);
+    }
+    if (!Array.isArray(entry.aliases) || !entry.aliases.every(alias => typeof alias === 'string')) {
+        problems.push(`${label}: aliases must be a list of strings.`);
+    }
+    return problems;
+};
+
+/**
+ * Validates a complete registry, including cross-entry uniqueness of names and codes.
+ * @param registry The registry to check.
+ * @returns A list of problems; empty if the registry is valid.
+ */
+export const validateBankRegistry = (registry: Partial<BankRegistry>): string[] => {
+    if (!registry || typeof registry !== 'object') {
+        return ['Bank registry must be an object.'];
+    }
+    const problems: string[] = [];
+    if (typeof registry.version !== 'string' || !registry.version.trim()) {
+        problems.push('Bank registry version is required.');
+    }
+    if (typeof registry.publishedAt !== 'string' || Number.isNaN(Date.parse(registry.publishedAt))) {
+        problems.push('Bank registry publishedAt must be a date.');
+    }
+    if (!Array.isArray(registry.banks) || registry.banks.length === 0) {
+        problems.push('Bank registry must contain at least one bank.');
+        return problems;
+    }
+
+    registry.banks.forEach((entry, index) => problems.push(...validateEntry(entry, index)));
+
+    const checkUnique = (field: 'name' | 'nipCode' | 'cbnCode') => {
+        const seen = new Set<string>();
+        registry.banks!.forEach(entry => {
+            // Entries that are not objects, or lack the field, are already reported above
+            if (!entry || typeof entry !== 'object' || typeof entry[field] !== 'string') return;
+            const value = entry[field].toLowerCase();
+            if (seen.has(value)) {
+                problems.push(`Duplicate ${field} "${entry[field]}".`);
+            }
+            seen.add(value);
+        });
+    };
+    checkUnique('name');
+    checkUnique('nipCode');
+    checkUnique('cbnCode');
+
+    return problems;
+};
+
+const sortBanks = (registry: BankRegistry): BankRegistry => ({
+    ...registry,
+    banks: [...registry.banks].sort((a, b) => a.name.localeCompare(b.name)),
+});
+
+const loadStoredRegistry = (): BankRegistry | null => {
+    try {
+        const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        if (!stored) return null;
+        const registry = JSON.parse(stored) as BankRegistry;
+        const problems = validateBankRegistry(registry);
+        if (problems.length > 0) {
+            console.error("Ignoring invalid imported bank registry:", problems);
+            return null;
+        }
+        return registry;
+    } catch (error) {
+        console.error("Failed to load imported bank registry:", error);
+        return null;
+    }
+};
+
+const loadRegistry = (): BankRegistry => {
+    const bundledProblems = validateBankRegistry(BUNDLED_BANK_REGISTRY);
+    if (bundledProblems.length > 0) {
+        throw new Error(`Bundled bank registry is invalid:\n${bundledProblems.join('\n')}`);
+    }
+    return sortBanks(loadStoredRegistry() ?? BUNDLED_BANK_REGISTRY);
+};
+
+let activeRegistry: BankRegistry = loadRegistry();
+
+/**
+ * Returns the active bank registry (an imported list if one was saved, the bundled one otherwise).
+ */
+export const getBankRegistry = (): BankRegistry => activeRegistry;
+
+/**
+ * Returns all banks in the active registry, sorted by name.
+ */
+export const getBanks = (): BankData[] => activeRegistry.banks;
+
+/**
+ * Looks up a bank by its exact canonical name (case-insensitive).
+ * @param name The bank name.
+ * @returns The matching entry, if any.
+ */
+export const findBankByName = (name: string): BankData | undefined => {
+    const normalized = name.trim().toLowerCase();
+    return activeRegistry.banks.find(bank => bank.name.toLowerCase() === normalized);
+};
+
+/**
+ * Async accessor kept for callers that load the bank list on mount.
+ * @returns All banks in the active registry.
+ */
+export const fetchBankData = async (): Promise<BankData[]> => getBanks();
+
+/**
+ * Replaces the active registry with an updated list and saves it for later sessions.
+ * @param registry The parsed registry JSON.
+ * @returns The newly active registry.
+ * @throws If the registry fails validation.
+ */
+export const importBankRegistry = (registry: unknown): BankRegistry => {
+    const problems = validateBankRegistry(registry as Partial<BankRegistry>);
+    if (problems.length > 0) {
+        throw new Error(`The bank list could not be imported:\n${problems.join('\n')}`);
+    }
+    activeRegistry = sortBanks(registry as BankRegistry);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(activeRegistry));
+    } catch (error) {
+        console.error("Failed to save imported bank registry:", error);
+    }
+    return activeRegistry;
+};
+
+/**
+ * Discards any imported list and reverts to the bundled registry.
+ */
+export const resetBankRegistry = (): BankRegistry => {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to clear imported bank registry:", error);
+    }
+    activeRegistry = sortBanks(BUNDLED_BANK_REGISTRY);
+    return activeRegistry;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { BankData, BankType } from '../types';
+import { normalizeBankName, resolveBank } from './bankResolver';
+
+const bank = (name: string, shortName: string, cbnCode: string, nipCode: string, aliases: string[] = []): BankData => ({
+    name, shortName, cbnCode, nipCode, sortCode: `${cbnCode}150000`.slice(0, 9), aliases, type: BankType.COMMERCIAL,
+});
+
+const BANKS: BankData[] = [
+    bank('Access Bank Plc', 'Access', '044', '000014', ['Access Diamond']),
+    bank('Guaranty Trust Bank Plc', 'GTBank', '058', '000013', ['GTCO']),
+    bank('First Bank of Nigeria Ltd', 'First Bank', '011', '000016', ['FBN']),
+    bank('First City Monument Bank Plc', 'FCMB', '214', '000003'),
+    bank('Zenith Bank Plc', 'Zenith', '057', '000015'),
+    bank('Union Bank of Nigeria Plc', 'Union Bank', '032', '000018'),
+    bank('Unity Bank Plc', 'Unity Bank', '215', '000011'),
+];
+
+describe('normalizeBankName', () => {
+    it('drops case, punctuation and words every bank name shares', () => {
+        expect(normalizeBankName('First Bank of Nigeria Ltd.')).toBe('first');
+        expect(normalizeBankName('  GUARANTY-TRUST   bank plc ')).toBe('guaranty trust');
+        expect(normalizeBankName('Stanbic IBTC & Co')).toBe('stanbic ibtc co');
+    });
+});
+
+describe('resolveBank', () => {
+    it('prefers a bank or sort code over the name', () => {
+        expect(resolveBank({ bankName: 'Zenith', bankCode: '044' }, BANKS).bank?.shortName).toBe('Access');
+        expect(resolveBank({ bankName: '', bankCode: '13' }, BANKS).bank?.shortName).toBe('GTBank');
+        expect(resolveBank({ bankName: '', sortCode: '057150123' }, BANKS).bank?.shortName).toBe('Zenith');
+    });
+
+    it('resolves exact names, short names and aliases', () => {
+        expect(resolveBank({ bankName: 'Zenith Bank' }, BANKS)).toMatchObject({ status: 'resolved', confidence: 1 });
+        expect(resolveBank({ bankName: 'gtco' }, BANKS).bank?.shortName).toBe('GTBank');
+        expect(resolveBank({ bankName: 'FBN' }, BANKS).bank?.shortName).toBe('First Bank');
+    });
+
+    it('resolves small misspellings', () => {
+        const resolution = resolveBank({ bankName: 'Guarantee Trust Bank' }, BANKS);
+        expect(resolution.status).toBe('resolved');
+        expect(resolution.bank?.shortName).toBe('GTBank');
+        expect(resolution.confidence).toBeLessThan(1);
+    });
+
+    it('asks for review when two banks fit about equally', () => {
+        const resolution = resolveBank({ bankName: 'Uni Bank' }, BANKS);
+        expect(resolution).toMatchObject({ status: 'ambiguous', bank: null });
+        expect(resolution.candidates.map(candidate => candidate.shortName)).toEqual(expect.arrayContaining(['Union Bank', 'Unity Bank']));
+    });
+
+    it('leaves unknown names unresolved', () => {
+        expect(resolveBank({ bankName: 'Moniepoint' }, BANKS)).toMatchObject({ status: 'unresolved', bank: null });
+        expect(resolveBank({ bankName: 'Bank Plc' }, BANKS)).toMatchObject({ status: 'unresolved', confidence: 0, candidates: [] });
+    });
+});
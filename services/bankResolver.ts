@@ -0,0 +1,129 @@
+import { BankData, BankResolution } from '../types';
+import { getBanks } from './bankRegistry';
+
+// Words that carry no identifying information in a bank name.
+const STOP_WORDS = new Set(['plc', 'ltd', 'limited', 'nigeria', 'nig', 'of', 'for', 'the', 'and', 'bank', 'mfb', 'microfinance', 'company']);
+
+const RESOLVED_THRESHOLD = 0.85;
+const CANDIDATE_THRESHOLD = 0.5;
+// A fuzzy best match must beat the runner-up by this much to be taken without review.
+const AMBIGUITY_MARGIN = 0.1;
+const MAX_CANDIDATES = 5;
+
+export interface BankResolutionInput {
+    bankName: string;
+    bankCode?: string;
+    sortCode?: string;
+}
+
+/**
+ * Normalizes a free-text bank name for comparison.
+ * @param name The bank name.
+ * @returns The lowercased significant words, separated by single spaces.
+ */
+export const normalizeBankName = (name: string): string => {
+    return name
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !STOP_WORDS.has(word))
+        .join(' ');
+};
+
+const levenshtein = (a: string, b: string): number => {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = a[i - 1] === b[j - 1]
+                ? diagonal
+                : 1 + Math.min(diagonal, above, previous[j - 1]);
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+};
+
+/**
+ * Scores how similar two normalized names are, combining edit distance and word overlap.
+ * @returns A score between 0 and 1.
+ */
+const similarity = (a: string, b: string): number => {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+    const aWords = new Set(a.split(' '));
+    const bWords = new Set(b.split(' '));
+    const shared = [...aWords].filter(word => bWords.has(word)).length;
+    const overlapScore = (2 * shared) / (aWords.size + bWords.size);
+
+    // One name fully containing the other ("zenith" in "zenith international") is a strong hint.
+    const containmentScore = a.includes(b) || b.includes(a) ? 0.8 : 0;
+
+    return Math.max(editScore, overlapScore, containmentScore);
+};
+
+const bankNames = (bank: BankData): string[] => [bank.name, bank.shortName, ...bank.aliases];
+
+const resolveByCode = (input: BankResolutionInput, banks: BankData[]): BankData | undefined => {
+    const bankCode = input.bankCode?.trim();
+    if (bankCode) {
+        const bank = banks.find(b => b.cbnCode === bankCode || b.nipCode === bankCode.padStart(6, '0'));
+        if (bank) return bank;
+    }
+    const sortCode = input.sortCode?.trim();
+    if (sortCode) {
+        // Branch sort codes of deposit money banks start with the 3-digit CBN code.
+        return banks.find(b => b.sortCode === sortCode)
+            ?? banks.find(b => sortCode.length === 9 && b.cbnCode.length === 3 && sortCode.startsWith(b.cbnCode));
+    }
+    return undefined;
+};
+
+/**
+ * Maps a free-text bank name, and optionally a bank or sort code, to a canonical registry entry.
+ * @param input The values from the uploaded row.
+ * @param banks The banks to resolve against; defaults to the active registry.
+ * @returns The resolution, with a confidence score and the closest candidates when it is not certain.
+ */
+export const resolveBank = (input: BankResolutionInput, banks: BankData[] = getBanks()): BankResolution => {
+    const byCode = resolveByCode(input, banks);
+    if (byCode) {
+        return { bank: byCode, confidence: 1, status: 'resolved', candidates: [byCode] };
+    }
+
+    const query = normalizeBankName(input.bankName);
+    if (!query) {
+        return { bank: null, confidence: 0, status: 'unresolved', candidates: [] };
+    }
+
+    const scored = banks
+        .map(bank => ({
+            bank,
+            score: Math.max(...bankNames(bank).map(name => similarity(query, normalizeBankName(name)))),
+        }))
+        .sort((a, b) => b.score - a.score);
+
+    const candidates = scored
+        .filter(entry => entry.score >= CANDIDATE_THRESHOLD)
+        .slice(0, MAX_CANDIDATES)
+        .map(entry => entry.bank);
+    const [best, runnerUp] = scored;
+
+    if (!best || best.score < CANDIDATE_THRESHOLD) {
+        return { bank: null, confidence: best?.score ?? 0, status: 'unresolved', candidates };
+    }
+
+    const margin = best.score - (runnerUp?.score ?? 0);
+    if (best.score === 1 && margin > 0) {
+        return { bank: best.bank, confidence: 1, status: 'resolved', candidates: [best.bank] };
+    }
+    if (best.score >= RESOLVED_THRESHOLD && margin >= AMBIGUITY_MARGIN) {
+        return { bank: best.bank, confidence: best.score, status: 'resolved', candidates };
+    }
+    return { bank: null, confidence: best.score, status: 'ambiguous', candidates };
+};
@@ -0,0 +1,49 @@
+import { AccountDetails, BankNetworkStatus, VerificationFailureCode, VerificationResultData } from '../types';
+import { DEFAULT_VERIFY_TIMEOUT_MS, DEGRADED_BANK_CONCURRENCY, DEGRADED_VERIFY_TIMEOUT_MS } from '../constants';
+import { findBankByName } from './bankRegistry';
+import { getBankStatus } from './bankStatusService';
+import { createFailure } from './verificationFailures';
+
+export interface BankRoute {
+    status: BankNetworkStatus;
+    // Hold the verification until the bank is back instead of sending it.
+    defer: boolean;
+    timeoutMs: number;
+    // Most calls to this bank in flight at once, or null for no limit beyond the batch's own.
+    maxConcurrent: number | null;
+}
+
+/**
+ * Decides how to send a verification from the bank's current health.
+ * Offline banks are deferred; degraded banks get a longer timeout and fewer concurrent calls.
+ * Banks without recent data are treated as operational, so their calls become the next probes.
+ * @param bankName The bank's name.
+ * @returns How to send the verification.
+ */
+export const getBankRoute = (bankName: string): BankRoute => {
+    const bank = findBankByName(bankName);
+    const status = bank ? getBankStatus(bank.name).status : BankNetworkStatus.UNKNOWN;
+    switch (status) {
+        case BankNetworkStatus.OFFLINE:
+            return { status, defer: true, timeoutMs: DEGRADED_VERIFY_TIMEOUT_MS, maxConcurrent: DEGRADED_BANK_CONCURRENCY };
+        case BankNetworkStatus.DEGRADED:
+            return { status, defer: false, timeoutMs: DEGRADED_VERIFY_TIMEOUT_MS, maxConcurrent: DEGRADED_BANK_CONCURRENCY };
+        default:
+            return { status, defer: false, timeoutMs: DEFAULT_VERIFY_TIMEOUT_MS, maxConcurrent: null };
+    }
+};
+
+/**
+ * Builds the result for a single verification that was not sent because its bank is offline.
+ * @param details The account details that were held back.
+ * @returns A deferred failure, which says nothing about the account itself.
+ */
+export const createDeferredFailure = (details: AccountDetails): VerificationResultData => ({
+    ...createFailure(
+        VerificationFailureCode.BANK_OFFLINE,
+        details,
+        `${details.bankName} is offline right now, so the details were not sent. This says nothing about the account itself. Try again when the bank shows as operational.`
+    ),
+    deferred: true,
+    provider: 'local',
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BankNetworkStatus, BankProbeSample } from '../types';
+import { BANK_HEALTH_DEGRADED_LATENCY_MS, BANK_HEALTH_HISTORY_MS, BANK_HEALTH_STATUS_WINDOW_MS } from '../constants';
+import { deriveBankStatus, getBankStatus, recordBankProbe } from './bankStatusService';
+
+const NOW = Date.UTC(2026, 2, 1, 12);
+
+const probe = (ok: boolean, latencyMs: number | null = ok ? 500 : null, timestamp: number = NOW): BankProbeSample => ({ timestamp, ok, latencyMs, source: 'verification' });
+
+// Builds probes one minute apart, ending at NOW, from a pattern such as "++-+" (+ ok, - failed).
+const probes = (pattern: string, latencyMs: number = 500): BankProbeSample[] =>
+    [...pattern].map((mark, i) => probe(mark === '+', mark === '+' ? latencyMs : null, NOW - (pattern.length - 1 - i) * 60_000));
+
+describe('deriveBankStatus', () => {
+    it('is unknown without probes and operational when calls succeed quickly', () => {
+        expect(deriveBankStatus([])).toBe(BankNetworkStatus.UNKNOWN);
+        expect(deriveBankStatus(probes('++++'))).toBe(BankNetworkStatus.OPERATIONAL);
+    });
+
+    it('is offline after three failures in a row', () => {
+        expect(deriveBankStatus(probes('+++++---'))).toBe(BankNetworkStatus.OFFLINE);
+        expect(deriveBankStatus(probes('--'))).not.toBe(BankNetworkStatus.OFFLINE);
+    });
+
+    it('grades by error rate: offline from one in two failing, degraded from one in five', () => {
+        expect(deriveBankStatus(probes('-+-+'))).toBe(BankNetworkStatus.OFFLINE);
+        expect(deriveBankStatus(probes('-++++-+++'))).toBe(BankNetworkStatus.DEGRADED);
+        expect(deriveBankStatus(probes('-+++++++++'))).toBe(BankNetworkStatus.OPERATIONAL);
+    });
+
+    it('treats five successes in a row as recovered, even with older failures in the window', () => {
+        expect(deriveBankStatus(probes('---+++++'))).toBe(BankNetworkStatus.OPERATIONAL);
+        expect(deriveBankStatus(probes('---++++'))).toBe(BankNetworkStatus.DEGRADED);
+    });
+
+    it('is degraded when the average latency is over the threshold', () => {
+        expect(deriveBankStatus(probes('+++', BANK_HEALTH_DEGRADED_LATENCY_MS + 1))).toBe(BankNetworkStatus.DEGRADED);
+        expect(deriveBankStatus(probes('+++', BANK_HEALTH_DEGRADED_LATENCY_MS))).toBe(BankNetworkStatus.OPERATIONAL);
+    });
+});
+
+describe('getBankStatus', () => {
+    it('derives the status from recent probes only, but reports uptime over the whole history', () => {
+        recordBankProbe('Fidelity Bank', probe(false, null, NOW - BANK_HEALTH_STATUS_WINDOW_MS - 120_000));
+        recordBankProbe('Fidelity Bank', probe(false, null, NOW - BANK_HEALTH_STATUS_WINDOW_MS - 60_000));
+        recordBankProbe('Fidelity Bank', probe(false, null, NOW - BANK_HEALTH_STATUS_WINDOW_MS - 30_000));
+        recordBankProbe('Fidelity Bank', probe(true, 300, NOW - 60_000));
+
+        const status = getBankStatus('Fidelity Bank', NOW);
+        expect(status.status).toBe(BankNetworkStatus.OPERATIONAL);
+        expect(status).toMatchObject({ uptime: 0.25, averageLatencyMs: 300, sampleCount: 4, lastCheckedAt: NOW - 60_000 });
+        // The outage before the window ended when the bank answered again
+        expect(status.incidents).toEqual([{ status: BankNetworkStatus.OFFLINE, startedAt: NOW - BANK_HEALTH_STATUS_WINDOW_MS - 120_000, endedAt: NOW - 60_000 }]);
+    });
+
+    it('reports an ongoing incident', () => {
+        probes('++---').forEach(sample => recordBankProbe('Sterling Bank', sample));
+        const status = getBankStatus('Sterling Bank', NOW);
+        expect(status.status).toBe(BankNetworkStatus.OFFLINE);
+        expect(status.incidents[0]).toMatchObject({ endedAt: null });
+    });
+
+    it('drops probes older than the history and ignores banks outside the registry', () => {
+        recordBankProbe('Keystone Bank', probe(false, null, NOW - BANK_HEALTH_HISTORY_MS - 1));
+        recordBankProbe('Unknown Bank', probe(true));
+        expect(getBankStatus('Keystone Bank', NOW)).toMatchObject({ status: BankNetworkStatus.UNKNOWN, sampleCount: 0, uptime: null });
+        expect(getBankStatus('Unknown Bank', NOW).sampleCount).toBe(0);
+    });
+});
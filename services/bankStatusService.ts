@@ -0,0 +1,208 @@
+import { BankIncident, BankNetworkStatus, BankProbeSample, BankStatus, BankStatusSource, VerificationFailureCode } from '../types';
+import {
+    BANK_HEALTH_DEGRADED_ERROR_RATE,
+    BANK_HEALTH_DEGRADED_LATENCY_MS,
+    BANK_HEALTH_HISTORY_MS,
+    BANK_HEALTH_MAX_SAMPLES,
+    BANK_HEALTH_OFFLINE_ERROR_RATE,
+    BANK_HEALTH_STATUS_SAMPLES,
+    BANK_HEALTH_STATUS_WINDOW_MS,
+    STATUS_SOURCE_TIMEOUT_MS,
+} from '../constants';
+import { findBankByName, getBanks } from './bankRegistry';
+import { getCircuitBreaker } from './circuitBreaker';
+import { callWithResilience } from './resilience';
+import { createHttpStatusSource } from './statusSources/httpStatusSource';
+import { isBankUnavailableFailure, isProviderFailure, VerificationError } from './verificationFailures';
+
+const STORAGE_KEY = 'bankHealthHistory';
+const SAVE_DELAY_MS = 2000;
+const TIMELINE_SAMPLES = 40;
+
+let history: Map<string, BankProbeSample[]> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let statusSources: BankStatusSource[] | null = null;
+
+const getHistory = (): Map<string, BankProbeSample[]> => {
+    if (!history) {
+        history = new Map();
+        try {
+            const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+            if (stored) {
+                Object.entries(JSON.parse(stored) as Record<string, BankProbeSample[]>).forEach(([name, samples]) => history!.set(name, samples));
+            }
+        } catch (error) {
+            console.error("Failed to load bank health history:", error);
+        }
+    }
+    return history;
+};
+
+// Bulk runs record several probes a second, so writes are batched.
+const scheduleSave = () => {
+    if (saveTimer || typeof localStorage === 'undefined') return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(getHistory())));
+        } catch (error) {
+            console.error("Failed to save bank health history:", error);
+        }
+    }, SAVE_DELAY_MS);
+};
+
+/**
+ * Adds a probe result to a bank's rolling history.
+ * @param bankName The bank's registry name; probes for banks not in the registry are ignored.
+ * @param sample The probe result.
+ */
+export const recordBankProbe = (bankName: string, sample: BankProbeSample) => {
+    const bank = findBankByName(bankName);
+    if (!bank) return;
+    const cutoff = sample.timestamp - BANK_HEALTH_HISTORY_MS;
+    const samples = [...(getHistory().get(bank.name) ?? []), sample]
+        .filter(s => s.timestamp >= cutoff)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-BANK_HEALTH_MAX_SAMPLES);
+    getHistory().set(bank.name, samples);
+    scheduleSave();
+};
+
+/**
+ * Records how one of our own verification calls to a bank went.
+ * Only outcomes that say something about the bank count: a provider outage or timeout is not the bank's fault.
+ * @param bankName The bank that was called.
+ * @param latencyMs How long the call took.
+ * @param failureCode The failure code, if the call failed.
+ */
+export const recordVerificationProbe = (bankName: string, latencyMs: number, failureCode?: VerificationFailureCode) => {
+    if (isProviderFailure(failureCode)) return;
+    const ok = !isBankUnavailableFailure(failureCode);
+    recordBankProbe(bankName, { timestamp: Date.now(), ok, latencyMs: ok ? latencyMs : null, source: 'verification' });
+};
+
+/**
+ * Adds a source that is polled for probes on every status refresh.
+ * @param source The status source.
+ */
+export const registerBankStatusSource = (source: BankStatusSource) => {
+    statusSources = [...getStatusSources().filter(s => s.id !== source.id), source];
+};
+
+const getStatusSources = (): BankStatusSource[] => {
+    if (!statusSources) {
+        statusSources = process.env.BANK_STATUS_URL ? [createHttpStatusSource(process.env.BANK_STATUS_URL)] : [];
+    }
+    return statusSources;
+};
+
+const averageLatency = (samples: BankProbeSample[]): number | null => {
+    const latencies = samples.map(s => s.latencyMs).filter((ms): ms is number => ms !== null);
+    return latencies.length > 0 ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length) : null;
+};
+
+/**
+ * Derives a bank's status from a window of probes, oldest first.
+ * @param samples The probes in the window.
+ * @returns The status those probes indicate.
+ */
+export const deriveBankStatus = (samples: BankProbeSample[]): BankNetworkStatus => {
+    if (samples.length === 0) return BankNetworkStatus.UNKNOWN;
+    const errorRate = samples.filter(s => !s.ok).length / samples.length;
+    const lastThree = samples.slice(-3);
+    if (lastThree.length === 3 && lastThree.every(s => !s.ok)) return BankNetworkStatus.OFFLINE;
+    // A run of successes means the bank has recovered, even while older failures are still in the window
+    const lastFive = samples.slice(-5);
+    const hasRecovered = lastFive.length === 5 && lastFive.every(s => s.ok);
+    if (!hasRecovered) {
+        if (samples.length >= 3 && errorRate >= BANK_HEALTH_OFFLINE_ERROR_RATE) return BankNetworkStatus.OFFLINE;
+        if (errorRate >= BANK_HEALTH_DEGRADED_ERROR_RATE) return BankNetworkStatus.DEGRADED;
+    }
+    const latency = averageLatency(samples);
+    if (latency !== null && latency > BANK_HEALTH_DEGRADED_LATENCY_MS) return BankNetworkStatus.DEGRADED;
+    return BankNetworkStatus.OPERATIONAL;
+};
+
+// The probes that decide the status at a point in time.
+const statusWindow = (samples: BankProbeSample[], at: number, endIndex: number = samples.length): BankProbeSample[] => {
+    const windowed: BankProbeSample[] = [];
+    for (let i = endIndex - 1; i >= 0 && windowed.length < BANK_HEALTH_STATUS_SAMPLES; i--) {
+        if (samples[i].timestamp < at - BANK_HEALTH_STATUS_WINDOW_MS) break;
+        windowed.unshift(samples[i]);
+    }
+    return windowed;
+};
+
+// Replays the history probe by probe and collects the periods the bank was not operational.
+const findIncidents = (samples: BankProbeSample[], currentStatus: BankNetworkStatus): BankIncident[] => {
+    const incidents: BankIncident[] = [];
+    let open: BankIncident | null = null;
+    let lastInIncident = 0;
+    for (let index = 0; index < samples.length; index++) {
+        const sample = samples[index];
+        const status = deriveBankStatus(statusWindow(samples, sample.timestamp, index + 1));
+        if (status === BankNetworkStatus.DEGRADED || status === BankNetworkStatus.OFFLINE) {
+            if (!open) {
+                open = { status, startedAt: sample.timestamp, endedAt: null };
+                incidents.push(open);
+            } else if (status === BankNetworkStatus.OFFLINE) {
+                open.status = status;
+            }
+            lastInIncident = sample.timestamp;
+        } else if (open) {
+            open.endedAt = sample.timestamp;
+            open = null;
+        }
+    }
+    // An incident with no recent probes has not been seen to end, but it is not ongoing either.
+    if (open && currentStatus !== BankNetworkStatus.DEGRADED && currentStatus !== BankNetworkStatus.OFFLINE) {
+        open.endedAt = lastInIncident;
+    }
+    return incidents.reverse();
+};
+
+/**
+ * Summarizes a bank's health from its history.
+ * @param bankName The bank's registry name.
+ * @param now The current time.
+ * @returns The bank's status, uptime, latency and incidents.
+ */
+export const getBankStatus = (bankName: string, now: number = Date.now()): BankStatus => {
+    const samples = (getHistory().get(bankName) ?? []).filter(s => s.timestamp >= now - BANK_HEALTH_HISTORY_MS);
+    const status = deriveBankStatus(statusWindow(samples, now));
+    return {
+        name: bankName,
+        status,
+        uptime: samples.length > 0 ? samples.filter(s => s.ok).length / samples.length : null,
+        averageLatencyMs: averageLatency(samples),
+        sampleCount: samples.length,
+        lastCheckedAt: samples.length > 0 ? samples[samples.length - 1].timestamp : null,
+        incidents: findIncidents(samples, status),
+        recentSamples: samples.slice(-TIMELINE_SAMPLES),
+    };
+};
+
+/**
+ * Polls the configured status sources and returns the health of every bank in the registry.
+ * Each poll has a timeout, transient errors are retried, and a source that keeps failing is paused by its circuit breaker.
+ * A source that fails is logged and skipped, so probes from our own verification calls still show.
+ * @returns The status of each bank.
+ */
+export const fetchBankStatuses = async (): Promise<BankStatus[]> => {
+    await Promise.all(getStatusSources().map(async source => {
+        try {
+            const { value: probes } = await callWithResilience(signal => source.collect(signal), {
+                timeoutMs: STATUS_SOURCE_TIMEOUT_MS,
+                circuits: [{
+                    breaker: getCircuitBreaker('status-source', source.id),
+                    openError: () => new VerificationError(VerificationFailureCode.PROVIDER_ERROR, 'Polling is paused after repeated failures.'),
+                }],
+            });
+            probes.forEach(probe => recordBankProbe(probe.bankName, probe.sample));
+        } catch (error) {
+            console.error(`Failed to collect bank statuses from ${source.id}:`, error);
+        }
+    }));
+    const now = Date.now();
+    return getBanks().map(bank => getBankStatus(bank.name, now));
+};
@@ -0,0 +1,67 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { BatchApprovalEvent } from '../types';
+import { checkApprovalAction, createApproverCredential, getBatchApprovalState, getConfiguredApprovers, getExportLockReason, isPaymentExportAllowed, verifyApproverCredential } from './batchApproval';
+
+const PASSPHRASE = 'correct horse battery';
+
+const submittedBy = (operator: string): BatchApprovalEvent[] => [{ action: 'submitted', operator, at: '2026-01-01T09:00:00.000Z' }];
+
+describe('approver credentials', () => {
+    beforeAll(async () => {
+        process.env.BATCH_APPROVERS = `${await createApproverCredential('Amina Bello', PASSPHRASE)},Tunde Okafor`;
+    });
+
+    it('lists only approvers with a credential', () => {
+        expect(getConfiguredApprovers()).toEqual(['Amina Bello']);
+    });
+
+    it('accepts the right passphrase and returns the configured name', async () => {
+        expect(await verifyApproverCredential('  amina   bello ', PASSPHRASE)).toBe('Amina Bello');
+    });
+
+    it('rejects a wrong passphrase or an unknown approver', async () => {
+        expect(await verifyApproverCredential('Amina Bello', 'not the passphrase')).toBeNull();
+        expect(await verifyApproverCredential('Amina Bello', '')).toBeNull();
+        expect(await verifyApproverCredential('Tunde Okafor', PASSPHRASE)).toBeNull();
+    });
+
+    it('refuses short passphrases and names that would break the list', async () => {
+        await expect(createApproverCredential('Amina Bello', 'short')).rejects.toThrow('at least 12 characters');
+        await expect(createApproverCredential('Bello, Amina', PASSPHRASE)).rejects.toThrow('must not be empty');
+    });
+
+    it('does not let the submitter approve their own batch', () => {
+        expect(checkApprovalAction('approved', 'submitted', submittedBy('amina bello'), 'Amina Bello'))
+            .toBe('A batch must be approved by someone other than the operator who submitted it.');
+        expect(checkApprovalAction('approved', 'submitted', submittedBy('Ada'), 'Amina Bello')).toBeNull();
+    });
+
+    it('only lets approvers decide, and needs a reason to reject', () => {
+        expect(checkApprovalAction('approved', 'submitted', submittedBy('Ada'), 'Tunde Okafor')).toBe('Tunde Okafor is not an approver.');
+        expect(checkApprovalAction('rejected', 'submitted', submittedBy('Ada'), 'Amina Bello')).toBe('Give a reason for rejecting the batch.');
+        expect(checkApprovalAction('rejected', 'submitted', submittedBy('Ada'), 'Amina Bello', 'Wrong amounts.')).toBeNull();
+    });
+});
+
+describe('getBatchApprovalState', () => {
+    it('follows the latest event and treats a reopened batch as unsubmitted', () => {
+        expect(getBatchApprovalState([], false)).toBe('draft');
+        expect(getBatchApprovalState([], true)).toBe('verified');
+        expect(getBatchApprovalState(submittedBy('Ada'), true)).toBe('submitted');
+        expect(getBatchApprovalState([...submittedBy('Ada'), { action: 'reopened', operator: 'Ada', at: '2026-01-02T09:00:00.000Z' }], false)).toBe('draft');
+    });
+
+    it('unlocks payment exports only once approved', () => {
+        expect(isPaymentExportAllowed('approved')).toBe(true);
+        expect(isPaymentExportAllowed('submitted')).toBe(false);
+    });
+
+    it('holds back verified rows and full IDs until approved, but not the masked results', () => {
+        expect(getExportLockReason('approved', true, 'full')).toBeNull();
+        expect(getExportLockReason('rejected', false, 'masked')).toBeNull();
+        expect(getExportLockReason(undefined, false, 'hashed')).toBeNull();
+        expect(getExportLockReason('rejected', false, 'full')).toBe('Verified rows and full IDs can only be exported once the batch is approved.');
+        expect(getExportLockReason('submitted', true, 'masked')).toBe('Verified rows and full IDs can only be exported once the batch is approved.');
+        expect(getExportLockReason(undefined, true, 'masked')).toContain('This batch was not saved');
+    });
+});
@@ -0,0 +1,157 @@
+import { BatchApprovalAction, BatchApprovalEvent, BatchApprovalState, PiiExportMode } from '../types';
+import { APPROVER_PBKDF2_ITERATIONS, MIN_APPROVER_PASSPHRASE_LENGTH } from '../constants';
+
+export const APPROVAL_STATE_LABELS: Record<BatchApprovalState, string> = {
+    draft: 'Draft',
+    verified: 'Verified',
+    submitted: 'Awaiting approval',
+    approved: 'Approved',
+    rejected: 'Rejected',
+};
+
+// An approver's passphrase is kept only as a salted PBKDF2 hash, so the configuration does not reveal it.
+interface ApproverCredential {
+    name: string;
+    salt: string;
+    hash: string;
+}
+
+const normalizeName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const hashPassphrase = async (passphrase: string, salt: string): Promise<string> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', salt: new TextEncoder().encode(salt), iterations: APPROVER_PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        256
+    );
+    return toBase64(new Uint8Array(bits));
+};
+
+// Entries are "name:salt:hash", comma-separated; entries without a credential are ignored.
+const getApproverCredentials = (): ApproverCredential[] =>
+    (process.env.BATCH_APPROVERS ?? '').split(',').flatMap(entry => {
+        const [name, salt, hash] = entry.split(':').map(part => part.trim());
+        return name && salt && hash ? [{ name, salt, hash }] : [];
+    });
+
+/**
+ * Reads the operators allowed to approve batches from the build configuration (BATCH_APPROVERS).
+ * @returns The names of the approvers that have a credential.
+ */
+export const getConfiguredApprovers = (): string[] => getApproverCredentials().map(credential => credential.name);
+
+/**
+ * Creates the BATCH_APPROVERS entry for an approver; see cli/approverCredential.ts.
+ * @param name The approver's name.
+ * @param passphrase The approver's passphrase, which only they should know.
+ * @returns The entry, as name:salt:hash.
+ */
+export const createApproverCredential = async (name: string, passphrase: string): Promise<string> => {
+    if (!name.trim() || /[:,]/.test(name)) throw new Error('The approver name must not be empty or contain ":" or ",".');
+    if (passphrase.length < MIN_APPROVER_PASSPHRASE_LENGTH) {
+        throw new Error(`The passphrase must be at least ${MIN_APPROVER_PASSPHRASE_LENGTH} characters.`);
+    }
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    return `${name.trim()}:${salt}:${await hashPassphrase(passphrase, salt)}`;
+};
+
+/**
+ * Checks an approver's passphrase against the configured credential.
+ * @param name The approver's name.
+ * @param passphrase The passphrase they entered.
+ * @returns The approver's configured name, or null if the name is not an approver or the passphrase is wrong.
+ */
+export const verifyApproverCredential = async (name: string, passphrase: string): Promise<string | null> => {
+    const credential = getApproverCredentials().find(approver => normalizeName(approver.name) === normalizeName(name));
+    if (!credential || !passphrase) return null;
+    return await hashPassphrase(passphrase, credential.salt) === credential.hash ? credential.name : null;
+};
+
+/**
+ * Checks whether an operator has the approver role.
+ * @param operator The operator name.
+ */
+export const isApprover = (operator: string): boolean => {
+    const name = normalizeName(operator);
+    return !!name && getConfiguredApprovers().some(approver => normalizeName(approver) === name);
+};
+
+/**
+ * Works out where a batch is in the approval workflow.
+ * @param history The batch's approval events, oldest first.
+ * @param isComplete Whether every row has a result and the batch is not running.
+ * @returns The current state.
+ */
+export const getBatchApprovalState = (history: BatchApprovalEvent[] | undefined, isComplete: boolean): BatchApprovalState => {
+    const last = history?.[history.length - 1];
+    if (last && last.action !== 'reopened') return last.action;
+    return isComplete ? 'verified' : 'draft';
+};
+
+/**
+ * Finds who submitted the batch for its current round of approval.
+ * @param history The batch's approval events, oldest first.
+ * @returns The submitting operator, if the batch has been submitted.
+ */
+export const getSubmitter = (history: BatchApprovalEvent[] | undefined): string | undefined =>
+    [...(history ?? [])].reverse().find(event => event.action === 'submitted')?.operator;
+
+/**
+ * Checks whether an operator may take an approval action. Approvers must hold the approver role and
+ * cannot approve or reject a batch they submitted themselves; rejections need a comment.
+ * Whoever approves or rejects must also prove who they are with {@link verifyApproverCredential}.
+ * @param action The action to take.
+ * @param state The batch's current state.
+ * @param history The batch's approval events.
+ * @param operator The operator taking the action; for approvals and rejections, the approver.
+ * @param comment The operator's comment.
+ * @returns Why the action is not allowed, or null if it is.
+ */
+export const checkApprovalAction = (
+    action: BatchApprovalAction,
+    state: BatchApprovalState,
+    history: BatchApprovalEvent[] | undefined,
+    operator: string,
+    comment: string = '',
+): string | null => {
+    if (!operator.trim()) return 'Enter your name as the operator first.';
+    switch (action) {
+        case 'submitted':
+            return state === 'verified' || state === 'rejected' ? null : 'Only a fully verified batch can be submitted for approval.';
+        case 'approved':
+        case 'rejected':
+            if (state !== 'submitted') return 'The batch has not been submitted for approval.';
+            if (!isApprover(operator)) return `${operator} is not an approver.`;
+            if (normalizeName(getSubmitter(history) ?? '') === normalizeName(operator)) {
+                return 'A batch must be approved by someone other than the operator who submitted it.';
+            }
+            return action === 'rejected' && !comment.trim() ? 'Give a reason for rejecting the batch.' : null;
+        case 'reopened':
+            return state === 'submitted' || state === 'approved' ? null : 'Only a submitted or approved batch can be reopened.';
+    }
+};
+
+/**
+ * Whether payment-oriented exports (successful rows and payment files) are unlocked.
+ * @param state The batch's approval state.
+ */
+export const isPaymentExportAllowed = (state: BatchApprovalState): boolean => state === 'approved';
+
+/**
+ * Explains why a results export is refused, if it is. Until the batch is approved only the full results
+ * with masked or hashed IDs can be exported, for review; verified rows alone or full IDs could be used to pay.
+ * @param state The batch's approval state, or undefined for a batch that was not saved.
+ * @param successfulOnly Whether only the verified rows are exported.
+ * @param piiMode Whether BVNs and account numbers are masked, hashed or written in full.
+ * @returns The reason, or null if the export is allowed.
+ */
+export const getExportLockReason = (state: BatchApprovalState | undefined, successfulOnly: boolean, piiMode: PiiExportMode): string | null => {
+    if (state && isPaymentExportAllowed(state)) return null;
+    if (!successfulOnly && piiMode !== 'full') return null;
+    return state
+        ? 'Verified rows and full IDs can only be exported once the batch is approved.'
+        : 'This batch was not saved, so it cannot be approved for payment. Export the full results with masked or hashed IDs instead.';
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { AccountDetails } from '../types';
+import { describeMetadata, getMetadataFieldsInUse, pickMetadata } from './beneficiaryMetadata';
+
+const account: AccountDetails = { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' };
+
+describe('pickMetadata', () => {
+    it('keeps only the metadata fields with a value, trimmed', () => {
+        const tagged = { ...account, program: ' BHCPF ', state: 'Kano', lga: '  ', staffId: 'KN-0042', amount: '100' };
+        expect(pickMetadata(tagged)).toEqual({ program: 'BHCPF', state: 'Kano', staffId: 'KN-0042' });
+        expect(pickMetadata(account)).toEqual({});
+    });
+});
+
+describe('getMetadataFieldsInUse', () => {
+    it('lists the fields set on any account, in display order', () => {
+        const accounts = [{ ...account, lga: 'Nassarawa' }, null, { ...account, program: 'BHCPF', staffId: ' ' }];
+        expect(getMetadataFieldsInUse(accounts).map(({ field }) => field)).toEqual(['program', 'lga']);
+        expect(getMetadataFieldsInUse([account, undefined])).toEqual([]);
+    });
+});
+
+describe('describeMetadata', () => {
+    it('joins the values and labels the staff ID', () => {
+        expect(describeMetadata({ ...account, program: 'BHCPF', state: 'Kano', lga: 'Nassarawa', staffId: 'KN-0042' }))
+            .toBe('BHCPF · Kano · Nassarawa · Staff ID KN-0042');
+        expect(describeMetadata(account)).toBe('');
+    });
+});
@@ -0,0 +1,52 @@
+import { AccountDetails, BeneficiaryMetadataField } from '../types';
+
+export interface BeneficiaryMetadataDefinition {
+    field: BeneficiaryMetadataField;
+    label: string;
+    // Fields with one value per beneficiary, such as staff IDs, are not worth grouping by.
+    groupable: boolean;
+}
+
+export const BENEFICIARY_METADATA_FIELDS: BeneficiaryMetadataDefinition[] = [
+    { field: 'program', label: 'Program', groupable: true },
+    { field: 'state', label: 'State', groupable: true },
+    { field: 'lga', label: 'LGA', groupable: true },
+    { field: 'facilityCode', label: 'Facility Code', groupable: true },
+    { field: 'staffId', label: 'Staff ID', groupable: false },
+];
+
+/**
+ * Copies the metadata fields that are set on an account, trimmed; empty values are left out.
+ * @param account The account details.
+ * @returns The metadata fields with a value.
+ */
+export const pickMetadata = (account: AccountDetails): Partial<Pick<AccountDetails, BeneficiaryMetadataField>> => {
+    const metadata: Partial<Pick<AccountDetails, BeneficiaryMetadataField>> = {};
+    BENEFICIARY_METADATA_FIELDS.forEach(({ field }) => {
+        const value = account[field]?.trim();
+        if (value) metadata[field] = value;
+    });
+    return metadata;
+};
+
+/**
+ * Lists the metadata fields used by at least one account, in display order.
+ * @param accounts The accounts to check.
+ * @returns The definitions of the fields in use.
+ */
+export const getMetadataFieldsInUse = (accounts: (AccountDetails | null | undefined)[]): BeneficiaryMetadataDefinition[] =>
+    BENEFICIARY_METADATA_FIELDS.filter(({ field }) => accounts.some(account => account?.[field]?.trim()));
+
+/**
+ * Describes an account's metadata on one line, e.g. "BHCPF · Kano · Nassarawa".
+ * @param account The account details.
+ * @returns The metadata values joined, or an empty string.
+ */
+export const describeMetadata = (account: AccountDetails): string =>
+    BENEFICIARY_METADATA_FIELDS
+        .map(({ field, label }) => {
+            const value = account[field]?.trim();
+            return value && field === 'staffId' ? `${label} ${value}` : value;
+        })
+        .filter(Boolean)
+        .join(' · ');
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AccountDetails, BeneficiaryRecord, NameMatchGrade, VerificationResultData } from '../types';
+import { DEFAULT_BENEFICIARY_VALIDITY_DAYS } from '../constants';
+import { describeBeneficiaryChanges, getBeneficiaryValidityDays, reuseBeneficiaryRecord, withBeneficiaryChanges } from './beneficiaryRegistry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERIFIED_AT = Date.parse('2026-03-01T09:00:00.000Z');
+
+const account: AccountDetails = { beneficiaryName: 'Mrs Aisha Bello', bankName: 'Access Bank Plc', accountNumber: '0123456789', bvn: '22123458901' };
+
+const record: BeneficiaryRecord = { name: 'BELLO AISHAT', bankName: 'Access Bank Plc', verifiedAt: new Date(VERIFIED_AT).toISOString(), provider: 'rules' };
+
+const verified = (registeredName: string): VerificationResultData => ({ success: true, message: 'Verified.', data: account, registeredName });
+
+describe('getBeneficiaryValidityDays', () => {
+    afterEach(() => {
+        delete process.env.BENEFICIARY_VALIDITY_DAYS;
+    });
+
+    it('reads the configured window, including zero to turn reuse off', () => {
+        process.env.BENEFICIARY_VALIDITY_DAYS = '0';
+        expect(getBeneficiaryValidityDays()).toBe(0);
+        process.env.BENEFICIARY_VALIDITY_DAYS = '30';
+        expect(getBeneficiaryValidityDays()).toBe(30);
+    });
+
+    it('falls back to the default for missing or invalid values', () => {
+        expect(getBeneficiaryValidityDays()).toBe(DEFAULT_BENEFICIARY_VALIDITY_DAYS);
+        process.env.BENEFICIARY_VALIDITY_DAYS = '-1';
+        expect(getBeneficiaryValidityDays()).toBe(DEFAULT_BENEFICIARY_VALIDITY_DAYS);
+        process.env.BENEFICIARY_VALIDITY_DAYS = 'monthly';
+        expect(getBeneficiaryValidityDays()).toBe(DEFAULT_BENEFICIARY_VALIDITY_DAYS);
+    });
+});
+
+describe('reuseBeneficiaryRecord', () => {
+    afterEach(() => {
+        delete process.env.BENEFICIARY_VALIDITY_DAYS;
+    });
+
+    it('reuses a recent verification of the same person at the same bank', () => {
+        process.env.BENEFICIARY_VALIDITY_DAYS = '30';
+        const result = reuseBeneficiaryRecord(account, record, VERIFIED_AT + 29 * DAY_MS);
+        expect(result).toMatchObject({
+            success: true,
+            registeredName: 'BELLO AISHAT',
+            nameMatchGrade: NameMatchGrade.EXACT,
+            previouslyVerified: { verifiedAt: record.verifiedAt, provider: 'rules' },
+        });
+    });
+
+    it('sends expired records, other banks and other names to the provider', () => {
+        process.env.BENEFICIARY_VALIDITY_DAYS = '30';
+        expect(reuseBeneficiaryRecord(account, record, VERIFIED_AT + 30 * DAY_MS)).toBeNull();
+        expect(reuseBeneficiaryRecord({ ...account, bankName: 'Zenith Bank Plc' }, record, VERIFIED_AT)).toBeNull();
+        expect(reuseBeneficiaryRecord({ ...account, beneficiaryName: 'Musa Sani' }, record, VERIFIED_AT)).toBeNull();
+        expect(reuseBeneficiaryRecord(account, null, VERIFIED_AT)).toBeNull();
+    });
+
+    it('never reuses when the window is zero', () => {
+        process.env.BENEFICIARY_VALIDITY_DAYS = '0';
+        expect(reuseBeneficiaryRecord(account, record, VERIFIED_AT)).toBeNull();
+    });
+});
+
+describe('withBeneficiaryChanges', () => {
+    it('lists a changed name and bank', () => {
+        const result = withBeneficiaryChanges({ ...account, bankName: 'Zenith Bank Plc' }, verified('Aisha Okafor'), record);
+        expect(describeBeneficiaryChanges(result.registryChanges!)).toEqual([
+            'Name changed from "BELLO AISHAT" to "Aisha Okafor" since the last verification.',
+            'Bank changed from "Access Bank Plc" to "Zenith Bank Plc" since the last verification.',
+        ]);
+    });
+
+    it('ignores spacing and case, failures and results taken from the registry', () => {
+        expect(withBeneficiaryChanges(account, verified(' bello  aishat '), record).registryChanges).toBeUndefined();
+        const notFound: VerificationResultData = { success: false, message: 'Account not found.', data: null };
+        expect(withBeneficiaryChanges(account, notFound, record)).toBe(notFound);
+        const reused = { ...verified('Someone Else'), previouslyVerified: { verifiedAt: record.verifiedAt, provider: record.provider } };
+        expect(withBeneficiaryChanges(account, reused, record)).toBe(reused);
+    });
+});
@@ -0,0 +1,136 @@
+import { AccountDetails, BeneficiaryChange, BeneficiaryRecord, NameMatchGrade, VerificationResultData } from '../types';
+import { DEFAULT_BENEFICIARY_VALIDITY_DAYS } from '../constants';
+import { BENEFICIARIES_STORE, openDb, requestToPromise, transactionDone } from './database';
+import { hashAccountNumber, hashBvn } from './pii';
+import { SealedValue, openSealedValue, sealValue } from './vault';
+import { matchNames } from './nameMatcher';
+import { getConfiguredProviderId } from './verificationService';
+
+// Keyed by hashes, so the BVN and account number are not readable from the key.
+interface StoredBeneficiary {
+    key: string;
+    sealed: SealedValue;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const registryKey = async (account: AccountDetails): Promise<string> =>
+    `${await hashBvn(account.bvn)}:${await hashAccountNumber(account.accountNumber)}`;
+
+/**
+ * Reads how long a verification is reused from the build configuration (BENEFICIARY_VALIDITY_DAYS).
+ * Zero turns reuse off; verifications are still recorded so changes can be highlighted.
+ * @returns The validity window in days.
+ */
+export const getBeneficiaryValidityDays = (): number => {
+    const days = Number(process.env.BENEFICIARY_VALIDITY_DAYS);
+    return process.env.BENEFICIARY_VALIDITY_DAYS?.trim() && days >= 0 ? days : DEFAULT_BENEFICIARY_VALIDITY_DAYS;
+};
+
+/**
+ * Looks up the registry records for several rows in one transaction.
+ * @param accounts The rows to look up.
+ * @returns Each row's record, or null if its BVN and account have not been verified before.
+ */
+export const findBeneficiaryRecords = async (accounts: AccountDetails[]): Promise<(BeneficiaryRecord | null)[]> => {
+    // Hash first: awaiting anything other than a request would end the transaction early.
+    const keys = await Promise.all(accounts.map(registryKey));
+    const db = await openDb();
+    const store = db.transaction(BENEFICIARIES_STORE, 'readonly').objectStore(BENEFICIARIES_STORE);
+    const stored = await Promise.all(keys.map(key => requestToPromise(store.get(key)) as Promise<StoredBeneficiary | undefined>));
+    return Promise.all(stored.map(entry => (entry ? openSealedValue<BeneficiaryRecord>(entry.sealed) : null)));
+};
+
+/**
+ * Looks up the registry record for one account.
+ * @param account The account details.
+ * @returns The record, or null if the BVN and account have not been verified before.
+ */
+export const findBeneficiaryRecord = async (account: AccountDetails): Promise<BeneficiaryRecord | null> =>
+    (await findBeneficiaryRecords([account]))[0];
+
+/**
+ * Builds a result from the registry when the record is still valid and matches the submitted bank and name.
+ * @param account The submitted account details.
+ * @param record The registry record, if any.
+ * @param now The current time, in milliseconds.
+ * @returns The "previously verified" result, or null if the provider must be called.
+ */
+export const reuseBeneficiaryRecord = (
+    account: AccountDetails,
+    record: BeneficiaryRecord | null,
+    now: number = Date.now(),
+): VerificationResultData | null => {
+    if (!record) return null;
+    const expiresAt = new Date(record.verifiedAt).getTime() + getBeneficiaryValidityDays() * DAY_MS;
+    if (!(expiresAt > now) || normalize(record.bankName) !== normalize(account.bankName)) return null;
+    // A name the provider would reject is sent to it again, so the mismatch is reported with fresh details
+    const { grade, score } = matchNames(account.beneficiaryName, record.name);
+    if (grade === NameMatchGrade.MISMATCH) return null;
+    return {
+        success: true,
+        message: `Previously verified on ${new Date(record.verifiedAt).toLocaleDateString()}; valid until ${new Date(expiresAt).toLocaleDateString()}, so it was not sent to the provider again.`,
+        data: account,
+        registeredName: record.name,
+        nameMatchGrade: grade,
+        nameMatchScore: score,
+        previouslyVerified: { verifiedAt: record.verifiedAt, provider: record.provider },
+        provider: 'registry',
+    };
+};
+
+/**
+ * Compares a provider's answer with the registry's last verification of the same BVN and account.
+ * @param account The submitted account details.
+ * @param result The provider's result.
+ * @param record The registry record, if any.
+ * @returns The result, with any changed name or bank listed.
+ */
+export const withBeneficiaryChanges = (
+    account: AccountDetails,
+    result: VerificationResultData,
+    record: BeneficiaryRecord | null,
+): VerificationResultData => {
+    if (!record || result.previouslyVerified) return result;
+    const changes: BeneficiaryChange[] = [];
+    // Failures such as an unknown account say nothing about the name
+    const name = result.registeredName ?? (result.success ? account.beneficiaryName : undefined);
+    if (name && normalize(name) !== normalize(record.name)) {
+        changes.push({ field: 'name', previous: record.name, current: name });
+    }
+    if (normalize(account.bankName) !== normalize(record.bankName)) {
+        changes.push({ field: 'bank', previous: record.bankName, current: account.bankName });
+    }
+    return changes.length > 0 ? { ...result, registryChanges: changes } : result;
+};
+
+/**
+ * Records a successful provider verification, replacing the registry's earlier record for the BVN and account.
+ * Failures and results taken from the registry are ignored.
+ * @param account The submitted account details.
+ * @param result The verification result.
+ */
+export const saveBeneficiaryRecord = async (account: AccountDetails, result: VerificationResultData): Promise<void> => {
+    if (!result.success || result.previouslyVerified) return;
+    const record: BeneficiaryRecord = {
+        name: result.registeredName ?? account.beneficiaryName,
+        bankName: account.bankName,
+        verifiedAt: new Date().toISOString(),
+        provider: getConfiguredProviderId(),
+    };
+    const stored: StoredBeneficiary = { key: await registryKey(account), sealed: await sealValue(record) };
+    const db = await openDb();
+    const transaction = db.transaction(BENEFICIARIES_STORE, 'readwrite');
+    transaction.objectStore(BENEFICIARIES_STORE).put(stored);
+    await transactionDone(transaction);
+};
+
+/**
+ * Describes what changed since the last verification, e.g. for a results table.
+ * @param changes The changed fields.
+ * @returns One sentence per change.
+ */
+export const describeBeneficiaryChanges = (changes: BeneficiaryChange[]): string[] =>
+    changes.map(change => `${change.field === 'name' ? 'Name' : 'Bank'} changed from "${change.previous}" to "${change.current}" since the last verification.`);
@@ -0,0 +1,133 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, BulkJobSource, BulkRowResult } from '../types';
+import {
+    createBulkJob,
+    deleteBulkJob,
+    listFinishedBulkJobs,
+    listUnfinishedBulkJobs,
+    loadBulkJobResults,
+    saveBulkJobResult,
+    setBulkJobStatus,
+    updateBulkJobAccounts,
+} from './bulkJobStore';
+import { clearLocalData, JOBS_STORE, openDb, requestToPromise, RESULTS_STORE, transactionDone } from './database';
+import { isSealedValue, lockVault, unlockVault } from './vault';
+
+const PASSPHRASE = 'correct horse battery';
+
+const source: BulkJobSource = { fileName: 'march.csv', fileSize: 120, fileType: 'text/csv', lastModified: 0 };
+
+const accounts: AccountDetails[] = [
+    { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' },
+    { beneficiaryName: 'John Doe', bankName: 'Zenith Bank', accountNumber: '1234567895', bvn: '22123458902' },
+    { beneficiaryName: 'Sani Musa', bankName: 'Access Bank', accountNumber: '0000000017', bvn: '22123458903' },
+];
+
+const verified = (rowIndex: number, attempts: number = 1): BulkRowResult => ({
+    rowIndex, attempts, success: true, message: 'Verified.', data: accounts[rowIndex],
+});
+
+const readRaw = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestToPromise<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+const putRaw = async (store: string, value: unknown): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(store, 'readwrite');
+    transaction.objectStore(store).put(value);
+    await transactionDone(transaction);
+};
+
+describe('bulkJobStore', () => {
+    beforeAll(async () => {
+        // The vault keeps its settings in localStorage, which Node does not have
+        const storage = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+            removeItem: (key: string) => storage.delete(key),
+        });
+        await unlockVault(PASSPHRASE);
+    });
+
+    afterEach(async () => {
+        await clearLocalData();
+    });
+
+    it('resumes an unfinished job with the rows verified so far', async () => {
+        const job = await createBulkJob(source, accounts);
+        await saveBulkJobResult(job.id, verified(0));
+        await saveBulkJobResult(job.id, verified(2));
+        // A retry replaces the earlier result without counting the row twice
+        await saveBulkJobResult(job.id, verified(2, 3));
+
+        const [unfinished] = await listUnfinishedBulkJobs();
+        expect(unfinished).toMatchObject({ id: job.id, status: 'running', source, accounts, completedCount: 2 });
+
+        const results = await loadBulkJobResults(job.id);
+        expect(results).toHaveLength(3);
+        expect(results[0]).toEqual(verified(0));
+        expect(results[1]).toBeUndefined();
+        expect(results[2]).toEqual(verified(2, 3));
+    });
+
+    it('keeps rows and results sealed at rest', async () => {
+        const job = await createBulkJob(source, accounts);
+        await saveBulkJobResult(job.id, verified(1));
+
+        const storedJob = await readRaw<{ accounts: unknown }>(JOBS_STORE, job.id);
+        const storedResult = await readRaw<{ result: unknown }>(RESULTS_STORE, [job.id, 1]);
+        expect(isSealedValue(storedJob?.accounts)).toBe(true);
+        expect(isSealedValue(storedResult?.result)).toBe(true);
+        expect(JSON.stringify([storedJob, storedResult])).not.toContain(accounts[1].accountNumber);
+    });
+
+    it('cannot read or save jobs while the vault is locked', async () => {
+        const job = await createBulkJob(source, accounts);
+        lockVault();
+        try {
+            await expect(listUnfinishedBulkJobs()).rejects.toThrow('Local data is locked');
+            await expect(loadBulkJobResults(job.id)).rejects.toThrow('Local data is locked');
+            await expect(saveBulkJobResult(job.id, verified(0))).rejects.toThrow('Local data is locked');
+            await expect(createBulkJob(source, accounts)).rejects.toThrow('Local data is locked');
+        } finally {
+            await unlockVault(PASSPHRASE);
+        }
+        expect((await listUnfinishedBulkJobs()).map(j => j.id)).toEqual([job.id]);
+    });
+
+    it('reads jobs and results stored before encryption was added', async () => {
+        await putRaw(JOBS_STORE, { id: 'legacy', status: 'running', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z', source, accounts, completedCount: 1 });
+        // Early results had no row index or attempt count
+        await putRaw(RESULTS_STORE, { jobId: 'legacy', index: 1, result: { success: true, message: 'Verified.', data: accounts[1] } });
+
+        expect((await listUnfinishedBulkJobs())[0].accounts).toEqual(accounts);
+        expect((await loadBulkJobResults('legacy'))[1]).toEqual({ ...verified(1), attempts: 1 });
+    });
+
+    it('moves stopped jobs to the finished list and saves corrected rows', async () => {
+        const job = await createBulkJob(source, accounts);
+        const corrected = { ...accounts[1], accountNumber: '1234567899' };
+        await updateBulkJobAccounts(job.id, { 1: corrected });
+        await setBulkJobStatus(job.id, 'completed');
+
+        expect(await listUnfinishedBulkJobs()).toEqual([]);
+        const [finished] = await listFinishedBulkJobs(5);
+        expect(finished.status).toBe('completed');
+        expect(finished.accounts).toEqual([accounts[0], corrected, accounts[2]]);
+    });
+
+    it('deletes a job with its results', async () => {
+        const job = await createBulkJob(source, accounts);
+        const other = await createBulkJob(source, accounts);
+        await saveBulkJobResult(job.id, verified(0));
+        await saveBulkJobResult(other.id, verified(0));
+
+        await deleteBulkJob(job.id);
+        expect(await readRaw(RESULTS_STORE, [job.id, 0])).toBeUndefined();
+        expect(await loadBulkJobResults(job.id)).toEqual([]);
+        expect((await loadBulkJobResults(other.id))[0]).toEqual(verified(0));
+    });
+});
@@ -0,0 +1,244 @@
+import { AccountDetails, BatchApprovalEvent, BulkJobRecord, BulkJobSource, BulkJobStatus, BulkRowResult, VerificationResultData, VerifiedBeneficiary } from '../types';
+import { JOBS_STORE, RESULTS_STORE, openDb, requestToPromise, transactionDone } from './database';
+import { SealedValue, isSealedValue, openSealedValue, sealValue } from './vault';
+
+// Rows and results are encrypted at rest; records saved before encryption was added are still read as-is.
+type StoredJob = Omit<BulkJobRecord, 'accounts'> & { accounts: SealedValue | AccountDetails[] };
+
+interface StoredResult {
+    jobId: string;
+    index: number;
+    // Results saved before re-verification existed have no row index or attempt count.
+    result: SealedValue | BulkRowResult | VerificationResultData;
+}
+
+const openJob = async (job: StoredJob): Promise<BulkJobRecord> => ({
+    ...job,
+    accounts: isSealedValue(job.accounts) ? await openSealedValue<AccountDetails[]>(job.accounts) : job.accounts,
+});
+
+const openResult = async (result: StoredResult['result']): Promise<BulkRowResult | VerificationResultData> =>
+    isSealedValue(result) ? openSealedValue<BulkRowResult>(result) : result;
+
+const createJobId = (): string => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * Describes an uploaded file for storage alongside its job.
+ * @param file The uploaded file.
+ * @returns The file metadata.
+ */
+export const describeFile = (file: File): BulkJobSource => ({
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type,
+    lastModified: file.lastModified,
+});
+
+/**
+ * Saves a new bulk job with its parsed rows.
+ * @param source Metadata of the uploaded file.
+ * @param accounts The parsed rows to verify.
+ * @returns The stored job.
+ */
+export const createBulkJob = async (source: BulkJobSource, accounts: AccountDetails[]): Promise<BulkJobRecord> => {
+    const now = new Date().toISOString();
+    const job: BulkJobRecord = {
+        id: createJobId(),
+        status: 'running',
+        createdAt: now,
+        updatedAt: now,
+        source,
+        accounts,
+        completedCount: 0,
+    };
+    const stored: StoredJob = { ...job, accounts: await sealValue(accounts) };
+    const db = await openDb();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    transaction.objectStore(JOBS_STORE).put(stored);
+    await transactionDone(transaction);
+    return job;
+};
+
+/**
+ * Stores the result of one row, replacing any earlier attempt, and bumps the job's completed count.
+ * @param jobId The job the row belongs to.
+ * @param result The verification result.
+ */
+export const saveBulkJobResult = async (jobId: string, result: BulkRowResult): Promise<void> => {
+    const index = result.rowIndex;
+    // Encrypt first: awaiting anything other than a request would end the transaction early.
+    const sealed = await sealValue(result);
+    const db = await openDb();
+    const transaction = db.transaction([JOBS_STORE, RESULTS_STORE], 'readwrite');
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const results = transaction.objectStore(RESULTS_STORE);
+
+    const existing = await requestToPromise(results.get([jobId, index]));
+    results.put({ jobId, index, result: sealed } as StoredResult);
+
+    const job = await requestToPromise(jobs.get(jobId)) as StoredJob | undefined;
+    if (job) {
+        jobs.put({
+            ...job,
+            completedCount: job.completedCount + (existing ? 0 : 1),
+            updatedAt: new Date().toISOString(),
+        });
+    }
+    await transactionDone(transaction);
+};
+
+/**
+ * Replaces the details of rows corrected after the job ran.
+ * @param jobId The job to update.
+ * @param accounts The corrected details by row position.
+ */
+export const updateBulkJobAccounts = async (jobId: string, accounts: Record<number, AccountDetails>): Promise<void> => {
+    const db = await openDb();
+    const stored = await requestToPromise(db.transaction(JOBS_STORE, 'readonly').objectStore(JOBS_STORE).get(jobId)) as StoredJob | undefined;
+    if (!stored) return;
+    const current = await openJob(stored);
+    const sealed = await sealValue(current.accounts.map((account, index) => accounts[index] ?? account));
+
+    // Re-read the job so counts saved while the rows were being encrypted are kept.
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const job = await requestToPromise(jobs.get(jobId)) as StoredJob | undefined;
+    if (job) {
+        jobs.put({ ...job, accounts: sealed, updatedAt: new Date().toISOString() });
+    }
+    await transactionDone(transaction);
+};
+
+/**
+ * Updates the status of a job.
+ * @param jobId The job to update.
+ * @param status The new status.
+ */
+export const setBulkJobStatus = async (jobId: string, status: BulkJobStatus): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const job = await requestToPromise(jobs.get(jobId)) as StoredJob | undefined;
+    if (job) {
+        jobs.put({ ...job, status, updatedAt: new Date().toISOString() });
+    }
+    await transactionDone(transaction);
+};
+
+/**
+ * Records an approval action on a job.
+ * @param jobId The job to update.
+ * @param event The approval event.
+ * @returns The job's approval history, oldest first.
+ */
+export const appendBulkJobApproval = async (jobId: string, event: BatchApprovalEvent): Promise<BatchApprovalEvent[]> => {
+    const db = await openDb();
+    const transaction = db.transaction(JOBS_STORE, 'readwrite');
+    const jobs = transaction.objectStore(JOBS_STORE);
+    const job = await requestToPromise(jobs.get(jobId)) as StoredJob | undefined;
+    if (!job) {
+        throw new Error('The batch is no longer saved in this browser.');
+    }
+    const approvalHistory = [...(job.approvalHistory ?? []), event];
+    // updatedAt is left alone: it dates the verification, which earlier-batch risk signals report.
+    jobs.put({ ...job, approvalHistory });
+    await transactionDone(transaction);
+    return approvalHistory;
+};
+
+/**
+ * Lists the most recent jobs that are no longer running, for the approval queue.
+ * @param maxJobs How many jobs to return.
+ * @returns The jobs, most recent first.
+ */
+export const listFinishedBulkJobs = async (maxJobs: number): Promise<BulkJobRecord[]> => {
+    const db = await openDb();
+    const transaction = db.transaction(JOBS_STORE, 'readonly');
+    const jobs = await requestToPromise(transaction.objectStore(JOBS_STORE).getAll()) as StoredJob[];
+    const finished = jobs
+        .filter(job => job.status !== 'running')
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, maxJobs);
+    return Promise.all(finished.map(openJob));
+};
+
+/**
+ * Lists jobs that were still running when the page was last closed, most recent first.
+ * @returns The unfinished jobs.
+ */
+export const listUnfinishedBulkJobs = async (): Promise<BulkJobRecord[]> => {
+    const db = await openDb();
+    const transaction = db.transaction(JOBS_STORE, 'readonly');
+    const jobs = await requestToPromise(transaction.objectStore(JOBS_STORE).getAll()) as StoredJob[];
+    const unfinished = jobs
+        .filter(job => job.status === 'running')
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    return Promise.all(unfinished.map(openJob));
+};
+
+/**
+ * Loads the stored per-row results of a job.
+ * @param jobId The job to load.
+ * @returns The results by row position; rows without a result are left empty.
+ */
+export const loadBulkJobResults = async (jobId: string): Promise<(BulkRowResult | undefined)[]> => {
+    const db = await openDb();
+    const transaction = db.transaction([JOBS_STORE, RESULTS_STORE], 'readonly');
+    const job = await requestToPromise(transaction.objectStore(JOBS_STORE).get(jobId)) as StoredJob | undefined;
+    const stored = await requestToPromise(
+        transaction.objectStore(RESULTS_STORE).index('jobId').getAll(jobId)
+    ) as StoredResult[];
+
+    const rowCount = job ? (await openJob(job)).accounts.length : 0;
+    const results: (BulkRowResult | undefined)[] = new Array(rowCount);
+    for (const entry of stored) {
+        results[entry.index] = { attempts: 1, ...await openResult(entry.result), rowIndex: entry.index };
+    }
+    return results;
+};
+
+/**
+ * Lists the rows verified successfully in recent jobs, to compare a new upload against.
+ * @param maxJobs How many of the most recent jobs to read.
+ * @returns The verified rows with the job they came from.
+ */
+export const listVerifiedBeneficiaries = async (maxJobs: number): Promise<VerifiedBeneficiary[]> => {
+    const db = await openDb();
+    const transaction = db.transaction([JOBS_STORE, RESULTS_STORE], 'readonly');
+    const jobs = (await requestToPromise(transaction.objectStore(JOBS_STORE).getAll()) as StoredJob[])
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, maxJobs);
+    const storedResults = await Promise.all(jobs.map(job =>
+        requestToPromise(transaction.objectStore(RESULTS_STORE).index('jobId').getAll(job.id)) as Promise<StoredResult[]>
+    ));
+
+    const beneficiaries: VerifiedBeneficiary[] = [];
+    for (const [i, stored] of jobs.entries()) {
+        const job = await openJob(stored);
+        for (const entry of storedResults[i]) {
+            const result = await openResult(entry.result);
+            const account = job.accounts[entry.index];
+            if (result.success && account) {
+                beneficiaries.push({ jobId: job.id, fileName: job.source.fileName, verifiedAt: job.updatedAt, account });
+            }
+        }
+    }
+    return beneficiaries;
+};
+
+/**
+ * Deletes a job and all its stored results.
+ * @param jobId The job to delete.
+ */
+export const deleteBulkJob = async (jobId: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction([JOBS_STORE, RESULTS_STORE], 'readwrite');
+    transaction.objectStore(JOBS_STORE).delete(jobId);
+    transaction.objectStore(RESULTS_STORE).delete(IDBKeyRange.bound([jobId, 0], [jobId, Number.MAX_SAFE_INTEGER]));
+    await transactionDone(transaction);
+};
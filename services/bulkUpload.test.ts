@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { AccountDetails } from '../types';
+import { applyAccountEdit, applyBankName } from './bulkUpload';
+
+const account: AccountDetails = { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' };
+
+describe('applyBankName', () => {
+    it('keeps the file spelling only when it differs from the registry name', () => {
+        expect(applyBankName({ ...account, bankName: 'access bnk' }, 'Access Bank')).toEqual({ ...account, originalBankName: 'access bnk' });
+        expect(applyBankName(account, 'Access Bank')).toEqual(account);
+    });
+});
+
+describe('applyAccountEdit', () => {
+    const fromFile: AccountDetails = { ...account, originalBankName: 'access bnk', sortCode: '044150149' };
+
+    it('keeps the file spelling and sort code while the bank stays the same', () => {
+        const edit = { ...account, beneficiaryName: 'Ada King' };
+        expect(applyAccountEdit(fromFile, edit)).toEqual({ ...fromFile, beneficiaryName: 'Ada King' });
+    });
+
+    it('drops the file spelling and sort code when the operator picks a different bank', () => {
+        const edit = { ...fromFile, bankName: 'Zenith Bank' };
+        expect(applyAccountEdit(fromFile, edit)).toEqual({ ...account, bankName: 'Zenith Bank' });
+    });
+});
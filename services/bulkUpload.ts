@@ -0,0 +1,117 @@
+import { AccountDetails } from '../types';
+import { TabularData } from './csvReader';
+import { ColumnMapping, getMappedValue } from './columnMapping';
+import { BENEFICIARY_METADATA_FIELDS } from './beneficiaryMetadata';
+
+export interface BulkUploadRow {
+    rowNumber: number;
+    account: AccountDetails;
+    bankCode?: string;
+    sortCode?: string;
+    // Problems found while reading the row, e.g. a wrong number of columns.
+    issues: string[];
+}
+
+/**
+ * Turns a parsed upload into account rows using a column mapping. Empty rows are skipped,
+ * and read errors are attached to the row they fall in.
+ * @param table The parsed file, with a header row.
+ * @param mapping The column of each field.
+ * @param isWorkbook Whether the table came from an Excel sheet, where only errors in mapped columns matter.
+ * @returns The rows, and the read errors that could not be tied to a row.
+ */
+export const readBulkRows = (table: TabularData, mapping: ColumnMapping, isWorkbook: boolean): { rows: BulkUploadRow[]; fileNotes: string[] } => {
+    const columnCount = table.header?.values.length ?? 0;
+    const mappedColumns = new Set(Object.values(mapping));
+    // Excel errors only matter in columns that are used; CSV errors are positioned by character, so all are kept
+    const readErrors = isWorkbook ? table.errors.filter(error => mappedColumns.has(error.column - 1)) : table.errors;
+    const fileNotes: string[] = [];
+    const rowIssues = new Map<number, string[]>();
+    readErrors.forEach(error => {
+        const message = `Line ${error.line}, column ${error.column}: ${error.message}`;
+        // Tie the error to the row it falls in; a row's extent is only known up to where the next row starts
+        const rowIndex = table.rows.findIndex((row, i) => {
+            const nextLine = table.rows[i + 1]?.line;
+            return error.line >= row.line && (nextLine !== undefined ? error.line < nextLine : error.line === row.line);
+        });
+        if (rowIndex === -1) {
+            fileNotes.push(message);
+        } else {
+            rowIssues.set(rowIndex, [...(rowIssues.get(rowIndex) ?? []), message]);
+        }
+    });
+
+    const rows: BulkUploadRow[] = [];
+    table.rows.forEach(({ line, values: data }, rowIndex) => {
+        const issues = rowIssues.get(rowIndex) ?? [];
+        if (data.length !== columnCount) {
+            issues.push(`Mismatched column count. Expected ${columnCount}, but found ${data.length}.`);
+        }
+
+        const account: AccountDetails = {
+            beneficiaryName: getMappedValue(data, mapping, 'beneficiaryName'),
+            bankName: getMappedValue(data, mapping, 'bankName'),
+            accountNumber: getMappedValue(data, mapping, 'accountNumber'),
+            bvn: getMappedValue(data, mapping, 'bvn'),
+        };
+        const payment = {
+            amount: getMappedValue(data, mapping, 'amount').trim(),
+            narration: getMappedValue(data, mapping, 'narration').trim(),
+            sortCode: getMappedValue(data, mapping, 'sortCode').trim(),
+        };
+        const metadata = Object.fromEntries(BENEFICIARY_METADATA_FIELDS
+            .filter(({ field }) => mapping[field] !== undefined)
+            .map(({ field }) => [field, getMappedValue(data, mapping, field).trim()]));
+
+        // Only add if it's not a completely empty row
+        if (Object.values(account).some(val => val?.trim() !== '')) {
+            // Optional bankCode/sortCode columns take precedence over the free-text bank name
+            rows.push({
+                rowNumber: line,
+                // Payment and metadata columns are only kept when mapped, so batches without them look as before
+                account: {
+                    ...account,
+                    ...(mapping.amount !== undefined ? { amount: payment.amount } : {}),
+                    ...(mapping.narration !== undefined ? { narration: payment.narration } : {}),
+                    ...(payment.sortCode ? { sortCode: payment.sortCode } : {}),
+                    ...metadata,
+                },
+                bankCode: getMappedValue(data, mapping, 'bankCode'),
+                sortCode: getMappedValue(data, mapping, 'sortCode'),
+                issues,
+            });
+        }
+    });
+
+    return { rows, fileNotes };
+};
+
+/**
+ * Replaces the bank name with its canonical registry name, keeping the original spelling when it differs.
+ * @param account The account as parsed from the file.
+ * @param bankName The resolved registry bank name.
+ * @returns The account with the resolved bank name.
+ */
+export const applyBankName = (account: AccountDetails, bankName: string): AccountDetails => ({
+    ...account,
+    bankName,
+    ...(account.bankName.trim() !== bankName ? { originalBankName: account.bankName } : {}),
+});
+
+/**
+ * Applies an operator's correction to a row. The file's spelling of the bank and its branch sort code
+ * are kept while the bank stays the same, and dropped once the operator picks a different bank.
+ * @param account The row as it was.
+ * @param edit The corrected details.
+ * @returns The row to verify and store.
+ */
+export const applyAccountEdit = (account: AccountDetails, edit: AccountDetails): AccountDetails => {
+    const { originalBankName, sortCode, ...details } = edit;
+    return details.bankName === account.bankName
+        ? {
+            ...details,
+            ...(account.originalBankName ? { originalBankName: account.originalBankName } : {}),
+            ...(account.sortCode ? { sortCode: account.sortCode } : {}),
+        }
+        : details;
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AccountDetails, VerificationFailureCode, VerificationResultData } from '../types';
+import { createBulkVerificationJob } from './bulkVerificationEngine';
+import { createFailure } from './verificationFailures';
+
+const accounts: AccountDetails[] = ['0000000001', '0000000002', '0000000003', '0000000004', '0000000005'].map(accountNumber => ({
+    beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber, bvn: '22123458901',
+}));
+
+const verified = (account: AccountDetails): VerificationResultData => ({ success: true, message: 'Verified.', data: account });
+
+// Fast enough that the rate limit does not slow the tests down.
+const fast = { requestsPerSecond: 1000 };
+
+describe('createBulkVerificationJob', () => {
+    it('verifies every row without going over the concurrency limit', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const job = createBulkVerificationJob(accounts, {
+            ...fast,
+            concurrency: 2,
+            verify: async account => {
+                maxInFlight = Math.max(maxInFlight, ++inFlight);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                inFlight--;
+                return verified(account);
+            },
+        });
+        const results = await job.run();
+        expect(results.every(result => result?.success)).toBe(true);
+        expect(maxInFlight).toBe(2);
+        expect(job.getProgress()).toMatchObject({ state: 'completed', done: 5, succeeded: 5, remaining: 0, etaMs: 0 });
+    });
+
+    it('skips rows with an earlier result and settles rows the preflight check fails', async () => {
+        const sent: string[] = [];
+        const job = createBulkVerificationJob(accounts, {
+            ...fast,
+            initialResults: [verified(accounts[0])],
+            preflight: account => (account.accountNumber.endsWith('2') ? createFailure(VerificationFailureCode.INVALID_NUBAN, account) : null),
+            verify: async account => {
+                sent.push(account.accountNumber);
+                return verified(account);
+            },
+        });
+        const results = await job.run();
+        expect(sent).toEqual(['0000000003', '0000000004', '0000000005']);
+        expect(results[1]?.failureCode).toBe(VerificationFailureCode.INVALID_NUBAN);
+        expect(job.getProgress()).toMatchObject({ succeeded: 4, failed: 1 });
+    });
+
+    it('turns a thrown error into a failed row', async () => {
+        const job = createBulkVerificationJob(accounts.slice(0, 1), {
+            ...fast,
+            verify: async () => { throw new Error('socket hang up'); },
+        });
+        const [result] = await job.run();
+        expect(result).toMatchObject({ success: false, failureCode: VerificationFailureCode.PROVIDER_ERROR });
+    });
+
+    it('leaves the remaining rows without a result when cancelled', async () => {
+        const job = createBulkVerificationJob(accounts, {
+            ...fast,
+            concurrency: 1,
+            verify: async account => {
+                job.cancel();
+                return verified(account);
+            },
+        });
+        const results = await job.run();
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect(job.getProgress()).toMatchObject({ state: 'cancelled', done: 1, remaining: 4 });
+    });
+
+    it('holds rows for an offline bank and sends them once a probe gets through', async () => {
+        // The bank's status still says offline, but the probe row is answered
+        const deferred: number[] = [];
+        const sent: string[] = [];
+        const job = createBulkVerificationJob(accounts.slice(0, 3), {
+            ...fast,
+            deferredRecheckMs: 5,
+            route: () => ({ group: 'access', defer: true, maxConcurrent: null }),
+            onDeferred: index => deferred.push(index),
+            verify: async account => {
+                sent.push(account.accountNumber);
+                return verified(account);
+            },
+        });
+        const results = await job.run();
+        expect(deferred).toEqual([0, 1, 2]);
+        expect(sent).toEqual(['0000000001', '0000000002', '0000000003']);
+        expect(results.every(result => result?.success)).toBe(true);
+    });
+
+    it('gives up on each deferred row after its own wait, and finishes the rest', async () => {
+        vi.useFakeTimers();
+        try {
+            // Rows 1 and 5 are for offline banks; the healthy rows between them go out one a second
+            const offline = new Set(['0000000001', '0000000005']);
+            const job = createBulkVerificationJob(accounts, {
+                requestsPerSecond: 1,
+                concurrency: 1,
+                deferredRecheckMs: 60000,
+                maxDeferredWaitMs: 5000,
+                route: account => ({ group: account.accountNumber, defer: offline.has(account.accountNumber), maxConcurrent: null }),
+                verify: async account => verified(account),
+            });
+            const running = job.run();
+
+            await vi.advanceTimersByTimeAsync(5500);
+            expect(job.getProgress()).toMatchObject({ succeeded: 3, failed: 1, deferred: 1 });
+
+            await vi.advanceTimersByTimeAsync(3000);
+            const results = await running;
+            expect(results.map(result => result?.success)).toEqual([false, true, true, true, false]);
+            expect(results[0]).toMatchObject({ failureCode: VerificationFailureCode.BANK_OFFLINE, deferred: true });
+            expect(job.getProgress()).toMatchObject({ state: 'completed', deferred: 0 });
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('defers rows whose bank turns out to be offline instead of failing them', async () => {
+        let calls = 0;
+        const job = createBulkVerificationJob(accounts.slice(0, 1), {
+            ...fast,
+            deferredRecheckMs: 5,
+            route: () => ({ group: 'access', defer: false, maxConcurrent: null }),
+            verify: async account => (++calls === 1 ? createFailure(VerificationFailureCode.BANK_OFFLINE, account) : verified(account)),
+        });
+        const [result] = await job.run();
+        expect(calls).toBe(2);
+        expect(result?.success).toBe(true);
+    });
+
+    it('does not hold rows back for a timeout', async () => {
+        const job = createBulkVerificationJob(accounts.slice(0, 1), {
+            ...fast,
+            route: () => ({ group: 'access', defer: false, maxConcurrent: null }),
+            verify: async account => createFailure(VerificationFailureCode.TIMEOUT, account),
+        });
+        const [result] = await job.run();
+        expect(result?.failureCode).toBe(VerificationFailureCode.TIMEOUT);
+        expect(job.getProgress().deferred).toBe(0);
+    });
+});
@@ -0,0 +1,342 @@
+import { AccountDetails, BulkJobState, BulkProgress, VerificationFailureCode, VerificationResultData } from '../types';
+import { DEFAULT_BULK_CONCURRENCY, DEFAULT_BULK_REQUESTS_PER_SECOND, DEFERRED_RECHECK_MS } from '../constants';
+import { createFailure, failureFromError, isBankUnavailableFailure } from './verificationFailures';
+
+/** How the engine should treat one row, decided from the health of the row's bank. */
+export interface BulkRowRoute {
+    // Rows in the same group share a concurrency cap and recover together, e.g. one group per bank.
+    group: string;
+    // Hold the row back instead of sending it.
+    defer: boolean;
+    maxConcurrent: number | null;
+}
+
+export interface BulkVerificationOptions {
+    verify: (account: AccountDetails) => Promise<VerificationResultData>;
+    // Local checks that settle a row without a provider call (and without using the rate limit).
+    preflight?: (account: AccountDetails) => VerificationResultData | null;
+    concurrency?: number;
+    requestsPerSecond?: number;
+    // Results from an earlier run of the same rows; rows that already have one are skipped.
+    initialResults?: (VerificationResultData | undefined)[];
+    // Enables status-aware routing. Deferred rows, and rows whose bank turns out to be unreachable,
+    // wait without a result and are retried until their bank answers again or their wait runs out.
+    route?: (account: AccountDetails) => BulkRowRoute;
+    deferredRecheckMs?: number;
+    // How long each row may wait for its bank before it is settled with giveUp's result; no limit when unset.
+    maxDeferredWaitMs?: number;
+    giveUp?: (account: AccountDetails) => VerificationResultData;
+    onDeferred?: (index: number) => void;
+    onResult?: (index: number, result: VerificationResultData) => void;
+    onProgress?: (progress: BulkProgress) => void;
+}
+
+export interface BulkVerificationJob {
+    run: () => Promise<(VerificationResultData | undefined)[]>;
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+    getProgress: () => BulkProgress;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads the bulk concurrency and rate limit from the build configuration.
+ * @returns The configured limits, falling back to the defaults.
+ */
+export const getConfiguredBulkLimits = (): { concurrency: number; requestsPerSecond: number } => {
+    const concurrency = Number(process.env.BULK_CONCURRENCY);
+    const requestsPerSecond = Number(process.env.BULK_REQUESTS_PER_SECOND);
+    return {
+        concurrency: concurrency > 0 ? Math.floor(concurrency) : DEFAULT_BULK_CONCURRENCY,
+        requestsPerSecond: requestsPerSecond > 0 ? requestsPerSecond : DEFAULT_BULK_REQUESTS_PER_SECOND,
+    };
+};
+
+/**
+ * Creates a batch verification job that runs rows concurrently under a requests-per-second cap.
+ * Results are reported per row as they complete; the job can be paused, resumed and cancelled.
+ * @param accounts The rows to verify.
+ * @param options The verification function, limits and progress callbacks.
+ * @returns A controller for the job.
+ */
+export const createBulkVerificationJob = (accounts: AccountDetails[], options: BulkVerificationOptions): BulkVerificationJob => {
+    const defaults = getConfiguredBulkLimits();
+    const concurrency = Math.max(1, options.concurrency ?? defaults.concurrency);
+    const minIntervalMs = 1000 / Math.max(0.01, options.requestsPerSecond ?? defaults.requestsPerSecond);
+    const deferredRecheckMs = options.deferredRecheckMs ?? DEFERRED_RECHECK_MS;
+
+    const results: (VerificationResultData | undefined)[] = accounts.map((_, index) => options.initialResults?.[index]);
+    let state: BulkJobState = 'idle';
+    let succeeded = results.filter(result => result?.success).length;
+    let failed = results.filter(result => result && !result.success).length;
+    // Rows completed in this run only, so resumed jobs do not skew the ETA.
+    let doneThisRun = 0;
+    let nextSlotAt = 0;
+    let startedAt = 0;
+    let pausedAt = 0;
+    let pausedMs = 0;
+    let resumeWaiters: (() => void)[] = [];
+    // Rows waiting for their bank; they stay here while sent as a probe and leave once they have a result.
+    const deferredRows = new Set<number>();
+    // Rows sent in the current deferred round to test whether their bank is back.
+    const probeRows = new Set<number>();
+    // Groups a probe reached, so their rows are sent even while the bank's status has not caught up.
+    const reachableGroups = new Set<string>();
+    // Deadline timers of deferred rows, when their wait is limited.
+    const giveUpTimers = new Map<number, ReturnType<typeof setTimeout>>();
+    const inFlightByGroup = new Map<string, number>();
+    let groupSlotWaiters: (() => void)[] = [];
+
+    const getProgress = (): BulkProgress => {
+        const done = succeeded + failed;
+        const remaining = accounts.length - done;
+        let etaMs: number | null = null;
+        if (doneThisRun > 0 && remaining > 0 && (state === 'running' || state === 'paused')) {
+            const activeMs = (state === 'paused' ? pausedAt : Date.now()) - startedAt - pausedMs;
+            etaMs = Math.round((activeMs / doneThisRun) * remaining);
+        } else if (remaining === 0) {
+            etaMs = 0;
+        }
+        // Nothing to estimate while the only rows left are waiting for a bank.
+        if (remaining > 0 && remaining === deferredRows.size) {
+            etaMs = null;
+        }
+        return { state, total: accounts.length, done, succeeded, failed, remaining, deferred: deferredRows.size, etaMs };
+    };
+
+    // Read through a function: state changes from pause/cancel calls made while a worker awaits.
+    const isCancelled = () => state === 'cancelled';
+
+    const emitProgress = () => options.onProgress?.(getProgress());
+
+    const waitWhilePaused = async () => {
+        while (state === 'paused') {
+            await new Promise<void>(resolve => resumeWaiters.push(resolve));
+        }
+    };
+
+    const releaseWaiters = () => {
+        const waiters = resumeWaiters;
+        resumeWaiters = [];
+        waiters.forEach(resolve => resolve());
+    };
+
+    const acquireRateSlot = async () => {
+        const now = Date.now();
+        const slot = Math.max(now, nextSlotAt);
+        nextSlotAt = slot + minIntervalMs;
+        if (slot > now) {
+            await sleep(slot - now);
+        }
+    };
+
+    const acquireGroupSlot = async (group: string, max: number) => {
+        while ((inFlightByGroup.get(group) ?? 0) >= max) {
+            await new Promise<void>(resolve => groupSlotWaiters.push(resolve));
+        }
+        inFlightByGroup.set(group, (inFlightByGroup.get(group) ?? 0) + 1);
+    };
+
+    const releaseGroupSlot = (group: string) => {
+        inFlightByGroup.set(group, (inFlightByGroup.get(group) ?? 1) - 1);
+        const waiters = groupSlotWaiters;
+        groupSlotWaiters = [];
+        waiters.forEach(resolve => resolve());
+    };
+
+    const giveUp = (index: number) => {
+        giveUpTimers.delete(index);
+        if (!deferredRows.has(index) || isCancelled()) return;
+        const account = accounts[index];
+        record(index, options.giveUp?.(account) ?? { ...createFailure(VerificationFailureCode.BANK_OFFLINE, account), deferred: true, provider: 'local' });
+    };
+
+    const defer = (index: number) => {
+        if (deferredRows.has(index)) return;
+        deferredRows.add(index);
+        if (options.maxDeferredWaitMs !== undefined) {
+            giveUpTimers.set(index, setTimeout(() => giveUp(index), options.maxDeferredWaitMs));
+        }
+        options.onDeferred?.(index);
+        emitProgress();
+    };
+
+    const clearGiveUpTimer = (index: number) => {
+        const timer = giveUpTimers.get(index);
+        if (timer === undefined) return;
+        clearTimeout(timer);
+        giveUpTimers.delete(index);
+    };
+
+    const record = (index: number, result: VerificationResultData) => {
+        clearGiveUpTimer(index);
+        deferredRows.delete(index);
+        results[index] = result;
+        if (result.success) {
+            succeeded++;
+        } else {
+            failed++;
+        }
+        doneThisRun++;
+        options.onResult?.(index, result);
+        emitProgress();
+    };
+
+    const sendRow = async (index: number, account: AccountDetails, route: BulkRowRoute | undefined): Promise<VerificationResultData | null> => {
+        if (route?.maxConcurrent) {
+            await acquireGroupSlot(route.group, route.maxConcurrent);
+        }
+        try {
+            await acquireRateSlot();
+            await waitWhilePaused();
+            if (isCancelled()) {
+                // The row was claimed but never sent; leave it without a result.
+                return null;
+            }
+            try {
+                return await options.verify(account);
+            } catch (err) {
+                return failureFromError(err, account);
+            }
+        } finally {
+            if (route?.maxConcurrent) releaseGroupSlot(route.group);
+        }
+    };
+
+    const createWorker = (queue: number[]) => {
+        let cursor = 0;
+        return async () => {
+            while (cursor < queue.length) {
+                await waitWhilePaused();
+                if (isCancelled()) return;
+                // Another worker may have taken the last row while this one waited
+                if (cursor >= queue.length) return;
+
+                const index = queue[cursor++];
+                if (results[index]) continue;
+                const account = accounts[index];
+
+                const localResult = options.preflight?.(account);
+                if (localResult) {
+                    record(index, localResult);
+                    continue;
+                }
+
+                const route = options.route?.(account);
+                if (route?.defer && !probeRows.has(index) && !reachableGroups.has(route.group)) {
+                    defer(index);
+                    continue;
+                }
+
+                const result = await sendRow(index, account, route);
+                if (!result) return;
+                // The row was given up on while it was out as a probe
+                if (results[index]) continue;
+                if (route && isBankUnavailableFailure(result.failureCode)) {
+                    // Not the account's fault: hold the row until the bank answers again
+                    reachableGroups.delete(route.group);
+                    defer(index);
+                    continue;
+                }
+                if (route && deferredRows.has(index)) {
+                    reachableGroups.add(route.group);
+                }
+                record(index, result);
+            }
+        };
+    };
+
+    // The workers share one cursor over the queue.
+    const runQueue = async (queue: number[]) => {
+        const worker = createWorker(queue);
+        const workerCount = Math.min(concurrency, queue.length);
+        await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    };
+
+    const waitForRecheck = async () => {
+        const until = Date.now() + deferredRecheckMs;
+        while (!isCancelled() && deferredRows.size > 0 && Date.now() < until) {
+            await sleep(Math.min(1000, until - Date.now()));
+        }
+        await waitWhilePaused();
+    };
+
+    // Sends deferred rows whose bank is back, and one probe row for each bank that still looks offline.
+    const retryDeferredRows = async () => {
+        let reachableBefore = reachableGroups.size;
+        while (deferredRows.size > 0 && !isCancelled()) {
+            // Rows for a bank a probe has just reached go out straight away
+            if (reachableGroups.size <= reachableBefore) {
+                await waitForRecheck();
+                if (isCancelled()) return;
+            }
+            reachableBefore = reachableGroups.size;
+
+            const queue: number[] = [];
+            const probedGroups = new Set<string>();
+            probeRows.clear();
+            deferredRows.forEach(index => {
+                const route = options.route?.(accounts[index]);
+                if (!route || !route.defer || reachableGroups.has(route.group)) {
+                    queue.push(index);
+                } else if (!probedGroups.has(route.group)) {
+                    probedGroups.add(route.group);
+                    probeRows.add(index);
+                    queue.push(index);
+                }
+            });
+            await runQueue(queue);
+        }
+    };
+
+    const run = async () => {
+        if (state !== 'idle') {
+            throw new Error('This bulk verification job has already been started.');
+        }
+        state = 'running';
+        startedAt = Date.now();
+        emitProgress();
+
+        await runQueue(accounts.map((_, index) => index));
+        await retryDeferredRows();
+        // Rows still waiting after a cancel keep no result
+        Array.from(giveUpTimers.keys()).forEach(clearGiveUpTimer);
+
+        if (!isCancelled()) {
+            state = 'completed';
+        }
+        emitProgress();
+        return results;
+    };
+
+    const pause = () => {
+        if (state !== 'running') return;
+        state = 'paused';
+        pausedAt = Date.now();
+        emitProgress();
+    };
+
+    const resume = () => {
+        if (state !== 'paused') return;
+        pausedMs += Date.now() - pausedAt;
+        state = 'running';
+        // Do not burst requests that would have gone out during the pause.
+        nextSlotAt = Math.max(nextSlotAt, Date.now());
+        releaseWaiters();
+        emitProgress();
+    };
+
+    const cancel = () => {
+        if (state !== 'running' && state !== 'paused') return;
+        if (state === 'paused') {
+            pausedMs += Date.now() - pausedAt;
+        }
+        state = 'cancelled';
+        releaseWaiters();
+        emitProgress();
+    };
+
+    return { run, pause, resume, cancel, getProgress };
+};
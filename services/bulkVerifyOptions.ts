@@ -0,0 +1,34 @@
+import { AccountDetails, BankData, VerificationFailureCode } from '../types';
+import { BulkVerificationOptions } from './bulkVerificationEngine';
+import { createDeferredFailure, getBankRoute } from './bankRouting';
+import { validateNuban } from './nubanService';
+import { createFailure } from './verificationFailures';
+import { verifyAccountDetails } from './verificationService';
+
+/**
+ * Builds the per-row behaviour shared by bulk jobs in the app and on the verification server:
+ * status-aware routing, a local NUBAN check, and verification with the configured provider.
+ * @param banks The bank list used for the NUBAN check digit.
+ * @returns The routing, preflight, verify and give-up options for a bulk job.
+ */
+export const createBulkVerifyOptions = (banks: BankData[]): Pick<BulkVerificationOptions, 'route' | 'preflight' | 'verify' | 'giveUp'> => ({
+    // Hold rows for offline banks until they are back, and go easy on degraded ones
+    route: (account: AccountDetails) => {
+        const route = getBankRoute(account.bankName);
+        return { group: account.bankName, defer: route.defer, maxConcurrent: route.maxConcurrent };
+    },
+    // Rows whose bank stayed offline too long say nothing about the account
+    giveUp: createDeferredFailure,
+    // Reject mistyped account numbers locally without spending a verification call
+    preflight: (account: AccountDetails) => {
+        const nubanResult = validateNuban(account.accountNumber, account.bankName, banks);
+        return nubanResult.isValid ? null : { ...createFailure(VerificationFailureCode.INVALID_NUBAN, account, nubanResult.message), provider: 'local' };
+    },
+    verify: async (account: AccountDetails) => {
+        const result = await verifyAccountDetails(account);
+        // Providers echo their own copy of the details; keep the bank name as written in the file
+        return account.originalBankName && result.data
+            ? { ...result, data: { ...result.data, originalBankName: account.originalBankName } }
+            : result;
+    },
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createCircuitBreaker } from './circuitBreaker';
+
+const createBreaker = () => createCircuitBreaker('provider', 'test', { failureThreshold: 3, cooldownMs: 1000 });
+
+describe('createCircuitBreaker', () => {
+    it('opens after consecutive failures', () => {
+        const breaker = createBreaker();
+        breaker.recordCall('failure', 0);
+        breaker.recordCall('failure', 0);
+        expect(breaker.isCallPermitted(0)).toBe(true);
+        breaker.recordCall('failure', 0);
+        expect(breaker.isCallPermitted(0)).toBe(false);
+        expect(breaker.getSnapshot()).toMatchObject({ state: 'open', consecutiveFailures: 3, retryAt: 1000 });
+    });
+
+    it('resets the count on a success and ignores neutral calls', () => {
+        const breaker = createBreaker();
+        breaker.recordCall('failure', 0);
+        breaker.recordCall('failure', 0);
+        breaker.recordCall('success', 0);
+        breaker.recordCall('failure', 0);
+        breaker.recordCall('neutral', 0);
+        breaker.recordCall('failure', 0);
+        expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+    });
+
+    it('lets one trial call through after the cooldown', () => {
+        const breaker = createBreaker();
+        [0, 0, 0].forEach(now => breaker.recordCall('failure', now));
+        expect(breaker.isCallPermitted(999)).toBe(false);
+        expect(breaker.isCallPermitted(1000)).toBe(true);
+        breaker.startCall(1000);
+        expect(breaker.getSnapshot().state).toBe('half-open');
+        expect(breaker.isCallPermitted(1000)).toBe(false);
+    });
+
+    it('closes when the trial call succeeds', () => {
+        const breaker = createBreaker();
+        [0, 0, 0].forEach(now => breaker.recordCall('failure', now));
+        breaker.startCall(1000);
+        breaker.recordCall('success', 1000);
+        expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+    });
+
+    it('reopens at once when the trial call fails', () => {
+        const breaker = createBreaker();
+        [0, 0, 0].forEach(now => breaker.recordCall('failure', now));
+        breaker.startCall(1000);
+        breaker.recordCall('failure', 1500);
+        expect(breaker.getSnapshot()).toMatchObject({ state: 'open', retryAt: 2500 });
+    });
+});
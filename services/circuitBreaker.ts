@@ -0,0 +1,102 @@
+import { CircuitScope, CircuitSnapshot, CircuitState } from '../types';
+import { CIRCUIT_COOLDOWN_MS, CIRCUIT_FAILURE_THRESHOLD } from '../constants';
+
+// How a finished call counts towards a breaker. Neutral calls say nothing about the dependency, e.g. a rejected request.
+export type CallVerdict = 'success' | 'failure' | 'neutral';
+
+export interface CircuitBreakerOptions {
+    failureThreshold?: number;
+    cooldownMs?: number;
+}
+
+export interface CircuitBreaker {
+    key: string;
+    // Whether a call may go out now. An open circuit allows a single trial call once its cooldown has passed.
+    isCallPermitted: (now?: number) => boolean;
+    // Marks a permitted call as started, so only one trial call runs while half-open.
+    startCall: (now?: number) => void;
+    recordCall: (verdict: CallVerdict, now?: number) => void;
+    getSnapshot: () => CircuitSnapshot;
+}
+
+/**
+ * Creates a circuit breaker that opens after consecutive failures and short-circuits calls until its cooldown has passed.
+ * @param scope What the breaker protects.
+ * @param name The provider, bank or source name.
+ * @param options The failure threshold and cooldown.
+ * @returns The circuit breaker.
+ */
+export const createCircuitBreaker = (scope: CircuitScope, name: string, options: CircuitBreakerOptions = {}): CircuitBreaker => {
+    const failureThreshold = options.failureThreshold ?? CIRCUIT_FAILURE_THRESHOLD;
+    const cooldownMs = options.cooldownMs ?? CIRCUIT_COOLDOWN_MS;
+    const key = `${scope}:${name}`;
+    let state: CircuitState = 'closed';
+    let consecutiveFailures = 0;
+    let openedAt = 0;
+    let isTrialInFlight = false;
+
+    const isCallPermitted = (now: number = Date.now()): boolean => {
+        if (state === 'closed') return true;
+        if (state === 'open') return now - openedAt >= cooldownMs;
+        return !isTrialInFlight;
+    };
+
+    const startCall = (now: number = Date.now()) => {
+        if (state === 'open' && now - openedAt >= cooldownMs) {
+            state = 'half-open';
+        }
+        if (state === 'half-open') {
+            isTrialInFlight = true;
+        }
+    };
+
+    const recordCall = (verdict: CallVerdict, now: number = Date.now()) => {
+        const wasTrial = state === 'half-open';
+        isTrialInFlight = false;
+        if (verdict === 'success') {
+            state = 'closed';
+            consecutiveFailures = 0;
+        } else if (verdict === 'failure') {
+            consecutiveFailures++;
+            // A failed trial call reopens the circuit straight away
+            if (wasTrial || consecutiveFailures >= failureThreshold) {
+                state = 'open';
+                openedAt = now;
+            }
+        }
+    };
+
+    const getSnapshot = (): CircuitSnapshot => ({
+        key,
+        scope,
+        name,
+        state,
+        consecutiveFailures,
+        retryAt: state === 'open' ? openedAt + cooldownMs : null,
+    });
+
+    return { key, isCallPermitted, startCall, recordCall, getSnapshot };
+};
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Returns the shared circuit breaker for a provider, bank or status source, creating it on first use.
+ * @param scope What the breaker protects.
+ * @param name The provider, bank or source name.
+ * @returns The circuit breaker.
+ */
+export const getCircuitBreaker = (scope: CircuitScope, name: string): CircuitBreaker => {
+    const key = `${scope}:${name}`;
+    let breaker = breakers.get(key);
+    if (!breaker) {
+        breaker = createCircuitBreaker(scope, name);
+        breakers.set(key, breaker);
+    }
+    return breaker;
+};
+
+/**
+ * Returns the current state of every shared circuit breaker that has seen a call.
+ */
+export const getCircuitSnapshots = (): CircuitSnapshot[] => Array.from(breakers.values()).map(breaker => breaker.getSnapshot());
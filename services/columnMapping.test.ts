@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyColumnMappingPreset, getMappedValue, getMissingRequiredColumns, guessColumnMapping } from './columnMapping';
+
+describe('guessColumnMapping', () => {
+    it('maps common header names regardless of case, spacing and punctuation', () => {
+        const headers = ['S/N', 'Staff Name', 'BANK', 'Acct. No', 'B.V.N', 'Net Pay', 'Remarks'];
+        expect(guessColumnMapping(headers)).toEqual({ beneficiaryName: 1, bankName: 2, accountNumber: 3, bvn: 4, amount: 5, narration: 6 });
+    });
+
+    it('prefers exact matches and uses each column once', () => {
+        // "Beneficiary Bank Name" contains "bank name", but the exact "Name" column is the beneficiary
+        expect(guessColumnMapping(['Beneficiary Bank Name', 'Name', 'Account Number', 'BVN'])).toEqual({
+            bankName: 0, beneficiaryName: 1, accountNumber: 2, bvn: 3,
+        });
+    });
+
+    it('does not let short synonyms match inside longer headers', () => {
+        expect(guessColumnMapping(['Bank Name']).beneficiaryName).toBeUndefined();
+    });
+
+    it('maps optional code and metadata columns', () => {
+        expect(guessColumnMapping(['Sort Code', 'NIP Code', 'Programme', 'LGA', 'PHC Code', 'IPPIS Number'])).toEqual({
+            sortCode: 0, bankCode: 1, program: 2, lga: 3, facilityCode: 4, staffId: 5,
+        });
+    });
+});
+
+describe('getMissingRequiredColumns', () => {
+    it('lists unmapped required fields by label', () => {
+        expect(getMissingRequiredColumns({ beneficiaryName: 0, accountNumber: 1 })).toEqual(['Bank Name', 'BVN']);
+        expect(getMissingRequiredColumns({ beneficiaryName: 0, bankName: 1, accountNumber: 2, bvn: 3 })).toEqual([]);
+    });
+});
+
+describe('getMappedValue', () => {
+    it('reads mapped cells and returns blanks for unmapped fields or short rows', () => {
+        expect(getMappedValue(['Ada', 'Access'], { bankName: 1 }, 'bankName')).toBe('Access');
+        expect(getMappedValue(['Ada'], { bankName: 1 }, 'bankName')).toBe('');
+        expect(getMappedValue(['Ada'], {}, 'bvn')).toBe('');
+    });
+});
+
+describe('applyColumnMappingPreset', () => {
+    const preset = { name: 'Payroll', columns: { beneficiaryName: 'Staff Name', accountNumber: 'Acct No' } };
+
+    it('finds the preset\'s headers in any order', () => {
+        expect(applyColumnMappingPreset(preset, ['ACCT NO', 'Other', 'staff name'])).toEqual({ accountNumber: 0, beneficiaryName: 2 });
+    });
+
+    it('returns null when a header is missing', () => {
+        expect(applyColumnMappingPreset(preset, ['Staff Name', 'Account'])).toBeNull();
+    });
+});
@@ -0,0 +1,226 @@
+import { BeneficiaryMetadataField } from '../types';
+
+export type BulkColumnField = 'beneficiaryName' | 'bankName' | 'accountNumber' | 'bvn' | 'bankCode' | 'sortCode' | 'amount' | 'narration' | BeneficiaryMetadataField;
+
+export interface BulkColumnDefinition {
+    field: BulkColumnField;
+    label: string;
+    required: boolean;
+    synonyms: string[];
+}
+
+// Column index in the uploaded file for each field; unmapped fields are absent.
+export type ColumnMapping = Partial<Record<BulkColumnField, number>>;
+
+export interface ColumnMappingPreset {
+    name: string;
+    // Header text per field, so a preset applies to any file from the same source system regardless of column order.
+    columns: Partial<Record<BulkColumnField, string>>;
+}
+
+export const BULK_COLUMNS: BulkColumnDefinition[] = [
+    {
+        field: 'beneficiaryName',
+        label: 'Beneficiary Name',
+        required: true,
+        synonyms: ['beneficiaryName', 'beneficiary', 'name', 'full name', 'staff name', 'employee name', 'account name', 'payee', 'payee name', 'worker name'],
+    },
+    {
+        field: 'bankName',
+        label: 'Bank Name',
+        required: true,
+        synonyms: ['bankName', 'bank', 'bank name', 'beneficiary bank', 'bank of account'],
+    },
+    {
+        field: 'accountNumber',
+        label: 'Account Number',
+        required: true,
+        synonyms: ['accountNumber', 'account number', 'acct no', 'acct number', 'account no', 'nuban', 'a c no', 'ac no', 'account'],
+    },
+    {
+        field: 'bvn',
+        label: 'BVN',
+        required: true,
+        synonyms: ['bvn', 'bvn no', 'bvn number', 'bank verification number'],
+    },
+    {
+        field: 'bankCode',
+        label: 'Bank Code',
+        required: false,
+        synonyms: ['bankCode', 'bank code', 'cbn code', 'institution code', 'nip code'],
+    },
+    {
+        field: 'sortCode',
+        label: 'Sort Code',
+        required: false,
+        synonyms: ['sortCode', 'sort code', 'branch sort code', 'branch code'],
+    },
+    {
+        field: 'amount',
+        label: 'Amount',
+        required: false,
+        synonyms: ['amount', 'net pay', 'net salary', 'net amount', 'payment amount', 'amount ngn', 'stipend'],
+    },
+    {
+        field: 'narration',
+        label: 'Narration',
+        required: false,
+        synonyms: ['narration', 'payment narration', 'description', 'remark', 'remarks', 'memo', 'payment details'],
+    },
+    {
+        field: 'program',
+        label: 'Program',
+        required: false,
+        synonyms: ['program', 'programme', 'program name', 'programme name', 'scheme', 'funding program'],
+    },
+    {
+        field: 'state',
+        label: 'State',
+        required: false,
+        synonyms: ['state', 'state name', 'state of deployment'],
+    },
+    {
+        field: 'lga',
+        label: 'LGA',
+        required: false,
+        synonyms: ['lga', 'lga name', 'local government', 'local government area'],
+    },
+    {
+        // Not plain "facility": that would also take a facility name column
+        field: 'facilityCode',
+        label: 'Facility Code',
+        required: false,
+        synonyms: ['facilityCode', 'facility code', 'facility id', 'phc code', 'health facility code'],
+    },
+    {
+        field: 'staffId',
+        label: 'Staff ID',
+        required: false,
+        synonyms: ['staffId', 'staff id', 'staff no', 'staff number', 'employee id', 'employee number', 'ippis', 'ippis number'],
+    },
+];
+
+const PRESETS_STORAGE_KEY = 'columnMappingPresets';
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which file column feeds each field from the header text.
+ * Exact synonym matches win over partial ones, and each column is used at most once.
+ * @param headers The header row of the uploaded file.
+ * @returns The guessed mapping.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalizedHeaders = headers.map(normalizeHeader);
+    const mapping: ColumnMapping = {};
+    const used = new Set<number>();
+
+    const assign = (matches: (header: string, synonym: string) => boolean) => {
+        BULK_COLUMNS.forEach(column => {
+            if (mapping[column.field] !== undefined) return;
+            const synonyms = column.synonyms.map(normalizeHeader);
+            const index = normalizedHeaders.findIndex((header, i) =>
+                !used.has(i) && header && synonyms.some(synonym => matches(header, synonym))
+            );
+            if (index !== -1) {
+                mapping[column.field] = index;
+                used.add(index);
+            }
+        });
+    };
+
+    assign((header, synonym) => header === synonym);
+    // Longer synonyms only, so "name" does not grab "Bank Name".
+    assign((header, synonym) => synonym.length >= 5 && header.includes(synonym));
+    return mapping;
+};
+
+/**
+ * Lists the required fields a mapping leaves unassigned.
+ * @param mapping The mapping to check.
+ * @returns The labels of the missing fields.
+ */
+export const getMissingRequiredColumns = (mapping: ColumnMapping): string[] => {
+    return BULK_COLUMNS
+        .filter(column => column.required && mapping[column.field] === undefined)
+        .map(column => column.label);
+};
+
+/**
+ * Reads one field from a data row through the mapping.
+ * @returns The cell value, or an empty string when the field is unmapped.
+ */
+export const getMappedValue = (values: string[], mapping: ColumnMapping, field: BulkColumnField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : values[index] ?? '';
+};
+
+/**
+ * Loads the saved mapping presets.
+ */
+export const loadColumnMappingPresets = (): ColumnMappingPreset[] => {
+    try {
+        const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) as ColumnMappingPreset[] : [];
+    } catch (error) {
+        console.error("Failed to load column mapping presets:", error);
+        return [];
+    }
+};
+
+const savePresets = (presets: ColumnMappingPreset[]) => {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error("Failed to save column mapping presets:", error);
+    }
+};
+
+/**
+ * Saves a mapping as a named preset, replacing any preset with the same name.
+ * @param name The preset name, usually the source system.
+ * @param headers The header row the mapping refers to.
+ * @param mapping The mapping to save.
+ * @returns The updated list of presets.
+ */
+export const saveColumnMappingPreset = (name: string, headers: string[], mapping: ColumnMapping): ColumnMappingPreset[] => {
+    const columns = BULK_COLUMNS.reduce((acc, column) => {
+        const index = mapping[column.field];
+        if (index !== undefined) acc[column.field] = headers[index];
+        return acc;
+    }, {} as ColumnMappingPreset['columns']);
+
+    const presets = loadColumnMappingPresets().filter(preset => preset.name !== name);
+    presets.push({ name, columns });
+    presets.sort((a, b) => a.name.localeCompare(b.name));
+    savePresets(presets);
+    return presets;
+};
+
+/**
+ * Deletes a named preset.
+ * @param name The preset to delete.
+ * @returns The updated list of presets.
+ */
+export const deleteColumnMappingPreset = (name: string): ColumnMappingPreset[] => {
+    const presets = loadColumnMappingPresets().filter(preset => preset.name !== name);
+    savePresets(presets);
+    return presets;
+};
+
+/**
+ * Applies a preset to a file's headers.
+ * @param preset The preset to apply.
+ * @param headers The header row of the uploaded file.
+ * @returns The mapping, or null if the file lacks any of the preset's columns.
+ */
+export const applyColumnMappingPreset = (preset: ColumnMappingPreset, headers: string[]): ColumnMapping | null => {
+    const normalizedHeaders = headers.map(normalizeHeader);
+    const mapping: ColumnMapping = {};
+    for (const [field, header] of Object.entries(preset.columns) as [BulkColumnField, string][]) {
+        const index = normalizedHeaders.indexOf(normalizeHeader(header));
+        if (index === -1) return null;
+        mapping[field] = index;
+    }
+    return mapping;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { CsvError, CsvRow, createCsvParser, detectDelimiter, detectEncoding, readCsvFile } from './csvReader';
+
+const parse = (chunks: string[], delimiter: string = ',') => {
+    const rows: CsvRow[] = [];
+    const errors: CsvError[] = [];
+    const parser = createCsvParser({ delimiter, onRow: row => rows.push(row), onError: error => errors.push(error) });
+    chunks.forEach(chunk => parser.push(chunk));
+    parser.finish();
+    return { rows, errors };
+};
+
+describe('createCsvParser', () => {
+    it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+        const { rows, errors } = parse(['name,note\r\n"Doe, John","He said ""hi""\r\nthen left"\r\nAda, plain \r\n']);
+        expect(errors).toEqual([]);
+        expect(rows).toEqual([
+            { line: 1, values: ['name', 'note'] },
+            { line: 2, values: ['Doe, John', 'He said "hi"\r\nthen left'] },
+            { line: 4, values: ['Ada', 'plain'] },
+        ]);
+    });
+
+    it('gives the same rows however the text is split into chunks', () => {
+        const text = 'a,b\r\n"x,""y""",z\n# comment, with delimiter\n1,2';
+        const whole = parse([text]);
+        const byCharacter = parse(text.split(''));
+        expect(byCharacter).toEqual(whole);
+        expect(whole.rows.map(row => row.values)).toEqual([['a', 'b'], ['x,"y"', 'z'], ['1', '2']]);
+        expect(whole.rows[2].line).toBe(4);
+    });
+
+    it('reads the app\'s own template with its bank list comments', () => {
+        const template = [
+            'beneficiaryName,bankName,accountNumber,bvn',
+            'Ada Lovelace,Zenith Bank,0123456789,12345678901',
+            '',
+            '# Please use one of the following bank names for the \'bankName\' column:',
+            '# Access Bank Plc - 044150149',
+        ].join('\n');
+        const { rows, errors } = parse([template]);
+        expect(errors).toEqual([]);
+        expect(rows).toHaveLength(2);
+    });
+
+    it('keeps leading zeros and keeps quoted whitespace', () => {
+        expect(parse(['0012345678,"  padded  "']).rows[0].values).toEqual(['0012345678', '  padded  ']);
+    });
+
+    it('reports stray and unclosed quotes with their location', () => {
+        expect(parse(['a,b"c\n']).errors).toEqual([{ line: 1, column: 4, message: expect.stringContaining('Unexpected quote') }]);
+        expect(parse(['a\n"open,b\n']).errors).toEqual([{ line: 2, column: 1, message: 'Quoted field is never closed.' }]);
+        expect(parse(['"closed"x,b']).errors[0].message).toContain('after a closing quote');
+    });
+});
+
+describe('detectEncoding', () => {
+    it('honours byte order marks', () => {
+        expect(detectEncoding(new Uint8Array([0xEF, 0xBB, 0xBF, 0x61]))).toBe('utf-8');
+        expect(detectEncoding(new Uint8Array([0xFF, 0xFE, 0x61, 0]))).toBe('utf-16le');
+        expect(detectEncoding(new Uint8Array([0xFE, 0xFF, 0, 0x61]))).toBe('utf-16be');
+    });
+
+    it('recognises UTF-16 without a mark and falls back to Windows-1252', () => {
+        expect(detectEncoding(new Uint8Array([0x61, 0, 0x2C, 0, 0x62, 0]))).toBe('utf-16le');
+        expect(detectEncoding(new TextEncoder().encode('Chinwé,Zenith'))).toBe('utf-8');
+        expect(detectEncoding(new Uint8Array([0x43, 0x68, 0xE9, 0x2C]))).toBe('windows-1252');
+    });
+});
+
+describe('detectDelimiter', () => {
+    it('counts delimiters outside quotes on the first data line', () => {
+        expect(detectDelimiter('# a,b,c,d\nname;bank;"x,y,z"\n')).toBe(';');
+        expect(detectDelimiter('name\tbank\taccount')).toBe('\t');
+        expect(detectDelimiter('name')).toBe(',');
+    });
+});
+
+describe('readCsvFile', () => {
+    it('decodes and splits a semicolon-separated Windows-1252 file', async () => {
+        const bytes = new Uint8Array([...new TextEncoder().encode('name;bank\n'), 0x43, 0x68, 0x69, 0x6E, 0x77, 0xE9, ...new TextEncoder().encode(';Zenith\n')]);
+        const result = await readCsvFile(new Blob([bytes]));
+        expect(result).toMatchObject({ delimiter: ';', encoding: 'windows-1252', errors: [] });
+        expect(result.header?.values).toEqual(['name', 'bank']);
+        expect(result.rows[0].values).toEqual(['Chinwé', 'Zenith']);
+    });
+
+    it('strips the byte order mark Excel writes', async () => {
+        const result = await readCsvFile(new Blob([new Uint8Array([0xEF, 0xBB, 0xBF]), 'name,bank\nAda,Zenith']));
+        expect(result.header?.values).toEqual(['name', 'bank']);
+    });
+});
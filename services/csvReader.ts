@@ -0,0 +1,326 @@
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvRow {
+    // 1-based line on which the row starts.
+    line: number;
+    values: string[];
+}
+
+export interface CsvError {
+    line: number;
+    column: number;
+    message: string;
+}
+
+// Rows read from any spreadsheet source, with the first non-empty row as the header.
+export interface TabularData {
+    header: CsvRow | null;
+    rows: CsvRow[];
+    errors: CsvError[];
+}
+
+export interface CsvReadResult extends TabularData {
+    delimiter: string;
+    encoding: CsvEncoding;
+}
+
+export interface CsvParserOptions {
+    delimiter: string;
+    // Lines starting with this character (outside a quoted field) are ignored.
+    commentPrefix?: string;
+    onRow: (row: CsvRow) => void;
+    onError: (error: CsvError) => void;
+}
+
+export interface CsvParser {
+    push: (text: string) => void;
+    finish: () => void;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+// Bytes inspected to detect the encoding and delimiter before streaming the rest.
+const SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * Creates an incremental RFC 4180 parser. Text can be pushed in chunks of any size;
+ * quoted fields may contain delimiters, escaped quotes ("") and line breaks.
+ * @param options The delimiter, comment prefix and callbacks for rows and errors.
+ * @returns The parser.
+ */
+export const createCsvParser = (options: CsvParserOptions): CsvParser => {
+    const { delimiter, commentPrefix = '#', onRow, onError } = options;
+
+    let field = '';
+    let row: string[] = [];
+    let rowHasContent = false;
+    let inQuotes = false;
+    // Just saw a quote inside a quoted field: either an escaped quote or the closing quote.
+    let pendingQuote = false;
+    let afterClosingQuote = false;
+    let inComment = false;
+    let atRowStart = true;
+    let skipLineFeed = false;
+    let previousChar = '';
+
+    let line = 1;
+    let column = 0;
+    let rowLine = 1;
+    let quoteLine = 0;
+    let quoteColumn = 0;
+
+    const newLine = () => {
+        line++;
+        column = 0;
+    };
+
+    const endField = () => {
+        row.push(afterClosingQuote ? field : field.trim());
+        field = '';
+        afterClosingQuote = false;
+    };
+
+    const endRow = () => {
+        endField();
+        if (rowHasContent) {
+            onRow({ line: rowLine, values: row });
+        }
+        row = [];
+        rowHasContent = false;
+        atRowStart = true;
+    };
+
+    const push = (text: string) => {
+        for (const char of text) {
+            const followsCarriageReturn = previousChar === '\r';
+            previousChar = char;
+            if (skipLineFeed) {
+                skipLineFeed = false;
+                if (char === '\n') continue;
+            }
+            column++;
+            const isLineBreak = char === '\n' || char === '\r';
+
+            if (inComment) {
+                if (isLineBreak) {
+                    inComment = false;
+                    skipLineFeed = char === '\r';
+                    newLine();
+                    rowLine = line;
+                }
+                continue;
+            }
+
+            if (pendingQuote) {
+                pendingQuote = false;
+                if (char === '"') {
+                    field += '"';
+                    continue;
+                }
+                inQuotes = false;
+                afterClosingQuote = true;
+            }
+
+            if (inQuotes) {
+                if (char === '"') {
+                    pendingQuote = true;
+                } else {
+                    field += char;
+                    if (char === '\n' && followsCarriageReturn) {
+                        // Second half of a CRLF already counted at the CR.
+                        column = 0;
+                    } else if (isLineBreak) {
+                        newLine();
+                    }
+                }
+                continue;
+            }
+
+            if (char === delimiter) {
+                rowHasContent = true;
+                atRowStart = false;
+                endField();
+                continue;
+            }
+
+            if (isLineBreak) {
+                endRow();
+                skipLineFeed = char === '\r';
+                newLine();
+                rowLine = line;
+                continue;
+            }
+
+            if (afterClosingQuote) {
+                if (char.trim()) {
+                    onError({ line, column, message: `Unexpected character '${char}' after a closing quote.` });
+                    field += char;
+                }
+                continue;
+            }
+
+            if (atRowStart && char === commentPrefix) {
+                inComment = true;
+                continue;
+            }
+
+            if (char === '"' && !field.trim()) {
+                inQuotes = true;
+                field = '';
+                quoteLine = line;
+                quoteColumn = column;
+                rowHasContent = true;
+                atRowStart = false;
+                continue;
+            }
+
+            if (char === '"') {
+                onError({ line, column, message: 'Unexpected quote inside an unquoted field. Wrap the field in quotes and double any quotes within it.' });
+            }
+            field += char;
+            if (char.trim()) {
+                rowHasContent = true;
+                atRowStart = false;
+            }
+        }
+    };
+
+    const finish = () => {
+        if (pendingQuote) {
+            inQuotes = false;
+            pendingQuote = false;
+            afterClosingQuote = true;
+        }
+        if (inQuotes) {
+            onError({ line: quoteLine, column: quoteColumn, message: 'Quoted field is never closed.' });
+            return;
+        }
+        if (!inComment && (rowHasContent || field.trim())) {
+            if (field.trim()) rowHasContent = true;
+            endRow();
+        }
+    };
+
+    return { push, finish };
+};
+
+/**
+ * Detects the text encoding from the first bytes of a file.
+ * Byte order marks are honoured; otherwise UTF-16 is recognised by its zero bytes,
+ * and anything that is not valid UTF-8 is treated as Windows-1252 (Excel's default on Windows).
+ * @param sample The first bytes of the file.
+ * @returns The detected encoding.
+ */
+export const detectEncoding = (sample: Uint8Array): CsvEncoding => {
+    if (sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF) return 'utf-8';
+    if (sample[0] === 0xFF && sample[1] === 0xFE) return 'utf-16le';
+    if (sample[0] === 0xFE && sample[1] === 0xFF) return 'utf-16be';
+
+    const pairs = Math.min(sample.length, 512) >> 1;
+    let zeroOdd = 0;
+    let zeroEven = 0;
+    for (let i = 0; i < pairs; i++) {
+        if (sample[2 * i] === 0) zeroEven++;
+        if (sample[2 * i + 1] === 0) zeroOdd++;
+    }
+    if (pairs > 0 && zeroOdd / pairs > 0.3 && zeroEven === 0) return 'utf-16le';
+    if (pairs > 0 && zeroEven / pairs > 0.3 && zeroOdd === 0) return 'utf-16be';
+
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+};
+
+/**
+ * Picks the delimiter that splits the first data line into the most fields.
+ * Quoted sections and comment lines are skipped.
+ * @param sample The beginning of the decoded text.
+ * @param commentPrefix The comment line prefix.
+ * @returns The detected delimiter, defaulting to a comma.
+ */
+export const detectDelimiter = (sample: string, commentPrefix: string = '#'): string => {
+    const firstLine = sample
+        .split(/\r\n|\n|\r/)
+        .find(line => line.trim() && !line.startsWith(commentPrefix));
+    if (!firstLine) return ',';
+
+    const counts = new Map<string, number>();
+    let inQuotes = false;
+    for (const char of firstLine) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+            counts.set(char, (counts.get(char) || 0) + 1);
+        }
+    }
+    let best = ',';
+    let bestCount = 0;
+    counts.forEach((count, delimiter) => {
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    });
+    return best;
+};
+
+/**
+ * Streams a CSV file from disk, detecting its encoding and delimiter, and parses it without
+ * loading the whole file into one string. The first non-comment row is returned as the header.
+ * @param file The file to read.
+ * @param commentPrefix The comment line prefix.
+ * @returns The header, data rows, any parse errors with their locations, and the detected format.
+ */
+export const readCsvFile = async (file: Blob, commentPrefix: string = '#'): Promise<CsvReadResult> => {
+    const reader = file.stream().getReader();
+    const chunks: Uint8Array[] = [];
+    let sampleLength = 0;
+    let done = false;
+
+    while (!done && sampleLength < SAMPLE_BYTES) {
+        const next = await reader.read();
+        done = next.done;
+        if (next.value) {
+            chunks.push(next.value);
+            sampleLength += next.value.length;
+        }
+    }
+
+    const sample = new Uint8Array(sampleLength);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        sample.set(chunk, offset);
+        offset += chunk.length;
+    });
+
+    const encoding = detectEncoding(sample);
+    const decoder = new TextDecoder(encoding);
+    const sampleText = decoder.decode(sample, { stream: !done });
+    const delimiter = detectDelimiter(sampleText, commentPrefix);
+
+    const result: CsvReadResult = { header: null, rows: [], errors: [], delimiter, encoding };
+    const parser = createCsvParser({
+        delimiter,
+        commentPrefix,
+        onRow: row => {
+            if (!result.header) {
+                result.header = row;
+            } else {
+                result.rows.push(row);
+            }
+        },
+        onError: error => result.errors.push(error),
+    });
+
+    parser.push(sampleText);
+    while (!done) {
+        const next = await reader.read();
+        done = next.done;
+        parser.push(decoder.decode(next.value, { stream: !done }));
+    }
+    parser.finish();
+
+    return result;
+};
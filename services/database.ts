@@ -0,0 +1,69 @@
+const DB_NAME = 'accountVerification';
+const DB_VERSION = 3;
+
+export const JOBS_STORE = 'bulkJobs';
+export const RESULTS_STORE = 'bulkJobResults';
+export const AUDIT_STORE = 'auditLog';
+export const BENEFICIARIES_STORE = 'beneficiaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+/**
+ * Opens the app's IndexedDB database, creating or upgrading its stores as needed.
+ * @returns The open database, shared by all callers.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(JOBS_STORE)) {
+                    db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+                    const results = db.createObjectStore(RESULTS_STORE, { keyPath: ['jobId', 'index'] });
+                    results.createIndex('jobId', 'jobId');
+                }
+                if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+                    db.createObjectStore(AUDIT_STORE, { keyPath: 'sequence' });
+                }
+                if (!db.objectStoreNames.contains(BENEFICIARIES_STORE)) {
+                    db.createObjectStore(BENEFICIARIES_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Deletes everything except the audit log, e.g. when the passphrase is forgotten.
+ * The audit log is kept so its chain is not restarted.
+ */
+export const clearLocalData = async (): Promise<void> => {
+    const stores = [JOBS_STORE, RESULTS_STORE, BENEFICIARIES_STORE];
+    const db = await openDb();
+    const transaction = db.transaction(stores, 'readwrite');
+    stores.forEach(store => transaction.objectStore(store).clear());
+    await transactionDone(transaction);
+};
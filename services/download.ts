@@ -0,0 +1,15 @@
+/**
+ * Saves a file in the browser by clicking a temporary download link.
+ * @param blob The file contents.
+ * @param fileName The suggested file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { NameMatchGrade } from '../types';
+import { matchNames, tokenizeName } from './nameMatcher';
+
+describe('tokenizeName', () => {
+    it('drops honorifics, accents and punctuation and folds spelling variants', () => {
+        expect(tokenizeName('Alhaji Mohammed  Abdullah-Bello Jnr.')).toEqual(['muhammad', 'abdullahi', 'bello']);
+        expect(tokenizeName('Dr. Chinwé O\'Neill')).toEqual(['chinwe', 'o', 'neill']);
+    });
+
+    it('keeps Baba and Mama, which are also given names', () => {
+        expect(tokenizeName('Baba Kolawole')).toEqual(['baba', 'kolawole']);
+        expect(tokenizeName('Mama Nwosu')).toEqual(['mama', 'nwosu']);
+    });
+});
+
+describe('matchNames', () => {
+    it('grades the same name in any order as exact', () => {
+        expect(matchNames('John Doe', 'JOHN DOE')).toEqual({ grade: NameMatchGrade.EXACT, score: 1 });
+        expect(matchNames('Okafor Ngozi', 'Ngozi Okafor')).toEqual({ grade: NameMatchGrade.EXACT, score: 1 });
+        expect(matchNames('Mrs Aishat Yusuff', 'Aisha Yusuf')).toEqual({ grade: NameMatchGrade.EXACT, score: 1 });
+    });
+
+    it('tolerates a missing middle name, initials and small typos', () => {
+        expect(matchNames('Adebayo Ogunlesi', 'Adebayo Tunde Ogunlesi').grade).toBe(NameMatchGrade.STRONG);
+        expect(matchNames('A. Ogunlesi', 'Adebayo Ogunlesi').grade).toBe(NameMatchGrade.STRONG);
+        expect(matchNames('Chukwuemeka Obi', 'Chukwuemeke Obi').grade).toBe(NameMatchGrade.STRONG);
+        expect(matchNames('Stephen Okoro', 'Stefen Okoro').grade).toBe(NameMatchGrade.STRONG);
+    });
+
+    it('grades one shared name as partial', () => {
+        const match = matchNames('John Okafor', 'John Adeyemi');
+        expect(match.grade).toBe(NameMatchGrade.PARTIAL);
+        expect(match.score).toBeLessThan(0.85);
+    });
+
+    it('grades the same first name with another surname as partial', () => {
+        expect(matchNames('Aisha Bello', 'Aisha Okafor')).toEqual({ grade: NameMatchGrade.PARTIAL, score: 0.5 });
+        expect(matchNames('Aisha Bello', 'Okafor Aisha').grade).toBe(NameMatchGrade.PARTIAL);
+    });
+
+    it('grades different people as a mismatch', () => {
+        expect(matchNames('Emeka Nwosu', 'Fatima Sani')).toEqual({ grade: NameMatchGrade.MISMATCH, score: 0 });
+        expect(matchNames('Mr', 'Fatima Sani')).toEqual({ grade: NameMatchGrade.MISMATCH, score: 0 });
+    });
+
+    it('does not treat Mahmud as a spelling of Muhammad', () => {
+        expect(tokenizeName('Mahmud Bello')).toEqual(['mahmud', 'bello']);
+        expect(matchNames('Mahmud Bello', 'Muhammad Bello').grade).toBe(NameMatchGrade.PARTIAL);
+    });
+
+    it('counts Baba as part of the name', () => {
+        expect(matchNames('Baba Bello', 'Bello').grade).not.toBe(NameMatchGrade.EXACT);
+    });
+});
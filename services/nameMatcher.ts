@@ -0,0 +1,139 @@
+import { NameMatch, NameMatchGrade } from '../types';
+
+// Titles and honorifics that are not part of the account holder's name.
+const HONORIFICS = new Set([
+    'mr', 'mrs', 'ms', 'miss', 'mister', 'dr', 'doctor', 'prof', 'professor', 'engr', 'eng', 'arc', 'barr', 'pharm',
+    'alhaji', 'alhaja', 'alh', 'hajia', 'hajiya', 'hajj', 'mallam', 'malam', 'chief', 'oba', 'hrh', 'sir', 'dame', 'lady',
+    'hon', 'rev', 'pastor', 'evang', 'bishop', 'imam', 'sheikh', 'sister', 'nurse', 'jnr', 'jr', 'snr', 'sr',
+]);
+
+// Common Nigerian spelling variants, mapped to one canonical form.
+const SPELLING_VARIANTS: Record<string, string[]> = {
+    muhammad: ['mohammed', 'mohammad', 'muhammed', 'mohamed', 'muhamed', 'mohd', 'muhd', 'mohamad'],
+    abubakar: ['abubakr', 'abubakri', 'abubakarr', 'bubakar'],
+    abdullahi: ['abdullah', 'abdulahi', 'abdulla', 'abdallah'],
+    aisha: ['aishat', 'aishatu', 'ayisha', 'aishah', 'aysha', 'ayishat'],
+    fatima: ['fatimah', 'fatimat', 'fatimoh', 'fatumata', 'fatimatu'],
+    halima: ['halimat', 'halimah', 'halimatu'],
+    hauwa: ['hawa', 'hauwau'],
+    ibrahim: ['ibraheem', 'ibrahem', 'ibrahima'],
+    suleiman: ['sulaiman', 'sulaimon', 'suleman', 'sulayman', 'sulaimanu'],
+    usman: ['usmanu', 'othman', 'uthman', 'osman', 'usmaan'],
+    yusuf: ['yusuff', 'yussuf', 'yusufu', 'yousef', 'yussef', 'yusif'],
+    ahmed: ['ahmad', 'ahmadu', 'amadu'],
+    idris: ['idriss', 'idrisu', 'idrees'],
+    ismail: ['ismaila', 'ismaeel', 'ismaheel'],
+    aminu: ['amin', 'ameenu'],
+    olamide: ['olaamide'],
+    ngozi: ['ngozie'],
+    adebayo: ['adebayor'],
+    elizabeth: ['elisabeth'],
+    joseph: ['josef'],
+};
+
+const CANONICAL_SPELLING = Object.entries(SPELLING_VARIANTS).reduce((acc, [canonical, variants]) => {
+    variants.forEach(variant => { acc[variant] = canonical; });
+    return acc;
+}, {} as Record<string, string>);
+
+/**
+ * Splits a name into normalized tokens: lowercase, without accents, punctuation or honorifics.
+ * @param name The name to tokenize.
+ * @returns The name tokens.
+ */
+export const tokenizeName = (name: string): string[] => {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z\s-]/g, ' ')
+        .split(/[\s-]+/)
+        .filter(token => token && !HONORIFICS.has(token))
+        .map(token => CANONICAL_SPELLING[token] ?? token);
+};
+
+// Folds spelling differences that rarely distinguish names: doubled letters, silent trailing 'h', 'ph'.
+const phoneticKey = (token: string): string => {
+    return token
+        .replace(/ph/g, 'f')
+        .replace(/(.)\1+/g, '$1')
+        .replace(/h$/, '');
+};
+
+const editSimilarity = (a: string, b: string): number => {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = a[i - 1] === b[j - 1] ? diagonal : 1 + Math.min(diagonal, above, previous[j - 1]);
+            diagonal = above;
+        }
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+/**
+ * Scores how well two name tokens correspond.
+ * @returns 1 for the same name, 0.8 for an initial, the edit similarity for likely typos, otherwise 0.
+ */
+const scoreTokens = (a: string, b: string): number => {
+    if (a === b) return 1;
+    if (a.length === 1 || b.length === 1) {
+        return a[0] === b[0] ? 0.8 : 0;
+    }
+    const keyA = phoneticKey(a);
+    const keyB = phoneticKey(b);
+    if (keyA === keyB) return 0.95;
+    const similarity = editSimilarity(keyA, keyB);
+    return similarity >= 0.75 ? similarity : 0;
+};
+
+/**
+ * Compares the name an operator submitted with the name the account is registered under.
+ * Token order, surname-first order, initials, middle names, honorifics and common spelling variants are tolerated.
+ * @param submittedName The name typed by the operator.
+ * @param registeredName The account holder's registered name.
+ * @returns The match grade and score.
+ */
+export const matchNames = (submittedName: string, registeredName: string): NameMatch => {
+    const submitted = tokenizeName(submittedName);
+    const registered = tokenizeName(registeredName);
+    if (submitted.length === 0 || registered.length === 0) {
+        return { grade: NameMatchGrade.MISMATCH, score: 0 };
+    }
+
+    // Greedily pair each token with its best remaining counterpart, strongest pairs first.
+    const candidatePairs = submitted
+        .flatMap((a, i) => registered.map((b, j) => ({ i, j, score: scoreTokens(a, b) })))
+        .filter(pair => pair.score > 0)
+        .sort((x, y) => y.score - x.score);
+    const usedSubmitted = new Set<number>();
+    const usedRegistered = new Set<number>();
+    const pairs = candidatePairs.filter(pair => {
+        if (usedSubmitted.has(pair.i) || usedRegistered.has(pair.j)) return false;
+        usedSubmitted.add(pair.i);
+        usedRegistered.add(pair.j);
+        return true;
+    });
+
+    const shorter = Math.min(submitted.length, registered.length);
+    const longer = Math.max(submitted.length, registered.length);
+    const pairTotal = pairs.reduce((sum, pair) => sum + pair.score, 0);
+    // Mostly how well the shorter name is covered; a little for unmatched extra (e.g. middle) names.
+    const score = Math.round((0.8 * (pairTotal / shorter) + 0.2 * (pairs.length / longer)) * 100) / 100;
+    const fullMatches = pairs.filter(pair => pair.score === 1).length;
+
+    let grade: NameMatchGrade;
+    if (fullMatches === submitted.length && submitted.length === registered.length) {
+        grade = NameMatchGrade.EXACT;
+    } else if (score >= 0.85 && (pairs.length >= 2 || longer === 1)) {
+        grade = NameMatchGrade.STRONG;
+    } else if (score >= 0.5 && fullMatches >= 1) {
+        grade = NameMatchGrade.PARTIAL;
+    } else {
+        grade = NameMatchGrade.MISMATCH;
+    }
+    return { grade, score };
+};
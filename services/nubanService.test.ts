@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { BankData, BankType } from '../types';
+import { computeNubanCheckDigit, getInstitutionCode, isValidNuban, validateNuban } from './nubanService';
+
+const banks: BankData[] = [
+    { name: 'Guaranty Trust Bank', shortName: 'GTBank', cbnCode: '058', nipCode: '000013', sortCode: '058152052', aliases: [], type: BankType.COMMERCIAL },
+    { name: 'Access Bank', shortName: 'Access', cbnCode: '044', nipCode: '000014', sortCode: '044150149', aliases: [], type: BankType.COMMERCIAL },
+    { name: 'Kuda Microfinance Bank', shortName: 'Kuda', cbnCode: '50211', nipCode: '090267', sortCode: '502110004', aliases: [], type: BankType.MICROFINANCE },
+    { name: 'OPay Digital Services', shortName: 'OPay', cbnCode: '99992', nipCode: '100004', sortCode: '999992', aliases: [], type: BankType.MOBILE_MONEY },
+];
+
+describe('getInstitutionCode', () => {
+    it('uses the 3-digit CBN code for deposit money banks', () => {
+        expect(getInstitutionCode(banks[0])).toBe('058');
+    });
+
+    it('uses 9 and the 5-digit CBN code for other institutions', () => {
+        expect(getInstitutionCode(banks[2])).toBe('950211');
+    });
+});
+
+describe('computeNubanCheckDigit', () => {
+    it('applies the CBN weights to the bank code and serial number', () => {
+        expect(computeNubanCheckDigit('058', '012345678')).toBe(5);
+        expect(computeNubanCheckDigit('044', '123456789')).toBe(5);
+    });
+});
+
+describe('isValidNuban', () => {
+    it('accepts a number whose tenth digit is the check digit', () => {
+        expect(isValidNuban('0123456785', '058')).toBe(true);
+    });
+
+    it('rejects a wrong check digit, a wrong length and non-digits', () => {
+        expect(isValidNuban('0123456784', '058')).toBe(false);
+        expect(isValidNuban('012345678', '058')).toBe(false);
+        expect(isValidNuban('01234567a5', '058')).toBe(false);
+    });
+});
+
+describe('validateNuban', () => {
+    it('passes a valid number for the selected bank', () => {
+        expect(validateNuban(' 0123456785 ', 'guaranty trust bank', banks)).toMatchObject({ isValid: true, isChecked: true });
+    });
+
+    it('suggests the banks the number would be valid for', () => {
+        const result = validateNuban('1234567895', 'Guaranty Trust Bank', banks);
+        expect(result.isValid).toBe(false);
+        expect(result.suggestedBanks).toEqual(['Access Bank']);
+    });
+
+    it('does not put the account number in the message', () => {
+        const result = validateNuban('1234567895', 'Guaranty Trust Bank', banks);
+        expect(result.message).toContain('Guaranty Trust Bank');
+        expect(result.message).not.toContain('1234567895');
+    });
+
+    it('checks microfinance numbers against 9 and the CBN code', () => {
+        expect(validateNuban('2003456783', 'Kuda Microfinance Bank', banks)).toMatchObject({ isValid: true, isChecked: true });
+        expect(validateNuban('2003456784', 'Kuda Microfinance Bank', banks).isValid).toBe(false);
+    });
+
+    it('does not check mobile money wallet numbers or suggest wallets', () => {
+        expect(validateNuban('8031234567', 'OPay Digital Services', banks)).toMatchObject({ isValid: true, isChecked: false });
+        expect(validateNuban('1234567895', 'Guaranty Trust Bank', banks).suggestedBanks).not.toContain('OPay Digital Services');
+    });
+
+    it('leaves banks outside the registry to the verification service', () => {
+        expect(validateNuban('1234567890', 'Unknown Bank', banks)).toMatchObject({ isValid: true, isChecked: false });
+    });
+
+    it('rejects numbers that are not 10 digits', () => {
+        expect(validateNuban('12345', 'Access Bank', banks).isValid).toBe(false);
+    });
+});
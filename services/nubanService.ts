@@ -0,0 +1,103 @@
+import { BankData, BankType } from '../types';
+
+// CBN NUBAN weighting applied to the 6-digit institution code followed by the 9-digit serial number.
+const NUBAN_WEIGHTS = [3, 7, 3, 3, 7, 3, 3, 7, 3, 3, 7, 3, 3, 7, 3];
+
+export interface NubanValidationResult {
+    isValid: boolean;
+    // False when the bank is not in the registry and the check digit could not be computed.
+    isChecked: boolean;
+    message: string;
+    suggestedBanks: string[];
+}
+
+/**
+ * Returns the institution code used in the NUBAN check-digit calculation.
+ * Deposit money banks use their 3-digit CBN code; other institutions use "9" followed by their 5-digit CBN code.
+ * @param bank The bank to get the code for.
+ * @returns The institution code.
+ */
+export const getInstitutionCode = (bank: BankData): string => {
+    if (bank.type === BankType.COMMERCIAL || bank.cbnCode.length !== 5) return bank.cbnCode;
+    return `9${bank.cbnCode}`;
+};
+
+/**
+ * Whether the bank's account numbers follow the NUBAN check-digit rule.
+ * Mobile money wallets are numbered from the holder's phone number, so their numbers cannot be checked.
+ * @param bank The bank.
+ */
+export const hasNubanCheckDigit = (bank: BankData): boolean => bank.type !== BankType.MOBILE_MONEY;
+
+/**
+ * Computes the NUBAN check digit for a serial number at the given institution.
+ * @param institutionCode The 3-digit CBN bank code or 6-digit institution code.
+ * @param serialNumber The first 9 digits of the account number.
+ * @returns The expected 10th digit of the account number.
+ */
+export const computeNubanCheckDigit = (institutionCode: string, serialNumber: string): number => {
+    const digits = `${institutionCode.padStart(6, '0')}${serialNumber}`;
+    const sum = digits
+        .split('')
+        .reduce((acc, digit, index) => acc + Number(digit) * NUBAN_WEIGHTS[index], 0);
+    const checkDigit = 10 - (sum % 10);
+    return checkDigit === 10 ? 0 : checkDigit;
+};
+
+/**
+ * Checks whether a 10-digit account number is a valid NUBAN for the given institution.
+ * @param accountNumber The account number to check.
+ * @param institutionCode The 3-digit CBN bank code or 6-digit institution code.
+ * @returns True if the check digit matches.
+ */
+export const isValidNuban = (accountNumber: string, institutionCode: string): boolean => {
+    if (!/^\d{10}$/.test(accountNumber) || !/^\d{3}(\d{3})?$/.test(institutionCode)) {
+        return false;
+    }
+    return computeNubanCheckDigit(institutionCode, accountNumber.slice(0, 9)) === Number(accountNumber[9]);
+};
+
+/**
+ * Lists the banks for which the account number passes the NUBAN check.
+ * @param accountNumber The account number to check.
+ * @param banks The banks to consider.
+ * @returns The names of all matching banks.
+ */
+export const findBanksForNuban = (accountNumber: string, banks: BankData[]): string[] => {
+    return banks
+        .filter(bank => hasNubanCheckDigit(bank) && isValidNuban(accountNumber, getInstitutionCode(bank)))
+        .map(bank => bank.name);
+};
+
+/**
+ * Validates an account number against the selected bank locally, without calling any verification service.
+ * @param accountNumber The 10-digit account number.
+ * @param bankName The name of the selected bank.
+ * @param banks The list of known banks.
+ * @returns The validation outcome, including the banks the number would be valid for on a mismatch.
+ */
+export const validateNuban = (accountNumber: string, bankName: string, banks: BankData[]): NubanValidationResult => {
+    const trimmedAccount = accountNumber.trim();
+    if (!/^\d{10}$/.test(trimmedAccount)) {
+        return { isValid: false, isChecked: true, message: 'Account number must be 10 digits.', suggestedBanks: [] };
+    }
+
+    const normalizedBankName = bankName.trim().toLowerCase();
+    const bank = banks.find(b => b.name.toLowerCase() === normalizedBankName);
+    if (!bank || !hasNubanCheckDigit(bank)) {
+        // Unknown bank or wallet number: leave the decision to the verification service.
+        return { isValid: true, isChecked: false, message: '', suggestedBanks: [] };
+    }
+
+    if (isValidNuban(trimmedAccount, getInstitutionCode(bank))) {
+        return { isValid: true, isChecked: true, message: '', suggestedBanks: [] };
+    }
+
+    const suggestedBanks = findBanksForNuban(trimmedAccount, banks);
+    // The number itself is left out: messages are exported as they are, even when account numbers are masked
+    let message = `Check digit mismatch: the account number is not valid for ${bank.name}.`;
+    if (suggestedBanks.length > 0) {
+        message += ` It would be valid for: ${suggestedBanks.join(', ')}.`;
+    }
+    return { isValid: false, isChecked: true, message, suggestedBanks };
+};
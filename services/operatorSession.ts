@@ -0,0 +1,26 @@
+const OPERATOR_STORAGE_KEY = 'operatorName';
+
+/**
+ * Loads the name of the operator using this browser, as last entered.
+ * @returns The operator name, or an empty string if none has been entered.
+ */
+export const loadOperatorName = (): string => {
+    try {
+        return localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '';
+    } catch (error) {
+        console.error("Failed to load operator name:", error);
+        return '';
+    }
+};
+
+/**
+ * Remembers the operator name for the next session.
+ * @param name The operator name.
+ */
+export const saveOperatorName = (name: string) => {
+    try {
+        localStorage.setItem(OPERATOR_STORAGE_KEY, name);
+    } catch (error) {
+        console.error("Failed to save operator name:", error);
+    }
+};
@@ -0,0 +1,188 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, BankData, BankType, BulkRowResult, NameMatchGrade, PaymentTemplate, VerificationFailureCode } from '../types';
+import { appendExportEntry } from './auditLog';
+import { downloadBlob } from './download';
+import { matchNames } from './nameMatcher';
+import { createPaymentFile, downloadPaymentFile, formatKobo, parseAmountKobo, preparePaymentRecords, validatePaymentTemplate } from './paymentFiles';
+
+vi.mock('./auditLog', () => ({ appendExportEntry: vi.fn() }));
+vi.mock('./download', () => ({ downloadBlob: vi.fn() }));
+
+const BANKS: BankData[] = [
+    { name: 'Access Bank Plc', shortName: 'Access', cbnCode: '044', nipCode: '000014', sortCode: '044150149', aliases: [], type: BankType.COMMERCIAL },
+    { name: 'Zenith Bank Plc', shortName: 'Zenith', cbnCode: '057', nipCode: '000015', sortCode: '057150013', aliases: [], type: BankType.COMMERCIAL },
+    { name: 'OPay', shortName: 'OPay', cbnCode: '100004', nipCode: '100004', sortCode: '100004', aliases: [], type: BankType.MOBILE_MONEY },
+];
+
+const account = (beneficiaryName: string, bankName: string, accountNumber: string, amount: string, narration?: string): AccountDetails => ({
+    beneficiaryName, bankName, accountNumber, bvn: '22123458901', amount, ...(narration ? { narration } : {}),
+});
+
+const accounts = [
+    { ...account('Ada Lovelace', 'Access Bank Plc', '0123456789', '15,000.50', 'March stipend'), sortCode: '044082015' },
+    { ...account('John Doe', 'zenith bank plc', '1234567895', 'NGN 2500'), sortCode: '057081022' },
+];
+
+const verifiedAs = (rowIndex: number, registeredName: string): BulkRowResult => ({
+    rowIndex, attempts: 1, success: true, message: 'Verified.', data: accounts[rowIndex], registeredName, nameMatchGrade: NameMatchGrade.STRONG,
+});
+
+const results = [verifiedAs(0, 'ADA LOVELACE'), verifiedAs(1, 'DOE JOHN')];
+
+const readLines = async (blob: Blob) => (await blob.text()).split('\r\n').filter(Boolean);
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+describe('parseAmountKobo', () => {
+    it('reads naira amounts exactly', () => {
+        expect(parseAmountKobo('15,000.50')).toBe(1500050);
+        expect(parseAmountKobo('₦ 0.1')).toBe(10);
+        expect(parseAmountKobo('NGN 2500')).toBe(250000);
+        expect(parseAmountKobo('1.005')).toBeNull();
+        expect(parseAmountKobo('-5')).toBeNull();
+        expect(parseAmountKobo('0')).toBeNull();
+        expect(formatKobo(1500050)).toBe('15000.50');
+    });
+});
+
+describe('preparePaymentRecords', () => {
+    it('pays to the registered name with the registry codes', () => {
+        const { records, problems } = preparePaymentRecords(accounts, results, BANKS, 'Salary');
+        expect(problems).toEqual([]);
+        expect(records[1]).toMatchObject({ serialNumber: 2, beneficiaryName: 'DOE JOHN', bankName: 'Zenith Bank Plc', bankCode: '000015', amountKobo: 250000, narration: 'Salary' });
+    });
+
+    it('lists every row that cannot be paid', () => {
+        const rows = [...accounts, account('Emeka Obi', 'Unknown Bank', '0000000001', 'ten'), account('Sani Musa', 'Access Bank Plc', '0000000002', '100')];
+        const rowResults: BulkRowResult[] = [
+            { ...results[0], nameMatchGrade: NameMatchGrade.MISMATCH },
+            { ...results[1], success: false, failureCode: VerificationFailureCode.ACCOUNT_NOT_FOUND, message: 'Account not found.' },
+            { ...verifiedAs(2, 'EMEKA OBI'), data: rows[2] },
+        ];
+        const { records, problems } = preparePaymentRecords(rows, rowResults, BANKS);
+        expect(records).toEqual([]);
+        expect(problems).toEqual([
+            'Row 1 (Ada Lovelace) has a name mismatch (registered as ADA LOVELACE).',
+            'Row 2 (John Doe) is not verified: Account not found.',
+            'Row 3 (Emeka Obi): "ten" is not a valid naira amount.',
+            'Row 3 (Emeka Obi) has no narration.',
+            'Row 3 (Emeka Obi): Unknown Bank is not in the bank registry.',
+            'Row 4 (Sani Musa) has not been verified.',
+        ]);
+    });
+
+    it('holds back a row whose surname differs from the registered name', () => {
+        const rows = [account('Aisha Bello', 'Access Bank Plc', '0000000017', '5000', 'Stipend')];
+        const { grade, score } = matchNames('Aisha Bello', 'AISHA OKAFOR');
+        const rowResults: BulkRowResult[] = [{ ...verifiedAs(0, 'AISHA OKAFOR'), data: rows[0], nameMatchGrade: grade, nameMatchScore: score }];
+        const { records, problems } = preparePaymentRecords(rows, rowResults, BANKS);
+        expect(grade).toBe(NameMatchGrade.PARTIAL);
+        expect(records).toEqual([]);
+        expect(problems).toEqual([
+            'Row 1 (Aisha Bello) only partly matches the registered name AISHA OKAFOR. Correct the name and re-verify the row, or remove it from the batch.',
+        ]);
+    });
+});
+
+describe('preparePaymentRecords for NEFT', () => {
+    it('needs a branch sort code of the row\'s bank', () => {
+        const rows = [
+            account('Ada Lovelace', 'Access Bank Plc', '0123456789', '100', 'Salary'),
+            { ...account('John Doe', 'Zenith Bank Plc', '1234567895', '100', 'Salary'), sortCode: '044082015' },
+        ];
+        const { records, problems } = preparePaymentRecords(rows, results, BANKS, '', 'NEFT');
+        expect(records).toEqual([]);
+        expect(problems).toEqual([
+            'Row 1 (Ada Lovelace) has no branch sort code, which NEFT needs.',
+            'Row 2 (John Doe): "044082015" is not a branch sort code of Zenith Bank Plc.',
+        ]);
+        // Other layouts fall back to the head-office sort code
+        expect(preparePaymentRecords(rows.slice(0, 1), results, BANKS).records[0].sortCode).toBe('044150149');
+    });
+
+    it('refuses mobile money wallets', () => {
+        const rows = [account('Sani Musa', 'OPay', '8012345678', '100', 'Salary')];
+        const { problems } = preparePaymentRecords(rows, [{ ...verifiedAs(0, 'SANI MUSA'), data: rows[0] }], BANKS, '', 'NEFT');
+        expect(problems).toEqual(['Row 1 (Sani Musa): OPay is a mobile money operator, which NEFT does not reach. Pay it through NIP.']);
+        expect(preparePaymentRecords(rows, [{ ...verifiedAs(0, 'SANI MUSA'), data: rows[0] }], BANKS, '', 'NIP').problems).toEqual([]);
+    });
+});
+
+describe('createPaymentFile', () => {
+    it('writes a NIBSS NEFT schedule with sort codes and a checksummed trailer', async () => {
+        const { blob, fileName, control } = await createPaymentFile(accounts, results, BANKS, { kind: 'nibss', channel: 'NEFT' }, { reference: 'MAR-2026', defaultNarration: 'Salary' });
+        const lines = await readLines(blob);
+        expect(fileName).toBe('nibss_neft_MAR-2026.csv');
+        expect(lines[0]).toMatch(/^H,MAR-2026,NEFT,\d{4}-\d{2}-\d{2},2,17500\.50$/);
+        expect(lines.slice(1, 3)).toEqual([
+            'D,1,0123456789,044082015,15000.50,ADA LOVELACE,March stipend',
+            'D,2,1234567895,057081022,2500.00,DOE JOHN,Salary',
+        ]);
+        expect(control).toEqual({ recordCount: 2, totalAmountKobo: 1750050, checksum: await sha256(lines.slice(1, 3).join('\r\n')) });
+        expect(lines[3]).toBe(`T,2,17500.50,${control.checksum}`);
+    });
+
+    it('writes fixed-width templates and refuses values that do not fit', async () => {
+        const template: PaymentTemplate = {
+            name: 'Demo Bank', kind: 'fixed-width', amountUnit: 'kobo',
+            columns: [{ field: 'accountNumber', width: 10 }, { field: 'amount', width: 12, padChar: '0' }, { field: 'beneficiaryName', width: 12 }],
+        };
+        const { blob, fileName } = await createPaymentFile(accounts, results, BANKS, { kind: 'template', template }, { reference: 'R1', defaultNarration: 'Salary' });
+        expect(fileName).toBe('demo_bank_R1.txt');
+        expect((await readLines(blob))[0]).toBe('0123456789000001500050ADA LOVELACE');
+
+        const narrow = { ...template, columns: [{ field: 'beneficiaryName' as const, width: 8 }] };
+        await expect(createPaymentFile(accounts, results, BANKS, { kind: 'template', template: narrow }, { reference: 'R1', defaultNarration: 'Salary' }))
+            .rejects.toThrow('beneficiaryName "ADA LOVELACE" is longer than 8 characters');
+    });
+
+    it('refuses a bad reference', async () => {
+        await expect(createPaymentFile(accounts, results, BANKS, { kind: 'nibss', channel: 'NIP' }, { reference: 'March run', defaultNarration: 'Salary' }))
+            .rejects.toThrow('The batch reference must be 1 to 30 letters');
+    });
+});
+
+describe('validatePaymentTemplate', () => {
+    it('accepts a complete template and explains what is wrong with others', () => {
+        expect(validatePaymentTemplate({ name: 'Demo', kind: 'csv', columns: [{ field: 'accountNumber' }] })).toEqual([]);
+        expect(validatePaymentTemplate({ name: 'Demo', kind: 'fixed-width', delimiter: ';;', columns: [{ field: 'accountNumber' }] })).toEqual([
+            'Template delimiter must be a single character.',
+            'Column 1 (accountNumber): fixed-width columns need a positive width.',
+        ]);
+        expect(validatePaymentTemplate({ kind: 'csv', columns: [] })).toEqual(['Template name is required.', 'Template must have at least one column.']);
+    });
+});
+
+describe('downloadPaymentFile', () => {
+    beforeEach(() => {
+        vi.mocked(appendExportEntry).mockReset();
+        vi.mocked(downloadBlob).mockReset();
+    });
+
+    it('records the download in the audit log before downloading', async () => {
+        vi.mocked(appendExportEntry).mockImplementation(async () => {
+            expect(downloadBlob).not.toHaveBeenCalled();
+            return undefined as never;
+        });
+        const { fileName } = await downloadPaymentFile(accounts, results, BANKS, { kind: 'nibss', channel: 'NIP' }, { reference: 'R1', defaultNarration: 'Salary' }, 'Ada', 'job-1', 'approved');
+        expect(appendExportEntry).toHaveBeenCalledWith({ operator: 'Ada', fileName, rowCount: 2, piiMode: 'full', jobId: 'job-1' });
+        expect(downloadBlob).toHaveBeenCalledWith(expect.any(Blob), fileName);
+    });
+
+    it.each(['submitted', 'rejected', undefined] as const)('refuses a batch that is %s instead of approved', async approvalState => {
+        await expect(downloadPaymentFile(accounts, results, BANKS, { kind: 'nibss', channel: 'NIP' }, { reference: 'R1', defaultNarration: 'Salary' }, 'Ada', 'job-1', approvalState))
+            .rejects.toThrow('the batch has not been approved for payment');
+        expect(appendExportEntry).not.toHaveBeenCalled();
+        expect(downloadBlob).not.toHaveBeenCalled();
+    });
+
+    it('downloads nothing if the audit entry cannot be written', async () => {
+        vi.mocked(appendExportEntry).mockRejectedValue(new Error('Storage is full.'));
+        await expect(downloadPaymentFile(accounts, results, BANKS, { kind: 'nibss', channel: 'NIP' }, { reference: 'R1', defaultNarration: 'Salary' }, 'Ada', null, 'approved'))
+            .rejects.toThrow('Storage is full.');
+        expect(downloadBlob).not.toHaveBeenCalled();
+    });
+});
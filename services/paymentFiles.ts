@@ -0,0 +1,409 @@
+import { AccountDetails, BankData, BatchApprovalState, BankType, BulkRowResult, NameMatchGrade, NibssChannel, PaymentFileControl, PaymentTemplate, PaymentTemplateColumn, PaymentTemplateField, VerificationFailureCode } from '../types';
+import { appendExportEntry } from './auditLog';
+import { isPaymentExportAllowed } from './batchApproval';
+import { downloadBlob } from './download';
+
+/** One payment instruction, built from a verified row. */
+export interface PaymentRecord {
+    rowIndex: number;
+    serialNumber: number;
+    beneficiaryName: string;
+    accountNumber: string;
+    bankName: string;
+    // NIP institution code.
+    bankCode: string;
+    // The row's branch sort code, or the bank's head-office code for layouts other than NEFT.
+    sortCode: string;
+    amountKobo: number;
+    narration: string;
+}
+
+export type PaymentFileLayout =
+    | { kind: 'nibss'; channel: NibssChannel; template?: undefined }
+    | { kind: 'template'; template: PaymentTemplate; channel?: undefined };
+
+export interface PaymentFileOptions {
+    // Batch reference written to the file and its name.
+    reference: string;
+    // Used for rows without their own narration.
+    defaultNarration?: string;
+}
+
+const TEMPLATES_STORAGE_KEY = 'paymentTemplates';
+// Bank upload portals expect Windows line endings.
+const EOL = '\r\n';
+const TEMPLATE_FIELDS: PaymentTemplateField[] = ['serialNumber', 'reference', 'beneficiaryName', 'accountNumber', 'bankName', 'bankCode', 'sortCode', 'amount', 'narration'];
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Parses a naira amount such as `15,000.50` or `NGN 2500` into kobo, avoiding floating-point rounding.
+ * @param text The amount as written in the file.
+ * @returns The amount in kobo, or null if it is not a positive amount with at most two decimals.
+ */
+export const parseAmountKobo = (text: string): number | null => {
+    const cleaned = text.trim().replace(/^(₦|NGN|N)\s*/i, '').replace(/,/g, '');
+    const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(cleaned);
+    if (!match) return null;
+    const kobo = Number(match[1]) * 100 + Number((match[2] ?? '').padEnd(2, '0'));
+    return kobo > 0 && Number.isSafeInteger(kobo) ? kobo : null;
+};
+
+/**
+ * Formats kobo as naira with two decimals and no separators, e.g. `15000.50`.
+ * @param kobo The amount in kobo.
+ * @returns The formatted amount.
+ */
+export const formatKobo = (kobo: number): string => `${Math.floor(kobo / 100)}.${String(kobo % 100).padStart(2, '0')}`;
+
+/**
+ * Builds payment records from a verified batch. Every row must have a successful verification without a name
+ * mismatch or partial name match, a valid amount, a narration and a bank in the registry; otherwise it is listed as a problem.
+ * NEFT rows also need a branch sort code of their bank, and cannot pay mobile money wallets.
+ * @param accounts The batch rows, with their amount, narration and branch sort code.
+ * @param results The verification results, keyed by rowIndex.
+ * @param banks The bank registry, for sort codes and institution codes.
+ * @param defaultNarration Narration for rows without their own.
+ * @param channel The NIBSS channel the file is for, if it is a NIBSS schedule.
+ * @returns The records in row order, and the problems that block the file.
+ */
+export const preparePaymentRecords = (
+    accounts: AccountDetails[],
+    results: BulkRowResult[],
+    banks: BankData[],
+    defaultNarration: string = '',
+    channel?: NibssChannel,
+): { records: PaymentRecord[]; problems: string[] } => {
+    const resultsByRow = new Map(results.map(result => [result.rowIndex, result]));
+    const records: PaymentRecord[] = [];
+    const problems: string[] = [];
+
+    accounts.forEach((account, rowIndex) => {
+        const label = `Row ${rowIndex + 1} (${account.beneficiaryName.trim() || 'no name'})`;
+        const result = resultsByRow.get(rowIndex);
+        if (!result) {
+            problems.push(`${label} has not been verified.`);
+            return;
+        }
+        if (result.failureCode === VerificationFailureCode.NAME_MISMATCH || result.nameMatchGrade === NameMatchGrade.MISMATCH) {
+            problems.push(`${label} has a name mismatch${result.registeredName ? ` (registered as ${result.registeredName})` : ''}.`);
+            return;
+        }
+        // One shared name, e.g. the same first name with another surname, may be a different person
+        if (result.nameMatchGrade === NameMatchGrade.PARTIAL) {
+            problems.push(`${label} only partly matches the registered name${result.registeredName ? ` ${result.registeredName}` : ''}. Correct the name and re-verify the row, or remove it from the batch.`);
+            return;
+        }
+        if (!result.success) {
+            problems.push(`${label} is not verified: ${result.message}`);
+            return;
+        }
+
+        const rowProblems: string[] = [];
+        const amountKobo = parseAmountKobo(account.amount ?? '');
+        if (!account.amount?.trim()) {
+            rowProblems.push(`${label} has no amount.`);
+        } else if (amountKobo === null) {
+            rowProblems.push(`${label}: "${account.amount}" is not a valid naira amount.`);
+        }
+        const narration = account.narration?.trim() || defaultNarration.trim();
+        if (!narration) {
+            rowProblems.push(`${label} has no narration.`);
+        }
+        const bank = banks.find(b => b.name.toLowerCase() === account.bankName.trim().toLowerCase());
+        const branchSortCode = account.sortCode?.trim() ?? '';
+        if (!bank) {
+            rowProblems.push(`${label}: ${account.bankName} is not in the bank registry.`);
+        } else if (channel === 'NEFT') {
+            if (bank.type === BankType.MOBILE_MONEY) {
+                rowProblems.push(`${label}: ${bank.name} is a mobile money operator, which NEFT does not reach. Pay it through NIP.`);
+            } else if (!branchSortCode) {
+                rowProblems.push(`${label} has no branch sort code, which NEFT needs.`);
+            } else if (!/^\d{9}$/.test(branchSortCode) || !branchSortCode.startsWith(bank.cbnCode)) {
+                rowProblems.push(`${label}: "${branchSortCode}" is not a branch sort code of ${bank.name}.`);
+            }
+        }
+        if (rowProblems.length > 0) {
+            problems.push(...rowProblems);
+            return;
+        }
+
+        records.push({
+            rowIndex,
+            serialNumber: records.length + 1,
+            // Pay to the name the bank holds for the account
+            beneficiaryName: result.registeredName || account.beneficiaryName.trim(),
+            accountNumber: account.accountNumber.trim(),
+            bankName: bank!.name,
+            bankCode: bank!.nipCode,
+            sortCode: branchSortCode || bank!.sortCode,
+            amountKobo: amountKobo!,
+            narration,
+        });
+    });
+
+    return { records, problems };
+};
+
+// Line breaks inside a value would split a record in two.
+const cleanValue = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+const escapeDelimited = (value: string, delimiter: string): string => {
+    const text = cleanValue(value);
+    return text.includes(delimiter) || text.includes('"') ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const joinDelimited = (values: string[], delimiter: string = ','): string =>
+    values.map(value => escapeDelimited(value, delimiter)).join(delimiter);
+
+const getControl = async (records: PaymentRecord[], detailLines: string[]): Promise<PaymentFileControl> => ({
+    recordCount: records.length,
+    totalAmountKobo: records.reduce((sum, record) => sum + record.amountKobo, 0),
+    checksum: await sha256(detailLines.join(EOL)),
+});
+
+/**
+ * Writes a NIBSS bulk schedule: a header record, one detail record per payment and a trailer with the
+ * control totals and checksum. NEFT schedules carry branch sort codes, NIP schedules institution codes.
+ */
+const buildNibssSchedule = async (records: PaymentRecord[], channel: NibssChannel, reference: string): Promise<{ text: string; control: PaymentFileControl }> => {
+    const details = records.map(record => joinDelimited([
+        'D',
+        String(record.serialNumber),
+        record.accountNumber,
+        channel === 'NEFT' ? record.sortCode : record.bankCode,
+        formatKobo(record.amountKobo),
+        record.beneficiaryName,
+        record.narration,
+    ]));
+    const control = await getControl(records, details);
+    const header = joinDelimited(['H', reference, channel, new Date().toISOString().slice(0, 10), String(control.recordCount), formatKobo(control.totalAmountKobo)]);
+    const trailer = joinDelimited(['T', String(control.recordCount), formatKobo(control.totalAmountKobo), control.checksum]);
+    return { text: [header, ...details, trailer].join(EOL) + EOL, control };
+};
+
+const getTemplateAmount = (kobo: number, template: PaymentTemplate): string =>
+    template.amountUnit === 'kobo' ? String(kobo) : formatKobo(kobo);
+
+const getTemplateValue = (record: PaymentRecord, field: PaymentTemplateField, template: PaymentTemplate, reference: string): string => {
+    switch (field) {
+        case 'serialNumber': return String(record.serialNumber);
+        case 'reference': return reference;
+        case 'amount': return getTemplateAmount(record.amountKobo, template);
+        default: return cleanValue(record[field]);
+    }
+};
+
+const padField = (value: string, column: PaymentTemplateColumn, width: number): string => {
+    const padChar = column.padChar ?? ' ';
+    const align = column.align ?? (column.field === 'amount' || column.field === 'serialNumber' ? 'right' : 'left');
+    return align === 'right' ? value.padStart(width, padChar) : value.padEnd(width, padChar);
+};
+
+/**
+ * Writes a file in a bank's own layout, followed by a trailer with the control totals and checksum.
+ * Fixed-width values that do not fit their column are refused, since a cut name or account number would pay the wrong person.
+ */
+const buildTemplateFile = async (records: PaymentRecord[], template: PaymentTemplate, reference: string): Promise<{ text: string; control: PaymentFileControl }> => {
+    const delimiter = template.delimiter ?? ',';
+    const tooLong: string[] = [];
+    const details = records.map(record => {
+        if (template.kind === 'csv') {
+            return joinDelimited(template.columns.map(column => getTemplateValue(record, column.field, template, reference)), delimiter);
+        }
+        return template.columns.map(column => {
+            const value = getTemplateValue(record, column.field, template, reference);
+            if (value.length > column.width!) {
+                tooLong.push(`Row ${record.rowIndex + 1}: ${column.field} "${value}" is longer than ${column.width} characters.`);
+            }
+            return padField(value, column, column.width!);
+        }).join('');
+    });
+    if (tooLong.length > 0) {
+        throw new Error(`The payment file was not generated:\n${tooLong.join('\n')}`);
+    }
+
+    const control = await getControl(records, details);
+    const lines = [...details];
+    if (template.kind === 'csv') {
+        if (template.includeHeader) {
+            lines.unshift(joinDelimited(template.columns.map(column => column.header ?? column.field), delimiter));
+        }
+        lines.push(joinDelimited(['TRAILER', String(control.recordCount), getTemplateAmount(control.totalAmountKobo, template), control.checksum], delimiter));
+    } else {
+        lines.push(`T${String(control.recordCount).padStart(9, '0')}${getTemplateAmount(control.totalAmountKobo, template).padStart(18, '0')}${control.checksum}`);
+    }
+    return { text: lines.join(EOL) + EOL, control };
+};
+
+const toFileSlug = (text: string): string => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Generates a bank-ready bulk payment file from a verified batch.
+ * @param accounts The batch rows, with their amount and narration.
+ * @param results The verification results, keyed by rowIndex.
+ * @param banks The bank registry.
+ * @param layout A NIBSS schedule or an imported bank template.
+ * @param options The batch reference and default narration.
+ * @returns The file, its name, and the control totals written to its trailer.
+ * @throws If any row is unverified, has a name mismatch or lacks payment details, or a value does not fit the template.
+ */
+export const createPaymentFile = async (
+    accounts: AccountDetails[],
+    results: BulkRowResult[],
+    banks: BankData[],
+    layout: PaymentFileLayout,
+    options: PaymentFileOptions,
+): Promise<{ blob: Blob; fileName: string; control: PaymentFileControl }> => {
+    const reference = options.reference.trim();
+    const { records, problems } = preparePaymentRecords(accounts, results, banks, options.defaultNarration, layout.channel);
+    if (!/^[A-Za-z0-9_-]{1,30}$/.test(reference)) {
+        problems.unshift('The batch reference must be 1 to 30 letters, digits, dashes or underscores.');
+    }
+    if (records.length === 0 && problems.length === 0) {
+        problems.push('The batch has no rows to pay.');
+    }
+    if (problems.length > 0) {
+        throw new Error(`The payment file was not generated:\n${problems.join('\n')}`);
+    }
+
+    if (layout.kind === 'nibss') {
+        const { text, control } = await buildNibssSchedule(records, layout.channel, reference);
+        return { blob: new Blob([text], { type: 'text/csv;charset=utf-8;' }), fileName: `nibss_${layout.channel.toLowerCase()}_${reference}.csv`, control };
+    }
+    const { text, control } = await buildTemplateFile(records, layout.template, reference);
+    const extension = layout.template.kind === 'csv' ? 'csv' : 'txt';
+    return { blob: new Blob([text], { type: 'text/plain;charset=utf-8;' }), fileName: `${toFileSlug(layout.template.name)}_${reference}.${extension}`, control };
+};
+
+/**
+ * Generates a payment file and downloads it. Payment files hold full account numbers, so the download is
+ * written to the audit log first, and nothing is downloaded if that fails. Only approved batches can be paid.
+ * @param accounts The batch rows, with their amount and narration.
+ * @param results The verification results, keyed by rowIndex.
+ * @param banks The bank registry.
+ * @param layout A NIBSS schedule or an imported bank template.
+ * @param options The batch reference and default narration.
+ * @param operator The operator downloading the file.
+ * @param jobId The saved bulk job, if any.
+ * @param approvalState The batch's approval state, or undefined for a batch that was not saved.
+ * @returns The file's name and the control totals written to its trailer.
+ * @throws If the batch is not approved, or the file cannot be generated.
+ */
+export const downloadPaymentFile = async (
+    accounts: AccountDetails[],
+    results: BulkRowResult[],
+    banks: BankData[],
+    layout: PaymentFileLayout,
+    options: PaymentFileOptions,
+    operator: string,
+    jobId: string | null,
+    approvalState: BatchApprovalState | undefined,
+): Promise<{ fileName: string; control: PaymentFileControl }> => {
+    if (!approvalState || !isPaymentExportAllowed(approvalState)) {
+        throw new Error('The payment file was not generated: the batch has not been approved for payment.');
+    }
+    const { blob, fileName, control } = await createPaymentFile(accounts, results, banks, layout, options);
+    await appendExportEntry({ operator, fileName, rowCount: control.recordCount, piiMode: 'full', jobId });
+    downloadBlob(blob, fileName);
+    return { fileName, control };
+};
+
+/**
+ * Validates an imported bank template.
+ * @param template The parsed template JSON.
+ * @returns A list of problems; empty if the template is usable.
+ */
+export const validatePaymentTemplate = (template: Partial<PaymentTemplate>): string[] => {
+    if (!template || typeof template !== 'object' || Array.isArray(template)) {
+        return ['The template must be an object.'];
+    }
+    const problems: string[] = [];
+    if (typeof template.name !== 'string' || !template.name.trim()) {
+        problems.push('Template name is required.');
+    }
+    if (template.kind !== 'csv' && template.kind !== 'fixed-width') {
+        problems.push('Template kind must be "csv" or "fixed-width".');
+    }
+    if (template.delimiter !== undefined && (typeof template.delimiter !== 'string' || template.delimiter.length !== 1)) {
+        problems.push('Template delimiter must be a single character.');
+    }
+    if (template.amountUnit !== undefined && template.amountUnit !== 'naira' && template.amountUnit !== 'kobo') {
+        problems.push('Template amountUnit must be "naira" or "kobo".');
+    }
+    if (!Array.isArray(template.columns) || template.columns.length === 0) {
+        problems.push('Template must have at least one column.');
+        return problems;
+    }
+    template.columns.forEach((column, index) => {
+        const label = `Column ${index + 1}`;
+        if (!column || !TEMPLATE_FIELDS.includes(column.field)) {
+            problems.push(`${label}: field must be one of ${TEMPLATE_FIELDS.join(', ')}.`);
+            return;
+        }
+        if (template.kind === 'fixed-width' && !(Number.isInteger(column.width) && column.width! > 0)) {
+            problems.push(`${label} (${column.field}): fixed-width columns need a positive width.`);
+        }
+        if (column.padChar !== undefined && (typeof column.padChar !== 'string' || column.padChar.length !== 1)) {
+            problems.push(`${label} (${column.field}): padChar must be a single character.`);
+        }
+        if (column.align !== undefined && column.align !== 'left' && column.align !== 'right') {
+            problems.push(`${label} (${column.field}): align must be "left" or "right".`);
+        }
+    });
+    return problems;
+};
+
+/**
+ * Loads the imported bank templates.
+ */
+export const loadPaymentTemplates = (): PaymentTemplate[] => {
+    try {
+        const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        return stored ? JSON.parse(stored) as PaymentTemplate[] : [];
+    } catch (error) {
+        console.error("Failed to load payment templates:", error);
+        return [];
+    }
+};
+
+const saveTemplates = (templates: PaymentTemplate[]) => {
+    try {
+        localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+        console.error("Failed to save payment templates:", error);
+    }
+};
+
+/**
+ * Saves an imported bank template, replacing any template with the same name.
+ * @param template The parsed template JSON.
+ * @returns The updated list of templates.
+ * @throws If the template fails validation.
+ */
+export const importPaymentTemplate = (template: unknown): PaymentTemplate[] => {
+    const problems = validatePaymentTemplate(template as Partial<PaymentTemplate>);
+    if (problems.length > 0) {
+        throw new Error(`The template could not be imported:\n${problems.join('\n')}`);
+    }
+    const imported = template as PaymentTemplate;
+    const templates = loadPaymentTemplates().filter(t => t.name !== imported.name);
+    templates.push(imported);
+    templates.sort((a, b) => a.name.localeCompare(b.name));
+    saveTemplates(templates);
+    return templates;
+};
+
+/**
+ * Deletes a named bank template.
+ * @param name The template to delete.
+ * @returns The updated list of templates.
+ */
+export const deletePaymentTemplate = (name: string): PaymentTemplate[] => {
+    const templates = loadPaymentTemplates().filter(template => template.name !== name);
+    saveTemplates(templates);
+    return templates;
+};
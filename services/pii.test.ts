@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { hashAccountNumber, hashBvn, maskAccountNumber, maskBvn, protectResultPii, setPiiHashKey } from './pii';
+
+const key = (fill: number) => new Uint8Array(32).fill(fill);
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+afterEach(() => setPiiHashKey(null));
+
+describe('masking', () => {
+    it('keeps the first 3 and last 4 digits of a BVN', () => {
+        expect(maskBvn('22123458901')).toBe('221****8901');
+    });
+
+    it('keeps the last 4 digits of an account number', () => {
+        expect(maskAccountNumber(' 0123456789 ')).toBe('******6789');
+    });
+
+    it('masks short values completely', () => {
+        expect(maskAccountNumber('123')).toBe('***');
+    });
+});
+
+describe('hashing', () => {
+    it('refuses to hash without a key', async () => {
+        await expect(hashBvn('22123458901')).rejects.toThrow('No PII hashing key is set');
+    });
+
+    it('rejects keys that are too short', async () => {
+        await expect(setPiiHashKey(new Uint8Array(8))).rejects.toThrow('at least 16 bytes');
+    });
+
+    it('is stable for the same key and ignores surrounding spaces', async () => {
+        await setPiiHashKey(key(1));
+        expect(await hashBvn(' 22123458901 ')).toBe(await hashBvn('22123458901'));
+        expect(await hashBvn('22123458901')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('cannot be recomputed without the key', async () => {
+        await setPiiHashKey(key(1));
+        const keyed = await hashBvn('22123458901');
+        expect(keyed).not.toBe(await sha256('bvn:22123458901'));
+        await setPiiHashKey(key(2));
+        expect(await hashBvn('22123458901')).not.toBe(keyed);
+    });
+
+    it('hashes a BVN and an account number with the same digits differently', async () => {
+        await setPiiHashKey(key(1));
+        expect(await hashBvn('0123456789')).not.toBe(await hashAccountNumber('0123456789'));
+    });
+});
+
+describe('protectResultPii', () => {
+    const result = {
+        success: true,
+        message: 'Verified.',
+        data: { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' },
+    };
+
+    it('masks by mode and leaves other fields alone', async () => {
+        const masked = await protectResultPii(result, 'masked');
+        expect(masked.data).toEqual({ ...result.data, accountNumber: '******6789', bvn: '221****8901' });
+        expect(result.data.bvn).toBe('22123458901');
+    });
+
+    it('writes keyed hashes in hashed mode', async () => {
+        await setPiiHashKey(key(1));
+        const hashed = await protectResultPii(result, 'hashed');
+        expect(hashed.data?.bvn).toBe(await hashBvn('22123458901'));
+        expect(hashed.data?.accountNumber).toBe(await hashAccountNumber('0123456789'));
+    });
+
+    it('returns the result unchanged in full mode', async () => {
+        expect(await protectResultPii(result, 'full')).toBe(result);
+    });
+});
@@ -0,0 +1,75 @@
+import { PiiExportMode, VerificationResultData } from '../types';
+
+// Unkeyed hashes of a BVN or account number can be reversed by hashing every possible number,
+// so identifiers are hashed with HMAC and a secret key. The app keeps the key in the vault.
+let hashKey: CryptoKey | null = null;
+
+/**
+ * Sets the secret that BVN and account number hashes are keyed with.
+ * @param secret At least 16 random bytes, or null to forget the key.
+ */
+export const setPiiHashKey = async (secret: Uint8Array<ArrayBuffer> | null): Promise<void> => {
+    if (secret && secret.length < 16) {
+        throw new Error('The PII hashing key must be at least 16 bytes.');
+    }
+    hashKey = secret ? await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']) : null;
+};
+
+const hmacSha256 = async (text: string): Promise<string> => {
+    if (!hashKey) {
+        throw new Error('No PII hashing key is set. Unlock local data to continue.');
+    }
+    const digest = await crypto.subtle.sign('HMAC', hashKey, new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const maskMiddle = (value: string, keepStart: number, keepEnd: number): string => {
+    const text = value.trim();
+    if (text.length <= keepStart + keepEnd) return '*'.repeat(text.length);
+    return text.slice(0, keepStart) + '*'.repeat(text.length - keepStart - keepEnd) + text.slice(text.length - keepEnd);
+};
+
+/**
+ * Masks a BVN for display, keeping the first 3 and last 4 digits, e.g. `221****8901`.
+ * @param bvn The BVN.
+ * @returns The masked BVN.
+ */
+export const maskBvn = (bvn: string): string => maskMiddle(bvn, 3, 4);
+
+/**
+ * Masks an account number, keeping the last 4 digits, e.g. `******6789`.
+ * @param accountNumber The account number.
+ * @returns The masked account number.
+ */
+export const maskAccountNumber = (accountNumber: string): string => maskMiddle(accountNumber, 0, 4);
+
+/**
+ * Hashes a BVN so records can be matched without holding the BVN. The audit log uses the same hash.
+ * @param bvn The BVN.
+ * @returns The hex HMAC-SHA-256 digest.
+ * @throws {Error} If no hashing key is set.
+ */
+export const hashBvn = (bvn: string): Promise<string> => hmacSha256(`bvn:${bvn.trim()}`);
+
+/**
+ * Hashes an account number so records can be matched without holding the number.
+ * @param accountNumber The account number.
+ * @returns The hex HMAC-SHA-256 digest.
+ * @throws {Error} If no hashing key is set.
+ */
+export const hashAccountNumber = (accountNumber: string): Promise<string> => hmacSha256(`account:${accountNumber.trim()}`);
+
+/**
+ * Applies an export mode to the BVN and account number of a result.
+ * @param result The verification result.
+ * @param mode Whether to mask, hash or keep the values.
+ * @returns The result with its identifiers protected.
+ */
+export const protectResultPii = async <T extends VerificationResultData>(result: T, mode: PiiExportMode): Promise<T> => {
+    if (mode === 'full' || !result.data) return result;
+    const { bvn, accountNumber } = result.data;
+    const protectedData = mode === 'masked'
+        ? { bvn: maskBvn(bvn), accountNumber: maskAccountNumber(accountNumber) }
+        : { bvn: await hashBvn(bvn), accountNumber: await hashAccountNumber(accountNumber) };
+    return { ...result, data: { ...result.data, ...protectedData } };
+};
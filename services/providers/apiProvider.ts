@@ -0,0 +1,20 @@
+import { AccountDetails, VerificationProvider, VerificationResultData } from '../../types';
+import { createVerificationApiClient } from '../apiClient';
+
+/**
+ * Creates a provider that forwards verifications to the app's own verification server,
+ * so provider credentials such as the Gemini key stay on the server.
+ * @param baseUrl The server's base URL.
+ * @param apiKey The server's API key, if the caller is not behind a proxy that adds it.
+ * @returns The server-backed verification provider.
+ */
+export const createApiProvider = (baseUrl: string, apiKey?: string): VerificationProvider => {
+    const client = createVerificationApiClient(baseUrl, apiKey);
+    return {
+        id: 'api',
+        displayName: `Verification server (${baseUrl})`,
+        verify: (details: AccountDetails, signal?: AbortSignal): Promise<VerificationResultData> => client.verify(details, signal),
+        // The server already times out and retries each call to the real provider
+        retriesCalls: true,
+    };
+};
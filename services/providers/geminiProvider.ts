@@ -0,0 +1,110 @@
+import { ApiError, Type } from "@google/genai";
+import { AccountDetails, AiBvnMode, VerificationFailureCode, VerificationProvider, VerificationResultData } from '../../types';
+import { getGeminiClient } from '../geminiService';
+import { createFailure, inferFailureCode, VerificationError } from '../verificationFailures';
+import { maskBvn } from '../pii';
+import { isTransientHttpStatus } from '../resilience';
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+const verificationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        success: { type: Type.BOOLEAN },
+        message: { type: Type.STRING },
+        failureCode: {
+            type: Type.STRING,
+            enum: Object.values(VerificationFailureCode),
+            nullable: true
+        },
+        data: {
+            type: Type.OBJECT,
+            properties: {
+                beneficiaryName: { type: Type.STRING },
+                bankName: { type: Type.STRING },
+                accountNumber: { type: Type.STRING },
+                bvn: { type: Type.STRING },
+            },
+            nullable: true
+        }
+    }
+};
+
+// The model is a third party: it only ever sees a masked BVN, or none at all.
+const describeBvn = (bvn: string, bvnMode: AiBvnMode): string => {
+    const digits = bvn.trim();
+    if (bvnMode === 'omitted') {
+        return 'withheld for privacy. Skip every rule that depends on the BVN.';
+    }
+    return `${maskBvn(digits)} (masked for privacy: ${digits.length} digits long, only the first 3 and last 4 are shown)`;
+};
+
+const buildPrompt = (details: AccountDetails, bvnMode: AiBvnMode): string => `
+        You are a mock Nigerian bank account verification API. Your task is to validate the provided banking details.
+        
+        Rules for validation:
+        1.  If the account number has less than 10 digits or the BVN has less than 11 digits, fail the verification with a specific message.
+        2.  If the beneficiary name contains numbers or special characters (except spaces and hyphens), fail the verification.
+        3.  For simulation purposes, if the account number starts with '1' (e.g., 1234567890), treat it as an invalid/non-existent account and fail the verification.
+        4.  For simulation purposes, if the BVN starts with '1' (e.g., 11223344556), treat it as an invalid BVN and fail the verification.
+        5.  In all other cases, assume the verification is successful. The returned beneficiary name should be a slightly more formal version of the input name (e.g., "John Doe" becomes "Doe, John Adewale").
+        6.  The success message should be "Account details verified successfully."
+        7.  The failure message should clearly state the reason (e.g., "Invalid account number.", "BVN does not match records.", "Beneficiary name seems invalid.").
+        8.  On failure, set failureCode to the matching code: INVALID_NUBAN or INVALID_BVN for wrong lengths, INVALID_NAME for rule 2, ACCOUNT_NOT_FOUND for rule 3, BVN_MISMATCH for rule 4. On success, leave failureCode null.
+
+        User Input:
+        - Beneficiary Name: ${details.beneficiaryName}
+        - Bank Name: ${details.bankName}
+        - Account Number: ${details.accountNumber}
+        - BVN: ${describeBvn(details.bvn, bvnMode)}
+
+        Respond with a JSON object that strictly follows the provided schema.
+    `;
+
+/**
+ * Creates a provider that asks a Gemini model to simulate account verification.
+ * @param model The Gemini model to use.
+ * @param bvnMode Whether the prompt carries a masked BVN or none.
+ * @returns The Gemini verification provider.
+ */
+export const createGeminiProvider = (model: string = DEFAULT_MODEL, bvnMode: AiBvnMode = 'masked'): VerificationProvider => ({
+    id: 'gemini',
+    displayName: `Gemini (${model})`,
+    verify: async (details: AccountDetails, signal?: AbortSignal): Promise<VerificationResultData> => {
+        try {
+            const response = await getGeminiClient().models.generateContent({
+                model,
+                contents: buildPrompt(details, bvnMode),
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: verificationSchema,
+                    abortSignal: signal,
+                },
+            });
+
+            const jsonString = response.text;
+            const parsed = JSON.parse(jsonString) as VerificationResultData;
+            // The model only saw a masked BVN, so its echo of it is not usable
+            const result = parsed.data ? { ...parsed, data: { ...parsed.data, bvn: details.bvn } } : parsed;
+
+            // Final check to ensure the structure is correct
+            if (typeof result.success !== 'boolean' || typeof result.message !== 'string') {
+                 throw new Error("AI response is not in the expected format.");
+            }
+
+            if (result.success) {
+                return { success: true, message: result.message, data: result.data };
+            }
+            const code = Object.values(VerificationFailureCode).includes(result.failureCode as VerificationFailureCode)
+                ? result.failureCode as VerificationFailureCode
+                : inferFailureCode(result.message);
+            return createFailure(code, result.data ?? details, result.message);
+
+        } catch (error) {
+            console.error("Error verifying account details with Gemini API:", error);
+            // Rate limits, server errors and failed requests may pass on a retry; bad responses will not
+            const transient = error instanceof ApiError ? isTransientHttpStatus(error.status) : error instanceof TypeError;
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, undefined, transient);
+        }
+    },
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, VerificationFailureCode } from '../../types';
+import { callWithResilience } from '../resilience';
+import { createHttpProvider, NameEnquiryResponse } from './httpProvider';
+
+const account: AccountDetails = { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' };
+
+const provider = createHttpProvider({ baseUrl: 'http://nibss.test/', apiKey: 'secret' });
+
+const jsonResponse = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const enquiryResponse = (responseCode: string, extra: Partial<NameEnquiryResponse> = {}): NameEnquiryResponse => ({
+    sessionID: '1', destinationInstitutionCode: '000014', channelCode: '1', accountNumber: account.accountNumber, responseCode, ...extra,
+});
+
+describe('createHttpProvider', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('sends a name enquiry and returns the name the bank holds', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(200, enquiryResponse('00', { accountName: 'DOE JOHN', bankVerificationNumber: account.bvn })));
+        const result = await provider.verify(account);
+
+        expect(result).toMatchObject({ success: true, data: { ...account, beneficiaryName: 'DOE JOHN' } });
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('http://nibss.test/nameenquiry');
+        expect(init.headers.Authorization).toBe('Bearer secret');
+        expect(JSON.parse(init.body)).toMatchObject({ destinationInstitutionCode: '000014', channelCode: '1', accountNumber: account.accountNumber });
+    });
+
+    it('reports a BVN that differs from the one on the account', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(200, enquiryResponse('00', { accountName: 'DOE JOHN', bankVerificationNumber: '22199999999' })));
+        expect(await provider.verify(account)).toMatchObject({ success: false, failureCode: VerificationFailureCode.BVN_MISMATCH });
+    });
+
+    it.each([
+        ['07', VerificationFailureCode.ACCOUNT_NOT_FOUND],
+        ['25', VerificationFailureCode.ACCOUNT_NOT_FOUND],
+        ['26', VerificationFailureCode.DUPLICATE],
+        ['91', VerificationFailureCode.BANK_OFFLINE],
+        ['96', VerificationFailureCode.PROVIDER_ERROR],
+        ['99', VerificationFailureCode.PROVIDER_ERROR],
+    ])('maps response code %s to %s', async (responseCode, failureCode) => {
+        fetchMock.mockResolvedValue(jsonResponse(200, enquiryResponse(responseCode)));
+        expect(await provider.verify(account)).toMatchObject({ success: false, failureCode });
+    });
+
+    it('does not call the service for a bank outside the registry', async () => {
+        expect(await provider.verify({ ...account, bankName: 'Unknown Bank' })).toMatchObject({ success: false, failureCode: VerificationFailureCode.UNKNOWN_BANK });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('throws transient errors for network failures and HTTP 5xx, and permanent ones for other statuses', async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+        await expect(provider.verify(account)).rejects.toMatchObject({ code: VerificationFailureCode.PROVIDER_ERROR, transient: true });
+
+        fetchMock.mockResolvedValueOnce(jsonResponse(503, {}));
+        await expect(provider.verify(account)).rejects.toMatchObject({ code: VerificationFailureCode.PROVIDER_ERROR, transient: true });
+
+        fetchMock.mockResolvedValueOnce(jsonResponse(400, {}));
+        await expect(provider.verify(account)).rejects.toMatchObject({ code: VerificationFailureCode.PROVIDER_ERROR, transient: false });
+    });
+
+    it('throws a provider error for a response that is not JSON', async () => {
+        fetchMock.mockResolvedValue(new Response('<html>Gateway</html>', { status: 200 }));
+        await expect(provider.verify(account)).rejects.toMatchObject({ code: VerificationFailureCode.PROVIDER_ERROR, transient: false });
+    });
+
+    it('aborts the request when the call times out', async () => {
+        let signal: AbortSignal | undefined;
+        fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+            signal = init.signal ?? undefined;
+            signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+
+        await expect(callWithResilience(callSignal => provider.verify(account, callSignal), { timeoutMs: 20, retry: { maxAttempts: 1 } }))
+            .rejects.toMatchObject({ code: VerificationFailureCode.TIMEOUT });
+        expect(signal?.aborted).toBe(true);
+    });
+});
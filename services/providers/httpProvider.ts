@@ -0,0 +1,115 @@
+import { AccountDetails, VerificationFailureCode, VerificationProvider, VerificationResultData } from '../../types';
+import { findBankByName } from '../bankRegistry';
+import { createFailure, VerificationError } from '../verificationFailures';
+import { isTransientHttpStatus } from '../resilience';
+
+/** NIBSS-style name enquiry request body. */
+export interface NameEnquiryRequest {
+    sessionID: string;
+    destinationInstitutionCode: string;
+    channelCode: string;
+    accountNumber: string;
+}
+
+/** NIBSS-style name enquiry response body. */
+export interface NameEnquiryResponse {
+    sessionID: string;
+    destinationInstitutionCode: string;
+    channelCode: string;
+    accountNumber: string;
+    accountName?: string;
+    bankVerificationNumber?: string;
+    kycLevel?: string;
+    responseCode: string;
+}
+
+export interface HttpProviderOptions {
+    baseUrl: string;
+    apiKey?: string;
+    channelCode?: string;
+}
+
+// NIP response codes that carry a meaning for the operator; anything else is reported as a provider error.
+const RESPONSE_CODES: Record<string, { code: VerificationFailureCode; message: string }> = {
+    '07': { code: VerificationFailureCode.ACCOUNT_NOT_FOUND, message: 'Invalid account number.' },
+    '25': { code: VerificationFailureCode.ACCOUNT_NOT_FOUND, message: 'Account not found at the selected bank.' },
+    '26': { code: VerificationFailureCode.DUPLICATE, message: 'Duplicate name enquiry request.' },
+    '91': { code: VerificationFailureCode.BANK_OFFLINE, message: 'Beneficiary bank is not available. Please try again later.' },
+    '96': { code: VerificationFailureCode.PROVIDER_ERROR, message: 'The bank reported a system malfunction. Please try again later.' },
+};
+
+const createSessionId = (): string => {
+    const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 12);
+    const random = Math.floor(Math.random() * 1e12).toString().padStart(12, '0');
+    return `${timestamp}${random}`;
+};
+
+/**
+ * Creates a provider that performs a NIBSS-style name enquiry against an HTTP endpoint.
+ * The endpoint is expected to accept `POST {baseUrl}/nameenquiry` with a NameEnquiryRequest body.
+ * @param options The endpoint configuration.
+ * @returns The HTTP verification provider.
+ */
+export const createHttpProvider = (options: HttpProviderOptions): VerificationProvider => ({
+    id: 'http',
+    displayName: `Name enquiry API (${options.baseUrl})`,
+    verify: async (details: AccountDetails, signal?: AbortSignal): Promise<VerificationResultData> => {
+        const bank = findBankByName(details.bankName);
+        if (!bank) {
+            return createFailure(VerificationFailureCode.UNKNOWN_BANK, details, `Unknown bank: ${details.bankName}.`);
+        }
+
+        const request: NameEnquiryRequest = {
+            sessionID: createSessionId(),
+            destinationInstitutionCode: bank.nipCode,
+            channelCode: options.channelCode ?? '1',
+            accountNumber: details.accountNumber.trim(),
+        };
+
+        let response: Response;
+        try {
+            response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/nameenquiry`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+                },
+                body: JSON.stringify(request),
+                signal,
+            });
+        } catch (error) {
+            // The request never reached the service, so it is worth trying again
+            console.error("Error performing name enquiry:", error);
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, undefined, true);
+        }
+        if (!response.ok) {
+            console.error(`Name enquiry failed with HTTP ${response.status}.`);
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, undefined, isTransientHttpStatus(response.status));
+        }
+
+        let body: NameEnquiryResponse;
+        try {
+            body = await response.json() as NameEnquiryResponse;
+        } catch (error) {
+            console.error("Error reading name enquiry response:", error);
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR);
+        }
+
+        if (body.responseCode !== '00') {
+            const known = RESPONSE_CODES[body.responseCode];
+            return known
+                ? createFailure(known.code, details, known.message)
+                : createFailure(VerificationFailureCode.PROVIDER_ERROR, details, `Name enquiry failed with response code ${body.responseCode}.`);
+        }
+
+        if (body.bankVerificationNumber && body.bankVerificationNumber !== details.bvn.trim()) {
+            return createFailure(VerificationFailureCode.BVN_MISMATCH, details);
+        }
+
+        return {
+            success: true,
+            message: 'Account details verified successfully.',
+            data: { ...details, beneficiaryName: body.accountName || details.beneficiaryName },
+        };
+    },
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { AccountDetails, VerificationFailureCode } from '../../types';
+import { applySimulationRules, createRulesProvider } from './rulesProvider';
+
+const account: AccountDetails = { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' };
+
+describe('applySimulationRules', () => {
+    it('verifies well-formed details', async () => {
+        expect(applySimulationRules(account)).toEqual({ success: true, message: 'Account details verified successfully.', data: account });
+        expect(await createRulesProvider().verify(account)).toEqual(applySimulationRules(account));
+    });
+
+    it.each([
+        ['an account number that is not 10 digits', { accountNumber: '12345' }, VerificationFailureCode.INVALID_NUBAN],
+        ['a BVN that is not 11 digits', { bvn: '2212345' }, VerificationFailureCode.INVALID_BVN],
+        ['a name with digits', { beneficiaryName: 'John D0e' }, VerificationFailureCode.INVALID_NAME],
+        ['a blank name', { beneficiaryName: '  ' }, VerificationFailureCode.INVALID_NAME],
+        ['an account number starting with 1', { accountNumber: '1234567895' }, VerificationFailureCode.ACCOUNT_NOT_FOUND],
+        ['a BVN starting with 1', { bvn: '12123458901' }, VerificationFailureCode.BVN_MISMATCH],
+    ])('rejects %s', (_, change, failureCode) => {
+        expect(applySimulationRules({ ...account, ...change })).toMatchObject({ success: false, failureCode });
+    });
+
+    it('checks the format before the simulated lookups', () => {
+        expect(applySimulationRules({ ...account, accountNumber: '1234', bvn: '1' })).toMatchObject({ failureCode: VerificationFailureCode.INVALID_NUBAN });
+    });
+});
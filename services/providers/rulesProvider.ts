@@ -0,0 +1,41 @@
+import { AccountDetails, VerificationFailureCode, VerificationProvider, VerificationResultData } from '../../types';
+import { createFailure } from '../verificationFailures';
+
+/**
+ * Applies the simulation rules used by the Gemini prompt deterministically, without any network access.
+ * @param details The account details to verify.
+ * @returns The verification result.
+ */
+export const applySimulationRules = (details: AccountDetails): VerificationResultData => {
+    const accountNumber = details.accountNumber.trim();
+    const bvn = details.bvn.trim();
+    const beneficiaryName = details.beneficiaryName.trim();
+
+    if (!/^\d{10}$/.test(accountNumber)) {
+        return createFailure(VerificationFailureCode.INVALID_NUBAN, details, 'Invalid account number. Account number must be 10 digits.');
+    }
+    if (!/^\d{11}$/.test(bvn)) {
+        return createFailure(VerificationFailureCode.INVALID_BVN, details);
+    }
+    if (!beneficiaryName || !/^[A-Za-z\s-]+$/.test(beneficiaryName)) {
+        return createFailure(VerificationFailureCode.INVALID_NAME, details);
+    }
+    if (accountNumber.startsWith('1')) {
+        return createFailure(VerificationFailureCode.ACCOUNT_NOT_FOUND, details, 'Invalid account number.');
+    }
+    if (bvn.startsWith('1')) {
+        return createFailure(VerificationFailureCode.BVN_MISMATCH, details);
+    }
+
+    return { success: true, message: 'Account details verified successfully.', data: details };
+};
+
+/**
+ * Creates a fully offline provider that encodes the simulation rules.
+ * @returns The rules-only verification provider.
+ */
+export const createRulesProvider = (): VerificationProvider => ({
+    id: 'rules',
+    displayName: 'Offline rules engine',
+    verify: async (details: AccountDetails) => applySimulationRules(details),
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { VerificationFailureCode } from '../types';
+import { createCircuitBreaker } from './circuitBreaker';
+import { callWithResilience, getRetryBudgetMs, isTransientHttpStatus } from './resilience';
+import { VerificationError } from './verificationFailures';
+
+const fastRetry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+// The error a call is expected to fail with.
+const failure = (promise: Promise<unknown>): Promise<VerificationError> =>
+    promise.then(() => { throw new Error('Expected the call to fail.'); }, (error: VerificationError) => error);
+
+const openError = () => new VerificationError(VerificationFailureCode.PROVIDER_ERROR, 'Circuit open.');
+
+describe('isTransientHttpStatus', () => {
+    it('retries rate limiting and server errors only', () => {
+        expect(isTransientHttpStatus(429)).toBe(true);
+        expect(isTransientHttpStatus(503)).toBe(true);
+        expect(isTransientHttpStatus(400)).toBe(false);
+        expect(isTransientHttpStatus(404)).toBe(false);
+    });
+});
+
+describe('getRetryBudgetMs', () => {
+    it('adds every attempt timing out and the backoff between them', () => {
+        expect(getRetryBudgetMs(1000, { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000 })).toBe(3000 + 500 + 1000);
+    });
+
+    it('caps each backoff at the maximum delay', () => {
+        expect(getRetryBudgetMs(100, { maxAttempts: 4, baseDelayMs: 500, maxDelayMs: 600 })).toBe(400 + 500 + 600 + 600);
+    });
+});
+
+describe('callWithResilience', () => {
+    it('retries transient errors and records each attempt', async () => {
+        let calls = 0;
+        const { value, attempts } = await callWithResilience(async () => {
+            calls++;
+            if (calls < 3) throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, 'Busy.', true);
+            return 'ok';
+        }, { timeoutMs: 1000, retry: fastRetry });
+        expect(value).toBe('ok');
+        expect(attempts.map(attempt => attempt.outcome)).toEqual(['error', 'error', 'success']);
+    });
+
+    it('does not retry errors that are not transient', async () => {
+        let calls = 0;
+        const error = await failure(callWithResilience(async () => {
+            calls++;
+            throw new VerificationError(VerificationFailureCode.PROVIDER_ERROR, 'Bad response.', false);
+        }, { timeoutMs: 1000, retry: fastRetry }));
+        expect(calls).toBe(1);
+        expect(error.attempts).toHaveLength(1);
+    });
+
+    it('stops after the maximum attempts', async () => {
+        let calls = 0;
+        await expect(callWithResilience(async () => {
+            calls++;
+            throw new TypeError('fetch failed');
+        }, { timeoutMs: 1000, retry: { ...fastRetry, maxAttempts: 2 } })).rejects.toThrow('fetch failed');
+        expect(calls).toBe(2);
+    });
+
+    it('times out slow calls and aborts their signal', async () => {
+        const signals: AbortSignal[] = [];
+        const error = await failure(callWithResilience(signal => {
+            signals.push(signal);
+            return new Promise<string>(() => undefined);
+        }, { timeoutMs: 10, retry: { ...fastRetry, maxAttempts: 1 } }));
+        expect(error.code).toBe(VerificationFailureCode.TIMEOUT);
+        expect(error.attempts?.[0].outcome).toBe('timeout');
+        expect(signals[0].aborted).toBe(true);
+    });
+
+    it('leaves the signal alone when the call finishes in time', async () => {
+        let received: AbortSignal | undefined;
+        await callWithResilience(async signal => {
+            received = signal;
+            return 'ok';
+        }, { timeoutMs: 1000 });
+        expect(received?.aborted).toBe(false);
+    });
+
+    it('fails at once while a circuit is open', async () => {
+        const breaker = createCircuitBreaker('provider', 'test', { failureThreshold: 1 });
+        breaker.recordCall('failure');
+        let calls = 0;
+        const error = await failure(callWithResilience(async () => {
+            calls++;
+            return 'ok';
+        }, { timeoutMs: 1000, circuits: [{ breaker, openError }] }));
+        expect(calls).toBe(0);
+        expect(error.message).toBe('Circuit open.');
+        expect(error.attempts?.[0].outcome).toBe('short-circuited');
+    });
+
+    it('counts outcomes with the circuit\'s own judge', async () => {
+        const breaker = createCircuitBreaker('bank', 'test', { failureThreshold: 1 });
+        await callWithResilience(async () => 'offline', {
+            timeoutMs: 1000,
+            circuits: [{ breaker, openError, judge: outcome => (outcome.value === 'offline' ? 'failure' : 'success') }],
+        });
+        expect(breaker.getSnapshot().state).toBe('open');
+    });
+});
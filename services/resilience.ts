@@ -0,0 +1,146 @@
+import { ProviderAttempt, VerificationFailureCode } from '../types';
+import { PROVIDER_MAX_ATTEMPTS, PROVIDER_RETRY_BASE_DELAY_MS, PROVIDER_RETRY_MAX_DELAY_MS } from '../constants';
+import { CallVerdict, CircuitBreaker } from './circuitBreaker';
+import { VerificationError } from './verificationFailures';
+
+export type CallOutcome<T> = { ok: true; value: T; error?: undefined } | { ok: false; value?: undefined; error: VerificationError };
+
+export interface GuardedCircuit<T> {
+    breaker: CircuitBreaker;
+    // How an outcome counts for this breaker; by default transient errors are failures and anything else a success.
+    judge?: (outcome: CallOutcome<T>) => CallVerdict;
+    // The error to fail with while the circuit is open.
+    openError: (retryAt: number | null) => VerificationError;
+}
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ResilientCallOptions<T> {
+    timeoutMs: number;
+    circuits?: GuardedCircuit<T>[];
+    retry?: Partial<RetryPolicy>;
+    // Called after each call that actually went out.
+    onAttempt?: (attempt: ProviderAttempt, outcome: CallOutcome<T>) => void;
+}
+
+export interface ResilientCallResult<T> {
+    value: T;
+    attempts: ProviderAttempt[];
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: PROVIDER_MAX_ATTEMPTS,
+    baseDelayMs: PROVIDER_RETRY_BASE_DELAY_MS,
+    maxDelayMs: PROVIDER_RETRY_MAX_DELAY_MS,
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether an HTTP status is worth retrying: rate limiting and server errors.
+ * @param status The HTTP status code.
+ */
+export const isTransientHttpStatus = (status: number): boolean => status === 429 || status >= 500;
+
+// Anything that is not a VerificationError is wrapped; fetch reports network failures as TypeErrors.
+const toVerificationError = (error: unknown): VerificationError => {
+    if (error instanceof VerificationError) return error;
+    const message = error instanceof Error ? error.message : undefined;
+    return new VerificationError(VerificationFailureCode.PROVIDER_ERROR, message || undefined, error instanceof TypeError);
+};
+
+// The call gets a signal that is aborted on timeout, so its request is cancelled rather than left running.
+const withTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            reject(new VerificationError(VerificationFailureCode.TIMEOUT));
+            controller.abort();
+        }, timeoutMs);
+    });
+    return Promise.race([call(controller.signal), timeout]).finally(() => clearTimeout(timer));
+};
+
+// Exponential backoff with jitter, so retries from parallel calls do not arrive together.
+const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+    const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+};
+
+/**
+ * The longest a call with retries can take: every attempt timing out, plus the longest backoff between them.
+ * @param timeoutMs The timeout of each attempt.
+ * @param retry Overrides of the default retry policy.
+ * @returns The total time in milliseconds.
+ */
+export const getRetryBudgetMs = (timeoutMs: number, retry: Partial<RetryPolicy> = {}): number => {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+    let budget = policy.maxAttempts * timeoutMs;
+    for (let attempt = 1; attempt < policy.maxAttempts; attempt++) {
+        budget += Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    }
+    return budget;
+};
+
+const defaultJudge = <T>(outcome: CallOutcome<T>): CallVerdict => (outcome.ok || !outcome.error.transient ? 'success' : 'failure');
+
+/**
+ * Makes a provider call with a timeout, retries transient errors with backoff, and guards it with circuit breakers.
+ * A value returned by the call is never retried; only transient errors (timeouts, network, HTTP 429 and 5xx) are.
+ * @param call The provider call; it should pass the signal on to its request, which is aborted when the call times out.
+ * @param options The timeout, retry policy and circuits.
+ * @returns The call's value and every attempt made.
+ * @throws {VerificationError} The last error, with every attempt attached, once retries run out or a circuit is open.
+ */
+export const callWithResilience = async <T>(call: (signal: AbortSignal) => Promise<T>, options: ResilientCallOptions<T>): Promise<ResilientCallResult<T>> => {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    const circuits = options.circuits ?? [];
+    const attempts: ProviderAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        const startedAt = Date.now();
+        const open = circuits.find(circuit => !circuit.breaker.isCallPermitted(startedAt));
+        if (open) {
+            const error = open.openError(open.breaker.getSnapshot().retryAt);
+            attempts.push({ attempt, startedAt, durationMs: 0, outcome: 'short-circuited', message: error.message });
+            error.attempts = attempts;
+            throw error;
+        }
+        circuits.forEach(circuit => circuit.breaker.startCall(startedAt));
+
+        let outcome: CallOutcome<T>;
+        try {
+            outcome = { ok: true, value: await withTimeout(call, options.timeoutMs) };
+        } catch (err) {
+            outcome = { ok: false, error: toVerificationError(err) };
+        }
+        const finishedAt = Date.now();
+        circuits.forEach(circuit => circuit.breaker.recordCall((circuit.judge ?? defaultJudge)(outcome), finishedAt));
+
+        const record: ProviderAttempt = outcome.ok
+            ? { attempt, startedAt, durationMs: finishedAt - startedAt, outcome: 'success' }
+            : {
+                attempt,
+                startedAt,
+                durationMs: finishedAt - startedAt,
+                outcome: outcome.error.code === VerificationFailureCode.TIMEOUT ? 'timeout' : 'error',
+                message: outcome.error.message,
+            };
+        attempts.push(record);
+        options.onAttempt?.(record, outcome);
+
+        if (outcome.ok) {
+            return { value: outcome.value, attempts };
+        }
+        if (!outcome.error.transient || attempt >= policy.maxAttempts) {
+            outcome.error.attempts = attempts;
+            throw outcome.error;
+        }
+        await sleep(backoffDelay(attempt, policy));
+    }
+};
@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BulkRowResult } from '../types';
+import { appendExportEntry } from './auditLog';
+import { downloadBlob } from './download';
+import { downloadBulkResults } from './resultsExport';
+
+vi.mock('./auditLog', () => ({ appendExportEntry: vi.fn() }));
+vi.mock('./download', () => ({ downloadBlob: vi.fn() }));
+
+const results: BulkRowResult[] = [{
+    rowIndex: 0, attempts: 1, success: true, message: 'Verified.',
+    data: { beneficiaryName: 'Ada Lovelace', bankName: 'Access Bank', accountNumber: '0123456789', bvn: '22123458901' },
+}];
+
+describe('downloadBulkResults', () => {
+    beforeEach(() => {
+        vi.mocked(appendExportEntry).mockReset();
+        vi.mocked(downloadBlob).mockReset();
+    });
+
+    it('refuses full IDs and verified rows of a batch that is not approved', async () => {
+        await expect(downloadBulkResults(results, 'csv', false, 'full', 'Ada', 'job-1', 'rejected')).rejects.toThrow('once the batch is approved');
+        await expect(downloadBulkResults(results, 'csv', true, 'masked', 'Ada', 'job-1', 'submitted')).rejects.toThrow('once the batch is approved');
+        expect(appendExportEntry).not.toHaveBeenCalled();
+        expect(downloadBlob).not.toHaveBeenCalled();
+    });
+
+    it('downloads the masked results of an unapproved batch for review', async () => {
+        await downloadBulkResults(results, 'csv', false, 'masked', 'Ada', 'job-1', 'submitted');
+        expect(downloadBlob).toHaveBeenCalledWith(expect.any(Blob), 'all_verification_results.csv');
+    });
+
+    it('downloads full IDs once the batch is approved, after recording them', async () => {
+        await downloadBulkResults(results, 'csv', true, 'full', 'Ada', 'job-1', 'approved');
+        expect(appendExportEntry).toHaveBeenCalledWith({ operator: 'Ada', fileName: 'successful_verifications.csv', rowCount: 1, piiMode: 'full', jobId: 'job-1' });
+        expect(downloadBlob).toHaveBeenCalledOnce();
+    });
+});
@@ -0,0 +1,215 @@
+import { BatchApprovalState, BulkRowResult, ExportFormat, NameMatchGrade, PiiExportMode, VerificationFailureCode, VerificationResultData } from '../types';
+import { FAILURE_CODE_INFO } from './verificationFailures';
+import { downloadBlob } from './download';
+import { protectResultPii } from './pii';
+import { appendExportEntry } from './auditLog';
+import { getExportLockReason } from './batchApproval';
+import { createXlsxWorkbook, XlsxCellValue, XlsxColumn, XlsxSheet } from './xlsx';
+import { getMetadataFieldsInUse } from './beneficiaryMetadata';
+
+const PII_MODE_LABELS: Record<PiiExportMode, string> = {
+    masked: 'Masked',
+    hashed: 'HMAC-SHA-256 hashed (keyed)',
+    full: 'Full values',
+};
+
+interface ExportTable {
+    columns: XlsxColumn[];
+    rows: XlsxCellValue[][];
+}
+
+const escapeCsvField = (value: XlsxCellValue): string => {
+    if (value === null) return '';
+    const text = String(value).replace(/"/g, '""');
+    return /[",\n\r]/.test(text) ? `"${text}"` : text;
+};
+
+const toCsv = (table: ExportTable): string => {
+    return [
+        table.columns.map(column => escapeCsvField(column.header)).join(','),
+        ...table.rows.map(row => row.map(escapeCsvField).join(',')),
+    ].join('\n');
+};
+
+// One object per row, keyed by column header.
+const toJson = (table: ExportTable): string => {
+    const records = table.rows.map(row => Object.fromEntries(table.columns.map((column, i) => [column.header, row[i]])));
+    return JSON.stringify(records, null, 2);
+};
+
+// Metadata columns are only written when some row has a value, so batches without them export as before.
+const metadataColumns = (results: VerificationResultData[]) => {
+    const fields = getMetadataFieldsInUse(results.map(r => r.data));
+    return {
+        columns: fields.map(({ field }): XlsxColumn => ({ header: field, width: 18, text: true })),
+        values: (r: VerificationResultData): XlsxCellValue[] => fields.map(({ field }) => r.data?.[field] || ''),
+    };
+};
+
+const buildSuccessfulTable = (results: VerificationResultData[]): ExportTable => {
+    const metadata = metadataColumns(results);
+    return {
+        columns: [
+            { header: 'beneficiaryName', width: 30 },
+            { header: 'bankName', width: 28 },
+            { header: 'accountNumber', width: 14, text: true },
+            { header: 'bvn', width: 14, text: true },
+            ...metadata.columns,
+        ],
+        rows: results
+            .filter(r => r.success && r.data)
+            .map(r => [r.data!.beneficiaryName, r.data!.bankName, r.data!.accountNumber, r.data!.bvn, ...metadata.values(r)]),
+    };
+};
+
+const buildAllResultsTable = (results: BulkRowResult[]): ExportTable => {
+    const metadata = metadataColumns(results);
+    return {
+        columns: [
+            { header: 'beneficiaryName', width: 30 },
+            { header: 'bankName', width: 28 },
+            { header: 'originalBankName', width: 28 },
+            { header: 'accountNumber', width: 14, text: true },
+            { header: 'bvn', width: 14, text: true },
+            ...metadata.columns,
+            { header: 'registeredName', width: 30 },
+            { header: 'nameMatchGrade' },
+            { header: 'nameMatchScore' },
+            { header: 'status' },
+            { header: 'failureCode', width: 20 },
+            { header: 'retryable' },
+            { header: 'attempts' },
+            { header: 'providerCalls' },
+            { header: 'previouslyVerifiedAt', width: 22 },
+            { header: 'changedSinceLastVerification', width: 40 },
+            { header: 'message', width: 60 },
+        ],
+        rows: results.map(r => [
+            r.data?.beneficiaryName || '',
+            r.data?.bankName || '',
+            r.data?.originalBankName || '',
+            r.data?.accountNumber || '',
+            r.data?.bvn || '',
+            ...metadata.values(r),
+            r.registeredName || '',
+            r.nameMatchGrade || '',
+            r.nameMatchScore ?? null,
+            r.success ? 'Success' : 'Failed',
+            r.failureCode || '',
+            r.success ? '' : String(!!r.retryable),
+            r.attempts,
+            r.providerAttempts?.length ?? null,
+            r.previouslyVerified?.verifiedAt || '',
+            r.registryChanges?.map(change => `${change.field}: ${change.previous} -> ${change.current}`).join('; ') || '',
+            r.message,
+        ]),
+    };
+};
+
+const buildSummarySheet = (results: VerificationResultData[], piiMode: PiiExportMode): XlsxSheet => {
+    const succeeded = results.filter(r => r.success).length;
+    const rows: XlsxCellValue[][] = [
+        ['Generated', new Date().toLocaleString()],
+        ['BVNs and account numbers', PII_MODE_LABELS[piiMode]],
+        ['Total rows', results.length],
+        ['Succeeded', succeeded],
+        ['Failed', results.length - succeeded],
+        ['Previously verified', results.filter(r => r.previouslyVerified).length],
+        ['Changed since last verification', results.filter(r => r.registryChanges).length],
+        ['Success rate', results.length > 0 ? `${Math.round((succeeded / results.length) * 100)}%` : ''],
+    ];
+
+    const failures = Object.values(VerificationFailureCode)
+        .map(code => [FAILURE_CODE_INFO[code].label, results.filter(r => r.failureCode === code).length] as XlsxCellValue[])
+        .filter(([, count]) => count !== 0);
+    if (failures.length > 0) {
+        rows.push([null, null], ['Failures by reason', null], ...failures);
+    }
+
+    const grades = Object.values(NameMatchGrade)
+        .map(grade => [grade, results.filter(r => r.nameMatchGrade === grade).length] as XlsxCellValue[])
+        .filter(([, count]) => count !== 0);
+    if (grades.length > 0) {
+        rows.push([null, null], ['Name match', null], ...grades);
+    }
+
+    // Verified rows per program, state, LGA and facility
+    getMetadataFieldsInUse(results.map(r => r.data)).filter(({ groupable }) => groupable).forEach(({ field, label }) => {
+        const groups = new Map<string, { total: number; succeeded: number }>();
+        results.forEach(r => {
+            const value = r.data?.[field]?.trim() || '(none)';
+            const group = groups.get(value) ?? { total: 0, succeeded: 0 };
+            groups.set(value, { total: group.total + 1, succeeded: group.succeeded + (r.success ? 1 : 0) });
+        });
+        const breakdown = Array.from(groups.entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([value, { total, succeeded }]) => [value, `${succeeded} of ${total} verified`] as XlsxCellValue[]);
+        rows.push([null, null], [`By ${label}`, null], ...breakdown);
+    });
+
+    return { name: 'Summary', columns: [{ header: 'Metric', width: 28 }, { header: 'Value', width: 24 }], rows };
+};
+
+/**
+ * Builds a file of bulk verification results: CSV, JSON, or an Excel workbook with a summary sheet.
+ * @param results The bulk results.
+ * @param format The file format.
+ * @param successfulOnly Whether to export only the verified rows, without result columns.
+ * @param piiMode Whether BVNs and account numbers are masked, hashed or written in full.
+ * @returns The file contents, a suggested file name and the number of rows written.
+ */
+export const createBulkResultsFile = async (
+    results: BulkRowResult[],
+    format: ExportFormat,
+    successfulOnly: boolean,
+    piiMode: PiiExportMode,
+): Promise<{ blob: Blob; fileName: string; rowCount: number }> => {
+    const exported = await Promise.all(results.map(result => protectResultPii(result, piiMode)));
+    const table = successfulOnly ? buildSuccessfulTable(exported) : buildAllResultsTable(exported);
+    const baseName = successfulOnly ? 'successful_verifications' : 'all_verification_results';
+
+    if (format === 'xlsx') {
+        const workbook = createXlsxWorkbook([
+            { name: successfulOnly ? 'Verified' : 'Results', ...table },
+            buildSummarySheet(results, piiMode),
+        ]);
+        return { blob: workbook, fileName: `${baseName}.xlsx`, rowCount: table.rows.length };
+    }
+    if (format === 'json') {
+        return { blob: new Blob([toJson(table)], { type: 'application/json;charset=utf-8;' }), fileName: `${baseName}.json`, rowCount: table.rows.length };
+    }
+    return { blob: new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8;' }), fileName: `${baseName}.csv`, rowCount: table.rows.length };
+};
+
+/**
+ * Downloads bulk verification results in the chosen format. Downloads with hashed or full IDs are
+ * written to the audit log first, and nothing is downloaded if that fails.
+ * Verified rows alone and full IDs are refused until the batch is approved.
+ * @param results The bulk results.
+ * @param format The file format.
+ * @param successfulOnly Whether to export only the verified rows, without result columns.
+ * @param piiMode Whether BVNs and account numbers are masked, hashed or written in full.
+ * @param operator The operator downloading the results.
+ * @param jobId The saved bulk job, if any.
+ * @param approvalState The batch's approval state, or undefined for a batch that was not saved.
+ * @throws If the batch is not approved for this export.
+ */
+export const downloadBulkResults = async (
+    results: BulkRowResult[],
+    format: ExportFormat,
+    successfulOnly: boolean,
+    piiMode: PiiExportMode,
+    operator: string,
+    jobId: string | null,
+    approvalState: BatchApprovalState | undefined,
+) => {
+    const lockReason = getExportLockReason(approvalState, successfulOnly, piiMode);
+    if (lockReason) {
+        throw new Error(lockReason);
+    }
+    const { blob, fileName, rowCount } = await createBulkResultsFile(results, format, successfulOnly, piiMode);
+    if (piiMode !== 'masked') {
+        await appendExportEntry({ operator, fileName, rowCount, piiMode, jobId });
+    }
+    downloadBlob(blob, fileName);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { AccountDetails, RiskRule, VerifiedBeneficiary } from '../types';
+import { assessBatchRisk, needsRiskReview, RiskRowInput, scoreRiskSignals } from './riskSignals';
+
+const account = (beneficiaryName: string, accountNumber: string, bvn: string, bankName: string = 'Access Bank Plc'): AccountDetails => ({
+    beneficiaryName, bankName, accountNumber, bvn,
+});
+
+const toRows = (accounts: AccountDetails[]): RiskRowInput[] => accounts.map((account, index) => ({ rowNumber: index + 1, account }));
+
+const rulesOf = (assessment: { signals: { rule: RiskRule }[] }) => assessment.signals.map(signal => signal.rule);
+
+const earlier = (account: AccountDetails, jobId: string): VerifiedBeneficiary => ({
+    jobId, fileName: `${jobId}.csv`, verifiedAt: '2026-01-31T09:00:00.000Z', account,
+});
+
+describe('assessBatchRisk', () => {
+    it('finds nothing in a clean batch', () => {
+        const assessments = assessBatchRisk(toRows([account('Ada Lovelace', '0123456789', '22123458901'), account('John Doe', '1234567895', '22123458902')]));
+        expect(assessments.map(assessment => assessment.level)).toEqual(['none', 'none']);
+    });
+
+    it('flags a BVN used for another account and under another name', () => {
+        const [first, , third] = assessBatchRisk(toRows([
+            account('Ada Lovelace', '0123456789', '22123458901'),
+            account('John Doe', '1234567895', '22123458902'),
+            account('Emeka Obi', '0000000001', '22123458901'),
+        ]));
+        expect(rulesOf(first)).toEqual([RiskRule.SHARED_BVN, RiskRule.BVN_NAME_CONFLICT]);
+        expect(first.signals[1].message).toBe('The same BVN appears as "Emeka Obi" on row 3.');
+        expect(third).toMatchObject({ score: 90, level: 'high' });
+    });
+
+    it('flags an account paying several people but not the same person spelt differently', () => {
+        const assessments = assessBatchRisk(toRows([
+            account('Ada Lovelace', '0123456789', '22123458901'),
+            account('Musa Sani', '0123456789', '22123458902'),
+            account('John Doe', '1234567895', '22123458903', 'Zenith Bank Plc'),
+            account('Doe John', '1234567895', '22123458904', 'Zenith Bank Plc'),
+        ]));
+        expect(rulesOf(assessments[0])).toEqual([RiskRule.SHARED_ACCOUNT]);
+        expect(rulesOf(assessments[2])).toEqual([]);
+    });
+
+    it('ignores excluded rows when judging the others', () => {
+        const rows = toRows([account('Ada Lovelace', '0123456789', '22123458901'), account('Emeka Obi', '0000000001', '22123458901')]);
+        rows[1].excluded = true;
+        const [first, second] = assessBatchRisk(rows);
+        expect(first.level).toBe('none');
+        expect(rulesOf(second)).toEqual([RiskRule.SHARED_BVN, RiskRule.BVN_NAME_CONFLICT]);
+    });
+
+    it('notes earlier batches once per job and flags a name change', () => {
+        const ada = account('Ada Lovelace', '0123456789', '22123458901');
+        const history = [earlier(ada, 'january'), earlier(ada, 'february'), earlier({ ...ada, bvn: '' }, 'february')];
+        const [repeat] = assessBatchRisk(toRows([ada]), history);
+        expect(repeat).toMatchObject({ score: 10, level: 'low' });
+        expect(repeat.signals[0].message).toContain('and 1 other batch.');
+
+        const [renamed] = assessBatchRisk(toRows([{ ...ada, beneficiaryName: 'Musa Sani' }]), history);
+        expect(rulesOf(renamed)).toEqual([RiskRule.PREVIOUS_NAME_CONFLICT]);
+        expect(needsRiskReview(renamed)).toBe(true);
+    });
+
+    it('flags a name change found through any match from the same earlier job', () => {
+        const ada = account('Ada Lovelace', '0123456789', '22123458901');
+        const history = [earlier({ ...ada, accountNumber: '1234567895' }, 'january'), earlier({ ...ada, beneficiaryName: 'Musa Sani', bvn: '' }, 'january')];
+        const [row] = assessBatchRisk(toRows([ada]), history);
+        expect(rulesOf(row)).toEqual([RiskRule.PREVIOUS_NAME_CONFLICT]);
+    });
+});
+
+describe('scoreRiskSignals', () => {
+    it('counts each rule once and caps the score', () => {
+        const shared = { rule: RiskRule.SHARED_ACCOUNT, message: '' };
+        expect(scoreRiskSignals([shared, shared]).score).toBe(50);
+        expect(scoreRiskSignals([shared, { rule: RiskRule.BVN_NAME_CONFLICT, message: '' }, { rule: RiskRule.SHARED_BVN, message: '' }]).score).toBe(100);
+    });
+});
@@ -0,0 +1,130 @@
+import { AccountDetails, NameMatchGrade, RiskAssessment, RiskLevel, RiskRule, RiskSignal, VerifiedBeneficiary } from '../types';
+import { RISK_HIGH_SCORE, RISK_MEDIUM_SCORE } from '../constants';
+import { matchNames } from './nameMatcher';
+
+interface RiskRuleInfo {
+    label: string;
+    weight: number;
+}
+
+export const RISK_RULE_INFO: Record<RiskRule, RiskRuleInfo> = {
+    [RiskRule.SHARED_BVN]: { label: 'BVN on several accounts', weight: 40 },
+    [RiskRule.BVN_NAME_CONFLICT]: { label: 'BVN under different names', weight: 50 },
+    [RiskRule.SHARED_ACCOUNT]: { label: 'Account paying several people', weight: 50 },
+    [RiskRule.PREVIOUS_BATCH]: { label: 'In an earlier batch', weight: 10 },
+    [RiskRule.PREVIOUS_NAME_CONFLICT]: { label: 'Earlier batch under another name', weight: 40 },
+};
+
+export interface RiskRowInput {
+    rowNumber: number;
+    // The bank name should be the resolved registry name, so spellings of the same bank group together.
+    account: AccountDetails;
+    // Excluded rows are assessed but do not make other rows risky.
+    excluded?: boolean;
+}
+
+const NO_RISK: RiskAssessment = { score: 0, level: 'none', signals: [] };
+
+const accountKey = (account: AccountDetails): string => `${account.accountNumber.trim()}|${account.bankName.trim().toLowerCase()}`;
+
+const isDifferentPerson = (a: string, b: string): boolean => matchNames(a, b).grade === NameMatchGrade.MISMATCH;
+
+const describeRows = (rows: RiskRowInput[]): string =>
+    `${rows.length === 1 ? 'row' : 'rows'} ${rows.map(row => row.rowNumber).join(', ')}`;
+
+const groupBy = (rows: RiskRowInput[], key: (row: RiskRowInput) => string): Map<string, RiskRowInput[]> => {
+    const groups = new Map<string, RiskRowInput[]>();
+    rows.forEach(row => {
+        const value = key(row);
+        if (!value) return;
+        groups.set(value, [...(groups.get(value) ?? []), row]);
+    });
+    return groups;
+};
+
+/**
+ * Turns triggered rules into a score and level. Each rule counts once, however many rows triggered it.
+ * @param signals The triggered rules.
+ * @returns The row's assessment.
+ */
+export const scoreRiskSignals = (signals: RiskSignal[]): RiskAssessment => {
+    if (signals.length === 0) return NO_RISK;
+    const rules = new Set(signals.map(signal => signal.rule));
+    const score = Math.min(100, Array.from(rules).reduce((sum, rule) => sum + RISK_RULE_INFO[rule].weight, 0));
+    const level: RiskLevel = score >= RISK_HIGH_SCORE ? 'high' : score >= RISK_MEDIUM_SCORE ? 'medium' : 'low';
+    return { score, level, signals };
+};
+
+/**
+ * Scores each row of a batch for ghost-worker patterns: a BVN shared across accounts or names,
+ * an account receiving for several people, and beneficiaries already paid through earlier batches.
+ * Exact repeats of a row are left to the duplicate check.
+ * @param rows The batch rows.
+ * @param history Rows verified in earlier batches.
+ * @returns The assessment of each row, in the same order.
+ */
+export const assessBatchRisk = (rows: RiskRowInput[], history: VerifiedBeneficiary[] = []): RiskAssessment[] => {
+    const included = rows.filter(row => !row.excluded);
+    const byBvn = groupBy(included, row => row.account.bvn.trim());
+    const byAccount = groupBy(included, row => (row.account.accountNumber.trim() ? accountKey(row.account) : ''));
+
+    const historyByBvn = new Map<string, VerifiedBeneficiary[]>();
+    const historyByAccount = new Map<string, VerifiedBeneficiary[]>();
+    history.forEach(entry => {
+        const bvn = entry.account.bvn.trim();
+        if (bvn) historyByBvn.set(bvn, [...(historyByBvn.get(bvn) ?? []), entry]);
+        const key = accountKey(entry.account);
+        historyByAccount.set(key, [...(historyByAccount.get(key) ?? []), entry]);
+    });
+
+    return rows.map(row => {
+        const { account } = row;
+        const name = account.beneficiaryName;
+        const bvn = account.bvn.trim();
+        const key = accountKey(account);
+        const signals: RiskSignal[] = [];
+
+        const bvnPeers = bvn ? (byBvn.get(bvn) ?? []).filter(peer => peer !== row) : [];
+        const otherAccounts = bvnPeers.filter(peer => accountKey(peer.account) !== key);
+        if (otherAccounts.length > 0) {
+            signals.push({ rule: RiskRule.SHARED_BVN, message: `The same BVN is used for another account on ${describeRows(otherAccounts)}.` });
+        }
+        const otherNames = bvnPeers.filter(peer => isDifferentPerson(name, peer.account.beneficiaryName));
+        if (otherNames.length > 0) {
+            signals.push({ rule: RiskRule.BVN_NAME_CONFLICT, message: `The same BVN appears as "${otherNames[0].account.beneficiaryName}" on ${describeRows(otherNames)}.` });
+        }
+
+        const accountPeers = account.accountNumber.trim() ? (byAccount.get(key) ?? []).filter(peer => peer !== row) : [];
+        const otherPayees = accountPeers.filter(peer => isDifferentPerson(name, peer.account.beneficiaryName));
+        if (otherPayees.length > 0) {
+            signals.push({ rule: RiskRule.SHARED_ACCOUNT, message: `The account also receives for "${otherPayees[0].account.beneficiaryName}" on ${describeRows(otherPayees)}.` });
+        }
+
+        // Every earlier match is checked for another name, since one job can match a row by BVN and by account
+        const matches = [...(bvn ? historyByBvn.get(bvn) ?? [] : []), ...(historyByAccount.get(key) ?? [])];
+        const conflicting = matches.find(entry => isDifferentPerson(name, entry.account.beneficiaryName));
+        // One entry per job, so a monthly payroll does not repeat the same finding
+        const earlier = matches.filter((entry, index) => matches.findIndex(other => other.jobId === entry.jobId) === index);
+        if (conflicting) {
+            signals.push({
+                rule: RiskRule.PREVIOUS_NAME_CONFLICT,
+                message: `This BVN or account was verified as "${conflicting.account.beneficiaryName}" in ${conflicting.fileName} on ${new Date(conflicting.verifiedAt).toLocaleDateString()}.`,
+            });
+        } else if (earlier.length > 0) {
+            const latest = earlier.reduce((a, b) => (a.verifiedAt > b.verifiedAt ? a : b));
+            const more = earlier.length > 1 ? ` and ${earlier.length - 1} other batch${earlier.length > 2 ? 'es' : ''}` : '';
+            signals.push({
+                rule: RiskRule.PREVIOUS_BATCH,
+                message: `Already verified in ${latest.fileName} on ${new Date(latest.verifiedAt).toLocaleDateString()}${more}.`,
+            });
+        }
+
+        return scoreRiskSignals(signals);
+    });
+};
+
+/**
+ * Whether a row should be held in the review queue.
+ * @param assessment The row's assessment.
+ */
+export const needsRiskReview = (assessment: RiskAssessment): boolean => assessment.score >= RISK_MEDIUM_SCORE;
@@ -0,0 +1,57 @@
+import { BankData, BankProbe, BankStatusSource, VerificationFailureCode } from '../../types';
+import { findBankByName, getBanks } from '../bankRegistry';
+import { isTransientHttpStatus } from '../resilience';
+import { VerificationError } from '../verificationFailures';
+
+/** One bank in the status endpoint's response. */
+export interface BankStatusEndpointEntry {
+    // CBN or NIP institution code; bankName is used when neither is given.
+    bankCode?: string;
+    bankName?: string;
+    available: boolean;
+    latencyMs?: number;
+}
+
+/** Response body of the status endpoint. */
+export interface BankStatusEndpointResponse {
+    banks: BankStatusEndpointEntry[];
+}
+
+const findBank = (entry: BankStatusEndpointEntry): BankData | undefined => {
+    const code = entry.bankCode?.trim();
+    if (code) {
+        return getBanks().find(bank => bank.cbnCode === code || bank.nipCode === code);
+    }
+    return entry.bankName ? findBankByName(entry.bankName) : undefined;
+};
+
+/**
+ * Creates a status source that polls an HTTP endpoint reporting bank availability
+ * (`GET {url}`, answering with a {@link BankStatusEndpointResponse}).
+ * @param url The endpoint URL.
+ * @returns The status source.
+ */
+export const createHttpStatusSource = (url: string): BankStatusSource => ({
+    id: 'http-status-endpoint',
+    collect: async (signal?: AbortSignal): Promise<BankProbe[]> => {
+        const response = await fetch(url, { headers: { 'Accept': 'application/json' }, signal });
+        if (!response.ok) {
+            throw new VerificationError(
+                VerificationFailureCode.PROVIDER_ERROR,
+                `Status endpoint responded with HTTP ${response.status}.`,
+                isTransientHttpStatus(response.status)
+            );
+        }
+        const body = await response.json() as BankStatusEndpointResponse;
+        if (!Array.isArray(body?.banks)) {
+            throw new Error('Status endpoint response has no banks list.');
+        }
+        const timestamp = Date.now();
+        return body.banks.flatMap(entry => {
+            const bank = findBank(entry);
+            if (!bank || typeof entry.available !== 'boolean') return [];
+            const latencyMs = typeof entry.latencyMs === 'number' && entry.available ? entry.latencyMs : null;
+            return [{ bankName: bank.name, sample: { timestamp, ok: entry.available, latencyMs, source: 'endpoint' } }];
+        });
+    },
+});
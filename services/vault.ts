@@ -0,0 +1,161 @@
+import { setPiiHashKey } from './pii';
+
+const VAULT_STORAGE_KEY = 'dataVault';
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+// Encrypted when the vault is created, so a wrong passphrase can be told apart from corrupt data.
+const CHECK_TEXT = 'account-verification-vault';
+const HASH_KEY_BYTES = 32;
+
+/** A value encrypted with the vault key (AES-GCM), base64 encoded. */
+export interface SealedValue {
+    iv: string;
+    ciphertext: string;
+}
+
+interface VaultSettings {
+    salt: string;
+    iterations: number;
+    check: SealedValue;
+    // Base64 secret for keyed BVN and account number hashes (see pii.ts). Added on the first unlock of older vaults.
+    hashKey?: SealedValue;
+}
+
+let vaultKey: CryptoKey | null = null;
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked so large payloads do not overflow the argument limit of fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const loadSettings = (): VaultSettings | null => {
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as VaultSettings : null;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encryptText = async (key: CryptoKey, text: string): Promise<SealedValue> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptText = async (key: CryptoKey, sealed: SealedValue): Promise<string> => {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(sealed.iv) }, key, fromBase64(sealed.ciphertext));
+    return new TextDecoder().decode(plaintext);
+};
+
+// Hands the vault's hashing secret to pii.ts, creating it and saving the settings if there is none yet.
+const loadHashKey = async (key: CryptoKey, settings: VaultSettings): Promise<void> => {
+    let secret: Uint8Array<ArrayBuffer>;
+    if (settings.hashKey) {
+        secret = fromBase64(await decryptText(key, settings.hashKey));
+    } else {
+        secret = crypto.getRandomValues(new Uint8Array(HASH_KEY_BYTES));
+        settings.hashKey = await encryptText(key, toBase64(secret));
+    }
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(settings));
+    await setPiiHashKey(secret);
+};
+
+/**
+ * Whether a passphrase has been set in this browser.
+ */
+export const isVaultCreated = (): boolean => loadSettings() !== null;
+
+/**
+ * Whether the vault key is available for this session.
+ */
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+/**
+ * Derives the vault key from the operator passphrase. The first call in a browser sets the passphrase;
+ * later calls must use the same one.
+ * @param passphrase The passphrase.
+ * @throws {Error} If the passphrase is too short when creating the vault, or does not match.
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+    const settings = loadSettings();
+    if (!settings) {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+            throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        }
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+        const created: VaultSettings = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptText(key, CHECK_TEXT) };
+        await loadHashKey(key, created);
+        vaultKey = key;
+        return;
+    }
+
+    const key = await deriveKey(passphrase, fromBase64(settings.salt), settings.iterations);
+    // AES-GCM refuses to decrypt with the wrong key
+    const matches = await decryptText(key, settings.check).then(text => text === CHECK_TEXT, () => false);
+    if (!matches) {
+        throw new Error('Incorrect passphrase.');
+    }
+    await loadHashKey(key, settings);
+    vaultKey = key;
+};
+
+/**
+ * Forgets the vault key; stored data cannot be read until the vault is unlocked again.
+ */
+export const lockVault = () => {
+    vaultKey = null;
+    setPiiHashKey(null);
+};
+
+/**
+ * Removes the passphrase settings. Data sealed with the old key can no longer be read,
+ * so callers must delete it too.
+ */
+export const resetVault = () => {
+    vaultKey = null;
+    setPiiHashKey(null);
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+};
+
+const requireKey = (): CryptoKey => {
+    if (!vaultKey) {
+        throw new Error('Local data is locked. Enter the passphrase to continue.');
+    }
+    return vaultKey;
+};
+
+/**
+ * Encrypts a value for storage.
+ * @param value Any JSON-serializable value.
+ * @returns The sealed value.
+ */
+export const sealValue = <T>(value: T): Promise<SealedValue> => encryptText(requireKey(), JSON.stringify(value));
+
+/**
+ * Decrypts a value sealed with {@link sealValue}.
+ * @param sealed The sealed value.
+ * @returns The original value.
+ */
+export const openSealedValue = async <T>(sealed: SealedValue): Promise<T> => JSON.parse(await decryptText(requireKey(), sealed)) as T;
+
+/**
+ * Tells sealed values apart from records stored before encryption was introduced.
+ * @param value A stored value.
+ */
+export const isSealedValue = (value: unknown): value is SealedValue =>
+    typeof value === 'object' && value !== null && typeof (value as SealedValue).iv === 'string' && typeof (value as SealedValue).ciphertext === 'string';
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { VerificationFailureCode } from '../types';
+import { failureFromError, inferFailureCode, isBankUnavailableFailure, isProviderFailure, VerificationError } from './verificationFailures';
+
+describe('isBankUnavailableFailure', () => {
+    it('counts a bank reported as offline', () => {
+        expect(isBankUnavailableFailure(VerificationFailureCode.BANK_OFFLINE)).toBe(true);
+    });
+
+    it('does not count timeouts, provider errors or account failures', () => {
+        expect(isBankUnavailableFailure(VerificationFailureCode.TIMEOUT)).toBe(false);
+        expect(isBankUnavailableFailure(VerificationFailureCode.PROVIDER_ERROR)).toBe(false);
+        expect(isBankUnavailableFailure(VerificationFailureCode.ACCOUNT_NOT_FOUND)).toBe(false);
+        expect(isBankUnavailableFailure(undefined)).toBe(false);
+    });
+});
+
+describe('isProviderFailure', () => {
+    it('covers provider errors and timeouts only', () => {
+        expect(isProviderFailure(VerificationFailureCode.PROVIDER_ERROR)).toBe(true);
+        expect(isProviderFailure(VerificationFailureCode.TIMEOUT)).toBe(true);
+        expect(isProviderFailure(VerificationFailureCode.BANK_OFFLINE)).toBe(false);
+        expect(isProviderFailure(undefined)).toBe(false);
+    });
+});
+
+describe('failureFromError', () => {
+    it('keeps the code and attempts of a verification error', () => {
+        const error = new VerificationError(VerificationFailureCode.TIMEOUT);
+        error.attempts = [{ attempt: 1, startedAt: 0, durationMs: 20000, outcome: 'timeout' }];
+        const failure = failureFromError(error, null);
+        expect(failure).toMatchObject({ success: false, failureCode: VerificationFailureCode.TIMEOUT, retryable: true });
+        expect(failure.providerAttempts).toHaveLength(1);
+    });
+
+    it('treats other errors as provider errors', () => {
+        expect(failureFromError(new Error('socket hang up'), null)).toMatchObject({ failureCode: VerificationFailureCode.PROVIDER_ERROR, message: 'socket hang up' });
+    });
+});
+
+describe('inferFailureCode', () => {
+    it('reads common provider messages', () => {
+        expect(inferFailureCode('BVN must be 11 digits')).toBe(VerificationFailureCode.INVALID_BVN);
+        expect(inferFailureCode('Account not found')).toBe(VerificationFailureCode.ACCOUNT_NOT_FOUND);
+        expect(inferFailureCode('Request timed out')).toBe(VerificationFailureCode.TIMEOUT);
+        expect(inferFailureCode('Something broke')).toBe(VerificationFailureCode.PROVIDER_ERROR);
+    });
+});
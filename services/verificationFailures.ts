@@ -0,0 +1,105 @@
+import { AccountDetails, ProviderAttempt, VerificationFailureCode, VerificationResultData } from '../types';
+
+interface FailureCodeInfo {
+    label: string;
+    retryable: boolean;
+    defaultMessage: string;
+}
+
+export const FAILURE_CODE_INFO: Record<VerificationFailureCode, FailureCodeInfo> = {
+    [VerificationFailureCode.INVALID_NUBAN]: { label: 'Invalid account number', retryable: false, defaultMessage: 'Invalid account number.' },
+    [VerificationFailureCode.INVALID_BVN]: { label: 'Invalid BVN', retryable: false, defaultMessage: 'Invalid BVN. BVN must be 11 digits.' },
+    [VerificationFailureCode.INVALID_NAME]: { label: 'Invalid name', retryable: false, defaultMessage: 'Beneficiary name seems invalid.' },
+    [VerificationFailureCode.UNKNOWN_BANK]: { label: 'Unknown bank', retryable: false, defaultMessage: 'The selected bank is not recognised.' },
+    [VerificationFailureCode.ACCOUNT_NOT_FOUND]: { label: 'Account not found', retryable: false, defaultMessage: 'Account not found at the selected bank.' },
+    [VerificationFailureCode.BVN_MISMATCH]: { label: 'BVN mismatch', retryable: false, defaultMessage: 'BVN does not match records.' },
+    [VerificationFailureCode.NAME_MISMATCH]: { label: 'Name mismatch', retryable: false, defaultMessage: 'The registered account name does not match the beneficiary name.' },
+    [VerificationFailureCode.BANK_OFFLINE]: { label: 'Bank offline', retryable: true, defaultMessage: 'The beneficiary bank is not available. Please try again later.' },
+    [VerificationFailureCode.PROVIDER_ERROR]: { label: 'Service error', retryable: true, defaultMessage: 'The verification service is currently unavailable. Please try again later.' },
+    [VerificationFailureCode.TIMEOUT]: { label: 'Timed out', retryable: true, defaultMessage: 'The verification request timed out. Please try again later.' },
+    [VerificationFailureCode.DUPLICATE]: { label: 'Duplicate', retryable: false, defaultMessage: 'This account appears more than once in the batch.' },
+    [VerificationFailureCode.UNREADABLE_ROW]: { label: 'Unreadable row', retryable: false, defaultMessage: 'The row could not be read cleanly from the file.' },
+    [VerificationFailureCode.NOT_VERIFIED]: { label: 'Not verified', retryable: true, defaultMessage: 'The run stopped before this row was verified.' },
+};
+
+/**
+ * Error thrown by providers when a call fails before producing a result.
+ */
+export class VerificationError extends Error {
+    code: VerificationFailureCode;
+    // Whether the same call may succeed if tried again: timeouts, network errors, HTTP 429 and 5xx.
+    transient: boolean;
+    // The provider calls made before giving up, set by the retry policy.
+    attempts?: ProviderAttempt[];
+
+    constructor(code: VerificationFailureCode, message: string = FAILURE_CODE_INFO[code].defaultMessage, transient: boolean = code === VerificationFailureCode.TIMEOUT) {
+        super(message);
+        this.name = 'VerificationError';
+        this.code = code;
+        this.transient = transient;
+    }
+}
+
+/**
+ * Builds a failed verification result for a failure code.
+ * @param code The failure code.
+ * @param data The submitted account details.
+ * @param message A specific message; defaults to the code's standard message.
+ * @returns The failed result.
+ */
+export const createFailure = (code: VerificationFailureCode, data: AccountDetails | null, message?: string): VerificationResultData => ({
+    success: false,
+    message: message || FAILURE_CODE_INFO[code].defaultMessage,
+    data,
+    failureCode: code,
+    retryable: FAILURE_CODE_INFO[code].retryable,
+});
+
+/**
+ * Turns an error thrown while verifying into a failed result, keeping its code when it has one.
+ * @param error The caught error.
+ * @param data The submitted account details.
+ * @returns The failed result.
+ */
+export const failureFromError = (error: unknown, data: AccountDetails | null): VerificationResultData => {
+    if (error instanceof VerificationError) {
+        const failure = createFailure(error.code, data, error.message);
+        return error.attempts ? { ...failure, providerAttempts: error.attempts } : failure;
+    }
+    const message = error instanceof Error ? error.message : 'An unknown error occurred.';
+    return createFailure(VerificationFailureCode.PROVIDER_ERROR, data, message);
+};
+
+/**
+ * Guesses the failure code of a free-text failure message, for providers that do not return one.
+ * @param message The failure message.
+ * @returns The most likely failure code.
+ */
+export const inferFailureCode = (message: string): VerificationFailureCode => {
+    const text = message.toLowerCase();
+    if (text.includes('bvn')) {
+        return /digit|invalid bvn/.test(text) ? VerificationFailureCode.INVALID_BVN : VerificationFailureCode.BVN_MISMATCH;
+    }
+    if (text.includes('name')) return VerificationFailureCode.INVALID_NAME;
+    if (text.includes('not found') || text.includes('non-existent')) return VerificationFailureCode.ACCOUNT_NOT_FOUND;
+    if (text.includes('account')) {
+        return text.includes('digit') ? VerificationFailureCode.INVALID_NUBAN : VerificationFailureCode.ACCOUNT_NOT_FOUND;
+    }
+    if (text.includes('timed out') || text.includes('timeout')) return VerificationFailureCode.TIMEOUT;
+    return VerificationFailureCode.PROVIDER_ERROR;
+};
+
+/**
+ * Whether a failure means the bank reported itself, or was reported, as unavailable, rather than anything about the account.
+ * Timeouts do not count: a slow provider would otherwise mark healthy banks offline.
+ * @param code The failure code, if any.
+ */
+export const isBankUnavailableFailure = (code: VerificationFailureCode | undefined): boolean =>
+    code === VerificationFailureCode.BANK_OFFLINE;
+
+/**
+ * Whether a failure says nothing about the bank either way, because the provider failed or did not answer in time.
+ * @param code The failure code, if any.
+ */
+export const isProviderFailure = (code: VerificationFailureCode | undefined): boolean =>
+    code === VerificationFailureCode.PROVIDER_ERROR || code === VerificationFailureCode.TIMEOUT;
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AccountDetails, ProviderAttempt, VerificationFailureCode } from '../types';
+import { getVerificationProvider, verifyAccountDetails } from './verificationService';
+
+const account: AccountDetails = { beneficiaryName: 'John Doe', bankName: 'Access Bank', accountNumber: '1234567895', bvn: '22123458901' };
+
+const serverAttempts: ProviderAttempt[] = [
+    { attempt: 1, startedAt: 0, durationMs: 20000, outcome: 'timeout' },
+    { attempt: 2, startedAt: 20500, durationMs: 300, outcome: 'success' },
+];
+
+const jsonResponse = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('verifyAccountDetails with the verification server', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        // The provider is created from these on first use and kept for the rest of the file
+        process.env.VERIFICATION_PROVIDER = 'api';
+        process.env.VERIFICATION_SERVER_URL = 'http://verification.test';
+        process.env.VERIFICATION_SERVER_API_KEY = 'test-key-0123456789';
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps the attempts the server made', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(200, {
+            success: true, message: 'Verified.', data: account, registeredName: 'John Doe', providerAttempts: serverAttempts,
+        }));
+        const result = await verifyAccountDetails(account);
+        expect(getVerificationProvider().id).toBe('api');
+        expect(result.success).toBe(true);
+        expect(result.providerAttempts).toEqual(serverAttempts);
+    });
+
+    it('reports the provider that answered behind the server, and local for a check-digit rejection', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(200, { success: true, message: 'Verified.', data: account, provider: 'gemini' }));
+        expect((await verifyAccountDetails(account)).provider).toBe('gemini');
+
+        fetchMock.mockResolvedValue(jsonResponse(200, { success: true, message: 'Verified.', data: account }));
+        expect((await verifyAccountDetails(account)).provider).toBe('api');
+
+        fetchMock.mockClear();
+        const rejected = await verifyAccountDetails({ ...account, accountNumber: '1234567890' });
+        expect(rejected).toMatchObject({ failureCode: VerificationFailureCode.INVALID_NUBAN, provider: 'local' });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('sends the API key and an abort signal with the request', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(200, { success: true, message: 'Verified.', data: account }));
+        await verifyAccountDetails(account);
+        const init = fetchMock.mock.calls[0][1];
+        expect(init.headers.Authorization).toBe('Bearer test-key-0123456789');
+        expect(init.signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('does not retry on top of the server\'s own retries', async () => {
+        fetchMock.mockResolvedValue(jsonResponse(503, { error: 'Busy.' }));
+        await expect(verifyAccountDetails(account)).rejects.toMatchObject({ code: VerificationFailureCode.PROVIDER_ERROR });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
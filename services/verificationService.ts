@@ -0,0 +1,170 @@
+import { AccountDetails, AiBvnMode, NameMatchGrade, VerificationFailureCode, VerificationProvider, VerificationProviderId, VerificationResultData } from '../types';
+import { DEGRADED_VERIFY_TIMEOUT_MS, RETRYING_PROVIDER_MARGIN_MS } from '../constants';
+import { matchNames } from './nameMatcher';
+import { pickMetadata } from './beneficiaryMetadata';
+import { createFailure, isBankUnavailableFailure, isProviderFailure, VerificationError } from './verificationFailures';
+import { recordVerificationProbe } from './bankStatusService';
+import { getBankRoute } from './bankRouting';
+import { getBanks } from './bankRegistry';
+import { validateNuban } from './nubanService';
+import { getCircuitBreaker } from './circuitBreaker';
+import { callWithResilience, CallOutcome, getRetryBudgetMs } from './resilience';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createHttpProvider } from './providers/httpProvider';
+import { createRulesProvider } from './providers/rulesProvider';
+import { createApiProvider } from './providers/apiProvider';
+
+let activeProvider: VerificationProvider | null = null;
+
+/**
+ * Determines which provider to use from the configuration.
+ * The browser build only sees VERIFICATION_SERVER_URL, set to its proxy path, and uses the verification server when it is set.
+ * On the server, VERIFICATION_PROVIDER decides, defaulting to Gemini when an API key is present.
+ * Both fall back to the offline rules engine.
+ * @returns The configured provider id.
+ */
+export const getConfiguredProviderId = (): VerificationProviderId => {
+    const configured = process.env.VERIFICATION_PROVIDER?.trim().toLowerCase();
+    if (configured === 'gemini' || configured === 'rules' || configured === 'http' || configured === 'api') {
+        return configured;
+    }
+    if (process.env.VERIFICATION_SERVER_URL) return 'api';
+    return process.env.GEMINI_API_KEY ? 'gemini' : 'rules';
+};
+
+/**
+ * Reads how BVNs are passed to AI providers. Only masked or omitted values are allowed.
+ * @returns The configured mode, masked by default.
+ */
+export const getConfiguredAiBvnMode = (): AiBvnMode => {
+    return process.env.AI_BVN_MODE?.trim().toLowerCase() === 'omitted' ? 'omitted' : 'masked';
+};
+
+/**
+ * Creates a provider instance by id.
+ * @param id The provider to create.
+ * @returns The verification provider.
+ */
+export const createVerificationProvider = (id: VerificationProviderId): VerificationProvider => {
+    switch (id) {
+        case 'gemini':
+            return createGeminiProvider(process.env.GEMINI_MODEL || undefined, getConfiguredAiBvnMode());
+        case 'http':
+            if (!process.env.VERIFICATION_API_URL) {
+                throw new Error("VERIFICATION_API_URL must be set to use the HTTP verification provider.");
+            }
+            return createHttpProvider({
+                baseUrl: process.env.VERIFICATION_API_URL,
+                apiKey: process.env.VERIFICATION_API_KEY || undefined,
+            });
+        case 'api':
+            if (!process.env.VERIFICATION_SERVER_URL) {
+                throw new Error("VERIFICATION_SERVER_URL must be set to use the verification server.");
+            }
+            // The browser build has no key; its requests go through a same-origin proxy that adds it
+            return createApiProvider(process.env.VERIFICATION_SERVER_URL, process.env.VERIFICATION_SERVER_API_KEY || undefined);
+        case 'rules':
+        default:
+            return createRulesProvider();
+    }
+};
+
+/**
+ * Returns the provider selected by configuration, creating it on first use.
+ * @returns The active verification provider.
+ */
+export const getVerificationProvider = (): VerificationProvider => {
+    if (!activeProvider) {
+        activeProvider = createVerificationProvider(getConfiguredProviderId());
+    }
+    return activeProvider;
+};
+
+/**
+ * Grades the submitted beneficiary name against the registered name returned by the provider.
+ * A successful lookup whose names do not match is reported as a failed verification.
+ * @param details The submitted account details.
+ * @param result The provider's result.
+ * @returns The result with name match fields set.
+ */
+export const applyNameMatch = (details: AccountDetails, result: VerificationResultData): VerificationResultData => {
+    const registeredName = result.data?.beneficiaryName;
+    if (!registeredName) {
+        return result;
+    }
+    const { grade, score } = matchNames(details.beneficiaryName, registeredName);
+    const matched: VerificationResultData = { ...result, registeredName, nameMatchGrade: grade, nameMatchScore: score };
+    if (result.success && grade === NameMatchGrade.MISMATCH) {
+        return {
+            ...matched,
+            ...createFailure(
+                VerificationFailureCode.NAME_MISMATCH,
+                matched.data,
+                `The account is registered to "${registeredName}", which does not match "${details.beneficiaryName}".`
+            ),
+        };
+    }
+    return matched;
+};
+
+const formatRetryTime = (retryAt: number | null): string =>
+    retryAt === null ? 'shortly' : `at ${new Date(retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`;
+
+// The bank's breaker only counts outcomes that say something about the bank, as for health probes.
+const judgeBankOutcome = (outcome: CallOutcome<VerificationResultData>) => {
+    const code = outcome.ok ? outcome.value.failureCode : outcome.error.code;
+    if (isBankUnavailableFailure(code)) return 'failure';
+    return isProviderFailure(code) ? 'neutral' : 'success';
+};
+
+/**
+ * Verifies account details with the configured provider and grades the beneficiary name.
+ * Calls time out, transient errors are retried with backoff, and circuit breakers for the provider and the bank
+ * stop calls after repeated failures. Each call's latency and outcome is recorded as a health probe for the bank.
+ * Account numbers that fail the NUBAN check digit are rejected before any provider call.
+ * @param details The account details to verify.
+ * @param timeoutMs How long to wait for each call; defaults to the bank's route, which allows longer for degraded banks.
+ * @returns The verification result, with every provider attempt.
+ * @throws {VerificationError} The last error, with every attempt attached, if no call produced a result.
+ */
+export const verifyAccountDetails = async (details: AccountDetails, timeoutMs?: number): Promise<VerificationResultData> => {
+    const nubanResult = validateNuban(details.accountNumber, details.bankName, getBanks());
+    if (!nubanResult.isValid) {
+        return { ...createFailure(VerificationFailureCode.INVALID_NUBAN, details, nubanResult.message), provider: 'local' };
+    }
+    const provider = getVerificationProvider();
+    const { value, attempts } = await callWithResilience(signal => provider.verify(details, signal), {
+        // Retrying on top of a provider that retries would multiply the calls made for each row, and
+        // giving up before it has finished would abandon calls still in progress, so wait for all of them.
+        // The server may route the bank as degraded even when this side does not, so allow for the longest timeout.
+        ...(provider.retriesCalls
+            ? { timeoutMs: getRetryBudgetMs(Math.max(timeoutMs ?? 0, DEGRADED_VERIFY_TIMEOUT_MS)) + RETRYING_PROVIDER_MARGIN_MS, retry: { maxAttempts: 1 } }
+            : { timeoutMs: timeoutMs ?? getBankRoute(details.bankName).timeoutMs }),
+        circuits: [
+            {
+                breaker: getCircuitBreaker('provider', provider.displayName),
+                openError: retryAt => new VerificationError(
+                    VerificationFailureCode.PROVIDER_ERROR,
+                    `The verification service has failed repeatedly, so calls are paused. It will be tried again ${formatRetryTime(retryAt)}.`
+                ),
+            },
+            {
+                breaker: getCircuitBreaker('bank', details.bankName),
+                judge: judgeBankOutcome,
+                openError: retryAt => new VerificationError(
+                    VerificationFailureCode.BANK_OFFLINE,
+                    `${details.bankName} has not responded to repeated calls, so calls are paused. It will be tried again ${formatRetryTime(retryAt)}.`
+                ),
+            },
+        ],
+        onAttempt: (attempt, outcome) => {
+            recordVerificationProbe(details.bankName, attempt.durationMs, outcome.ok ? outcome.value.failureCode : outcome.error.code);
+        },
+    });
+    const result = applyNameMatch(details, value);
+    // Providers echo their own copy of the details; keep the program and location submitted with them
+    // A provider that retries reports its own attempts, which say more than the one call made to it
+    const providerAttempts = provider.retriesCalls && value.providerAttempts?.length ? value.providerAttempts : attempts;
+    // The verification server reports which of its providers answered
+    return { ...result, data: result.data && { ...result.data, ...pickMetadata(details) }, providerAttempts, provider: value.provider ?? provider.id };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { createXlsxWorkbook, openXlsxWorkbook } from './xlsx';
+import { createZipArchive, openZipArchive } from './zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// A workbook laid out the way Excel writes one: shared strings, cell references and a zero-padded number format.
+const excelStyleWorkbook = (): Blob => new Blob([createZipArchive([
+    {
+        name: '_rels/.rels',
+        data: encode('<Relationships><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>'),
+    },
+    {
+        name: 'xl/workbook.xml',
+        data: encode('<workbook><sheets><sheet name="Staff" sheetId="1" r:id="rId1"/></sheets></workbook>'),
+    },
+    {
+        name: 'xl/_rels/workbook.xml.rels',
+        data: encode('<Relationships>'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+            + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings" Target="sharedStrings.xml"/>'
+            + '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+            + '</Relationships>'),
+    },
+    {
+        name: 'xl/sharedStrings.xml',
+        data: encode('<sst><si><t>beneficiaryName</t></si><si><t>accountNumber</t></si><si><t>bvn</t></si>'
+            + '<si><r><t>Ada </t></r><r><t>Lovelace &amp; Co</t></r></si></sst>'),
+    },
+    {
+        name: 'xl/styles.xml',
+        data: encode('<styleSheet><numFmts><numFmt numFmtId="164" formatCode="0000000000"/></numFmts>'
+            + '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>'),
+    },
+    {
+        name: 'xl/worksheets/sheet1.xml',
+        data: encode('<worksheet><sheetData>'
+            + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+            + '<row r="3"><c r="A3" t="s"><v>3</v></c><c r="B3" s="1"><v>123456789</v></c><c r="C3"><v>22123458901</v></c></row>'
+            + '<row r="4"><c r="A4" t="inlineStr"><is><t>John Doe</t></is></c><c r="C4" t="e"><v>#N/A</v></c></row>'
+            + '</sheetData></worksheet>'),
+    },
+])]);
+
+describe('openXlsxWorkbook', () => {
+    it('reads shared strings, padded numbers and long identifiers as text', async () => {
+        const workbook = await openXlsxWorkbook(excelStyleWorkbook());
+        expect(workbook.sheetNames).toEqual(['Staff']);
+        const sheet = await workbook.readSheet('Staff');
+        expect(sheet.header).toEqual({ line: 1, values: ['beneficiaryName', 'accountNumber', 'bvn'] });
+        expect(sheet.rows[0]).toEqual({ line: 3, values: ['Ada Lovelace & Co', '0123456789', '22123458901'] });
+    });
+
+    it('fills skipped cells and reports Excel errors with the cell', async () => {
+        const sheet = await (await openXlsxWorkbook(excelStyleWorkbook())).readSheet('Staff');
+        expect(sheet.rows[1].values).toEqual(['John Doe', '', '#N/A']);
+        expect(sheet.errors).toEqual([{ line: 4, column: 3, message: 'Cell C4 contains the Excel error #N/A.' }]);
+    });
+
+    it('rejects files that are not workbooks', async () => {
+        await expect(openXlsxWorkbook(new Blob(['name,bank']))).rejects.toThrow('not a valid ZIP archive');
+        await expect(openXlsxWorkbook(new Blob([createZipArchive([{ name: 'readme.txt', data: encode('hi') }])]))).rejects.toThrow('not an Excel workbook');
+        await expect((await openXlsxWorkbook(excelStyleWorkbook())).readSheet('Missing')).rejects.toThrow('no sheet named "Missing"');
+    });
+});
+
+describe('createXlsxWorkbook', () => {
+    it('writes workbooks the reader can open again, keeping leading zeros', async () => {
+        const blob = createXlsxWorkbook([
+            {
+                name: 'Results',
+                columns: [{ header: 'Name' }, { header: 'Account Number', text: true }, { header: 'Score' }],
+                rows: [['Ada <Lovelace>', '0012345678', 0.92], ['John Doe', '0123456789', null]],
+            },
+            { name: 'Summary', columns: [{ header: 'Total' }], rows: [[2]] },
+        ]);
+        const workbook = await openXlsxWorkbook(blob);
+        expect(workbook.sheetNames).toEqual(['Results', 'Summary']);
+        const sheet = await workbook.readSheet('Results');
+        expect(sheet.header?.values).toEqual(['Name', 'Account Number', 'Score']);
+        expect(sheet.rows.map(row => row.values)).toEqual([['Ada <Lovelace>', '0012345678', '0.92'], ['John Doe', '0123456789', '']]);
+    });
+});
+
+describe('zip archives', () => {
+    it('reads back the entries it writes', async () => {
+        const archive = openZipArchive(createZipArchive([
+            { name: 'a.txt', data: encode('first') },
+            { name: 'folder/ü.txt', data: encode('second') },
+        ]).buffer as ArrayBuffer);
+        expect(archive.names).toEqual(['a.txt', 'folder/ü.txt']);
+        expect(new TextDecoder().decode((await archive.read('folder/ü.txt'))!)).toBe('second');
+        expect(await archive.read('missing.txt')).toBeNull();
+    });
+});
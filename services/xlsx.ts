@@ -0,0 +1,365 @@
+import { CsvError, CsvRow, TabularData } from './csvReader';
+import { createZipArchive, openZipArchive, ZipArchive } from './zip';
+
+export interface XlsxWorkbook {
+    sheetNames: string[];
+    readSheet: (name: string) => Promise<TabularData>;
+}
+
+export type XlsxCellValue = string | number | null;
+
+export interface XlsxColumn {
+    header: string;
+    // Approximate width in characters.
+    width?: number;
+    // Formats the column as text so Excel keeps leading zeros when the cell is edited.
+    text?: boolean;
+}
+
+export interface XlsxSheet {
+    name: string;
+    columns: XlsxColumn[];
+    rows: XlsxCellValue[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const RELATIONSHIP_TYPES = {
+    officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+    worksheet: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet',
+    sharedStrings: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/sharedStrings',
+    styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+};
+
+// Style indexes in the generated styles part.
+const STYLE_TEXT = 1;
+const STYLE_HEADER = 2;
+
+// ---- Reading ----
+
+const decodeXml = (text: string): string => {
+    return text
+        .replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+            switch (entity) {
+                case 'lt': return '<';
+                case 'gt': return '>';
+                case 'amp': return '&';
+                case 'quot': return '"';
+                case 'apos': return "'";
+                default:
+                    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+            }
+        })
+        // Characters not allowed in XML are written as _xHHHH_ in spreadsheet text.
+        .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        // Drop namespace prefixes: r:id → id
+        const name = match[1].includes(':') ? match[1].split(':')[1] : match[1];
+        attributes[name] = decodeXml(match[2] ?? match[3]);
+    }
+    return attributes;
+};
+
+const findElements = (xml: string, tag: string): { attributes: Record<string, string>; body: string }[] => {
+    const pattern = new RegExp(`<(?:\\w+:)?${tag}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g');
+    return Array.from(xml.matchAll(pattern), match => ({
+        attributes: parseAttributes(match[1] ?? ''),
+        body: match[2] ?? '',
+    }));
+};
+
+// Concatenates the text runs of a string item, skipping phonetic guides.
+const readRichText = (body: string): string => {
+    const withoutPhonetics = body.replace(/<(?:\w+:)?rPh[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+    return findElements(withoutPhonetics, 't').map(t => decodeXml(t.body)).join('');
+};
+
+const resolvePartPath = (basePart: string, target: string): string => {
+    if (target.startsWith('/')) return target.slice(1);
+    const segments = basePart.split('/').slice(0, -1);
+    target.split('/').forEach(segment => {
+        if (segment === '..') segments.pop();
+        else if (segment !== '.') segments.push(segment);
+    });
+    return segments.join('/');
+};
+
+const readRelationships = async (zip: ZipArchive, part: string): Promise<{ id: string; type: string; target: string }[]> => {
+    const slash = part.lastIndexOf('/');
+    const relsPath = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+    const xml = await readText(zip, relsPath);
+    if (!xml) return [];
+    return findElements(xml, 'Relationship').map(({ attributes }) => ({
+        id: attributes.Id,
+        type: attributes.Type,
+        target: attributes.TargetMode === 'External' ? attributes.Target : resolvePartPath(part, attributes.Target),
+    }));
+};
+
+const readText = async (zip: ZipArchive, path: string): Promise<string | null> => {
+    const data = await zip.read(path);
+    return data ? new TextDecoder().decode(data) : null;
+};
+
+/**
+ * Column index (0-based) from a cell reference such as "C12".
+ */
+const columnIndexFromReference = (reference: string): number => {
+    let index = 0;
+    for (const char of reference.toUpperCase()) {
+        if (char < 'A' || char > 'Z') break;
+        index = index * 26 + (char.charCodeAt(0) - 64);
+    }
+    return index - 1;
+};
+
+const columnLetter = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+};
+
+/**
+ * Reads the zero padding implied by each cell style, e.g. a "0000000000" format keeps account numbers
+ * stored as numbers at ten digits.
+ * @returns The padded width for each style index, or 0 when the style does not pad.
+ */
+const readZeroPaddedStyles = (stylesXml: string | null): number[] => {
+    if (!stylesXml) return [];
+    const formats = new Map<string, string>();
+    findElements(stylesXml, 'numFmt').forEach(({ attributes }) => formats.set(attributes.numFmtId, attributes.formatCode));
+    const cellXfs = findElements(stylesXml, 'cellXfs')[0];
+    if (!cellXfs) return [];
+    return findElements(cellXfs.body, 'xf').map(({ attributes }) => {
+        const code = formats.get(attributes.numFmtId) ?? '';
+        return /^0+$/.test(code) ? code.length : 0;
+    });
+};
+
+const formatNumber = (raw: string, padding: number): string => {
+    const value = Number(raw);
+    if (!Number.isFinite(value)) return raw;
+    // Avoid exponent notation for long identifiers such as BVNs.
+    const text = Number.isInteger(value) && Math.abs(value) < 1e21 ? value.toFixed(0) : String(value);
+    return padding > 0 && Number.isInteger(value) && value >= 0 ? text.padStart(padding, '0') : text;
+};
+
+/**
+ * Opens an Excel workbook (.xlsx). Sheets are parsed on demand; the first non-empty row of a sheet
+ * is treated as its header, and cells are returned as text the same way the CSV reader returns them.
+ * @param file The workbook file.
+ * @returns The sheet names, in workbook order, and a reader for each sheet.
+ * @throws An error if the file is not a readable .xlsx workbook.
+ */
+export const openXlsxWorkbook = async (file: Blob): Promise<XlsxWorkbook> => {
+    const zip = openZipArchive(await file.arrayBuffer());
+
+    const rootRelationships = await readRelationships(zip, '');
+    const workbookPath = rootRelationships.find(r => r.type === RELATIONSHIP_TYPES.officeDocument)?.target ?? 'xl/workbook.xml';
+    const workbookXml = await readText(zip, workbookPath);
+    if (!workbookXml) {
+        throw new Error('The file is not an Excel workbook.');
+    }
+
+    const relationships = await readRelationships(zip, workbookPath);
+    const sheets = findElements(workbookXml, 'sheet').map(({ attributes }) => ({
+        name: attributes.name,
+        path: relationships.find(r => r.id === attributes.id && r.type === RELATIONSHIP_TYPES.worksheet)?.target,
+    }));
+
+    const sharedStringsPath = relationships.find(r => r.type === RELATIONSHIP_TYPES.sharedStrings)?.target;
+    const sharedStringsXml = sharedStringsPath ? await readText(zip, sharedStringsPath) : null;
+    const sharedStrings = sharedStringsXml ? findElements(sharedStringsXml, 'si').map(si => readRichText(si.body)) : [];
+
+    const stylesPath = relationships.find(r => r.type === RELATIONSHIP_TYPES.styles)?.target;
+    const zeroPadding = readZeroPaddedStyles(stylesPath ? await readText(zip, stylesPath) : null);
+
+    const readSheet = async (name: string): Promise<TabularData> => {
+        const sheet = sheets.find(s => s.name === name);
+        const xml = sheet?.path ? await readText(zip, sheet.path) : null;
+        if (xml === null) {
+            throw new Error(`The workbook has no sheet named "${name}".`);
+        }
+
+        const result: TabularData = { header: null, rows: [], errors: [] };
+        const sheetData = findElements(xml, 'sheetData')[0]?.body ?? '';
+        let nextRowNumber = 1;
+
+        findElements(sheetData, 'row').forEach(({ attributes: rowAttributes, body }) => {
+            const rowNumber = rowAttributes.r ? Number(rowAttributes.r) : nextRowNumber;
+            nextRowNumber = rowNumber + 1;
+            const values: string[] = [];
+            const errors: CsvError[] = [];
+            let nextColumn = 0;
+
+            findElements(body, 'c').forEach(({ attributes, body: cellBody }) => {
+                const column = attributes.r ? columnIndexFromReference(attributes.r) : nextColumn;
+                nextColumn = column + 1;
+                const raw = decodeXml(findElements(cellBody, 'v')[0]?.body ?? '');
+                let value: string;
+                switch (attributes.t) {
+                    case 's':
+                        value = sharedStrings[Number(raw)] ?? '';
+                        break;
+                    case 'inlineStr':
+                        value = readRichText(findElements(cellBody, 'is')[0]?.body ?? '');
+                        break;
+                    case 'b':
+                        value = raw === '1' ? 'TRUE' : 'FALSE';
+                        break;
+                    case 'e':
+                        value = raw;
+                        errors.push({ line: rowNumber, column: column + 1, message: `Cell ${columnLetter(column)}${rowNumber} contains the Excel error ${raw}.` });
+                        break;
+                    case 'str':
+                    case 'd':
+                        value = raw;
+                        break;
+                    default:
+                        value = raw ? formatNumber(raw, zeroPadding[Number(attributes.s ?? 0)] ?? 0) : '';
+                }
+                while (values.length < column) values.push('');
+                values[column] = value.trim();
+            });
+
+            if (!values.some(value => value)) return;
+            const row: CsvRow = { line: rowNumber, values };
+            if (!result.header) {
+                // Drop trailing blank header cells so they don't count as columns.
+                while (values.length > 0 && !values[values.length - 1]) values.pop();
+                result.header = row;
+                return;
+            }
+            // Excel omits trailing empty cells; pad to the header width so every row has the same shape.
+            while (values.length < result.header.values.length) values.push('');
+            while (values.length > result.header.values.length && !values[values.length - 1]) values.pop();
+            result.rows.push(row);
+            result.errors.push(...errors);
+        });
+
+        return result;
+    };
+
+    return { sheetNames: sheets.map(s => s.name), readSheet };
+};
+
+/**
+ * Checks whether a file looks like an Excel workbook rather than a CSV file.
+ * @param file The uploaded file.
+ */
+export const isXlsxFile = (file: File): boolean => {
+    return file.type === XLSX_MIME_TYPE || /\.xlsx$/i.test(file.name);
+};
+
+// ---- Writing ----
+
+const escapeXml = (text: string): string => {
+    return text
+        // Control characters other than tab and line breaks are not allowed in XML.
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+};
+
+const sanitizeSheetName = (name: string, index: number): string => {
+    const cleaned = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+    return cleaned || `Sheet${index + 1}`;
+};
+
+const writeCell = (reference: string, value: XlsxCellValue, style: number): string => {
+    const styleAttribute = style ? ` s="${style}"` : '';
+    if (value === null || value === '') {
+        return style ? `<c r="${reference}"${styleAttribute}/>` : '';
+    }
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : '';
+    }
+    return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const writeWorksheet = (sheet: XlsxSheet): string => {
+    const cols = sheet.columns
+        .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(10, column.header.length + 2)}" customWidth="1"${column.text ? ` style="${STYLE_TEXT}"` : ''}/>`)
+        .join('');
+    const headerRow = `<row r="1">${sheet.columns.map((column, index) => writeCell(`${columnLetter(index)}1`, column.header, STYLE_HEADER)).join('')}</row>`;
+    const dataRows = sheet.rows.map((row, rowIndex) => {
+        const rowNumber = rowIndex + 2;
+        const cells = row.map((value, index) => writeCell(`${columnLetter(index)}${rowNumber}`, value, sheet.columns[index]?.text ? STYLE_TEXT : 0));
+        return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + (cols ? `<cols>${cols}</cols>` : '')
+        + `<sheetData>${headerRow}${dataRows.join('')}</sheetData>`
+        + '</worksheet>';
+};
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="3">'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="49" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + '</cellXfs>'
+    + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+    + '</styleSheet>';
+
+/**
+ * Writes an Excel workbook (.xlsx). Strings are written as inline text and numbers as numbers;
+ * columns marked as text use Excel's text format so values such as account numbers keep their leading zeros.
+ * @param sheets The sheets to write, in tab order.
+ * @returns The workbook file contents.
+ */
+export const createXlsxWorkbook = (sheets: XlsxSheet[]): Blob => {
+    const encoder = new TextEncoder();
+    const names = sheets.map((sheet, index) => sanitizeSheetName(sheet.name, index));
+
+    const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>';
+
+    const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES.officeDocument}" Target="xl/workbook.xml"/>`
+        + '</Relationships>';
+
+    const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>`
+        + '</workbook>';
+
+    const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_TYPES.worksheet}" Target="worksheets/sheet${index + 1}.xml"/>`).join('')
+        + `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIP_TYPES.styles}" Target="styles.xml"/>`
+        + '</Relationships>';
+
+    const zip = createZipArchive([
+        { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+        { name: '_rels/.rels', data: encoder.encode(rootRels) },
+        { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+        { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+        { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+        ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: encoder.encode(writeWorksheet(sheet)) })),
+    ]);
+    return new Blob([zip], { type: XLSX_MIME_TYPE });
+};
@@ -0,0 +1,168 @@
+export interface ZipArchive {
+    names: string[];
+    // Resolves to null when the archive has no entry with that name.
+    read: (name: string) => Promise<Uint8Array | null>;
+}
+
+export interface ZipFileEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// The end record is 22 bytes plus a comment of up to 65535 bytes.
+const MAX_END_RECORD_SEARCH = 22 + 0xFFFF;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Opens a ZIP archive held in memory. Only stored and deflated entries are supported,
+ * which covers files written by Excel, LibreOffice and Google Sheets.
+ * @param buffer The archive bytes.
+ * @returns The archive's entry names and a reader for each entry.
+ * @throws An error if the bytes are not a readable ZIP archive.
+ */
+export const openZipArchive = (buffer: ArrayBuffer): ZipArchive => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    let endRecord = -1;
+    const searchStart = Math.max(0, bytes.length - MAX_END_RECORD_SEARCH);
+    for (let i = bytes.length - 22; i >= searchStart; i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endRecord = i;
+            break;
+        }
+    }
+    if (endRecord === -1) {
+        throw new Error('The file is not a valid ZIP archive.');
+    }
+
+    const entryCount = view.getUint16(endRecord + 10, true);
+    let offset = view.getUint32(endRecord + 16, true);
+    if (offset === 0xFFFFFFFF) {
+        throw new Error('ZIP64 archives are not supported.');
+    }
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, { method: number; compressedSize: number; localOffset: number }>();
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('The ZIP archive directory is corrupt.');
+        }
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localOffset: view.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const read = async (name: string): Promise<Uint8Array | null> => {
+        const entry = entries.get(name);
+        if (!entry) return null;
+        if (view.getUint32(entry.localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`The ZIP entry "${name}" is corrupt.`);
+        }
+        const dataStart = entry.localOffset + 30
+            + view.getUint16(entry.localOffset + 26, true)
+            + view.getUint16(entry.localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+        if (entry.method === METHOD_STORED) return data;
+        if (entry.method === METHOD_DEFLATE) return inflateRaw(data);
+        throw new Error(`The ZIP entry "${name}" uses an unsupported compression method (${entry.method}).`);
+    };
+
+    return { names: Array.from(entries.keys()), read };
+};
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed.
+ * @param files The entries to write, in order.
+ * @returns The archive bytes.
+ */
+export const createZipArchive = (files: ZipFileEntry[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const now = new Date();
+    const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+    const prepared = files.map(file => ({ ...file, nameBytes: encoder.encode(file.name), crc: crc32(file.data) }));
+    const localSize = prepared.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0);
+    const centralSize = prepared.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0);
+    const output = new Uint8Array(localSize + centralSize + 22);
+    const view = new DataView(output.buffer);
+
+    // Fields shared by the local and central headers, from "version needed" to the name length.
+    const writeCommonFields = (offset: number, file: typeof prepared[number]) => {
+        view.setUint16(offset, 20, true);
+        view.setUint16(offset + 2, 0x0800, true); // UTF-8 names
+        view.setUint16(offset + 4, METHOD_STORED, true);
+        view.setUint16(offset + 6, dosTime, true);
+        view.setUint16(offset + 8, dosDate, true);
+        view.setUint32(offset + 10, file.crc, true);
+        view.setUint32(offset + 14, file.data.length, true);
+        view.setUint32(offset + 18, file.data.length, true);
+        view.setUint16(offset + 22, file.nameBytes.length, true);
+    };
+
+    let offset = 0;
+    const localOffsets: number[] = [];
+    prepared.forEach(file => {
+        localOffsets.push(offset);
+        view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+        writeCommonFields(offset + 4, file);
+        output.set(file.nameBytes, offset + 30);
+        output.set(file.data, offset + 30 + file.nameBytes.length);
+        offset += 30 + file.nameBytes.length + file.data.length;
+    });
+
+    const centralStart = offset;
+    prepared.forEach((file, index) => {
+        view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+        view.setUint16(offset + 4, 20, true);
+        writeCommonFields(offset + 6, file);
+        view.setUint32(offset + 42, localOffsets[index], true);
+        output.set(file.nameBytes, offset + 46);
+        offset += 46 + file.nameBytes.length;
+    });
+
+    view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 8, prepared.length, true);
+    view.setUint16(offset + 10, prepared.length, true);
+    view.setUint32(offset + 12, offset - centralStart, true);
+    view.setUint32(offset + 16, centralStart, true);
+    return output;
+};
@@ -3,11 +3,50 @@ export enum BankNetworkStatus {
     OPERATIONAL = 'Operational',
     DEGRADED = 'Degraded Performance',
     OFFLINE = 'Offline',
+    // No probe has reached the bank recently, so no status can be derived.
+    UNKNOWN = 'No Recent Data',
+}
+
+export type BankProbeSource = 'verification' | 'endpoint';
+
+/** One observation of a bank's availability. Timestamps are epoch milliseconds to keep the stored history small. */
+export interface BankProbeSample {
+    timestamp: number;
+    ok: boolean;
+    latencyMs: number | null;
+    source: BankProbeSource;
+}
+
+export interface BankProbe {
+    bankName: string;
+    sample: BankProbeSample;
+}
+
+export interface BankIncident {
+    status: BankNetworkStatus.DEGRADED | BankNetworkStatus.OFFLINE;
+    startedAt: number;
+    // Null while the incident is ongoing.
+    endedAt: number | null;
 }
 
 export interface BankStatus {
     name: string;
     status: BankNetworkStatus;
+    // Share of successful probes over the history window, or null without probes.
+    uptime: number | null;
+    averageLatencyMs: number | null;
+    sampleCount: number;
+    lastCheckedAt: number | null;
+    // Most recent first.
+    incidents: BankIncident[];
+    // The latest probes, oldest first, for the timeline.
+    recentSamples: BankProbeSample[];
+}
+
+/** A source of bank probes that is polled on each status refresh. */
+export interface BankStatusSource {
+    id: string;
+    collect: (signal?: AbortSignal) => Promise<BankProbe[]>;
 }
 
 export interface AccountDetails {
@@ -15,15 +54,375 @@ export interface AccountDetails {
     bankName: string;
     accountNumber: string;
     bvn: string;
+    // Bank name as written in the uploaded file, when it differs from the resolved registry name.
+    originalBankName?: string;
+    // Payment columns carried from a bulk upload, used to build payment files.
+    amount?: string;
+    narration?: string;
+    // Branch sort code; NEFT schedules pay to the branch, so they cannot use the bank's head-office code.
+    sortCode?: string;
+    // Program and location the beneficiary is paid under; optional, used to filter and group results.
+    program?: string;
+    state?: string;
+    lga?: string;
+    facilityCode?: string;
+    staffId?: string;
+}
+
+export type BeneficiaryMetadataField = 'program' | 'state' | 'lga' | 'facilityCode' | 'staffId';
+
+export type AccountField = 'beneficiaryName' | 'bankName' | 'accountNumber' | 'bvn';
+
+// Validation message per field; fields without a problem are absent.
+export type AccountFieldErrors = Partial<Record<AccountField, string>>;
+
+export enum NameMatchGrade {
+    EXACT = 'Exact',
+    STRONG = 'Strong',
+    PARTIAL = 'Partial',
+    MISMATCH = 'Mismatch',
+}
+
+export interface NameMatch {
+    grade: NameMatchGrade;
+    // 0 to 1; how closely the submitted name matches the registered account name.
+    score: number;
+}
+
+export enum VerificationFailureCode {
+    INVALID_NUBAN = 'INVALID_NUBAN',
+    INVALID_BVN = 'INVALID_BVN',
+    INVALID_NAME = 'INVALID_NAME',
+    UNKNOWN_BANK = 'UNKNOWN_BANK',
+    ACCOUNT_NOT_FOUND = 'ACCOUNT_NOT_FOUND',
+    BVN_MISMATCH = 'BVN_MISMATCH',
+    NAME_MISMATCH = 'NAME_MISMATCH',
+    BANK_OFFLINE = 'BANK_OFFLINE',
+    PROVIDER_ERROR = 'PROVIDER_ERROR',
+    TIMEOUT = 'TIMEOUT',
+    DUPLICATE = 'DUPLICATE',
+    UNREADABLE_ROW = 'UNREADABLE_ROW',
+    NOT_VERIFIED = 'NOT_VERIFIED',
 }
 
 export interface VerificationResultData {
     success: boolean;
     message: string;
     data: AccountDetails | null;
+    // Set on failures only.
+    failureCode?: VerificationFailureCode;
+    retryable?: boolean;
+    // Set when the details were never sent because the bank was offline.
+    deferred?: boolean;
+    // Every call made to the provider for this result, including retries and calls refused by a circuit breaker.
+    providerAttempts?: ProviderAttempt[];
+    // Unset on failures thrown by a provider call, which come from the configured provider.
+    provider?: VerificationSource;
+    // Account holder name as registered with the bank, when the provider returned one.
+    registeredName?: string;
+    nameMatchGrade?: NameMatchGrade;
+    nameMatchScore?: number;
+    // Set when the result was taken from the beneficiary registry instead of calling the provider.
+    previouslyVerified?: { verifiedAt: string; provider: VerificationProviderId };
+    // How the provider's answer differs from the registry's last verification of the same BVN and account.
+    registryChanges?: BeneficiaryChange[];
+}
+
+/** The last successful verification of a BVN and account number, kept so the same beneficiary is not verified every month. */
+export interface BeneficiaryRecord {
+    // The name the bank holds for the account, or the submitted name if the provider returned none.
+    name: string;
+    bankName: string;
+    verifiedAt: string;
+    provider: VerificationProviderId;
+}
+
+export interface BeneficiaryChange {
+    field: 'name' | 'bank';
+    previous: string;
+    current: string;
+}
+
+export type ProviderAttemptOutcome = 'success' | 'error' | 'timeout' | 'short-circuited';
+
+// One call to a provider within a verification.
+export interface ProviderAttempt {
+    // Starting at 1.
+    attempt: number;
+    startedAt: number;
+    durationMs: number;
+    outcome: ProviderAttemptOutcome;
+    // Set for outcomes other than success.
+    message?: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// What a circuit breaker protects: a verification provider, a bank, or a bank status source.
+export type CircuitScope = 'provider' | 'bank' | 'status-source';
+
+export interface CircuitSnapshot {
+    key: string;
+    scope: CircuitScope;
+    name: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    // When an open circuit lets a trial call through; null unless open.
+    retryAt: number | null;
+}
+
+// A result within a bulk batch, tied to its row so it can be re-verified in place.
+export interface BulkRowResult extends VerificationResultData {
+    // Position of the row in the batch.
+    rowIndex: number;
+    // Number of times the row has been verified, starting at 1.
+    attempts: number;
+}
+
+export enum BankType {
+    COMMERCIAL = 'Commercial',
+    MICROFINANCE = 'Microfinance',
+    MOBILE_MONEY = 'Mobile Money',
 }
 
 export interface BankData {
     name: string;
+    shortName: string;
+    // 3-digit CBN code for deposit money banks, 5-digit code for other financial institutions.
+    cbnCode: string;
+    // 6-digit NIBSS Instant Payment institution code.
+    nipCode: string;
     sortCode: string;
+    aliases: string[];
+    type: BankType;
+}
+
+export interface BankRegistry {
+    version: string;
+    publishedAt: string;
+    banks: BankData[];
+}
+
+// 'api' forwards verifications to this app's own server, which holds the real provider's credentials.
+export type VerificationProviderId = 'gemini' | 'rules' | 'http' | 'api';
+
+// What produced a result: the provider that answered, 'local' for checks made without a provider call,
+// or 'registry' for a result reused from the beneficiary registry.
+export type VerificationSource = VerificationProviderId | 'local' | 'registry';
+
+// How much of a BVN may be sent to a third-party AI model; there is deliberately no option for the full value.
+export type AiBvnMode = 'masked' | 'omitted';
+
+export interface VerificationProvider {
+    id: VerificationProviderId;
+    displayName: string;
+    // The signal is aborted when the caller stops waiting; providers pass it on to their request.
+    verify: (details: AccountDetails, signal?: AbortSignal) => Promise<VerificationResultData>;
+    // Set when the provider times out and retries its own calls, as the verification server does.
+    // Callers then make one attempt and wait for the provider's whole retry budget.
+    retriesCalls?: boolean;
+}
+
+export type BankResolutionStatus = 'resolved' | 'ambiguous' | 'unresolved';
+
+export interface BankResolution {
+    bank: BankData | null;
+    // 0 to 1; 1 means an exact name, alias or code match.
+    confidence: number;
+    status: BankResolutionStatus;
+    candidates: BankData[];
+}
+
+export type BulkJobState = 'idle' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface BulkProgress {
+    state: BulkJobState;
+    total: number;
+    done: number;
+    succeeded: number;
+    failed: number;
+    remaining: number;
+    // Rows held back until their bank is back online; included in remaining.
+    deferred: number;
+    // Estimated milliseconds until the batch finishes, or null until enough rows have completed.
+    etaMs: number | null;
+}
+
+export type BulkJobStatus = 'running' | 'completed' | 'cancelled';
+
+// Draft until every row has a result; the later states come from the approval history.
+export type BatchApprovalState = 'draft' | 'verified' | 'submitted' | 'approved' | 'rejected';
+
+// 'reopened' is recorded when rows of a submitted or approved batch are re-verified, which sends it back for approval.
+export type BatchApprovalAction = 'submitted' | 'approved' | 'rejected' | 'reopened';
+
+export interface BatchApprovalEvent {
+    action: BatchApprovalAction;
+    // For approvals and rejections, the approver whose passphrase was checked.
+    operator: string;
+    at: string;
+    comment?: string;
+}
+
+/** The approver name and passphrase entered to approve or reject a batch. */
+export interface ApproverSignIn {
+    approver: string;
+    passphrase: string;
+}
+
+export interface BulkJobSource {
+    fileName: string;
+    fileSize: number;
+    fileType: string;
+    lastModified: number;
+}
+
+export interface BulkJobRecord {
+    id: string;
+    status: BulkJobStatus;
+    createdAt: string;
+    updatedAt: string;
+    source: BulkJobSource;
+    accounts: AccountDetails[];
+    // Number of rows with a stored result, kept on the job so listing jobs does not load every result.
+    completedCount: number;
+    // Oldest first; jobs saved before approvals existed have none.
+    approvalHistory?: BatchApprovalEvent[];
+}
+
+/** A row verified successfully in an earlier bulk job, used to spot repeat beneficiaries. */
+export interface VerifiedBeneficiary {
+    jobId: string;
+    fileName: string;
+    verifiedAt: string;
+    account: AccountDetails;
+}
+
+export enum RiskRule {
+    // The same BVN on more than one account in the batch.
+    SHARED_BVN = 'SHARED_BVN',
+    // The same BVN under names that do not match.
+    BVN_NAME_CONFLICT = 'BVN_NAME_CONFLICT',
+    // One account receiving for several beneficiaries.
+    SHARED_ACCOUNT = 'SHARED_ACCOUNT',
+    // The BVN or account was verified in an earlier batch for the same person.
+    PREVIOUS_BATCH = 'PREVIOUS_BATCH',
+    // The BVN or account was verified in an earlier batch under another name.
+    PREVIOUS_NAME_CONFLICT = 'PREVIOUS_NAME_CONFLICT',
+}
+
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+export interface RiskSignal {
+    rule: RiskRule;
+    message: string;
+}
+
+export interface RiskAssessment {
+    // 0 to 100, the sum of the weights of the triggered rules.
+    score: number;
+    level: RiskLevel;
+    signals: RiskSignal[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+// How BVNs and account numbers are written to exported files.
+export type PiiExportMode = 'masked' | 'hashed' | 'full';
+
+// NIBSS schedules identify banks by branch sort code (NEFT) or institution code (NIP).
+export type NibssChannel = 'NEFT' | 'NIP';
+
+export type PaymentTemplateField = 'serialNumber' | 'reference' | 'beneficiaryName' | 'accountNumber' | 'bankName' | 'bankCode' | 'sortCode' | 'amount' | 'narration';
+
+export interface PaymentTemplateColumn {
+    field: PaymentTemplateField;
+    // Header text for CSV templates; defaults to the field name.
+    header?: string;
+    // Required for fixed-width templates; longer values are refused rather than cut.
+    width?: number;
+    align?: 'left' | 'right';
+    padChar?: string;
+}
+
+/** A bank's own bulk payment layout, imported as JSON. */
+export interface PaymentTemplate {
+    name: string;
+    kind: 'csv' | 'fixed-width';
+    // CSV only; defaults to a comma.
+    delimiter?: string;
+    includeHeader?: boolean;
+    // Amounts in naira with two decimals (default) or as whole kobo.
+    amountUnit?: 'naira' | 'kobo';
+    columns: PaymentTemplateColumn[];
+}
+
+/** Control totals written to the trailer of every payment file. */
+export interface PaymentFileControl {
+    recordCount: number;
+    totalAmountKobo: number;
+    // Hex SHA-256 of the detail records, so the receiving bank can tell if they were changed.
+    checksum: string;
+}
+
+// 'reveal' records an operator unmasking a BVN on screen.
+// 'vault-reset' records the local data being erased after a forgotten passphrase.
+// 'export' records a results download with hashed or full IDs.
+// 'approval' records a batch being submitted, approved, rejected or reopened.
+export type AuditAction = 'single' | 'bulk' | 'reverify' | 'reveal' | 'vault-reset' | 'export' | 'approval';
+
+export interface AuditLogEntry {
+    // Position in the chain, starting at 1.
+    sequence: number;
+    timestamp: string;
+    operator: string;
+    action: AuditAction;
+    provider: VerificationSource;
+    // Set for bulk and re-verified rows.
+    jobId?: string;
+    rowIndex?: number;
+    input: {
+        beneficiaryName: string;
+        bankName: string;
+        accountNumber: string;
+        // Keyed HMAC-SHA-256 of the BVN; the BVN itself is never stored in the log.
+        bvnHash: string;
+    };
+    outcome: 'success' | 'failure';
+    failureCode?: VerificationFailureCode;
+    message: string;
+    // Hash of the previous entry, or GENESIS_HASH for the first.
+    previousHash: string;
+    // SHA-256 over this entry's other fields, including previousHash.
+    hash: string;
+}
+
+export interface AuditChainStatus {
+    valid: boolean;
+    checked: number;
+    // First entry whose hash or link does not match, when the chain is broken.
+    brokenAt?: number;
+    reason?: string;
+    // Entries sealed with a passphrase that was later reset; their links are checked but not their contents.
+    unreadable?: number;
+}
+
+// Verification server API (see server/openapi.ts)
+
+export interface ApiErrorResponse {
+    error: string;
+    // Problems with individual fields of the request body.
+    details?: string[];
+}
+
+export interface CreateBulkJobRequest {
+    accounts: AccountDetails[];
+}
+
+export interface BulkJobStatusResponse {
+    id: string;
+    createdAt: string;
+    progress: BulkProgress;
+    // One entry per submitted account, in order; null until the row has a result.
+    results: (VerificationResultData | null)[];
 }
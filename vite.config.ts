@@ -1,13 +1,40 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, ProxyOptions } from 'vite';
 
-export default defineConfig(({ mode }) => {
+// Settings that stay on the verification server. The browser build sees them as unset.
+const SERVER_ONLY_ENV = ['GEMINI_API_KEY', 'GEMINI_MODEL', 'AI_BVN_MODE', 'VERIFICATION_PROVIDER', 'VERIFICATION_API_URL', 'VERIFICATION_API_KEY', 'VERIFICATION_SERVER_API_KEY'];
+
+// Same-origin path the browser app calls the verification server through.
+const VERIFICATION_PROXY_PATH = '/verification-api';
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // The proxy adds the server's API key on the way through, so the key never reaches the browser.
+    // Deployments outside `vite`/`vite preview` need a reverse proxy that does the same (see README).
+    const proxy: Record<string, ProxyOptions> = env.VERIFICATION_SERVER_URL ? {
+      [VERIFICATION_PROXY_PATH]: {
+        target: env.VERIFICATION_SERVER_URL,
+        changeOrigin: true,
+        rewrite: requestPath => requestPath.slice(VERIFICATION_PROXY_PATH.length) || '/',
+        headers: { Authorization: `Bearer ${env.VERIFICATION_SERVER_API_KEY}` },
+      },
+    } : {};
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // Only settings that are safe to publish are inlined into the browser bundle; provider credentials
+      // are read at runtime by the verification server. The server build and tests read process.env as it is.
+      define: isSsrBuild || mode === 'test' ? {} : {
+        ...Object.fromEntries(SERVER_ONLY_ENV.map(name => [`process.env.${name}`, 'undefined'])),
+        'process.env.VERIFICATION_SERVER_URL': JSON.stringify(env.VERIFICATION_SERVER_URL ? VERIFICATION_PROXY_PATH : undefined),
+        'process.env.BANK_STATUS_URL': JSON.stringify(env.BANK_STATUS_URL),
+        'process.env.BULK_CONCURRENCY': JSON.stringify(env.BULK_CONCURRENCY),
+        'process.env.BULK_REQUESTS_PER_SECOND': JSON.stringify(env.BULK_REQUESTS_PER_SECOND),
+        'process.env.BATCH_APPROVERS': JSON.stringify(env.BATCH_APPROVERS),
+        'process.env.BENEFICIARY_VALIDITY_DAYS': JSON.stringify(env.BENEFICIARY_VALIDITY_DAYS)
       },
+      server: { proxy },
+      preview: { proxy },
+      // The server and CLI builds bundle their dependencies into one file, so it runs without node_modules
+      ...(isSsrBuild ? { ssr: { noExternal: true }, build: { rollupOptions: { output: { inlineDynamicImports: true } } } } : {}),
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),